@@ -0,0 +1,86 @@
+#!/usr/bin/env tsx
+// Note Quality Calibration Script
+// Scores the hand-graded fixture notes and reports agreement with the rubric
+
+import OpenAI from 'openai';
+import {
+  calibrateScorer,
+  scoreNotesLocally,
+  buildNoteQualityPrompt,
+  parseDimensionScores,
+  QUALITY_DIMENSIONS,
+  type DimensionScores
+} from '../src/services/noteQualityRubric';
+import { NOTE_QUALITY_FIXTURES } from '../src/services/noteQualityFixtures';
+
+// Environment setup
+const openaiKey = process.env.VITE_OPENAI_API_KEY;
+const model = process.env.VITE_OPENAI_MODEL || 'gpt-4o';
+const useModel = process.argv.includes('--model');
+
+const openai = useModel && openaiKey ? new OpenAI({ apiKey: openaiKey }) : null;
+
+// Minimum share of dimension scores that must land within one point of the fixture
+const MIN_WITHIN_ONE = 0.9;
+
+async function scoreWithModel(notes: string, area: string): Promise<DimensionScores> {
+  const completion = await openai!.chat.completions.create({
+    model,
+    messages: [
+      { role: 'system', content: 'You are a strict discovery quality reviewer. Always return valid JSON.' },
+      { role: 'user', content: buildNoteQualityPrompt(notes, area) }
+    ],
+    temperature: 0,
+    response_format: { type: 'json_object' }
+  });
+
+  const parsed = parseDimensionScores(JSON.parse(completion.choices[0]?.message?.content || '{}'));
+  if (!parsed) {
+    console.warn('⚠️ Invalid model response, falling back to local scorer');
+    return scoreNotesLocally(notes);
+  }
+  return parsed;
+}
+
+async function main() {
+  if (useModel && !openai) {
+    console.error('❌ --model requires VITE_OPENAI_API_KEY');
+    process.exit(1);
+  }
+
+  const scorerName = openai ? `model (${model})` : 'local';
+  console.log(`📏 Calibrating ${scorerName} scorer against ${NOTE_QUALITY_FIXTURES.length} fixtures...`);
+
+  const report = await calibrateScorer(
+    openai ? scoreWithModel : (notes) => scoreNotesLocally(notes),
+    NOTE_QUALITY_FIXTURES
+  );
+
+  console.log(`\nExact agreement: ${(report.exactAgreement * 100).toFixed(1)}%`);
+  console.log(`Within one point: ${(report.withinOne * 100).toFixed(1)}%`);
+  console.log('\nMean absolute error by dimension:');
+  for (const dimension of QUALITY_DIMENSIONS) {
+    console.log(`  ${dimension.padEnd(16)} ${report.meanAbsoluteError[dimension].toFixed(2)}`);
+  }
+
+  if (report.misses.length > 0) {
+    console.log('\nMisses (off by more than one point):');
+    report.misses.forEach(miss => {
+      console.log(`  ${miss.id} / ${miss.dimension}: expected ${miss.expected}, got ${miss.actual}`);
+    });
+  }
+
+  if (report.withinOne < MIN_WITHIN_ONE) {
+    console.error(`\n❌ Calibration below threshold (${MIN_WITHIN_ONE * 100}% within one point)`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Scorer is calibrated');
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error('Calibration failed:', error);
+    process.exit(1);
+  });
+}
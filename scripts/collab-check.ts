@@ -0,0 +1,135 @@
+#!/usr/bin/env tsx
+// Collaboration Check
+// Starts a local relay, connects two simulated consultants and checks that concurrent
+// edits converge, presence is shared and the assess lock is exclusive
+
+import WebSocket from 'ws';
+import { startCollabRelay } from './collab-relay';
+import { CollabClient, peerColor, type CollabPeer, type CollabSocket } from '../src/lib/collabClient';
+import { CollabDocument, blockNotesField, currentNotesField } from '../src/lib/collabDocument';
+import type { QuestionBlock } from '../src/types/discovery';
+
+const ROOM = 'collab-check-session';
+const AREA = 'area-pain-points';
+const SETTLE_MS = 150;
+
+interface Consultant {
+  name: string;
+  doc: CollabDocument;
+  client: CollabClient;
+  peers: CollabPeer[];
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const createSocket = (url: string) => new WebSocket(url) as unknown as CollabSocket;
+
+// Mirrors what the session page's collaboration hook does, without React
+async function join(url: string, name: string, savedNotes: string): Promise<Consultant> {
+  const clientId = `${name.toLowerCase()}-${Math.random().toString(36).slice(2, 8)}`;
+  const doc = new CollabDocument(clientId);
+  const consultant = { name, doc, peers: [] as CollabPeer[] } as Consultant;
+
+  let markReady: () => void = () => undefined;
+  const ready = new Promise<void>(resolve => { markReady = resolve; });
+
+  consultant.client = new CollabClient(
+    url,
+    ROOM,
+    { clientId, userId: clientId, name, color: peerColor(clientId), areaId: null },
+    {
+      onAlone: () => {
+        consultant.client.sendOps(doc.seedText(currentNotesField(AREA), savedNotes));
+        markReady();
+      },
+      onOps: ops => { doc.apply(ops); },
+      onSyncState: ops => {
+        doc.apply(ops);
+        markReady();
+      },
+      onSyncRequest: () => doc.snapshot(),
+      onPeersChange: peers => { consultant.peers = peers; }
+    },
+    createSocket
+  );
+  consultant.client.connect();
+  await ready;
+  return consultant;
+}
+
+const block = (questionText: string, notes: string): QuestionBlock => ({
+  id: crypto.randomUUID(),
+  questionText,
+  questionNumber: 1,
+  notes,
+  isCollapsed: true,
+  timestamp: new Date()
+});
+
+async function main() {
+  const relay = await startCollabRelay(0);
+  const url = `ws://localhost:${relay.port}`;
+  const failures: string[] = [];
+  const check = (label: string, passed: boolean, detail = '') => {
+    console.log(`${passed ? '✅' : '❌'} ${label}${detail ? ` - ${detail}` : ''}`);
+    if (!passed) failures.push(label);
+  };
+
+  try {
+    const field = currentNotesField(AREA);
+    const alex = await join(url, 'Alex', 'Manual RFQ review takes 3 days');
+    const sam = await join(url, 'Sam', 'stale copy that should be ignored');
+    await wait(SETTLE_MS);
+    check('Joiner takes the room copy over its own saved notes', sam.doc.getText(field) === alex.doc.getText(field), sam.doc.getText(field));
+
+    // Both type before seeing the other's edit
+    alex.client.sendOps(alex.doc.editText(field, `${alex.doc.getText(field)}, CFO approves`));
+    sam.client.sendOps(sam.doc.editText(field, `Per ops lead: ${sam.doc.getText(field)}`));
+    await wait(SETTLE_MS);
+    const merged = alex.doc.getText(field);
+    check('Concurrent edits converge', merged === sam.doc.getText(field), merged);
+    check('Neither edit is lost', merged.startsWith('Per ops lead: ') && merged.endsWith(', CFO approves'));
+
+    const alexBlock = block('How long does review take?', 'Three days per RFQ');
+    const samBlock = block('Who signs off?', 'The CFO');
+    alex.client.sendOps([...alex.doc.addBlock(AREA, alexBlock), ...alex.doc.editText(blockNotesField(alexBlock.id), alexBlock.notes)]);
+    sam.client.sendOps([...sam.doc.addBlock(AREA, samBlock), ...sam.doc.editText(blockNotesField(samBlock.id), samBlock.notes)]);
+    await wait(SETTLE_MS);
+    check('Question blocks from both consultants survive', alex.doc.getBlocks(AREA).length === 2 && sam.doc.getBlocks(AREA).length === 2);
+    check('Block notes replicate', sam.doc.getText(blockNotesField(alexBlock.id)) === alexBlock.notes);
+
+    sam.client.setArea(AREA);
+    await wait(SETTLE_MS);
+    check('Presence shows which area a peer is in', alex.peers.some(peer => peer.name === 'Sam' && peer.areaId === AREA));
+
+    const lockKey = `assess:${AREA}`;
+    const alexLock = await alex.client.acquireLock(lockKey);
+    const samBlocked = await sam.client.acquireLock(lockKey);
+    check('First consultant gets the assess lock', alexLock);
+    check('Second consultant is refused while it is held', !samBlocked);
+    alex.client.releaseLock(lockKey);
+    await wait(SETTLE_MS);
+    check('Lock is free again after release', await sam.client.acquireLock(lockKey));
+
+    sam.client.close();
+    await wait(SETTLE_MS);
+    check('Lock is released when its holder leaves', await alex.client.acquireLock(lockKey));
+    check('Peer list drops consultants who leave', alex.peers.length === 0);
+    alex.client.close();
+  } finally {
+    await relay.close();
+  }
+
+  if (failures.length > 0) {
+    console.error(`❌ ${failures.length} collaboration check(s) failed`);
+    process.exit(1);
+  }
+  console.log('✅ Collaboration relay checks passed');
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error('Collaboration check failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,174 @@
+#!/usr/bin/env tsx
+// Collaboration Relay
+// Local websocket relay for co-edited discovery sessions: forwards edits within a room,
+// tracks who is in which area and hands out action locks
+
+import { WebSocketServer, WebSocket } from 'ws';
+import type { CollabClientMessage, CollabLock, CollabPeer, CollabServerMessage } from '../src/lib/collabClient';
+
+// A lock whose holder stops answering is released after this
+const LOCK_TTL_MS = 2 * 60 * 1000;
+
+// The app runs on another origin (the Vite dev server); only it may connect from a browser
+const DEFAULT_APP_ORIGIN = 'http://localhost:8080';
+
+interface Room {
+  members: Map<string, { socket: WebSocket; peer: CollabPeer }>;
+  locks: Record<string, CollabLock>;
+}
+
+const argValue = (flag: string): string | undefined => {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const send = (socket: WebSocket, message: CollabServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const dropExpiredLocks = (room: Room) => {
+  const now = Date.now();
+  Object.entries(room.locks).forEach(([key, lock]) => {
+    if (lock.expiresAt <= now || !room.members.has(lock.clientId)) delete room.locks[key];
+  });
+};
+
+export interface CollabRelay {
+  port: number;
+  close: () => Promise<void>;
+}
+
+// Listens on loopback only; browser connections from any origin but the app's are refused
+export function startCollabRelay(port: number, appOrigin: string = DEFAULT_APP_ORIGIN): Promise<CollabRelay> {
+  const rooms = new Map<string, Room>();
+  const server = new WebSocketServer({
+    port,
+    host: '127.0.0.1',
+    verifyClient: ({ origin }: { origin?: string }) => !origin || origin === appOrigin
+  });
+
+  const broadcast = (room: Room, message: CollabServerMessage, except?: string) => {
+    room.members.forEach(({ socket }, clientId) => {
+      if (clientId !== except) send(socket, message);
+    });
+  };
+
+  const broadcastLocks = (room: Room) => {
+    dropExpiredLocks(room);
+    broadcast(room, { type: 'lock_state', locks: room.locks });
+  };
+
+  server.on('connection', socket => {
+    let room: Room | null = null;
+    let roomId: string | null = null;
+    let clientId: string | null = null;
+
+    socket.on('message', data => {
+      let message: CollabClientMessage;
+      try {
+        message = JSON.parse(String(data));
+      } catch {
+        return;
+      }
+
+      if (message.type === 'join') {
+        roomId = message.room;
+        clientId = message.peer.clientId;
+        room = rooms.get(roomId) || { members: new Map(), locks: {} };
+        rooms.set(roomId, room);
+        dropExpiredLocks(room);
+
+        send(socket, {
+          type: 'welcome',
+          peers: [...room.members.values()].map(member => member.peer).filter(peer => peer.clientId !== clientId),
+          locks: room.locks
+        });
+        room.members.set(clientId, { socket, peer: message.peer });
+        broadcast(room, { type: 'peer_joined', peer: message.peer }, clientId);
+        return;
+      }
+
+      if (!room || !clientId) return;
+      const member = room.members.get(clientId);
+
+      switch (message.type) {
+        case 'presence':
+          if (member) member.peer = { ...member.peer, areaId: message.areaId };
+          broadcast(room, { type: 'presence', clientId, areaId: message.areaId }, clientId);
+          break;
+        case 'ops':
+          broadcast(room, { type: 'ops', from: clientId, ops: message.ops }, clientId);
+          break;
+        case 'sync_request': {
+          // The longest-connected peer answers; Map keeps insertion order
+          const source = [...room.members.entries()].find(([id]) => id !== clientId);
+          if (source) send(source[1].socket, { type: 'sync_request', from: clientId });
+          break;
+        }
+        case 'sync_state': {
+          const target = room.members.get(message.to);
+          if (target) send(target.socket, { type: 'sync_state', from: clientId, ops: message.ops });
+          break;
+        }
+        case 'lock': {
+          dropExpiredLocks(room);
+          const held = room.locks[message.key];
+          const granted = !held || held.clientId === clientId;
+          if (granted) {
+            room.locks[message.key] = { clientId, name: member?.peer.name || 'Someone', expiresAt: Date.now() + LOCK_TTL_MS };
+          }
+          send(socket, { type: 'lock_result', key: message.key, granted });
+          if (granted) broadcastLocks(room);
+          break;
+        }
+        case 'unlock':
+          if (room.locks[message.key]?.clientId === clientId) {
+            delete room.locks[message.key];
+            broadcastLocks(room);
+          }
+          break;
+      }
+    });
+
+    socket.on('close', () => {
+      if (!room || !clientId || !roomId) return;
+      // A reconnect with the same client id may already have replaced this socket
+      if (room.members.get(clientId)?.socket !== socket) return;
+
+      room.members.delete(clientId);
+      broadcast(room, { type: 'peer_left', clientId });
+      broadcastLocks(room);
+      if (room.members.size === 0) rooms.delete(roomId);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.once('listening', () => {
+      const address = server.address();
+      resolve({
+        port: typeof address === 'object' && address ? address.port : port,
+        close: () => new Promise(done => {
+          server.clients.forEach(client => client.terminate());
+          server.close(() => done());
+        })
+      });
+    });
+  });
+}
+
+async function main() {
+  const port = Number(argValue('--port') || process.env.COLLAB_RELAY_PORT || 8787);
+  const appOrigin = argValue('--origin') || process.env.COLLAB_RELAY_APP_ORIGIN || DEFAULT_APP_ORIGIN;
+  const relay = await startCollabRelay(port, appOrigin);
+  console.log(`🔗 Collaboration relay listening on ws://127.0.0.1:${relay.port}, for ${appOrigin}`);
+  console.log('   Set VITE_COLLAB_RELAY_URL to this address to co-edit sessions');
+  console.log('   Set COLLAB_RELAY_APP_ORIGIN (or --origin) if the app is served from another origin');
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error('Relay failed:', error);
+    process.exit(1);
+  });
+}
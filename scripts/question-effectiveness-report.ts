@@ -0,0 +1,107 @@
+#!/usr/bin/env tsx
+// Question Effectiveness Report Script
+// Ranks asked questions by the note quality they produced, per area and ICP
+
+import { readFileSync, writeFileSync } from 'fs';
+import { createClient } from '@supabase/supabase-js';
+import {
+  buildEffectivenessReport,
+  formatEffectivenessReportMarkdown,
+  type QuestionOutcome
+} from '../src/services/questionEffectiveness';
+
+// Environment setup
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+
+const supabase = supabaseUrl && supabaseKey ? createClient(supabaseUrl, supabaseKey) : null;
+
+const argValue = (flag: string): string | undefined => {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+// --file takes the JSON array stored under the sep_question_outcomes localStorage key
+const inputFile = argValue('--file');
+const outputFile = argValue('--out');
+const limit = Number(argValue('--limit') || 3);
+
+interface QuestionOutcomeRow {
+  id: string;
+  session_id: string;
+  question_block_id: string;
+  area: string;
+  icp: string;
+  methodology_id: string;
+  locale: QuestionOutcome['locale'];
+  source: QuestionOutcome['source'];
+  depth: number;
+  template: string | null;
+  prompt_version: string | null;
+  question_text: string;
+  dimensions: QuestionOutcome['dimensions'];
+  score: number;
+  recorded_at: string;
+}
+
+async function loadOutcomes(): Promise<QuestionOutcome[]> {
+  if (inputFile) {
+    return JSON.parse(readFileSync(inputFile, 'utf-8'));
+  }
+
+  const { data, error } = await supabase!
+    .from('question_outcomes')
+    .select('*')
+    .order('recorded_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data as QuestionOutcomeRow[]).map(row => ({
+    id: row.id,
+    sessionId: row.session_id,
+    questionBlockId: row.question_block_id,
+    area: row.area,
+    icp: row.icp,
+    methodologyId: row.methodology_id,
+    locale: row.locale,
+    source: row.source,
+    depth: row.depth,
+    template: row.template,
+    promptVersion: row.prompt_version,
+    questionText: row.question_text,
+    dimensions: row.dimensions,
+    score: Number(row.score),
+    recordedAt: new Date(row.recorded_at)
+  }));
+}
+
+async function main() {
+  if (!inputFile && !supabase) {
+    console.error('❌ Pass --file <outcomes.json> or set VITE_SUPABASE_URL and a Supabase key');
+    process.exit(1);
+  }
+
+  const outcomes = await loadOutcomes();
+  console.log(`📊 Ranking ${outcomes.length} question outcomes from ${inputFile || 'Supabase'}...`);
+
+  if (outcomes.length === 0) {
+    console.log('No outcomes recorded yet');
+    return;
+  }
+
+  const markdown = formatEffectivenessReportMarkdown(buildEffectivenessReport(outcomes, limit));
+
+  if (outputFile) {
+    writeFileSync(outputFile, markdown);
+    console.log(`✅ Report written to ${outputFile}`);
+  } else {
+    console.log(`\n${markdown}`);
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error('Report failed:', error);
+    process.exit(1);
+  });
+}
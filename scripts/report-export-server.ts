@@ -0,0 +1,207 @@
+#!/usr/bin/env tsx
+// Report Export Service
+// Local HTTP service that renders report markdown/HTML to paginated PDF and to DOCX,
+// and readout decks to PPTX, so exports never go through a cloud rendering service
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import {
+  EXPORT_MIME_TYPES,
+  MAX_EXPORT_BYTES,
+  type ExportFormat,
+  type ReportExportRequest
+} from '../src/services/reportExport';
+import { PPTX_MIME_TYPE, validateDeckMaster, type SlideDeckRequest } from '../src/services/slideDeck';
+import { renderReportPdf } from './report-export/renderPdf';
+import { renderReportDocx } from './report-export/renderDocx';
+import { renderSlideDeck } from './report-export/renderPptx';
+
+const RENDERERS: Record<ExportFormat, (request: ReportExportRequest) => Promise<Buffer>> = {
+  pdf: renderReportPdf,
+  docx: renderReportDocx
+};
+
+const IMAGE_DATA_URL = /^data:image\/(png|jpe?g);base64,/i;
+
+const argValue = (flag: string): string | undefined => {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+// The app runs on another origin (the Vite dev server); only it may call the service from a browser
+const DEFAULT_APP_ORIGIN = 'http://localhost:8080';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+class RequestTooLargeError extends Error {}
+
+const sendText = (response: ServerResponse, status: number, text: string) => {
+  response.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+  response.end(text);
+};
+
+const readBody = (request: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  request.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_EXPORT_BYTES) {
+      // Stop reading but keep the socket, so the client still gets the 413
+      request.pause();
+      request.removeAllListeners('data');
+      reject(new RequestTooLargeError('Report is too large to export'));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  request.on('error', reject);
+});
+
+type JsonBody<T> = { ok: true; value: T } | { ok: false };
+
+// Either the parsed body, or not ok once an error has been sent
+const readJson = async <T extends object>(request: IncomingMessage, response: ServerResponse): Promise<JsonBody<T>> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(await readBody(request));
+  } catch (error) {
+    if (error instanceof RequestTooLargeError) {
+      // The rest of the upload is never read, so the connection can't be reused
+      response.setHeader('Connection', 'close');
+      sendText(response, 413, error.message);
+      return { ok: false };
+    }
+    sendText(response, 400, error instanceof SyntaxError ? 'Request body must be JSON' : error.message);
+    return { ok: false };
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    sendText(response, 400, 'Request body must be a JSON object');
+    return { ok: false };
+  }
+  return { ok: true, value: value as T };
+};
+
+const sendFile = (response: ServerResponse, file: Buffer, contentType: string) => {
+  response.writeHead(200, { 'Content-Type': contentType, 'Content-Length': file.length });
+  response.end(file);
+};
+
+async function handleExport(format: ExportFormat, request: IncomingMessage, response: ServerResponse) {
+  const json = await readJson<ReportExportRequest>(request, response);
+  if (!json.ok) return;
+  const body = json.value;
+
+  if (!body.title || (!body.markdown && !body.html)) {
+    sendText(response, 400, 'A report needs a title and markdown or html');
+    return;
+  }
+  if (body.logo && !IMAGE_DATA_URL.test(body.logo)) {
+    sendText(response, 400, 'The logo must be a PNG or JPEG data URL');
+    return;
+  }
+
+  try {
+    sendFile(response, await RENDERERS[format]({ ...body, meta: body.meta || [] }), EXPORT_MIME_TYPES[format]);
+  } catch (error) {
+    console.error(`Report export (${format}) failed:`, error);
+    sendText(response, 500, `Could not render ${format.toUpperCase()}: ${error.message}`);
+  }
+}
+
+async function handleSlideDeck(request: IncomingMessage, response: ServerResponse) {
+  const json = await readJson<SlideDeckRequest>(request, response);
+  if (!json.ok) return;
+  const body = json.value;
+
+  if (!body.title || !body.report) {
+    sendText(response, 400, 'A deck needs a title and a processed report');
+    return;
+  }
+  const masterErrors = body.master ? validateDeckMaster(body.master) : [];
+  if (masterErrors.length > 0) {
+    sendText(response, 400, `Invalid slide master: ${masterErrors.join('; ')}`);
+    return;
+  }
+
+  try {
+    sendFile(response, await renderSlideDeck(body), PPTX_MIME_TYPE);
+  } catch (error) {
+    console.error('Slide deck export failed:', error);
+    sendText(response, 500, `Could not render PPTX: ${error.message}`);
+  }
+}
+
+export interface ReportExportServer {
+  port: number;
+  close: () => Promise<void>;
+}
+
+// Listens on loopback only; browser requests from any origin but the app's are refused
+export function startReportExportServer(port: number, appOrigin: string = DEFAULT_APP_ORIGIN): Promise<ReportExportServer> {
+  const server = createServer((request, response) => {
+    const path = (request.url || '/').split('?')[0];
+    const origin = request.headers.origin;
+
+    response.setHeader('Vary', 'Origin');
+    if (origin && origin !== appOrigin) {
+      sendText(response, 403, 'Origin not allowed');
+      return;
+    }
+    if (origin) {
+      response.setHeader('Access-Control-Allow-Origin', origin);
+      Object.entries(CORS_HEADERS).forEach(([name, value]) => response.setHeader(name, value));
+    }
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204);
+      response.end();
+      return;
+    }
+    if (request.method === 'GET' && path === '/health') {
+      sendText(response, 200, 'ok');
+      return;
+    }
+
+    const format = path.match(/^\/export\/(pdf|docx)$/)?.[1] as ExportFormat | undefined;
+    if (request.method === 'POST' && format) {
+      void handleExport(format, request, response);
+      return;
+    }
+    if (request.method === 'POST' && path === '/export/pptx') {
+      void handleSlideDeck(request, response);
+      return;
+    }
+    sendText(response, 404, 'Not found');
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address();
+      resolve({
+        port: typeof address === 'object' && address ? address.port : port,
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+}
+
+async function main() {
+  const port = Number(argValue('--port') || process.env.REPORT_EXPORT_PORT || 8788);
+  const appOrigin = argValue('--origin') || process.env.REPORT_EXPORT_APP_ORIGIN || DEFAULT_APP_ORIGIN;
+  const exporter = await startReportExportServer(port, appOrigin);
+  console.log(`📄 Report export service listening on http://127.0.0.1:${exporter.port}, for ${appOrigin}`);
+  console.log('   Set VITE_REPORT_EXPORT_URL to this address if you run it elsewhere');
+  console.log('   Set REPORT_EXPORT_APP_ORIGIN (or --origin) if the app is served from another origin');
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error('Report export service failed:', error);
+    process.exit(1);
+  });
+}
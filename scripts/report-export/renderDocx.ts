@@ -0,0 +1,232 @@
+// Report Export: DOCX
+// Editable Word document of a report in the organization's fonts and colours, using Word's
+// own heading styles so the navigation pane and the table of contents field work as clients expect
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import {
+  buildTableOfContents,
+  reportBlocks,
+  resolveBranding,
+  type InlineSpan,
+  type ReportBlock,
+  type ReportExportRequest
+} from '../../src/services/reportExport';
+
+const HEADINGS = { 1: HeadingLevel.HEADING_1, 2: HeadingLevel.HEADING_2, 3: HeadingLevel.HEADING_3 } as const;
+const BULLET_REFERENCE = 'report-bullets';
+const NUMBERED_REFERENCE = 'report-numbers';
+
+const LOGO_BOX = { width: 180, height: 60 };
+
+// docx wants colours without the leading #
+const hex = (color: string) => color.replace('#', '').toUpperCase();
+
+// Pixel size from a PNG or JPEG header, so the logo keeps its aspect ratio
+function imageSize(data: Buffer): { width: number; height: number } | null {
+  if (data.readUInt32BE(0) === 0x89504e47) return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  for (let offset = 2; offset + 9 < data.length;) {
+    const marker = data.readUInt16BE(offset);
+    // Start-of-frame markers hold the dimensions
+    if (marker >= 0xffc0 && marker <= 0xffcf && ![0xffc4, 0xffc8, 0xffcc].includes(marker)) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function logoParagraph(dataUrl: string): Paragraph | null {
+  const data = Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64');
+  const size = imageSize(data);
+  if (!size) return null;
+  const scale = Math.min(LOGO_BOX.width / size.width, LOGO_BOX.height / size.height, 1);
+  return new Paragraph({
+    spacing: { before: 1200 },
+    children: [new ImageRun({
+      type: /^data:image\/png/i.test(dataUrl) ? 'png' : 'jpg',
+      data,
+      transformation: { width: Math.round(size.width * scale), height: Math.round(size.height * scale) }
+    })]
+  });
+}
+
+const runsFor = (spans: InlineSpan[], italic = false) =>
+  spans.map(span => {
+    if (span.footnote) return new TextRun({ text: String(span.footnote), superScript: true, color: '2563EB' });
+    const run = new TextRun({ text: span.text, bold: span.bold, italics: span.italic || italic, style: span.link ? 'Hyperlink' : undefined });
+    return span.link ? new ExternalHyperlink({ link: span.link, children: [run] }) : run;
+  });
+
+function tableFor(block: Extract<ReportBlock, { type: 'table' }>, accent: string): Table {
+  const columns = Math.max(block.header.length, ...block.rows.map(row => row.length));
+  const cell = (text: string, header: boolean) => new TableCell({
+    shading: header ? { type: ShadingType.CLEAR, fill: hex(accent), color: 'auto' } : undefined,
+    children: [new Paragraph({ children: [new TextRun({ text, bold: header, color: header ? 'FFFFFF' : undefined })] })]
+  });
+  const row = (cells: string[], header: boolean) => new TableRow({
+    tableHeader: header,
+    children: Array.from({ length: columns }, (_, i) => cell(cells[i] || '', header))
+  });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [row(block.header, true), ...block.rows.map(cells => row(cells, false))]
+  });
+}
+
+function bodyFor(blocks: ReportBlock[], accent: string, hasCover: boolean): Array<Paragraph | Table> {
+  let listInstance = 0;
+
+  return blocks.flatMap((block, index): Array<Paragraph | Table> => {
+    switch (block.type) {
+      case 'heading':
+        // The report's own title heading just repeats the cover
+        if (hasCover && index === 0 && block.level === 1) return [];
+        return [new Paragraph({ heading: HEADINGS[block.level], children: [new TextRun(block.text)] })];
+      case 'paragraph':
+        return [new Paragraph({ children: runsFor(block.spans) })];
+      case 'quote':
+        return [new Paragraph({
+          style: 'IntenseQuote',
+          border: { left: { style: BorderStyle.SINGLE, size: 12, color: hex(accent), space: 8 } },
+          indent: { left: 360 },
+          children: runsFor(block.spans, true)
+        })];
+      case 'list': {
+        // Each numbered list gets its own instance so numbering restarts at 1
+        const instance = listInstance++;
+        return block.items.map(item => new Paragraph({
+          numbering: { reference: block.ordered ? NUMBERED_REFERENCE : BULLET_REFERENCE, level: 0, instance },
+          children: runsFor(item)
+        }));
+      }
+      case 'table':
+        return [tableFor(block, accent), new Paragraph({})];
+      case 'footnote':
+        return [new Paragraph({
+          indent: { left: 360, hanging: 360 },
+          children: [new TextRun({ text: `${block.number}.\t`, size: 18, bold: true }), ...runsFor(block.spans)]
+        })];
+      case 'rule':
+        return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: hex(accent), space: 1 } } })];
+    }
+  });
+}
+
+/**
+ * Render a report to DOCX. The table of contents is a Word field, filled in
+ * when the document is opened (Word asks to update fields).
+ */
+export async function renderReportDocx(request: ReportExportRequest): Promise<Buffer> {
+  const branding = resolveBranding(request.branding);
+  const blocks = reportBlocks(request);
+  const hasToc = buildTableOfContents(blocks).length > 0;
+  const generatedOn = new Date().toLocaleDateString(request.locale || 'en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  const hasCover = request.cover !== false;
+  const logo = hasCover && request.logo ? logoParagraph(request.logo) : null;
+  const headingFont = branding.headingFont || 'Calibri';
+
+  const cover = !hasCover ? [] : [
+    ...(logo ? [logo] : []),
+    new Paragraph({ spacing: { before: logo ? 1000 : 2400 }, children: [new TextRun({ text: branding.name.toUpperCase(), bold: true, color: hex(branding.accentColor) })] }),
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(request.title)] }),
+    ...(request.subtitle ? [new Paragraph({ heading: HeadingLevel.HEADING_4, children: [new TextRun(request.subtitle)] })] : []),
+    ...request.meta.filter(item => item.value).map(item => new Paragraph({
+      children: [new TextRun({ text: `${item.label}: `, bold: true }), new TextRun(item.value)]
+    })),
+    new Paragraph({ children: [new PageBreak()] })
+  ];
+
+  const contents = hasToc
+    ? [
+      new Paragraph({ heading: HeadingLevel.HEADING_4, children: [new TextRun('Contents')] }),
+      new TableOfContents('Contents', { hyperlink: true, headingStyleRange: '1-2' }),
+      new Paragraph({ children: [new PageBreak()] })
+    ]
+    : [];
+
+  const document = new Document({
+    creator: branding.name,
+    title: request.title,
+    features: { updateFields: hasToc },
+    styles: {
+      default: { document: { run: { font: branding.bodyFont || 'Calibri', size: 22 } } },
+      paragraphStyles: [
+        { id: 'Title', name: 'Title', basedOn: 'Normal', next: 'Normal', run: { font: headingFont, size: 56, bold: true, color: hex(branding.primaryColor) }, paragraph: { spacing: { after: 240 } } },
+        { id: 'Heading1', name: 'Heading 1', basedOn: 'Normal', next: 'Normal', quickFormat: true, run: { font: headingFont, size: 36, bold: true, color: hex(branding.primaryColor) }, paragraph: { spacing: { before: 360, after: 120 } } },
+        { id: 'Heading2', name: 'Heading 2', basedOn: 'Normal', next: 'Normal', quickFormat: true, run: { font: headingFont, size: 28, bold: true, color: hex(branding.primaryColor) }, paragraph: { spacing: { before: 240, after: 80 } } },
+        { id: 'Heading3', name: 'Heading 3', basedOn: 'Normal', next: 'Normal', quickFormat: true, run: { font: headingFont, size: 24, bold: true }, paragraph: { spacing: { before: 200, after: 60 } } },
+        { id: 'Heading4', name: 'Heading 4', basedOn: 'Normal', next: 'Normal', run: { font: headingFont, size: 28, color: '6B7280' }, paragraph: { spacing: { after: 480 } } }
+      ]
+    },
+    numbering: {
+      config: [
+        { reference: BULLET_REFERENCE, levels: [{ level: 0, format: LevelFormat.BULLET, text: '•', alignment: AlignmentType.LEFT, style: { paragraph: { indent: { left: 720, hanging: 360 } } } }] },
+        { reference: NUMBERED_REFERENCE, levels: [{ level: 0, format: LevelFormat.DECIMAL, text: '%1.', alignment: AlignmentType.LEFT, style: { paragraph: { indent: { left: 720, hanging: 360 } } } }] }
+      ]
+    },
+    sections: [{
+      properties: { titlePage: hasCover },
+      headers: {
+        default: new Header({
+          children: [new Paragraph({
+            border: { bottom: { style: BorderStyle.SINGLE, size: 4, color: hex(branding.accentColor), space: 4 } },
+            children: [new TextRun({ text: `${branding.name} · ${request.title}`, size: 16, color: '6B7280' })]
+          })]
+        }),
+        // The cover has no running header or footer
+        first: new Header({ children: [] })
+      },
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            children: [new TextRun({ text: `${generatedOn}    Page `, size: 16, color: '6B7280' }),
+              new TextRun({ children: [PageNumber.CURRENT], size: 16, color: '6B7280' }),
+              new TextRun({ text: ' of ', size: 16, color: '6B7280' }),
+              new TextRun({ children: [PageNumber.TOTAL_PAGES], size: 16, color: '6B7280' })]
+          })]
+        }),
+        first: new Footer({ children: [] })
+      },
+      children: [
+        ...cover,
+        ...contents,
+        ...bodyFor(blocks, branding.accentColor, hasCover),
+        ...(request.disclaimer
+          ? [new Paragraph({
+            spacing: { before: 480 },
+            border: { top: { style: BorderStyle.SINGLE, size: 4, color: 'D1D5DB', space: 8 } },
+            children: [new TextRun({ text: request.disclaimer, size: 16, color: '6B7280' })]
+          })]
+          : [])
+      ]
+    }]
+  });
+
+  return Packer.toBuffer(document);
+}
+
+export default renderReportDocx;
@@ -0,0 +1,257 @@
+// Report Export: PDF
+// Paginated, branded PDF of a report: cover page with the organization's logo, table of
+// contents with page numbers, linked source footnotes, running header, "Page X of Y" footer
+// and closing disclaimer
+
+import PDFDocument from 'pdfkit';
+import {
+  buildTableOfContents,
+  reportBlocks,
+  resolveBranding,
+  type InlineSpan,
+  type ReportBlock,
+  type ReportExportRequest
+} from '../../src/services/reportExport';
+
+const MARGIN = 60;
+const TOC_ENTRIES_PER_PAGE = 28;
+const HEADING_SIZES: Record<1 | 2 | 3, number> = { 1: 20, 2: 15, 3: 12.5 };
+const TEXT_COLOR = '#1F2937';
+const MUTED_COLOR = '#6B7280';
+
+// The built-in fonts only cover Latin-1 plus common punctuation; drop what they'd mangle (emoji mostly)
+const printable = (text: string): string =>
+  text.replace(/[^\t\n\u0020-\u024F\u2010-\u2027\u2030-\u203A\u20AC\u2122]/gu, '').replace(/\s{2,}/g, ' ');
+
+const imageBuffer = (dataUrl: string): Buffer => Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64');
+
+const fontFor = (span: InlineSpan) =>
+  span.bold && span.italic ? 'Helvetica-BoldOblique' : span.bold ? 'Helvetica-Bold' : span.italic ? 'Helvetica-Oblique' : 'Helvetica';
+
+function writeSpans(doc: PDFKit.PDFDocument, spans: InlineSpan[], options: PDFKit.Mixins.TextOptions = {}, x?: number) {
+  const runs = spans.map(span => ({ ...span, text: printable(span.footnote ? `[${span.footnote}]` : span.text) })).filter(span => span.text);
+  if (runs.length === 0) return;
+
+  runs.forEach((span, index) => {
+    doc.font(fontFor(span)).fillColor(span.link || span.footnote ? '#2563EB' : TEXT_COLOR);
+    const runOptions = {
+      ...options,
+      continued: index < runs.length - 1,
+      link: span.link || null,
+      underline: !!span.link,
+      // Footnote references jump to the source in the Sources section
+      ...(span.footnote ? { goTo: `footnote-${span.footnote}` } : {})
+    };
+    if (index === 0 && x !== undefined) {
+      doc.text(span.text, x, doc.y, runOptions);
+    } else {
+      doc.text(span.text, runOptions);
+    }
+  });
+}
+
+function ensureRoom(doc: PDFKit.PDFDocument, height: number) {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) doc.addPage();
+}
+
+function writeTable(doc: PDFKit.PDFDocument, block: Extract<ReportBlock, { type: 'table' }>, accent: string) {
+  const width = doc.page.width - MARGIN * 2;
+  const columns = Math.max(block.header.length, ...block.rows.map(row => row.length));
+  const columnWidth = width / columns;
+  const padding = 4;
+
+  const writeRow = (cells: string[], header: boolean) => {
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    const height = Math.max(
+      ...Array.from({ length: columns }, (_, i) => doc.heightOfString(printable(cells[i] || ''), { width: columnWidth - padding * 2 }))
+    ) + padding * 2;
+    ensureRoom(doc, height);
+
+    const top = doc.y;
+    if (header) doc.rect(MARGIN, top, width, height).fill(accent);
+    Array.from({ length: columns }, (_, i) => {
+      doc.fillColor(header ? '#FFFFFF' : TEXT_COLOR)
+        .text(printable(cells[i] || ''), MARGIN + i * columnWidth + padding, top + padding, { width: columnWidth - padding * 2 });
+    });
+    doc.moveTo(MARGIN, top + height).lineTo(MARGIN + width, top + height).lineWidth(0.5).strokeColor('#D1D5DB').stroke();
+    doc.x = MARGIN;
+    doc.y = top + height;
+  };
+
+  writeRow(block.header, true);
+  block.rows.forEach(row => writeRow(row, false));
+  doc.moveDown(0.8);
+}
+
+function writeBlock(doc: PDFKit.PDFDocument, block: ReportBlock, destination: string | null, branding: ReturnType<typeof resolveBranding>) {
+  const width = doc.page.width - MARGIN * 2;
+  doc.x = MARGIN;
+
+  switch (block.type) {
+    case 'heading':
+      ensureRoom(doc, HEADING_SIZES[block.level] * 4);
+      doc.moveDown(block.level === 1 ? 0.8 : 0.5);
+      if (destination) doc.addNamedDestination(destination);
+      doc.font('Helvetica-Bold').fontSize(HEADING_SIZES[block.level])
+        .fillColor(block.level === 3 ? TEXT_COLOR : branding.primaryColor)
+        .text(printable(block.text), { width });
+      doc.moveDown(0.3);
+      break;
+    case 'paragraph':
+      doc.fontSize(10.5);
+      writeSpans(doc, block.spans, { width, lineGap: 2 });
+      doc.moveDown(0.6);
+      break;
+    case 'quote': {
+      doc.fontSize(10.5);
+      const top = doc.y;
+      writeSpans(doc, block.spans.map(span => ({ ...span, italic: true })), { width: width - 16, lineGap: 2 }, MARGIN + 14);
+      doc.moveTo(MARGIN + 4, top).lineTo(MARGIN + 4, doc.y).lineWidth(2).strokeColor(branding.accentColor).stroke();
+      doc.x = MARGIN;
+      doc.moveDown(0.6);
+      break;
+    }
+    case 'list':
+      doc.fontSize(10.5);
+      block.items.forEach((item, index) => {
+        ensureRoom(doc, 14);
+        const top = doc.y;
+        doc.font('Helvetica').fillColor(TEXT_COLOR).text(block.ordered ? `${index + 1}.` : '•', MARGIN + 6, top, { width: 16 });
+        doc.y = top;
+        writeSpans(doc, item, { width: width - 24, lineGap: 2 }, MARGIN + 24);
+        doc.moveDown(0.2);
+      });
+      doc.x = MARGIN;
+      doc.moveDown(0.4);
+      break;
+    case 'table':
+      writeTable(doc, block, branding.accentColor);
+      break;
+    case 'footnote': {
+      doc.fontSize(9);
+      ensureRoom(doc, 14);
+      const top = doc.y;
+      doc.addNamedDestination(`footnote-${block.number}`);
+      doc.font('Helvetica-Bold').fillColor(TEXT_COLOR).text(`${block.number}.`, MARGIN, top, { width: 20 });
+      doc.y = top;
+      writeSpans(doc, block.spans, { width: width - 24, lineGap: 1 }, MARGIN + 24);
+      doc.x = MARGIN;
+      doc.moveDown(0.3);
+      break;
+    }
+    case 'rule':
+      doc.moveDown(0.3);
+      doc.moveTo(MARGIN, doc.y).lineTo(MARGIN + width, doc.y).lineWidth(0.75).strokeColor(branding.accentColor).stroke();
+      doc.moveDown(0.8);
+      break;
+  }
+}
+
+/**
+ * Render a report to PDF. The body is laid out first on buffered pages so the
+ * table of contents (reserved up front) can be filled in with real page numbers.
+ */
+export function renderReportPdf(request: ReportExportRequest): Promise<Buffer> {
+  const branding = resolveBranding(request.branding);
+  const blocks = reportBlocks(request);
+  const toc = buildTableOfContents(blocks);
+  const generatedOn = new Date().toLocaleDateString(request.locale || 'en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margins: { top: MARGIN + 10, bottom: MARGIN + 10, left: MARGIN, right: MARGIN },
+    bufferPages: true,
+    info: { Title: printable(request.title), Author: branding.name, Creator: branding.name }
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  // Cover, unless the template turns it off
+  const hasCover = request.cover !== false;
+  if (hasCover) {
+    doc.rect(0, 0, doc.page.width, 8).fill(branding.primaryColor);
+    if (request.logo) doc.image(imageBuffer(request.logo), MARGIN, 80, { fit: [180, 60] });
+    doc.font('Helvetica-Bold').fontSize(11).fillColor(branding.accentColor).text(printable(branding.name).toUpperCase(), MARGIN, 160, { characterSpacing: 1.5 });
+    doc.moveDown(1);
+    doc.fontSize(28).fillColor(branding.primaryColor).text(printable(request.title), { width: doc.page.width - MARGIN * 2 });
+    if (request.subtitle) doc.moveDown(0.3).font('Helvetica').fontSize(14).fillColor(MUTED_COLOR).text(printable(request.subtitle));
+    doc.moveDown(2);
+    request.meta.filter(item => item.value).forEach(item => {
+      doc.font('Helvetica-Bold').fontSize(11).fillColor(TEXT_COLOR).text(`${printable(item.label)}: `, { continued: true })
+        .font('Helvetica').text(printable(item.value));
+      doc.moveDown(0.3);
+    });
+  }
+
+  // Reserve the table of contents; it's written once the body's page numbers are known.
+  // Without a cover the document's first page is already there to use.
+  const tocPages = toc.length > 0 ? Math.ceil(toc.length / TOC_ENTRIES_PER_PAGE) : 0;
+  const firstRunningPage = hasCover ? 1 : 0;
+  for (let i = 0; i < tocPages; i++) if (i > 0 || hasCover) doc.addPage();
+
+  if (hasCover || tocPages > 0) doc.addPage();
+  const headingPages = new Map<number, number>();
+  const tocIndexes = new Set(toc.map(entry => entry.blockIndex));
+  blocks.forEach((block, index) => {
+    // The report's own title heading just repeats the cover
+    if (hasCover && index === 0 && block.type === 'heading' && block.level === 1) return;
+    writeBlock(doc, block, tocIndexes.has(index) ? `section-${index}` : null, branding);
+    if (tocIndexes.has(index)) headingPages.set(index, doc.bufferedPageRange().count);
+  });
+
+  if (request.disclaimer) {
+    ensureRoom(doc, 60);
+    doc.moveDown(1.5);
+    doc.moveTo(MARGIN, doc.y).lineTo(doc.page.width - MARGIN, doc.y).lineWidth(0.5).strokeColor('#D1D5DB').stroke();
+    doc.moveDown(0.6);
+    doc.font('Helvetica').fontSize(8.5).fillColor(MUTED_COLOR).text(printable(request.disclaimer), MARGIN, doc.y, { width: doc.page.width - MARGIN * 2 });
+  }
+
+  for (let page = 0; page < tocPages; page++) {
+    doc.switchToPage(firstRunningPage + page);
+    doc.x = MARGIN;
+    doc.y = MARGIN + 10;
+    if (page === 0) {
+      doc.font('Helvetica-Bold').fontSize(20).fillColor(branding.primaryColor).text('Contents');
+      doc.moveDown(0.8);
+    }
+    toc.slice(page * TOC_ENTRIES_PER_PAGE, (page + 1) * TOC_ENTRIES_PER_PAGE).forEach(entry => {
+      const indent = entry.level === 1 ? 0 : 16 * (entry.level - 1);
+      const top = doc.y;
+      const width = doc.page.width - MARGIN * 2;
+      doc.font(entry.level === 1 ? 'Helvetica-Bold' : 'Helvetica').fontSize(11).fillColor(TEXT_COLOR)
+        .text(printable(entry.text), MARGIN + indent, top, { width: width - indent - 40, goTo: `section-${entry.blockIndex}` });
+      const bottom = doc.y;
+      doc.text(String(headingPages.get(entry.blockIndex) ?? ''), MARGIN, top, { width, align: 'right' });
+      doc.y = bottom + 4;
+    });
+  }
+
+  // Running header and footer on every page after the cover
+  const { count } = doc.bufferedPageRange();
+  for (let page = firstRunningPage; page < count; page++) {
+    doc.switchToPage(page);
+    const { bottom } = doc.page.margins;
+    doc.page.margins.bottom = 0;
+    const width = doc.page.width - MARGIN * 2;
+
+    doc.font('Helvetica').fontSize(8).fillColor(MUTED_COLOR)
+      .text(printable(`${branding.name} · ${request.title}`), MARGIN, 30, { width, lineBreak: false, ellipsis: true });
+    doc.moveTo(MARGIN, 44).lineTo(MARGIN + width, 44).lineWidth(0.5).strokeColor(branding.accentColor).stroke();
+
+    const footerY = doc.page.height - 40;
+    doc.text(generatedOn, MARGIN, footerY, { width, lineBreak: false });
+    doc.text(`Page ${page + 1} of ${count}`, MARGIN, footerY, { width, align: 'right', lineBreak: false });
+    doc.page.margins.bottom = bottom;
+  }
+
+  doc.end();
+  return done;
+}
+
+export default renderReportPdf;
@@ -0,0 +1,182 @@
+// Report Export: PPTX
+// Readout deck on the organization's slide master: title slide, then one slide per
+// section of the deck outline, each with an editable title placeholder
+
+import PptxGenJS from 'pptxgenjs';
+import {
+  buildDeckOutline,
+  resolveDeckMaster,
+  type DeckMasterTemplate,
+  type DeckSlide,
+  type SlideDeckRequest
+} from '../../src/services/slideDeck';
+
+const TITLE_MASTER = 'READOUT_TITLE';
+const CONTENT_MASTER = 'READOUT_CONTENT';
+
+// LAYOUT_WIDE is 13.33 x 7.5 inches
+const SLIDE_WIDTH = 13.33;
+const CONTENT_LEFT = 0.6;
+const CONTENT_WIDTH = SLIDE_WIDTH - CONTENT_LEFT * 2;
+const CONTENT_TOP = 1.4;
+
+const IMPACT_COLORS = { High: '10B981', Medium: 'F59E0B', Low: '6B7280' };
+const ATTITUDE_COLORS = { blocker: 'EF4444', skeptic: 'F59E0B', neutral: '6B7280', supporter: '10B981', champion: '059669' };
+
+// pptxgenjs wants colours without the # and images without the data: prefix
+const hex = (color: string) => color.replace('#', '').toUpperCase();
+const imageData = (dataUrl: string) => dataUrl.replace(/^data:/, '');
+
+function defineMasters(pptx: PptxGenJS, master: DeckMasterTemplate) {
+  const logo = master.logo
+    ? [{ image: { x: SLIDE_WIDTH - 1.9, y: 0.3, w: 1.4, h: 0.6, data: imageData(master.logo), sizing: { type: 'contain' as const, w: 1.4, h: 0.6 } } }]
+    : [];
+
+  pptx.defineSlideMaster({
+    title: TITLE_MASTER,
+    background: master.titleBackground ? { data: imageData(master.titleBackground) } : { color: hex(master.accentColor) },
+    objects: [
+      ...logo,
+      { placeholder: { options: { name: 'title', type: 'title', x: 0.8, y: 2.3, w: 11.7, h: 1.5, fontFace: master.titleFont, fontSize: 40, bold: true, color: 'FFFFFF' }, text: '' } },
+      { placeholder: { options: { name: 'subtitle', type: 'body', x: 0.8, y: 3.9, w: 11.7, h: 0.8, fontFace: master.bodyFont, fontSize: 22, color: 'FFFFFF' }, text: '' } }
+    ]
+  });
+
+  pptx.defineSlideMaster({
+    title: CONTENT_MASTER,
+    background: { color: hex(master.backgroundColor) },
+    margin: [0.4, CONTENT_LEFT, 0.5, CONTENT_LEFT],
+    slideNumber: { x: SLIDE_WIDTH - 1.1, y: 7.0, w: 0.6, h: 0.3, fontFace: master.bodyFont, fontSize: 10, color: hex(master.textColor) },
+    objects: [
+      { rect: { x: 0, y: 0, w: SLIDE_WIDTH, h: 0.12, fill: { color: hex(master.accentColor) } } },
+      ...logo,
+      {
+        text: {
+          text: [master.name, master.footerText].filter(Boolean).join('  ·  '),
+          options: { x: CONTENT_LEFT, y: 7.0, w: 9, h: 0.3, fontFace: master.bodyFont, fontSize: 10, color: hex(master.textColor) }
+        }
+      },
+      { placeholder: { options: { name: 'title', type: 'title', x: CONTENT_LEFT, y: 0.35, w: 10.6, h: 0.8, fontFace: master.titleFont, fontSize: 28, bold: true, color: hex(master.titleColor) }, text: '' } }
+    ]
+  });
+}
+
+function addSlide(pptx: PptxGenJS, slide: DeckSlide, master: DeckMasterTemplate) {
+  const body = { fontFace: master.bodyFont, color: hex(master.textColor) };
+  const accent = hex(master.accentColor);
+
+  if (slide.kind === 'title') {
+    const page = pptx.addSlide({ masterName: TITLE_MASTER });
+    page.addText(slide.title, { placeholder: 'title' });
+    page.addText(slide.subtitle, { placeholder: 'subtitle' });
+    page.addText(slide.meta.join('  ·  '), { x: 0.8, y: 4.8, w: 11.7, h: 0.5, fontFace: master.bodyFont, fontSize: 14, color: 'FFFFFF' });
+    return;
+  }
+
+  const page = pptx.addSlide({ masterName: CONTENT_MASTER });
+  page.addText(slide.title, { placeholder: 'title' });
+
+  switch (slide.kind) {
+    case 'summary': {
+      const statWidth = CONTENT_WIDTH / Math.max(slide.stats.length, 1);
+      slide.stats.forEach((stat, index) => {
+        const x = CONTENT_LEFT + index * statWidth;
+        page.addText(stat.value, { x, y: CONTENT_TOP, w: statWidth - 0.2, h: 0.8, fontFace: master.titleFont, fontSize: 30, bold: true, color: accent });
+        page.addText(stat.label.toUpperCase(), { x, y: CONTENT_TOP + 0.8, w: statWidth - 0.2, h: 0.4, ...body, fontSize: 11, charSpacing: 1 });
+      });
+      page.addText(slide.text, { x: CONTENT_LEFT, y: CONTENT_TOP + 1.5, w: CONTENT_WIDTH, h: 3.8, ...body, fontSize: 16, valign: 'top', fit: 'shrink' });
+      break;
+    }
+    case 'bullets': {
+      let top = CONTENT_TOP;
+      if (slide.intro) {
+        page.addText(slide.intro, { x: CONTENT_LEFT, y: top, w: CONTENT_WIDTH, h: 0.5, ...body, fontSize: 16, italic: true });
+        top += 0.7;
+      }
+      page.addText(
+        slide.bullets.map(text => ({ text, options: { bullet: true, paraSpaceAfter: 8 } })),
+        { x: CONTENT_LEFT, y: top, w: CONTENT_WIDTH, h: 6.8 - top, ...body, fontSize: 18, valign: 'top', fit: 'shrink' }
+      );
+      break;
+    }
+    case 'opportunities': {
+      const cardWidth = (CONTENT_WIDTH - 0.3) / 2;
+      const cardHeight = 2.55;
+      slide.items.forEach((item, index) => {
+        const x = CONTENT_LEFT + (index % 2) * (cardWidth + 0.3);
+        const y = CONTENT_TOP + Math.floor(index / 2) * (cardHeight + 0.2);
+        page.addShape(pptx.ShapeType.rect, { x, y, w: cardWidth, h: cardHeight, fill: { color: accent, transparency: 92 }, line: { color: accent, width: 0.75 } });
+        page.addText(item.title, { x: x + 0.2, y: y + 0.15, w: cardWidth - 1.8, h: 0.5, fontFace: master.titleFont, fontSize: 16, bold: true, color: hex(master.titleColor) });
+        page.addText(`${item.impact} impact`, { x: x + cardWidth - 1.6, y: y + 0.15, w: 1.4, h: 0.4, ...body, fontSize: 11, bold: true, color: IMPACT_COLORS[item.impact] || IMPACT_COLORS.Medium, align: 'right' });
+        page.addText(item.description, { x: x + 0.2, y: y + 0.7, w: cardWidth - 0.4, h: cardHeight - 0.85, ...body, fontSize: 13, valign: 'top', fit: 'shrink' });
+      });
+      break;
+    }
+    case 'phases': {
+      const columnWidth = (CONTENT_WIDTH - 0.2 * (slide.phases.length - 1)) / slide.phases.length;
+      slide.phases.forEach((phase, index) => {
+        const x = CONTENT_LEFT + index * (columnWidth + 0.2);
+        page.addText(
+          [
+            { text: phase.name, options: { bold: true, fontSize: 15, breakLine: true } },
+            { text: phase.duration, options: { fontSize: 12 } }
+          ],
+          { x, y: CONTENT_TOP, w: columnWidth, h: 1.0, fontFace: master.titleFont, color: 'FFFFFF', fill: { color: accent }, margin: 8, valign: 'middle' }
+        );
+        page.addText(
+          phase.items.map(text => ({ text, options: { bullet: true, paraSpaceAfter: 6 } })),
+          { x, y: CONTENT_TOP + 1.15, w: columnWidth, h: 4.2, ...body, fontSize: 13, valign: 'top', fit: 'shrink' }
+        );
+      });
+      break;
+    }
+    case 'stakeholders': {
+      const columnWidth = (CONTENT_WIDTH - 0.15 * (slide.columns.length - 1)) / slide.columns.length;
+      slide.columns.forEach((column, index) => {
+        const x = CONTENT_LEFT + index * (columnWidth + 0.15);
+        const color = ATTITUDE_COLORS[column.attitude];
+        page.addText(column.label, { x, y: CONTENT_TOP, w: columnWidth, h: 0.5, fontFace: master.titleFont, fontSize: 14, bold: true, color: 'FFFFFF', fill: { color }, align: 'center' });
+        page.addText(
+          column.people.length > 0 ? column.people.map(text => ({ text, options: { breakLine: true, paraSpaceAfter: 6 } })) : [{ text: '—', options: {} }],
+          { x, y: CONTENT_TOP + 0.6, w: columnWidth, h: 4.8, ...body, fontSize: 12, valign: 'top', fit: 'shrink', line: { color, width: 0.75 } }
+        );
+      });
+      page.addText('Influence in brackets; strongest first', { x: CONTENT_LEFT, y: 6.55, w: CONTENT_WIDTH, h: 0.3, ...body, fontSize: 10, italic: true });
+      break;
+    }
+    case 'recommendation':
+      page.addText(slide.headline, { x: CONTENT_LEFT, y: CONTENT_TOP, w: CONTENT_WIDTH, h: 1.0, fontFace: master.titleFont, fontSize: 30, bold: true, color: accent });
+      slide.facts.forEach((fact, index) => {
+        page.addText(
+          [
+            { text: fact.label.toUpperCase(), options: { fontSize: 11, breakLine: true, charSpacing: 1 } },
+            { text: fact.value, options: { fontSize: 20, bold: true } }
+          ],
+          { x: CONTENT_LEFT + index * 4, y: CONTENT_TOP + 1.2, w: 3.8, h: 0.9, ...body }
+        );
+      });
+      page.addText(slide.text, {
+        x: CONTENT_LEFT, y: CONTENT_TOP + (slide.facts.length > 0 ? 2.4 : 1.3), w: CONTENT_WIDTH, h: 2.8, ...body, fontSize: 16, valign: 'top', fit: 'shrink'
+      });
+      break;
+  }
+}
+
+/**
+ * Render a readout deck to PPTX
+ */
+export async function renderSlideDeck(request: SlideDeckRequest): Promise<Buffer> {
+  const master = resolveDeckMaster(request.master);
+  const pptx = new PptxGenJS();
+  pptx.layout = 'LAYOUT_WIDE';
+  pptx.author = master.name;
+  pptx.company = master.name;
+  pptx.title = `${request.title} - ${request.account}`;
+
+  defineMasters(pptx, master);
+  buildDeckOutline(request).forEach(slide => addSlide(pptx, slide, master));
+
+  return (await pptx.write({ outputType: 'nodebuffer' })) as Buffer;
+}
+
+export default renderSlideDeck;
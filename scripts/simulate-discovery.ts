@@ -0,0 +1,150 @@
+#!/usr/bin/env tsx
+// Discovery Simulation Script
+// Runs full sessions against synthetic prospects and fails when too few hidden facts are uncovered
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import OpenAI from 'openai';
+import { setCompletionProvider, type CompletionProvider } from '../src/services/openai';
+import {
+  createCassette,
+  createModelResponder,
+  createRecordingProvider,
+  createReplayProvider,
+  formatSimulationReportMarkdown,
+  parseCassette,
+  runSimulatedSession,
+  type CompletionCassette,
+  type SimulationResult
+} from '../src/services/prospectSimulator';
+import { SIMULATOR_PERSONAS, getSimulatorPersona } from '../src/services/simulatorPersonas';
+import { METHODOLOGY_PACKS, type MethodologyId } from '../src/services/methodologyPacks';
+
+// Environment setup
+const openaiKey = process.env.VITE_OPENAI_API_KEY;
+const model = process.env.VITE_OPENAI_MODEL || 'gpt-4o';
+
+const argValue = (flag: string): string | undefined => {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const personaId = argValue('--persona') || 'all';
+const methodologyId = argValue('--methodology');
+// --record calls the live model and saves every completion; --replay serves them back offline
+const recordFile = argValue('--record');
+const replayFile = argValue('--replay');
+const outputFile = argValue('--out');
+const minCoverage = Number(argValue('--min-coverage') || 0.6);
+// 'model' has the prospect answer through the completion provider too; needs --record or --replay
+const responderKind = argValue('--responder') || 'scripted';
+
+const createLiveProvider = (apiKey: string): CompletionProvider => {
+  const client = new OpenAI({ apiKey });
+  return async (prompt, systemPrompt, maxTokens) => {
+    const completion = await client.chat.completions.create({
+      model,
+      messages: [
+        ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+        { role: 'user', content: prompt }
+      ],
+      max_tokens: maxTokens,
+      temperature: 0,
+      response_format: { type: 'json_object' }
+    });
+    return completion.choices[0]?.message?.content || '';
+  };
+};
+
+async function main() {
+  if (recordFile && replayFile) {
+    console.error('❌ Use either --record or --replay, not both');
+    process.exit(1);
+  }
+  if (recordFile && !openaiKey) {
+    console.error('❌ --record requires VITE_OPENAI_API_KEY');
+    process.exit(1);
+  }
+  if (replayFile && !existsSync(replayFile)) {
+    console.error(`❌ Cassette not found: ${replayFile}`);
+    process.exit(1);
+  }
+  if (methodologyId && !(methodologyId in METHODOLOGY_PACKS)) {
+    console.error(`❌ Unknown methodology: ${methodologyId}`);
+    process.exit(1);
+  }
+  if (responderKind !== 'scripted' && responderKind !== 'model') {
+    console.error(`❌ Unknown responder: ${responderKind} (expected scripted or model)`);
+    process.exit(1);
+  }
+  if (responderKind === 'model' && !recordFile && !replayFile) {
+    console.error('❌ --responder model requires --record or --replay');
+    process.exit(1);
+  }
+
+  const personas = personaId === 'all' ? SIMULATOR_PERSONAS : [getSimulatorPersona(personaId)].filter(Boolean);
+  if (personas.length === 0) {
+    console.error(`❌ Unknown persona: ${personaId}`);
+    console.error(`   Available: ${SIMULATOR_PERSONAS.map(persona => persona.id).join(', ')}`);
+    process.exit(1);
+  }
+
+  let cassette: CompletionCassette | null = null;
+  let provider: CompletionProvider | null = null;
+  let misses: string[] = [];
+
+  if (recordFile) {
+    cassette = createCassette();
+    provider = createRecordingProvider(createLiveProvider(openaiKey!), cassette);
+  } else if (replayFile) {
+    const replay = createReplayProvider(parseCassette(JSON.parse(readFileSync(replayFile, 'utf-8'))));
+    provider = replay.complete;
+    misses = replay.misses;
+  }
+  setCompletionProvider(provider);
+
+  const modelName = recordFile ? `live model (${model}), recording` : replayFile ? `replayed model (${replayFile})` : 'mock model';
+  console.log(`🧪 Simulating ${personas.length} discovery session(s) against the ${modelName}...`);
+
+  const results: SimulationResult[] = [];
+  for (const persona of personas) {
+    const result = await runSimulatedSession(persona, {
+      methodologyId: methodologyId as MethodologyId | undefined,
+      responder: responderKind === 'model' ? createModelResponder(persona, provider!) : undefined
+    });
+    results.push(result);
+    console.log(`  ${persona.id}: ${result.uncovered.length}/${persona.facts.length} facts in ${result.questionsAsked} questions`);
+  }
+
+  if (recordFile && cassette) {
+    writeFileSync(recordFile, JSON.stringify(cassette, null, 2) + '\n');
+    console.log(`📼 Recorded ${Object.keys(cassette.entries).length} completions to ${recordFile}`);
+  }
+
+  const markdown = formatSimulationReportMarkdown(results);
+  if (outputFile) {
+    writeFileSync(outputFile, markdown);
+    console.log(`✅ Report written to ${outputFile}`);
+  } else {
+    console.log(`\n${markdown}`);
+  }
+
+  if (misses.length > 0) {
+    console.error(`❌ ${misses.length} prompt(s) not in the cassette - the prompts changed, re-record with --record`);
+    process.exit(1);
+  }
+
+  const failing = results.filter(result => result.coverage < minCoverage);
+  if (failing.length > 0) {
+    console.error(`❌ Coverage below ${(minCoverage * 100).toFixed(0)}% for: ${failing.map(result => result.personaId).join(', ')}`);
+    process.exit(1);
+  }
+
+  console.log(`✅ All personas at or above ${(minCoverage * 100).toFixed(0)}% coverage`);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error('Simulation failed:', error);
+    process.exit(1);
+  });
+}
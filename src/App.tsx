@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import LandingDemo from "./pages/LandingDemo";
 import NotFound from "./pages/NotFound";
+import ProspectQuestionnaire from "./pages/ProspectQuestionnaire";
 
 const queryClient = new QueryClient();
 
@@ -27,6 +28,9 @@ const App = () => (
             {/* Handle legacy /demo route by redirecting to root */}
             <Route path="/demo" element={<Navigate to="/" />} />
             
+            {/* Public pre-call questionnaire a prospect opens from their link */}
+            <Route path="/q/:token" element={<ProspectQuestionnaire />} />
+            
             {/* All other routes show 404 */}
             <Route path="*" element={<NotFound />} />
           </Routes>
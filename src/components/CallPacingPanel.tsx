@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, Timer } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { formatMinutes, type PacingStatus } from '@/services/callPacing';
+
+interface CallPacingPanelProps {
+  status: PacingStatus;
+  activeArea: string | undefined;
+  // When the clock last started on the active area; null while paused
+  runningSince: number | null;
+  onTogglePause: () => void;
+}
+
+const formatClock = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// Call timer, the active area's time against its budget, and what to compress when behind
+const CallPacingPanel: React.FC<CallPacingPanelProps> = ({ status, activeArea, runningSince, onTogglePause }) => {
+  const [clockNow, setClockNow] = useState(Date.now());
+
+  // Only this panel re-renders every second
+  useEffect(() => {
+    if (runningSince === null) return;
+    const interval = setInterval(() => setClockNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningSince]);
+
+  const running = runningSince === null ? 0 : Math.max(0, (clockNow - runningSince) / 1000);
+  const callSeconds = status.elapsedMinutes * 60 + running;
+  const area = status.areas.find(a => a.area === activeArea);
+  const areaSeconds = area ? area.spentMinutes * 60 + running : 0;
+  const areaRatio = area && area.budgetMinutes > 0 ? areaSeconds / (area.budgetMinutes * 60) : 0;
+
+  return (
+    <div className="mb-4 p-4 bg-glass-bg rounded-lg border border-glass-border">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-text-primary flex items-center">
+          <Timer className="w-4 h-4 mr-2 text-sep-primary" />
+          Call Time
+        </h4>
+        <button
+          type="button"
+          className="text-text-muted hover:text-text-primary"
+          title={runningSince === null ? 'Resume timing' : 'Pause timing'}
+          onClick={onTogglePause}
+        >
+          {runningSince === null ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+        </button>
+      </div>
+
+      <div className="flex items-baseline justify-between text-xs mb-1">
+        <span className="text-text-primary font-mono text-base">{formatClock(callSeconds)}</span>
+        <span className="text-text-muted">of {formatMinutes(status.callMinutes)}</span>
+      </div>
+      <Progress value={Math.min(100, (callSeconds / (status.callMinutes * 60)) * 100)} className="h-1 mb-3" />
+
+      {area && (
+        <div className="text-xs mb-2">
+          <div className="flex justify-between mb-1">
+            <span className="text-text-secondary truncate mr-2">{area.area}</span>
+            <span className={areaRatio > 1 ? 'text-error' : areaRatio > 0.8 ? 'text-warning' : 'text-text-muted'}>
+              {formatClock(areaSeconds)} / {area.budgetMinutes} min
+            </span>
+          </div>
+          <Progress value={Math.min(100, areaRatio * 100)} className="h-1" />
+        </div>
+      )}
+
+      {status.alerts.length > 0 && (
+        <ul className="space-y-1 text-xs mt-3">
+          {status.alerts.map(alert => (
+            <li key={alert.message} className={alert.severity === 'critical' ? 'text-error' : 'text-warning'}>
+              {alert.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {status.compress.length > 0 && (
+        <div className="mt-3 text-xs">
+          <p className="font-medium text-text-primary mb-1">To finish on time</p>
+          <ul className="space-y-1 text-text-secondary">
+            {status.compress.map(suggestion => (
+              <li key={suggestion.area}>
+                • {suggestion.area}: {suggestion.toMinutes === 0
+                  ? 'skip'
+                  : `${suggestion.fromMinutes} → ${suggestion.toMinutes} min`}
+                <span className="block pl-3 text-text-muted">{suggestion.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CallPacingPanel;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { peerInitials, type CollabPeer } from '@/lib/collabClient';
+
+interface CollabPresenceProps {
+  peers: CollabPeer[];
+  size?: 'sm' | 'md';
+}
+
+const SIZE_CLASSES = {
+  sm: 'w-5 h-5 text-[9px]',
+  md: 'w-7 h-7 text-xs'
+};
+
+// Overlapping initials for the consultants co-editing a session or sitting in an area
+const CollabPresence: React.FC<CollabPresenceProps> = ({ peers, size = 'sm' }) => {
+  if (peers.length === 0) return null;
+
+  return (
+    <div className="flex -space-x-1">
+      {peers.map(peer => (
+        <span
+          key={peer.clientId}
+          title={peer.name}
+          className={`${SIZE_CLASSES[size]} rounded-full border border-glass-border flex items-center justify-center font-semibold text-white`}
+          style={{ backgroundColor: peer.color }}
+        >
+          {peerInitials(peer.name)}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default CollabPresence;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, MessageSquare, X } from 'lucide-react';
+import { CONTRADICTION_LABELS, type Contradiction, type NoteReference } from '@/services/contradictionDetector';
+
+interface ContradictionPanelProps {
+  contradictions: Contradiction[];
+  onAsk: (contradiction: Contradiction) => void;
+  onDismiss: (contradictionId: string) => void;
+}
+
+const SourceLine: React.FC<{ source: NoteReference }> = ({ source }) => (
+  <p className="text-text-muted italic" title={source.questionText}>
+    {source.areaName}, Q{source.questionNumber}: "{source.excerpt.slice(0, 70)}{source.excerpt.length > 70 ? '...' : ''}"
+  </p>
+);
+
+const ContradictionPanel: React.FC<ContradictionPanelProps> = ({ contradictions, onAsk, onDismiss }) => {
+  if (contradictions.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-semibold text-text-primary mb-3 flex items-center">
+        <AlertTriangle className="w-4 h-4 mr-2 text-warning" />
+        Needs Clarifying ({contradictions.length})
+      </h3>
+      <div className="space-y-3">
+        {contradictions.map(contradiction => (
+          <div key={contradiction.id} className="p-3 bg-glass-bg rounded-lg border border-warning/40 text-xs space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-warning">{CONTRADICTION_LABELS[contradiction.kind]}</span>
+              <button
+                type="button"
+                className="text-text-muted hover:text-text-primary"
+                title="Dismiss - not a real conflict"
+                onClick={() => onDismiss(contradiction.id)}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+            <SourceLine source={contradiction.first} />
+            <SourceLine source={contradiction.second} />
+            <p className="text-text-primary font-mono">{contradiction.clarifyingQuestion}</p>
+            <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => onAsk(contradiction)}>
+              <MessageSquare className="w-3 h-3 mr-1" /> Ask this next
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ContradictionPanel;
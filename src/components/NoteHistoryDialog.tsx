@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { RotateCcw } from 'lucide-react';
+import { MockStorageService } from '@/lib/mockStorage';
+import {
+  diffNotes,
+  summarizeDiff,
+  REVISION_REASON_LABELS,
+  type DiffSegment,
+  type NoteRevision
+} from '@/services/noteRevisions';
+
+interface NoteHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  targetId: string | null;
+  currentText: string;
+  onRestore: (revision: NoteRevision) => void;
+}
+
+const SEGMENT_CLASSES: Record<DiffSegment['op'], string> = {
+  same: '',
+  removed: 'bg-error/30 line-through',
+  added: 'bg-success/30'
+};
+
+const renderLine = (text: string | null, segments?: DiffSegment[]) => {
+  if (text === null) return null;
+  if (!segments) return text || ' ';
+  return segments.map((segment, index) => (
+    <span key={index} className={SEGMENT_CLASSES[segment.op]}>{segment.text}</span>
+  ));
+};
+
+const formatRevisionTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const NoteHistoryDialog: React.FC<NoteHistoryDialogProps> = ({
+  open,
+  onOpenChange,
+  title,
+  targetId,
+  currentText,
+  onRestore
+}) => {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Read when the dialog opens; typing behind it shouldn't move the selection
+  const currentTextRef = useRef(currentText);
+  currentTextRef.current = currentText;
+
+  useEffect(() => {
+    if (!open || !targetId) return;
+
+    let cancelled = false;
+    const loadRevisions = async () => {
+      const loaded = await MockStorageService.getNoteRevisions(targetId);
+      if (cancelled) return;
+      setRevisions(loaded);
+      // Start on the newest revision that differs from what's on screen
+      const candidate = [...loaded].reverse().find(revision => revision.text !== currentTextRef.current);
+      setSelectedId(candidate?.id || loaded[loaded.length - 1]?.id || null);
+    };
+    loadRevisions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, targetId]);
+
+  const selected = revisions.find(revision => revision.id === selectedId) || null;
+  const rows = useMemo(() => (selected ? diffNotes(selected.text, currentText) : []), [selected, currentText]);
+  const newestFirst = [...revisions].reverse();
+
+  const handleRestore = () => {
+    if (!selected) return;
+    onRestore(selected);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Note History</DialogTitle>
+          <DialogDescription>{title}</DialogDescription>
+        </DialogHeader>
+
+        {revisions.length === 0 ? (
+          <p className="text-sm text-text-muted italic">No saved revisions yet. Revisions are kept as notes autosave.</p>
+        ) : (
+          <div className="flex-1 flex min-h-0 space-x-4">
+            <div className="w-56 flex-shrink-0 overflow-y-auto space-y-1 pr-1">
+              {newestFirst.map(revision => {
+                const summary = summarizeDiff(diffNotes(revision.text, currentText));
+                const isCurrent = revision.text === currentText;
+                return (
+                  <button
+                    key={revision.id}
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left p-2 rounded-lg border text-xs ${
+                      revision.id === selectedId ? 'border-sep-secondary bg-glass-bg' : 'border-glass-border hover:bg-glass-bg/60'
+                    }`}
+                  >
+                    <div className="text-text-primary">{formatRevisionTime(revision.createdAt)}</div>
+                    <div className="text-text-muted">
+                      {revision.author.name} · {REVISION_REASON_LABELS[revision.reason]}
+                    </div>
+                    <div className="mt-1">
+                      {isCurrent ? (
+                        <span className="text-text-secondary">Matches current</span>
+                      ) : (
+                        <>
+                          <span className="text-error mr-2">-{summary.removed}</span>
+                          <span className="text-success">+{summary.added}</span>
+                        </>
+                      )}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="flex-1 min-w-0 overflow-y-auto border border-glass-border rounded-lg">
+              <div className="grid grid-cols-2 text-xs font-medium text-text-secondary border-b border-glass-border sticky top-0 bg-glass-bg">
+                <div className="px-3 py-2">{selected ? `Revision from ${formatRevisionTime(selected.createdAt)}` : 'Revision'}</div>
+                <div className="px-3 py-2 border-l border-glass-border">Current</div>
+              </div>
+              {rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-2 text-xs font-mono">
+                  <div
+                    className={`px-3 py-0.5 whitespace-pre-wrap break-words ${
+                      row.kind === 'removed' || row.kind === 'changed' ? 'bg-error/10' : ''
+                    }`}
+                  >
+                    {renderLine(row.left, row.leftSegments)}
+                  </div>
+                  <div
+                    className={`px-3 py-0.5 whitespace-pre-wrap break-words border-l border-glass-border ${
+                      row.kind === 'added' || row.kind === 'changed' ? 'bg-success/10' : ''
+                    }`}
+                  >
+                    {renderLine(row.right, row.rightSegments)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button disabled={!selected || selected.text === currentText} onClick={handleRestore}>
+            <RotateCcw className="w-4 h-4 mr-2" /> Restore This Version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NoteHistoryDialog;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { History } from 'lucide-react';
+import { findingsForArea, gapsForArea, type FollowUpContext } from '@/services/accountThreads';
+
+interface PriorCallsPanelProps {
+  context: FollowUpContext | null;
+  areaName: string | undefined;
+}
+
+const EXCERPT_LENGTH = 140;
+
+// What earlier calls with this account found in the current area, and what they left open
+const PriorCallsPanel: React.FC<PriorCallsPanelProps> = ({ context, areaName }) => {
+  const [showAllGaps, setShowAllGaps] = useState(false);
+  if (!context) return null;
+
+  const findings = areaName ? findingsForArea(context, areaName) : [];
+  const areaGaps = areaName ? gapsForArea(context, areaName) : [];
+  const gaps = showAllGaps ? context.gaps : areaGaps;
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-semibold text-text-primary mb-1 flex items-center">
+        <History className="w-4 h-4 mr-2 text-sep-primary" />
+        Earlier Calls
+      </h3>
+      <p className="text-xs text-text-muted mb-3">
+        Call {context.callNumber} with this account
+        {context.contacts.length > 0 && ` · previously spoke with ${context.contacts.join(', ')}`}
+      </p>
+
+      {areaName && (
+        <div className="space-y-2 mb-3">
+          {findings.length > 0 ? findings.map((finding, index) => (
+            <div key={`${finding.sessionId}-${index}`} className="p-3 bg-glass-bg rounded-lg border border-glass-border text-xs space-y-1">
+              <p className="text-text-muted" title={finding.questionText}>
+                Call {finding.callNumber}, {finding.contactName}
+              </p>
+              <p className="text-text-primary">
+                {finding.notes.slice(0, EXCERPT_LENGTH)}{finding.notes.length > EXCERPT_LENGTH ? '...' : ''}
+              </p>
+            </div>
+          )) : (
+            <p className="text-xs text-text-muted">Not covered on earlier calls.</p>
+          )}
+        </div>
+      )}
+
+      {context.gaps.length > 0 && (
+        <div className="text-xs">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium text-warning">
+              Open gaps ({showAllGaps ? context.gaps.length : areaGaps.length})
+            </span>
+            <button
+              type="button"
+              className="text-text-muted hover:text-text-primary"
+              onClick={() => setShowAllGaps(!showAllGaps)}
+            >
+              {showAllGaps ? 'This area' : `All areas (${context.gaps.length})`}
+            </button>
+          </div>
+          <ul className="space-y-1 text-text-secondary">
+            {gaps.map(gap => <li key={gap}>• {gap}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriorCallsPanel;
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Copy, Link2 } from 'lucide-react';
+import { MockStorageService } from '@/lib/mockStorage';
+import {
+  createQuestionnaire,
+  defaultQuestionnaireSelection,
+  questionnaireOptions,
+  questionnaireStatus,
+  questionnaireUrl,
+  QUESTIONNAIRE_STATUS_LABELS,
+  QUESTIONNAIRE_TTL_DAYS,
+  type ProspectQuestionnaire
+} from '@/services/prospectQuestionnaire';
+import type { DiscoverySession } from '@/types/discovery';
+
+interface ProspectQuestionnaireDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  session: DiscoverySession | null;
+  areaNames: string[];
+  user: { id: string; full_name?: string; email?: string } | null;
+}
+
+const statusClass = (status: string) =>
+  status === 'submitted' ? 'text-success' : status === 'open' ? 'text-warning' : 'text-text-muted';
+
+const ProspectQuestionnaireDialog: React.FC<ProspectQuestionnaireDialogProps> = ({
+  open,
+  onOpenChange,
+  session,
+  areaNames,
+  user
+}) => {
+  const [questionnaires, setQuestionnaires] = useState<ProspectQuestionnaire[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const options = session ? questionnaireOptions(session, areaNames) : [];
+  const optionKey = options.map(option => option.id).join('|');
+
+  useEffect(() => {
+    if (!open || !session) return;
+    MockStorageService.getSessionQuestionnaires(session.id).then(setQuestionnaires);
+  }, [open, session]);
+
+  // Re-pick the defaults whenever the dialog opens or the areas change; ids are "<area>#<index>"
+  useEffect(() => {
+    if (!open) return;
+    const ids = optionKey ? optionKey.split('|') : [];
+    setSelected(defaultQuestionnaireSelection(ids.map(id => ({ id, areaName: id.slice(0, id.lastIndexOf('#')) }))));
+    setCopiedId(null);
+  }, [open, optionKey]);
+
+  const toggleQuestion = (id: string, included: boolean) => {
+    setSelected(prev => included ? [...prev, id] : prev.filter(selectedId => selectedId !== id));
+  };
+
+  const handleCreate = async () => {
+    if (!session || !user || selected.length === 0) return;
+    const questionnaire = createQuestionnaire(session, options.filter(option => selected.includes(option.id)), user);
+    await MockStorageService.saveProspectQuestionnaire(questionnaire);
+    setQuestionnaires(prev => [questionnaire, ...prev]);
+    handleCopy(questionnaire);
+  };
+
+  const handleCopy = async (questionnaire: ProspectQuestionnaire) => {
+    try {
+      await navigator.clipboard.writeText(questionnaireUrl(window.location.origin, questionnaire.token));
+      setCopiedId(questionnaire.id);
+    } catch (error) {
+      console.error('Error copying questionnaire link:', error);
+    }
+  };
+
+  const handleRevoke = async (questionnaire: ProspectQuestionnaire) => {
+    await MockStorageService.revokeProspectQuestionnaire(questionnaire.id);
+    setQuestionnaires(prev => prev.map(q => q.id === questionnaire.id ? { ...q, status: 'revoked' } : q));
+  };
+
+  const areas = [...new Set(options.map(option => option.areaName))];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Pre-Call Questionnaire</DialogTitle>
+          <DialogDescription>
+            Pick a few opening questions for {session?.contact_name || 'the prospect'} to answer before the call.
+            Their answers are added to your notes, so the call starts with deeper questions in those areas.
+            Links work for {QUESTIONNAIRE_TTL_DAYS} days and take one set of answers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-5 pr-1">
+          {areas.map(area => (
+            <div key={area}>
+              <h4 className="text-sm font-medium text-text-primary mb-2">{area}</h4>
+              <div className="space-y-2">
+                {options.filter(option => option.areaName === area).map(option => (
+                  <label key={option.id} className="flex items-start space-x-3 text-sm text-text-secondary cursor-pointer">
+                    <Checkbox
+                      checked={selected.includes(option.id)}
+                      onCheckedChange={(checked) => toggleQuestion(option.id, checked === true)}
+                    />
+                    <span>{option.questionText}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {questionnaires.length > 0 && (
+            <div className="border-t border-glass-border pt-4">
+              <h4 className="text-sm font-medium text-text-primary mb-2">Links Sent</h4>
+              <div className="space-y-2">
+                {questionnaires.map(questionnaire => {
+                  const status = questionnaireStatus(questionnaire);
+                  return (
+                    <div key={questionnaire.id} className="flex items-center gap-2 text-xs">
+                      <Link2 className="w-3 h-3 text-text-muted flex-shrink-0" />
+                      <Input
+                        readOnly
+                        value={questionnaireUrl(window.location.origin, questionnaire.token)}
+                        className="h-7 text-xs flex-1"
+                      />
+                      <span className={`w-32 ${statusClass(status)}`}>
+                        {QUESTIONNAIRE_STATUS_LABELS[status]} · {questionnaire.questions.length}Q
+                      </span>
+                      {status === 'open' && (
+                        <>
+                          <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => handleCopy(questionnaire)}>
+                            <Copy className="w-3 h-3 mr-1" />
+                            {copiedId === questionnaire.id ? 'Copied' : 'Copy'}
+                          </Button>
+                          <Button size="sm" variant="ghost" className="h-7 px-2 text-error" onClick={() => handleRevoke(questionnaire)}>
+                            Turn Off
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button onClick={handleCreate} disabled={selected.length === 0 || !user} className="btn-sep">
+            Create Link ({selected.length} question{selected.length === 1 ? '' : 's'})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProspectQuestionnaireDialog;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Check, X, Pencil, RotateCcw } from 'lucide-react';
+import {
+  PROSPECT_SLOTS,
+  PROSPECT_SLOT_GROUPS,
+  getSlotDefinition,
+  type SlotProposal
+} from '@/services/prospectExtraction';
+
+interface ProspectSlotReviewProps {
+  proposals: SlotProposal[];
+  completionPercentage: number;
+  isExtracting?: boolean;
+  onAccept: (proposalId: string, value?: string) => void;
+  onReject: (proposalId: string) => void;
+  onReopen: (proposalId: string) => void;
+}
+
+const confidenceClass = (confidence: number) =>
+  confidence >= 0.75 ? 'text-success' : confidence >= 0.5 ? 'text-warning' : 'text-text-muted';
+
+const ProspectSlotReview: React.FC<ProspectSlotReviewProps> = ({
+  proposals,
+  completionPercentage,
+  isExtracting = false,
+  onAccept,
+  onReject,
+  onReopen
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+
+  const pending = proposals
+    .filter(p => p.status === 'pending')
+    .sort((a, b) => b.confidence - a.confidence);
+  const accepted = PROSPECT_SLOTS
+    .map(slot => proposals.find(p => p.slot === slot.key && p.status === 'accepted'))
+    .filter((p): p is SlotProposal => !!p);
+
+  const startEdit = (proposal: SlotProposal) => {
+    setEditingId(proposal.id);
+    setEditValue(proposal.value);
+  };
+
+  const saveEdit = (proposal: SlotProposal) => {
+    const value = editValue.trim();
+    if (value) onAccept(proposal.id, value);
+    setEditingId(null);
+  };
+
+  const slotTitle = (proposal: SlotProposal) => {
+    const definition = getSlotDefinition(proposal.slot);
+    return definition ? `${PROSPECT_SLOT_GROUPS[definition.group]} · ${definition.label}` : proposal.slot;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-semibold text-text-primary">Prospect Profile</h3>
+          <span className="text-xs text-text-secondary">{completionPercentage}%</span>
+        </div>
+        <Progress value={completionPercentage} className="h-1" />
+        {isExtracting && (
+          <p className="text-xs text-text-muted mt-2 italic">Extracting facts from your notes...</p>
+        )}
+      </div>
+
+      {/* Proposals awaiting review */}
+      <div>
+        <h4 className="text-sm font-medium text-text-primary mb-2">To Review ({pending.length})</h4>
+        {pending.length === 0 ? (
+          <p className="text-xs text-text-muted">
+            Proposed values appear here after each ASSESS.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {pending.map(proposal => (
+              <div key={proposal.id} className="p-3 bg-glass-bg rounded-lg border border-glass-border text-xs">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-text-secondary">{slotTitle(proposal)}</span>
+                  <span className={confidenceClass(proposal.confidence)}>
+                    {Math.round(proposal.confidence * 100)}%
+                  </span>
+                </div>
+
+                {editingId === proposal.id ? (
+                  <Input
+                    value={editValue}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && saveEdit(proposal)}
+                    className="h-8 text-xs font-mono mb-2"
+                    autoFocus
+                  />
+                ) : (
+                  <p className="text-text-primary font-mono mb-2">{proposal.value}</p>
+                )}
+
+                <p className="text-text-muted italic mb-2" title={proposal.source.excerpt}>
+                  From {proposal.source.areaName}, Q{proposal.source.questionNumber}: "{proposal.source.excerpt.slice(0, 80)}
+                  {proposal.source.excerpt.length > 80 ? '...' : ''}"
+                </p>
+
+                <div className="flex space-x-2">
+                  {editingId === proposal.id ? (
+                    <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => saveEdit(proposal)}>
+                      <Check className="w-3 h-3 mr-1" /> Save
+                    </Button>
+                  ) : (
+                    <>
+                      <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => onAccept(proposal.id)}>
+                        <Check className="w-3 h-3 mr-1" /> Accept
+                      </Button>
+                      <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => startEdit(proposal)}>
+                        <Pencil className="w-3 h-3 mr-1" /> Edit
+                      </Button>
+                    </>
+                  )}
+                  <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => onReject(proposal.id)}>
+                    <X className="w-3 h-3 mr-1" /> Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Accepted slot values */}
+      {accepted.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-text-primary mb-2">Captured ({accepted.length})</h4>
+          <div className="space-y-2">
+            {accepted.map(proposal => (
+              <div key={proposal.id} className="text-xs flex items-start justify-between">
+                <div className="mr-2">
+                  <div className="text-text-secondary">{slotTitle(proposal)}</div>
+                  <div className="text-text-primary font-mono">{proposal.value}</div>
+                </div>
+                <button
+                  type="button"
+                  className="text-text-muted hover:text-text-primary flex-shrink-0"
+                  title="Move back to review"
+                  onClick={() => onReopen(proposal.id)}
+                >
+                  <RotateCcw className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProspectSlotReview;
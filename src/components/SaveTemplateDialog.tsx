@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import type { TemplateVisibility } from '@/services/sessionTemplates';
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultName: string;
+  // Sharing needs an organization to share with
+  canShare: boolean;
+  areaCount: number;
+  seededCount: number;
+  onSave: (details: { name: string; description: string; visibility: TemplateVisibility }) => Promise<void>;
+}
+
+const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({
+  open,
+  onOpenChange,
+  defaultName,
+  canShare,
+  areaCount,
+  seededCount,
+  onSave
+}) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [shared, setShared] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(defaultName);
+    setDescription('');
+    setShared(false);
+    setError(null);
+  }, [open, defaultName]);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({ name, description, visibility: shared && canShare ? 'organization' : 'private' });
+      onOpenChange(false);
+    } catch (saveError) {
+      console.error('Error saving session template:', saveError);
+      setError('The template could not be saved. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Keeps the client profile, context, scope, next-step goal, methodology, {areaCount} discovery
+            area{areaCount === 1 ? '' : 's'} and {seededCount} seeded question{seededCount === 1 ? '' : 's'}.
+            The account and contact are not saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="templateName" className="text-text-primary">Template Name</Label>
+            <Input
+              id="templateName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Healthcare platform modernization"
+              className="input-field"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="templateDescription" className="text-text-primary">Description</Label>
+            <Textarea
+              id="templateDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="When to use this template"
+              className="input-field"
+              rows={3}
+            />
+          </div>
+
+          <div className="flex items-start space-x-3">
+            <Checkbox
+              id="templateShared"
+              checked={shared && canShare}
+              disabled={!canShare}
+              onCheckedChange={(checked) => setShared(checked === true)}
+            />
+            <Label htmlFor="templateShared" className="text-text-primary cursor-pointer">
+              Share with my organization
+              <span className="block text-text-muted text-xs mt-1">
+                {canShare
+                  ? 'Everyone in your organization can start sessions from it. Only you can change or delete it.'
+                  : 'Join an organization to share templates.'}
+              </span>
+            </Label>
+          </div>
+
+          {error && <p className="text-error text-sm">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!name.trim() || isSaving} className="btn-sep">
+            {isSaving ? 'Saving...' : 'Save Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveTemplateDialog;
@@ -0,0 +1,421 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import {
+  addRelationship,
+  createStakeholder,
+  removeRelationship,
+  removeStakeholder,
+  updateStakeholder,
+  ATTITUDES,
+  ATTITUDE_LABELS,
+  INFLUENCE_LABELS,
+  INFLUENCE_LEVELS,
+  RELATIONSHIP_LABELS,
+  type RelationshipKind,
+  type Stakeholder,
+  type StakeholderAttitude,
+  type StakeholderInfluence,
+  type StakeholderMap
+} from '@/services/stakeholderMap';
+
+interface StakeholderMapEditorProps {
+  map: StakeholderMap;
+  onChange: (map: StakeholderMap) => void;
+  // Run extraction over the notes again; hidden when not given
+  onReextract?: () => void;
+  isExtracting?: boolean;
+}
+
+// Attitude runs left to right, influence top (high) to bottom
+const LABEL_WIDTH = 72;
+const HEADER_HEIGHT = 24;
+const CELL_WIDTH = 112;
+const CELL_HEIGHT = 104;
+const NODE_HEIGHT = 22;
+const WIDTH = LABEL_WIDTH + CELL_WIDTH * ATTITUDES.length;
+const HEIGHT = HEADER_HEIGHT + CELL_HEIGHT * INFLUENCE_LEVELS.length;
+const ROWS = [...INFLUENCE_LEVELS].reverse();
+
+const ATTITUDE_STROKES: Record<StakeholderAttitude, string> = {
+  blocker: 'stroke-error',
+  skeptic: 'stroke-warning',
+  neutral: 'stroke-text-muted',
+  supporter: 'stroke-success',
+  champion: 'stroke-success'
+};
+
+const RELATIONSHIP_STYLES: Record<RelationshipKind, { line: string; marker: string; dash?: string }> = {
+  reports_to: { line: 'stroke-text-muted', marker: 'fill-text-muted' },
+  influences: { line: 'stroke-sep-primary', marker: 'fill-sep-primary', dash: '4 3' },
+  blocks: { line: 'stroke-error', marker: 'fill-error' }
+};
+
+const cellAt = (x: number, y: number): { attitude: StakeholderAttitude; influence: StakeholderInfluence } | null => {
+  const column = Math.floor((x - LABEL_WIDTH) / CELL_WIDTH);
+  const row = Math.floor((y - HEADER_HEIGHT) / CELL_HEIGHT);
+  if (column < 0 || column >= ATTITUDES.length || row < 0 || row >= ROWS.length) return null;
+  return { attitude: ATTITUDES[column], influence: ROWS[row] };
+};
+
+// Node centres, stacked within their cell
+const layoutNodes = (stakeholders: Stakeholder[]): Record<string, { x: number; y: number }> => {
+  const filled: Record<string, number> = {};
+  return Object.fromEntries(stakeholders.map(s => {
+    const cell = `${s.attitude}:${s.influence}`;
+    const slot = filled[cell] = (filled[cell] ?? -1) + 1;
+    return [s.id, {
+      x: LABEL_WIDTH + ATTITUDES.indexOf(s.attitude) * CELL_WIDTH + CELL_WIDTH / 2,
+      y: HEADER_HEIGHT + ROWS.indexOf(s.influence) * CELL_HEIGHT + 18 + slot * (NODE_HEIGHT + 4)
+    }];
+  }));
+};
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+// Power map: stakeholders placed by attitude and influence, dragged between cells to re-rate them
+const StakeholderMapEditor: React.FC<StakeholderMapEditorProps> = ({ map, onChange, onReextract, isExtracting }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<{ id: string; x: number; y: number } | null>(null);
+  // Text fields are committed on blur, not on every keystroke
+  const [editing, setEditing] = useState<{ id: string; fields: Pick<Stakeholder, 'name' | 'role' | 'department' | 'notes'> } | null>(null);
+  const [newRelationship, setNewRelationship] = useState<{ kind: RelationshipKind; to: string }>({ kind: 'reports_to', to: '' });
+
+  const selected = map.stakeholders.find(s => s.id === selectedId) || null;
+  const positions = layoutNodes(map.stakeholders);
+  const nameOf = (id: string) => map.stakeholders.find(s => s.id === id)?.name || 'Unknown';
+
+  const draft = selected && (editing?.id === selected.id
+    ? editing.fields
+    : { name: selected.name, role: selected.role, department: selected.department, notes: selected.notes });
+  const setDraft = (fields: typeof draft) => setEditing({ id: selected.id, fields });
+
+  const select = (id: string | null) => {
+    setSelectedId(id);
+    setNewRelationship(previous => ({ ...previous, to: '' }));
+  };
+
+  const toSvgPoint = (event: React.PointerEvent) => {
+    const rect = svgRef.current.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * WIDTH / rect.width,
+      y: (event.clientY - rect.top) * HEIGHT / rect.height
+    };
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const target = cellAt(drag.x, drag.y);
+    const stakeholder = map.stakeholders.find(s => s.id === drag.id);
+    if (target && stakeholder && (target.attitude !== stakeholder.attitude || target.influence !== stakeholder.influence)) {
+      onChange(updateStakeholder(map, drag.id, target));
+    }
+    setDrag(null);
+  };
+
+  const commitDraft = () => {
+    if (!selected || !draft) return;
+    const changed = (Object.keys(draft) as Array<keyof typeof draft>).some(key => draft[key] !== selected[key]);
+    if (changed && draft.name.trim()) {
+      onChange(updateStakeholder(map, selected.id, { ...draft, name: draft.name.trim() }));
+    }
+  };
+
+  const handleAdd = () => {
+    const stakeholder = createStakeholder({ name: `Stakeholder ${map.stakeholders.length + 1}` });
+    onChange({ ...map, stakeholders: [...map.stakeholders, stakeholder], updated_at: new Date().toISOString() });
+    select(stakeholder.id);
+  };
+
+  const handleAddRelationship = () => {
+    if (!selected || !newRelationship.to) return;
+    onChange(addRelationship(map, selected.id, newRelationship.to, newRelationship.kind));
+    setNewRelationship({ ...newRelationship, to: '' });
+  };
+
+  const selectedRelationships = selected
+    ? map.relationships.filter(r => r.from === selected.id || r.to === selected.id)
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-4 text-xs text-text-muted">
+          {(Object.keys(RELATIONSHIP_LABELS) as RelationshipKind[]).map(kind => (
+            <span key={kind} className="flex items-center gap-1">
+              <svg width="20" height="6">
+                <line
+                  x1="0" y1="3" x2="20" y2="3" strokeWidth="2"
+                  className={RELATIONSHIP_STYLES[kind].line}
+                  strokeDasharray={RELATIONSHIP_STYLES[kind].dash}
+                />
+              </svg>
+              {RELATIONSHIP_LABELS[kind]}
+            </span>
+          ))}
+          <span>Dashed outline = extracted, not yet confirmed</span>
+        </div>
+        <div className="flex gap-2">
+          {onReextract && (
+            <Button variant="outline" size="sm" onClick={onReextract} disabled={isExtracting}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isExtracting ? 'animate-spin' : ''}`} />
+              {isExtracting ? 'Extracting...' : 'Re-extract from Notes'}
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={handleAdd}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Stakeholder
+          </Button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full select-none touch-none"
+        onPointerMove={(event) => drag && setDrag({ id: drag.id, ...toSvgPoint(event) })}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => setDrag(null)}
+      >
+        <defs>
+          {(Object.keys(RELATIONSHIP_STYLES) as RelationshipKind[]).map(kind => (
+            <marker key={kind} id={`stakeholder-arrow-${kind}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+              <path d="M0,0 L10,5 L0,10 z" className={RELATIONSHIP_STYLES[kind].marker} />
+            </marker>
+          ))}
+        </defs>
+
+        {ATTITUDES.map((attitude, column) => (
+          <text
+            key={attitude}
+            x={LABEL_WIDTH + column * CELL_WIDTH + CELL_WIDTH / 2}
+            y={16}
+            textAnchor="middle"
+            className="fill-text-secondary text-[11px]"
+          >
+            {ATTITUDE_LABELS[attitude]}
+          </text>
+        ))}
+        {ROWS.map((influence, row) => (
+          <g key={influence}>
+            <text x={4} y={HEADER_HEIGHT + row * CELL_HEIGHT + CELL_HEIGHT / 2} className="fill-text-secondary text-[11px]">
+              {INFLUENCE_LABELS[influence].replace(' influence', '')}
+            </text>
+            {ATTITUDES.map((attitude, column) => (
+              <rect
+                key={attitude}
+                x={LABEL_WIDTH + column * CELL_WIDTH}
+                y={HEADER_HEIGHT + row * CELL_HEIGHT}
+                width={CELL_WIDTH}
+                height={CELL_HEIGHT}
+                className={`stroke-glass-border ${
+                  drag && cellAt(drag.x, drag.y)?.attitude === attitude && cellAt(drag.x, drag.y)?.influence === influence
+                    ? 'fill-sep-primary/10'
+                    : 'fill-transparent'
+                }`}
+              />
+            ))}
+          </g>
+        ))}
+
+        {map.relationships.map(relationship => {
+          const from = drag?.id === relationship.from ? drag : positions[relationship.from];
+          const to = drag?.id === relationship.to ? drag : positions[relationship.to];
+          if (!from || !to) return null;
+          const style = RELATIONSHIP_STYLES[relationship.kind];
+          // Stop short of the target so the arrowhead stays visible
+          const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+          const inset = Math.min(length / 2, Math.abs(to.y - from.y) > Math.abs(to.x - from.x) ? NODE_HEIGHT / 2 + 2 : CELL_WIDTH / 2 - 4);
+          return (
+            <line
+              key={relationship.id}
+              x1={from.x}
+              y1={from.y}
+              x2={to.x - (to.x - from.x) * inset / length}
+              y2={to.y - (to.y - from.y) * inset / length}
+              strokeWidth={relationship.from === selectedId || relationship.to === selectedId ? 2.5 : 1.5}
+              strokeDasharray={style.dash}
+              markerEnd={`url(#stakeholder-arrow-${relationship.kind})`}
+              className={style.line}
+            />
+          );
+        })}
+
+        {map.stakeholders.map(stakeholder => {
+          const position = drag?.id === stakeholder.id ? drag : positions[stakeholder.id];
+          return (
+            <g
+              key={stakeholder.id}
+              transform={`translate(${position.x - CELL_WIDTH / 2 + 6}, ${position.y - NODE_HEIGHT / 2})`}
+              className="cursor-grab"
+              onPointerDown={(event) => {
+                select(stakeholder.id);
+                setDrag({ id: stakeholder.id, ...toSvgPoint(event) });
+              }}
+            >
+              <title>
+                {`${stakeholder.name}${stakeholder.role ? `, ${stakeholder.role}` : ''}${stakeholder.confirmed ? '' : ' - extracted from notes, edit to confirm'}`}
+              </title>
+              <rect
+                width={CELL_WIDTH - 12}
+                height={NODE_HEIGHT}
+                rx={6}
+                strokeWidth={stakeholder.id === selectedId ? 2.5 : 1.5}
+                strokeDasharray={stakeholder.confirmed ? undefined : '3 2'}
+                className={`fill-glass-bg ${ATTITUDE_STROKES[stakeholder.attitude]}`}
+              />
+              <text x={(CELL_WIDTH - 12) / 2} y={15} textAnchor="middle" className="fill-text-primary text-[11px]">
+                {truncate(stakeholder.name, 15)}
+              </text>
+            </g>
+          );
+        })}
+
+        {map.stakeholders.length === 0 && (
+          <text x={WIDTH / 2} y={HEIGHT / 2} textAnchor="middle" className="fill-text-muted text-xs">
+            No stakeholders yet - they're added as names come up in the notes
+          </text>
+        )}
+      </svg>
+
+      {selected && draft && (
+        <div className="p-4 bg-glass-bg rounded-lg border border-glass-border space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-text-primary">
+              {selected.name}
+              {!selected.confirmed && <span className="ml-2 text-xs text-text-muted">Extracted from notes</span>}
+            </h4>
+            <div className="flex gap-2">
+              {!selected.confirmed && (
+                <Button variant="outline" size="sm" onClick={() => onChange(updateStakeholder(map, selected.id, {}))}>
+                  Confirm
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onChange(removeStakeholder(map, selected.id));
+                  select(null);
+                }}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Remove
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {(['name', 'role', 'department'] as const).map(field => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`stakeholder-${field}`} className="text-text-primary text-xs capitalize">{field}</Label>
+                <Input
+                  id={`stakeholder-${field}`}
+                  value={draft[field]}
+                  onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                  onBlur={commitDraft}
+                  className="input-field h-8"
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label htmlFor="stakeholder-notes" className="text-text-primary text-xs">Notes</Label>
+              <Input
+                id="stakeholder-notes"
+                value={draft.notes}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                onBlur={commitDraft}
+                placeholder="e.g., cares most about rollout risk"
+                className="input-field h-8"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-text-primary text-xs">Influence</Label>
+              <Select
+                value={selected.influence}
+                onValueChange={(value) => onChange(updateStakeholder(map, selected.id, { influence: value as StakeholderInfluence }))}
+              >
+                <SelectTrigger className="input-field h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ROWS.map(level => <SelectItem key={level} value={level}>{INFLUENCE_LABELS[level]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-text-primary text-xs">Attitude</Label>
+              <Select
+                value={selected.attitude}
+                onValueChange={(value) => onChange(updateStakeholder(map, selected.id, { attitude: value as StakeholderAttitude }))}
+              >
+                <SelectTrigger className="input-field h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ATTITUDES.map(attitude => <SelectItem key={attitude} value={attitude}>{ATTITUDE_LABELS[attitude]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {selected.source?.excerpt && (
+            <p className="text-xs text-text-muted">
+              From {selected.source.areaName}, Q{selected.source.questionNumber}: "{selected.source.excerpt}"
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-text-primary text-xs">Relationships</Label>
+            {selectedRelationships.length > 0 && (
+              <ul className="space-y-1 text-xs text-text-secondary">
+                {selectedRelationships.map(relationship => (
+                  <li key={relationship.id} className="flex items-center justify-between">
+                    <span>{nameOf(relationship.from)} {RELATIONSHIP_LABELS[relationship.kind]} {nameOf(relationship.to)}</span>
+                    <button
+                      type="button"
+                      className="text-text-muted hover:text-error"
+                      title="Remove relationship"
+                      onClick={() => onChange(removeRelationship(map, relationship.id))}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {map.stakeholders.length > 1 && (
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-text-secondary whitespace-nowrap">{truncate(selected.name, 20)}</span>
+                <Select
+                  value={newRelationship.kind}
+                  onValueChange={(value) => setNewRelationship({ ...newRelationship, kind: value as RelationshipKind })}
+                >
+                  <SelectTrigger className="input-field h-8 w-36"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RELATIONSHIP_LABELS) as RelationshipKind[]).map(kind => (
+                      <SelectItem key={kind} value={kind}>{RELATIONSHIP_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={newRelationship.to} onValueChange={(value) => setNewRelationship({ ...newRelationship, to: value })}>
+                  <SelectTrigger className="input-field h-8 flex-1"><SelectValue placeholder="Choose someone" /></SelectTrigger>
+                  <SelectContent>
+                    {map.stakeholders.filter(s => s.id !== selected.id).map(s => (
+                      <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={handleAddRelationship} disabled={!newRelationship.to}>
+                  Add
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StakeholderMapEditor;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Network } from 'lucide-react';
+import StakeholderMapEditor from '@/components/StakeholderMapEditor';
+import {
+  ATTITUDES,
+  ATTITUDE_LABELS,
+  INFLUENCE_LEVELS,
+  type StakeholderAttitude,
+  type StakeholderMap
+} from '@/services/stakeholderMap';
+
+interface StakeholderMapPanelProps {
+  map: StakeholderMap | null;
+  onChange: (map: StakeholderMap) => void;
+  onReextract?: () => void;
+  isExtracting?: boolean;
+}
+
+const ATTITUDE_CLASSES: Record<StakeholderAttitude, string> = {
+  blocker: 'text-error',
+  skeptic: 'text-warning',
+  neutral: 'text-text-muted',
+  supporter: 'text-success',
+  champion: 'text-success'
+};
+
+// Sidebar list of who matters most, with the full power map in a dialog
+const StakeholderMapPanel: React.FC<StakeholderMapPanelProps> = ({ map, onChange, onReextract, isExtracting = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const stakeholders = [...(map?.stakeholders || [])].sort((a, b) =>
+    INFLUENCE_LEVELS.indexOf(b.influence) - INFLUENCE_LEVELS.indexOf(a.influence) ||
+    ATTITUDES.indexOf(a.attitude) - ATTITUDES.indexOf(b.attitude)
+  );
+  const unconfirmed = stakeholders.filter(s => !s.confirmed).length;
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-text-primary">Stakeholders</h3>
+        <Button variant="outline" size="sm" onClick={() => setIsOpen(true)} disabled={!map}>
+          <Network className="w-4 h-4 mr-2" />
+          Power Map
+        </Button>
+      </div>
+
+      {stakeholders.length === 0 ? (
+        <p className="text-xs text-text-muted">People named in your notes appear here after each ASSESS.</p>
+      ) : (
+        <ul className="space-y-1 text-xs">
+          {stakeholders.slice(0, 6).map(stakeholder => (
+            <li key={stakeholder.id} className="flex justify-between">
+              <span className="text-text-primary truncate mr-2">
+                {stakeholder.name}
+                {stakeholder.role && <span className="text-text-muted"> · {stakeholder.role}</span>}
+              </span>
+              <span className={ATTITUDE_CLASSES[stakeholder.attitude]}>{ATTITUDE_LABELS[stakeholder.attitude]}</span>
+            </li>
+          ))}
+          {stakeholders.length > 6 && <li className="text-text-muted">+{stakeholders.length - 6} more</li>}
+        </ul>
+      )}
+      {unconfirmed > 0 && (
+        <p className="text-xs text-text-muted mt-2">{unconfirmed} extracted from notes, not yet confirmed</p>
+      )}
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Stakeholder Power Map</DialogTitle>
+            <DialogDescription>
+              Drag people between cells to change their attitude or influence; click someone to edit them and their relationships.
+            </DialogDescription>
+          </DialogHeader>
+          {map && (
+            <StakeholderMapEditor map={map} onChange={onChange} onReextract={onReextract} isExtracting={isExtracting} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default StakeholderMapPanel;
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, Upload } from 'lucide-react';
+import { classifyTranscriptTurns } from '@/services/openai';
+import {
+  formatTranscriptTime,
+  guessConsultantSpeaker,
+  parseTranscript,
+  segmentTranscript,
+  LOW_CONFIDENCE_THRESHOLD,
+  type ParsedTranscript,
+  type TranscriptTurn
+} from '@/services/transcriptImport';
+import type { MethodologyArea } from '@/services/methodologyPacks';
+
+interface TranscriptImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  areas: MethodologyArea[];
+  contactName?: string;
+  onMerge: (turns: TranscriptTurn[]) => void;
+}
+
+// Select needs a non-empty value for "no area"
+const UNASSIGNED = '__unassigned__';
+
+const confidenceClass = (confidence: number) =>
+  confidence >= 0.75 ? 'text-success' : confidence >= LOW_CONFIDENCE_THRESHOLD ? 'text-warning' : 'text-text-muted';
+
+const TranscriptImportDialog: React.FC<TranscriptImportDialogProps> = ({
+  open,
+  onOpenChange,
+  areas,
+  contactName,
+  onMerge
+}) => {
+  const [pasted, setPasted] = useState('');
+  const [transcript, setTranscript] = useState<ParsedTranscript | null>(null);
+  const [consultantSpeaker, setConsultantSpeaker] = useState<string | null>(null);
+  const [turns, setTurns] = useState<TranscriptTurn[]>([]);
+  const [isClassifying, setIsClassifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-split and re-classify whenever the consultant speaker changes
+  useEffect(() => {
+    if (!transcript) return;
+
+    let cancelled = false;
+    const classify = async () => {
+      setIsClassifying(true);
+      const classified = await classifyTranscriptTurns(segmentTranscript(transcript, consultantSpeaker), areas);
+      if (!cancelled) {
+        setTurns(classified);
+        setIsClassifying(false);
+      }
+    };
+    classify();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [transcript, consultantSpeaker, areas]);
+
+  const reset = () => {
+    setPasted('');
+    setTranscript(null);
+    setConsultantSpeaker(null);
+    setTurns([]);
+    setError(null);
+  };
+
+  const load = (fileName: string, content: string) => {
+    try {
+      const parsed = parseTranscript(fileName, content);
+      setError(null);
+      setConsultantSpeaker(guessConsultantSpeaker(parsed, contactName));
+      setTranscript(parsed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the transcript');
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) load(file.name, await file.text());
+  };
+
+  const updateTurn = (turnId: string, changes: Partial<TranscriptTurn>) => {
+    setTurns(prev => prev.map(turn => (turn.id === turnId ? { ...turn, ...changes } : turn)));
+  };
+
+  const mergeable = turns.filter(turn => turn.included && turn.area);
+
+  const handleMerge = () => {
+    onMerge(mergeable);
+    reset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) reset(); onOpenChange(next); }}>
+      <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Call Transcript</DialogTitle>
+          <DialogDescription>
+            Upload a VTT, SRT, text or meeting-tool JSON transcript. Each answer is sorted into a discovery area for you to check before it's added to your notes.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!transcript ? (
+          <div className="space-y-4">
+            <label className="flex items-center justify-center p-6 border-2 border-dashed border-glass-border rounded-lg cursor-pointer hover:border-sep-secondary/50">
+              <Upload className="w-4 h-4 mr-2 text-text-secondary" />
+              <span className="text-sm text-text-secondary">Choose a .vtt, .srt, .txt or .json file</span>
+              <Input type="file" accept=".vtt,.srt,.txt,.json" className="hidden" onChange={handleFile} />
+            </label>
+            <div className="text-xs text-text-muted text-center">or paste it below</div>
+            <Textarea
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              placeholder={'Sam: Walk me through how reviews work today?\nDana: Every RFQ goes through a manual checklist...'}
+              className="min-h-[160px] font-mono text-xs"
+            />
+            {error && <p className="text-xs text-error">{error}</p>}
+            <Button variant="outline" disabled={!pasted.trim()} onClick={() => load('', pasted)}>
+              <FileText className="w-4 h-4 mr-2" /> Read Transcript
+            </Button>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+            <div className="flex items-center justify-between text-xs text-text-secondary">
+              <span>
+                {transcript.format.toUpperCase()} · {transcript.utterances.length} utterances · {turns.length} answers
+              </span>
+              {transcript.speakers.length > 0 ? (
+                <div className="flex items-center space-x-2">
+                  <span>You are</span>
+                  <Select value={consultantSpeaker || undefined} onValueChange={setConsultantSpeaker}>
+                    <SelectTrigger className="h-8 w-48 text-xs">
+                      <SelectValue placeholder="Pick a speaker" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {transcript.speakers.map(speaker => (
+                        <SelectItem key={speaker} value={speaker}>{speaker}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <span>No speaker labels - lines ending in "?" are treated as your questions</span>
+              )}
+            </div>
+
+            {isClassifying ? (
+              <p className="text-xs text-text-muted italic">Sorting answers into discovery areas...</p>
+            ) : (
+              <div className="space-y-3">
+                {turns.map(turn => (
+                  <div
+                    key={turn.id}
+                    className={`p-3 bg-glass-bg rounded-lg border text-xs space-y-2 ${
+                      turn.included && turn.confidence < LOW_CONFIDENCE_THRESHOLD ? 'border-warning/40' : 'border-glass-border'
+                    } ${turn.included ? '' : 'opacity-60'}`}
+                  >
+                    <div className="flex items-center justify-between space-x-3">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          checked={turn.included}
+                          onCheckedChange={(checked) => updateTurn(turn.id, { included: checked === true })}
+                        />
+                        {turn.start !== null && <span className="text-text-muted">{formatTranscriptTime(turn.start)}</span>}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {turn.area && (
+                          <span className={confidenceClass(turn.confidence)} title={`Classified by ${turn.classifiedBy}`}>
+                            {Math.round(turn.confidence * 100)}%
+                          </span>
+                        )}
+                        <Select
+                          value={turn.area || UNASSIGNED}
+                          onValueChange={(value) => updateTurn(turn.id, {
+                            area: value === UNASSIGNED ? null : value,
+                            confidence: 1,
+                            included: value !== UNASSIGNED
+                          })}
+                        >
+                          <SelectTrigger className="h-7 w-56 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNASSIGNED}>Not a discovery answer</SelectItem>
+                            {areas.map(area => (
+                              <SelectItem key={area.name} value={area.name}>{area.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <p className="text-text-secondary italic font-mono">
+                      {turn.question || '(Before the first question)'}
+                    </p>
+                    <p className="text-text-primary font-mono whitespace-pre-wrap">{turn.answer}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {transcript && (
+            <Button variant="ghost" onClick={reset}>Start Over</Button>
+          )}
+          <Button disabled={!transcript || isClassifying || mergeable.length === 0} onClick={handleMerge}>
+            Add {mergeable.length} Answer{mergeable.length === 1 ? '' : 's'} to Notes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TranscriptImportDialog;
@@ -0,0 +1,191 @@
+import * as React from "react"
+import { CollabDocument, blockNotesField, currentNotesField, type CollabOp } from "@/lib/collabDocument"
+import {
+  CollabClient,
+  peerColor,
+  type CollabConnectionState,
+  type CollabLock,
+  type CollabPeer
+} from "@/lib/collabClient"
+import type { DiscoveryNote, QuestionBlock } from "@/types/discovery"
+
+// Co-editing is off unless a relay is configured (run `npm run collab:relay` locally)
+const RELAY_URL: string | undefined = import.meta.env?.VITE_COLLAB_RELAY_URL
+
+// How long a joiner waits for a peer's copy before falling back to its own saved notes
+const SYNC_TIMEOUT_MS = 5000
+
+export const assessLockKey = (areaId: string) => `assess:${areaId}`
+export const questionKey = (areaId: string) => `question:${areaId}`
+
+interface UseCollabSessionOptions {
+  sessionId: string | undefined
+  user: { id?: string; full_name?: string; email?: string } | null
+  areaId: string | null
+  // Notes are loaded and the page can seed the room
+  ready: boolean
+  getLocalNotes: () => DiscoveryNote[]
+  // Called before remote ops change the document, e.g. to remember the caret
+  onBeforeRemoteApply?: (doc: CollabDocument) => void
+  // Fields, area ids and register keys that remote ops changed
+  onRemoteChange: (changed: Set<string>, doc: CollabDocument) => void
+}
+
+export function useCollabSession(options: UseCollabSessionOptions) {
+  const { sessionId, user, areaId, ready } = options
+  const [connection, setConnection] = React.useState<CollabConnectionState>("disconnected")
+  const [peers, setPeers] = React.useState<CollabPeer[]>([])
+  const [locks, setLocks] = React.useState<Record<string, CollabLock>>({})
+  const clientRef = React.useRef<CollabClient | null>(null)
+  const documentRef = React.useRef<CollabDocument | null>(null)
+  // Local edits only go into the document once it holds the room's shared state
+  const sharedRef = React.useRef(false)
+  const optionsRef = React.useRef(options)
+  optionsRef.current = options
+  const areaRef = React.useRef(areaId)
+  areaRef.current = areaId
+
+  const enabled = !!RELAY_URL && !!sessionId
+  const userId = user?.id ?? null
+  const userName = user?.full_name || user?.email || "Consultant"
+
+  React.useEffect(() => {
+    if (!RELAY_URL || !sessionId || !ready || !userId) return
+
+    const clientId = crypto.randomUUID()
+    const doc = new CollabDocument(clientId)
+    documentRef.current = doc
+    sharedRef.current = false
+    let syncTimer: ReturnType<typeof setTimeout> | null = null
+
+    const seedFromLocal = () => {
+      const ops: CollabOp[] = []
+      for (const note of optionsRef.current.getLocalNotes()) {
+        ops.push(...doc.seedText(currentNotesField(note.areaId), note.currentNotes))
+        for (const block of note.questions) {
+          ops.push(...doc.addBlock(note.areaId, block))
+          ops.push(...doc.seedText(blockNotesField(block.id), block.notes))
+        }
+      }
+      sharedRef.current = true
+      client.sendOps(ops)
+    }
+
+    const applyRemote = (ops: CollabOp[]) => {
+      optionsRef.current.onBeforeRemoteApply?.(doc)
+      const changed = doc.apply(ops)
+      if (changed.size > 0) optionsRef.current.onRemoteChange(changed, doc)
+    }
+
+    const client = new CollabClient(
+      RELAY_URL,
+      sessionId,
+      { clientId, userId, name: userName, color: peerColor(clientId), areaId: areaRef.current },
+      {
+        onAlone: () => {
+          if (!sharedRef.current) seedFromLocal()
+        },
+        onOps: applyRemote,
+        onSyncState: (ops) => {
+          applyRemote(ops)
+          if (syncTimer) clearTimeout(syncTimer)
+          sharedRef.current = true
+        },
+        onSyncRequest: () => doc.snapshot(),
+        onPeersChange: setPeers,
+        onLocksChange: setLocks,
+        onConnectionChange: (state) => {
+          setConnection(state)
+          // Fall back to saved notes if no peer answers the sync request
+          if (state === "connected" && !sharedRef.current && !syncTimer) {
+            syncTimer = setTimeout(() => {
+              if (!sharedRef.current) seedFromLocal()
+            }, SYNC_TIMEOUT_MS)
+          }
+        }
+      }
+    )
+    clientRef.current = client
+    client.connect()
+
+    return () => {
+      if (syncTimer) clearTimeout(syncTimer)
+      client.close()
+      clientRef.current = null
+      documentRef.current = null
+      sharedRef.current = false
+      setPeers([])
+      setLocks({})
+      setConnection("disconnected")
+    }
+  }, [sessionId, ready, userId, userName])
+
+  React.useEffect(() => {
+    clientRef.current?.setArea(areaId)
+  }, [areaId])
+
+  const publish = React.useCallback((build: (doc: CollabDocument) => CollabOp[]) => {
+    const doc = documentRef.current
+    if (!doc || !sharedRef.current) return
+    clientRef.current?.sendOps(build(doc))
+  }, [])
+
+  const editText = React.useCallback(
+    (field: string, text: string) => publish(doc => doc.editText(field, text)),
+    [publish]
+  )
+
+  const addBlock = React.useCallback(
+    (blockAreaId: string, block: QuestionBlock) => publish(doc => [
+      ...doc.addBlock(blockAreaId, block),
+      ...doc.editText(blockNotesField(block.id), block.notes)
+    ]),
+    [publish]
+  )
+
+  // Unchanged values aren't re-stamped, so peers keep what they already show
+  const setRegister = React.useCallback(
+    (key: string, value: unknown) => publish(doc =>
+      JSON.stringify(doc.get(key)) === JSON.stringify(value) ? [] : doc.set(key, value)
+    ),
+    [publish]
+  )
+
+  const getRegister = React.useCallback(
+    <T,>(key: string): T | undefined => documentRef.current?.get<T>(key),
+    []
+  )
+
+  /**
+   * Take an exclusive lock for an action. Always granted when co-editing is
+   * off, so callers don't need to check.
+   */
+  const acquireLock = React.useCallback(async (key: string) => {
+    const client = clientRef.current
+    if (!client || !client.isConnected()) return true
+    return client.acquireLock(key)
+  }, [])
+
+  const releaseLock = React.useCallback((key: string) => {
+    clientRef.current?.releaseLock(key)
+  }, [])
+
+  // Another consultant's lock; null when it's free or held here
+  const lockHolder = React.useCallback((key: string): CollabLock | null => {
+    const lock = locks[key]
+    return lock && lock.clientId !== clientRef.current?.clientId ? lock : null
+  }, [locks])
+
+  return {
+    enabled,
+    connection,
+    peers,
+    editText,
+    addBlock,
+    setRegister,
+    getRegister,
+    acquireLock,
+    releaseLock,
+    lockHolder
+  }
+}
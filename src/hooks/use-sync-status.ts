@@ -0,0 +1,31 @@
+import * as React from "react"
+import { OfflineStore, recordKey, type SyncTable } from "@/lib/offlineStore"
+import { syncQueue, type SyncState } from "@/lib/syncQueue"
+
+// Sync state per record id, kept current as local writes and pushes happen
+export function useSyncStatus(table: SyncTable, ids: string[]) {
+  const [states, setStates] = React.useState<Record<string, SyncState>>({})
+  const idsKey = ids.join(",")
+
+  React.useEffect(() => {
+    let cancelled = false
+    const refresh = async () => {
+      const queued = await syncQueue.getStates()
+      if (cancelled) return
+      setStates(Object.fromEntries(
+        idsKey.split(",").filter(Boolean).map(id => [id, queued[recordKey(table, id)] ?? syncQueue.defaultState()])
+      ))
+    }
+
+    refresh()
+    const unsubscribeStore = OfflineStore.subscribe(refresh)
+    const unsubscribeQueue = syncQueue.subscribe(refresh)
+    return () => {
+      cancelled = true
+      unsubscribeStore()
+      unsubscribeQueue()
+    }
+  }, [table, idsKey])
+
+  return states
+}
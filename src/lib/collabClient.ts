@@ -0,0 +1,268 @@
+// Collaboration Client
+// Connects a session page to the websocket relay: shares note edits, presence and action locks
+
+import type { CollabOp } from './collabDocument';
+
+export interface CollabPeer {
+  clientId: string;
+  userId: string | null;
+  name: string;
+  color: string;
+  areaId: string | null;
+}
+
+export interface CollabLock {
+  clientId: string;
+  name: string;
+  expiresAt: number;
+}
+
+// Messages the relay understands
+export type CollabClientMessage =
+  | { type: 'join'; room: string; peer: CollabPeer }
+  | { type: 'presence'; areaId: string | null }
+  | { type: 'ops'; ops: CollabOp[] }
+  | { type: 'sync_request' }
+  | { type: 'sync_state'; to: string; ops: CollabOp[] }
+  | { type: 'lock'; key: string }
+  | { type: 'unlock'; key: string };
+
+// Messages the relay sends
+export type CollabServerMessage =
+  | { type: 'welcome'; peers: CollabPeer[]; locks: Record<string, CollabLock> }
+  | { type: 'peer_joined'; peer: CollabPeer }
+  | { type: 'peer_left'; clientId: string }
+  | { type: 'presence'; clientId: string; areaId: string | null }
+  | { type: 'ops'; from: string; ops: CollabOp[] }
+  | { type: 'sync_request'; from: string }
+  | { type: 'sync_state'; from: string; ops: CollabOp[] }
+  | { type: 'lock_state'; locks: Record<string, CollabLock> }
+  | { type: 'lock_result'; key: string; granted: boolean };
+
+export type CollabConnectionState = 'connecting' | 'connected' | 'disconnected';
+
+export interface CollabClientHandlers {
+  // No other peers were in the room, so this client's saved notes become the shared starting point
+  onAlone?: () => void;
+  onOps?: (ops: CollabOp[]) => void;
+  // A peer's full copy, in answer to this client's sync request
+  onSyncState?: (ops: CollabOp[]) => void;
+  // A peer asked for everything this client has
+  onSyncRequest?: () => CollabOp[];
+  onPeersChange?: (peers: CollabPeer[]) => void;
+  onLocksChange?: (locks: Record<string, CollabLock>) => void;
+  onConnectionChange?: (state: CollabConnectionState) => void;
+}
+
+// Minimal slice of the browser WebSocket, so scripts can pass the `ws` package instead
+export interface CollabSocket {
+  readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+}
+
+export type CollabSocketFactory = (url: string) => CollabSocket;
+
+const OPEN = 1;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 15000;
+const LOCK_TIMEOUT_MS = 5000;
+
+export const PEER_COLORS = ['#f97316', '#22c55e', '#3b82f6', '#a855f7', '#ec4899', '#14b8a6'];
+
+export const peerColor = (clientId: string): string => {
+  let sum = 0;
+  for (const char of clientId) sum += char.charCodeAt(0);
+  return PEER_COLORS[sum % PEER_COLORS.length];
+};
+
+export const peerInitials = (name: string): string =>
+  name.split(/[\s@.]+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?';
+
+export class CollabClient {
+  private socket: CollabSocket | null = null;
+  private peers = new Map<string, CollabPeer>();
+  private locks: Record<string, CollabLock> = {};
+  // Edits made while disconnected, sent once the relay is back
+  private outbox: CollabOp[] = [];
+  private lockWaiters = new Map<string, Array<(granted: boolean) => void>>();
+  private reconnectDelay = RECONNECT_BASE_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(
+    private readonly url: string,
+    private readonly room: string,
+    private self: CollabPeer,
+    private readonly handlers: CollabClientHandlers,
+    private readonly createSocket: CollabSocketFactory = url => new WebSocket(url) as unknown as CollabSocket
+  ) {}
+
+  get clientId(): string {
+    return this.self.clientId;
+  }
+
+  connect(): void {
+    this.closed = false;
+    this.handlers.onConnectionChange?.('connecting');
+
+    const socket = this.createSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectDelay = RECONNECT_BASE_MS;
+      this.send({ type: 'join', room: this.room, peer: this.self });
+    };
+    socket.onmessage = (event) => {
+      try {
+        this.handle(JSON.parse(String(event.data)) as CollabServerMessage);
+      } catch (error) {
+        console.error('Collab message failed:', error);
+      }
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.peers.clear();
+      this.handlers.onPeersChange?.([]);
+      this.setLocks({});
+      this.lockWaiters.forEach(waiters => waiters.forEach(resolve => resolve(false)));
+      this.lockWaiters.clear();
+      this.handlers.onConnectionChange?.('disconnected');
+      if (!this.closed) this.scheduleReconnect();
+    };
+    socket.onerror = () => {
+      // onclose follows and handles the reconnect
+    };
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === OPEN;
+  }
+
+  getPeers(): CollabPeer[] {
+    return [...this.peers.values()];
+  }
+
+  getLocks(): Record<string, CollabLock> {
+    return this.locks;
+  }
+
+  sendOps(ops: CollabOp[]): void {
+    if (ops.length === 0) return;
+    if (this.isConnected()) this.send({ type: 'ops', ops });
+    else this.outbox.push(...ops);
+  }
+
+  setArea(areaId: string | null): void {
+    this.self = { ...this.self, areaId };
+    if (this.isConnected()) this.send({ type: 'presence', areaId });
+  }
+
+  /**
+   * Ask the relay for an exclusive lock. Resolves false when another peer holds
+   * it or the relay doesn't answer in time.
+   */
+  acquireLock(key: string): Promise<boolean> {
+    if (!this.isConnected()) return Promise.resolve(false);
+
+    return new Promise(resolve => {
+      let settled = false;
+      const settle = (granted: boolean) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        resolve(granted);
+      };
+      const timer = setTimeout(() => settle(false), LOCK_TIMEOUT_MS);
+
+      this.lockWaiters.set(key, [...(this.lockWaiters.get(key) || []), settle]);
+      this.send({ type: 'lock', key });
+    });
+  }
+
+  releaseLock(key: string): void {
+    if (this.isConnected()) this.send({ type: 'unlock', key });
+  }
+
+  private handle(message: CollabServerMessage): void {
+    switch (message.type) {
+      case 'welcome': {
+        this.peers = new Map(message.peers.map(peer => [peer.clientId, peer]));
+        this.handlers.onPeersChange?.(this.getPeers());
+        this.setLocks(message.locks);
+        this.handlers.onConnectionChange?.('connected');
+
+        if (this.peers.size === 0) this.handlers.onAlone?.();
+        else this.send({ type: 'sync_request' });
+
+        if (this.outbox.length > 0) {
+          this.send({ type: 'ops', ops: this.outbox });
+          this.outbox = [];
+        }
+        break;
+      }
+      case 'peer_joined':
+        this.peers.set(message.peer.clientId, message.peer);
+        this.handlers.onPeersChange?.(this.getPeers());
+        break;
+      case 'peer_left':
+        this.peers.delete(message.clientId);
+        this.handlers.onPeersChange?.(this.getPeers());
+        break;
+      case 'presence': {
+        const peer = this.peers.get(message.clientId);
+        if (peer) {
+          this.peers.set(message.clientId, { ...peer, areaId: message.areaId });
+          this.handlers.onPeersChange?.(this.getPeers());
+        }
+        break;
+      }
+      case 'ops':
+        this.handlers.onOps?.(message.ops);
+        break;
+      case 'sync_state':
+        this.handlers.onSyncState?.(message.ops);
+        break;
+      case 'sync_request':
+        this.send({ type: 'sync_state', to: message.from, ops: this.handlers.onSyncRequest?.() || [] });
+        break;
+      case 'lock_state':
+        this.setLocks(message.locks);
+        break;
+      case 'lock_result': {
+        const waiters = this.lockWaiters.get(message.key) || [];
+        this.lockWaiters.delete(message.key);
+        waiters.forEach(resolve => resolve(message.granted));
+        break;
+      }
+    }
+  }
+
+  private setLocks(locks: Record<string, CollabLock>): void {
+    this.locks = locks;
+    this.handlers.onLocksChange?.(locks);
+  }
+
+  private send(message: CollabClientMessage): void {
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  private scheduleReconnect(): void {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_MS);
+  }
+}
@@ -0,0 +1,319 @@
+// Collaborative Document
+// Merge-safe copy of a session's notes shared between consultants: a replicated text sequence per
+// note field, an add-only set of question blocks per area, and last-writer-wins registers
+
+import type { QuestionBlock } from '@/types/discovery';
+
+// Lamport time plus the client that made the edit; orders concurrent edits the same way on every peer
+export interface CollabStamp {
+  counter: number;
+  clientId: string;
+}
+
+// Blocks travel without their notes, which are a text field of their own
+export type CollabBlock = Omit<QuestionBlock, 'notes' | 'isCollapsed' | 'timestamp'> & { timestamp: string };
+
+export type CollabOp =
+  | { type: 'insert'; field: string; id: string; stamp: CollabStamp; origin: string | null; value: string }
+  | { type: 'delete'; field: string; id: string }
+  | { type: 'block'; areaId: string; block: CollabBlock }
+  | { type: 'set'; key: string; value: unknown; stamp: CollabStamp };
+
+interface TextElement {
+  id: string;
+  stamp: CollabStamp;
+  origin: string | null;
+  value: string;
+  deleted: boolean;
+}
+
+// Text field keys
+export const currentNotesField = (areaId: string): string => `current:${areaId}`;
+export const blockNotesField = (blockId: string): string => `block:${blockId}`;
+
+const compareStamps = (a: CollabStamp, b: CollabStamp): number =>
+  a.counter !== b.counter ? a.counter - b.counter : a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+
+const elementId = (stamp: CollabStamp): string => `${stamp.counter}@${stamp.clientId}`;
+
+// Same FNV-1a used for cassette keys; only needs to tell seed texts apart
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Replicated growable array. Each character keeps the id of the character it
+ * was typed after; concurrent inserts at the same spot are ordered by stamp,
+ * and deletes leave tombstones so later inserts can still find their origin.
+ */
+class TextSequence {
+  private elements: TextElement[] = [];
+  private byId = new Map<string, TextElement>();
+
+  has(id: string): boolean {
+    return this.byId.has(id);
+  }
+
+  // False when the origin hasn't arrived yet; the caller retries later
+  integrate(id: string, stamp: CollabStamp, origin: string | null, value: string): boolean {
+    if (this.byId.has(id)) return true;
+    if (origin !== null && !this.byId.has(origin)) return false;
+
+    let index = origin === null ? 0 : this.elements.indexOf(this.byId.get(origin)!) + 1;
+    // Later concurrent inserts after the same origin (and everything typed after them) stay in front
+    while (index < this.elements.length && compareStamps(this.elements[index].stamp, stamp) > 0) {
+      index++;
+    }
+
+    const element: TextElement = { id, stamp, origin, value, deleted: false };
+    this.elements.splice(index, 0, element);
+    this.byId.set(id, element);
+    return true;
+  }
+
+  remove(id: string): boolean {
+    const element = this.byId.get(id);
+    if (!element) return false;
+    element.deleted = true;
+    return true;
+  }
+
+  visible(): TextElement[] {
+    return this.elements.filter(element => !element.deleted);
+  }
+
+  text(): string {
+    return this.visible().map(element => element.value).join('');
+  }
+
+  // Every element, tombstones included, in order; replaying these rebuilds the sequence
+  toOps(field: string): CollabOp[] {
+    const ops: CollabOp[] = [];
+    this.elements.forEach(element => {
+      ops.push({ type: 'insert', field, id: element.id, stamp: element.stamp, origin: element.origin, value: element.value });
+    });
+    this.elements.filter(element => element.deleted).forEach(element => ops.push({ type: 'delete', field, id: element.id }));
+    return ops;
+  }
+
+  /**
+   * Id of the element just before a visible index, for keeping a caret
+   * in place across remote edits. Null means the start of the text.
+   */
+  anchorAt(index: number): string | null {
+    const visible = this.visible();
+    return index <= 0 ? null : visible[Math.min(index, visible.length) - 1]?.id ?? null;
+  }
+
+  indexOfAnchor(anchor: string | null): number {
+    if (anchor === null) return 0;
+    let index = 0;
+    for (const element of this.elements) {
+      if (!element.deleted) index++;
+      if (element.id === anchor) return index;
+    }
+    return index;
+  }
+}
+
+export class CollabDocument {
+  private texts = new Map<string, TextSequence>();
+  private blocks = new Map<string, Map<string, CollabBlock>>();
+  private registers = new Map<string, { value: unknown; stamp: CollabStamp }>();
+  // Ops whose origin or target hasn't arrived yet
+  private pending: CollabOp[] = [];
+  private counter = 0;
+
+  constructor(readonly clientId: string) {}
+
+  private nextStamp(): CollabStamp {
+    return { counter: ++this.counter, clientId: this.clientId };
+  }
+
+  private sequence(field: string): TextSequence {
+    let sequence = this.texts.get(field);
+    if (!sequence) {
+      sequence = new TextSequence();
+      this.texts.set(field, sequence);
+    }
+    return sequence;
+  }
+
+  hasField(field: string): boolean {
+    return this.texts.has(field);
+  }
+
+  getText(field: string): string {
+    return this.texts.get(field)?.text() ?? '';
+  }
+
+  getBlocks(areaId: string): CollabBlock[] {
+    return [...(this.blocks.get(areaId)?.values() || [])]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.id.localeCompare(b.id));
+  }
+
+  get<T>(key: string): T | undefined {
+    return this.registers.get(key)?.value as T | undefined;
+  }
+
+  anchorAt(field: string, index: number): string | null {
+    return this.sequence(field).anchorAt(index);
+  }
+
+  indexOfAnchor(field: string, anchor: string | null): number {
+    return this.sequence(field).indexOfAnchor(anchor);
+  }
+
+  /**
+   * Apply ops from another peer. Ops are idempotent, so a full state sync can
+   * be replayed over what's already here. Returns the fields, areas and
+   * register keys that changed.
+   */
+  apply(ops: CollabOp[]): Set<string> {
+    const changed = new Set<string>();
+    let queue = [...this.pending, ...ops];
+
+    // Keep retrying held-back ops until a pass makes no progress
+    let progressed = true;
+    while (queue.length > 0 && progressed) {
+      progressed = false;
+      const held: CollabOp[] = [];
+      for (const op of queue) {
+        if (this.applyOne(op, changed)) progressed = true;
+        else held.push(op);
+      }
+      queue = held;
+    }
+    this.pending = queue;
+
+    return changed;
+  }
+
+  private applyOne(op: CollabOp, changed: Set<string>): boolean {
+    switch (op.type) {
+      case 'insert': {
+        this.counter = Math.max(this.counter, op.stamp.counter);
+        const sequence = this.sequence(op.field);
+        if (sequence.has(op.id)) return true;
+        if (!sequence.integrate(op.id, op.stamp, op.origin, op.value)) return false;
+        changed.add(op.field);
+        return true;
+      }
+      case 'delete': {
+        if (!this.sequence(op.field).remove(op.id)) return false;
+        changed.add(op.field);
+        return true;
+      }
+      case 'block': {
+        const area = this.blocks.get(op.areaId) || new Map<string, CollabBlock>();
+        if (!area.has(op.block.id)) {
+          area.set(op.block.id, op.block);
+          this.blocks.set(op.areaId, area);
+          changed.add(op.areaId);
+        }
+        return true;
+      }
+      case 'set': {
+        this.counter = Math.max(this.counter, op.stamp.counter);
+        const existing = this.registers.get(op.key);
+        if (!existing || compareStamps(op.stamp, existing.stamp) > 0) {
+          this.registers.set(op.key, { value: op.value, stamp: op.stamp });
+          changed.add(op.key);
+        }
+        return true;
+      }
+    }
+  }
+
+  /**
+   * Turn a local edit of a whole text field into ops: the changed middle is
+   * deleted and retyped, the common prefix and suffix are left alone.
+   */
+  editText(field: string, next: string): CollabOp[] {
+    const sequence = this.sequence(field);
+    const visible = sequence.visible();
+    const current = visible.map(element => element.value).join('');
+    if (current === next) return [];
+
+    let start = 0;
+    while (start < current.length && start < next.length && current[start] === next[start]) start++;
+    let end = 0;
+    while (
+      end < current.length - start &&
+      end < next.length - start &&
+      current[current.length - 1 - end] === next[next.length - 1 - end]
+    ) end++;
+
+    const ops: CollabOp[] = [];
+    for (const element of visible.slice(start, current.length - end)) {
+      sequence.remove(element.id);
+      ops.push({ type: 'delete', field, id: element.id });
+    }
+
+    let origin = start > 0 ? visible[start - 1].id : null;
+    for (const value of next.slice(start, next.length - end)) {
+      const stamp = this.nextStamp();
+      const id = elementId(stamp);
+      sequence.integrate(id, stamp, origin, value);
+      ops.push({ type: 'insert', field, id, stamp, origin, value });
+      origin = id;
+    }
+    return ops;
+  }
+
+  /**
+   * Load text saved before the room existed. Ids come from the text itself,
+   * so two consultants opening the same saved notes at once don't double them.
+   */
+  seedText(field: string, text: string): CollabOp[] {
+    if (!text || this.hasField(field)) return [];
+
+    const clientId = `seed-${hashText(`${field}\n${text}`)}`;
+    const ops: CollabOp[] = [];
+    let origin: string | null = null;
+    [...text].forEach((value, index) => {
+      const stamp = { counter: index + 1, clientId };
+      const id = elementId(stamp);
+      ops.push({ type: 'insert', field, id, stamp, origin, value });
+      origin = id;
+    });
+    this.apply(ops);
+    return ops;
+  }
+
+  addBlock(areaId: string, block: QuestionBlock): CollabOp[] {
+    const op: CollabOp = {
+      type: 'block',
+      areaId,
+      block: {
+        id: block.id,
+        questionText: block.questionText,
+        questionNumber: block.questionNumber,
+        timestamp: new Date(block.timestamp).toISOString(),
+        ...(block.provenance ? { provenance: block.provenance } : {})
+      }
+    };
+    this.apply([op]);
+    return [op];
+  }
+
+  set(key: string, value: unknown): CollabOp[] {
+    const op: CollabOp = { type: 'set', key, value, stamp: this.nextStamp() };
+    this.apply([op]);
+    return [op];
+  }
+
+  // Everything needed to bring a peer that just joined up to date
+  snapshot(): CollabOp[] {
+    const ops: CollabOp[] = [];
+    this.blocks.forEach((area, areaId) => area.forEach(block => ops.push({ type: 'block', areaId, block })));
+    this.texts.forEach((sequence, field) => ops.push(...sequence.toOps(field)));
+    this.registers.forEach(({ value, stamp }, key) => ops.push({ type: 'set', key, value, stamp }));
+    return ops;
+  }
+}
@@ -1,17 +1,63 @@
 // Mock Storage Service for Development
-// Simulates Supabase database operations using localStorage
+// Simulates Supabase database operations using localStorage.
+// Every write is also logged to the offline store so the sync queue can push it.
 
 import { 
+  Account,
   DiscoverySession, 
   DiscoveryArea, 
+  DiscoveryNote,
   ProspectDiscovery, 
   DISCOVERY_AREAS 
 } from '@/types/discovery';
+import { OfflineStore, type SyncTable } from './offlineStore';
+import { supabase } from './supabase';
+import { syncQueue } from './syncQueue';
+import type { OrganizationElicitationPolicy } from '@/services/depthPolicy';
+import type { QuestionOutcome } from '@/services/questionEffectiveness';
+import {
+  appendRevision,
+  sortRevisions,
+  type NoteRevision,
+  type NoteRevisionHistory,
+  type RevisionAuthor,
+  type RevisionReason,
+  type RevisionTargetKind,
+  UNKNOWN_AUTHOR
+} from '@/services/noteRevisions';
+import {
+  canEditTemplate,
+  cloneSessionFields,
+  visibleTemplates,
+  type NewSessionContact,
+  type SessionTemplate,
+  type TemplateOwner
+} from '@/services/sessionTemplates';
+import { accountKey, sortCalls, type AccountCall } from '@/services/accountThreads';
+import {
+  cleanAnswers,
+  mergeQuestionnaireAnswers,
+  questionnaireStatus,
+  type ProspectQuestionnaire,
+  type PublicQuestionnaire
+} from '@/services/prospectQuestionnaire';
+import { annotateNote } from '@/services/noteAnnotations';
+import type { StakeholderMap } from '@/services/stakeholderMap';
+import type { DeckMasterTemplate } from '@/services/slideDeck';
+import type { OrganizationReportTemplate } from '@/services/reportTemplates';
 
 const STORAGE_KEYS = {
   SESSIONS: 'sep_discovery_sessions',
   AREAS: 'sep_discovery_areas',
-  PROSPECTS: 'sep_prospect_discovery'
+  PROSPECTS: 'sep_prospect_discovery',
+  ORGANIZATION_POLICIES: 'sep_organization_policies',
+  QUESTION_OUTCOMES: 'sep_question_outcomes',
+  SESSION_TEMPLATES: 'sep_session_templates',
+  ACCOUNTS: 'sep_accounts',
+  QUESTIONNAIRES: 'sep_prospect_questionnaires',
+  STAKEHOLDER_MAPS: 'sep_stakeholder_maps',
+  DECK_MASTERS: 'sep_deck_masters',
+  REPORT_TEMPLATES: 'sep_report_templates'
 };
 
 export class MockStorageService {
@@ -29,6 +75,7 @@ export class MockStorageService {
     
     sessions.push(newSession);
     localStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
+    this.logChange('discovery_sessions', newSession.id, newSession);
     return newSession;
   }
 
@@ -50,9 +97,25 @@ export class MockStorageService {
     };
     
     localStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
+    this.logChange('discovery_sessions', sessionId, sessions[sessionIndex]);
     return sessions[sessionIndex];
   }
 
+  // New session for another contact at the same account, with the source's setup and areas but no notes
+  static async cloneSession(sessionId: string, contact: NewSessionContact): Promise<DiscoverySession | null> {
+    const source = await this.getSession(sessionId);
+    if (!source) return null;
+
+    const accountId = source.account_id ||
+      (await this.findOrCreateAccount(source.account_name, source.consultant_id, source.organization_id)).id;
+    const clone = await this.createSession(cloneSessionFields({ ...source, account_id: accountId }, contact));
+    const sourceAreas = await this.getDiscoveryAreas(sessionId);
+    if (sourceAreas.length > 0) {
+      await this.initializeDiscoveryAreas(clone.id, sourceAreas.map(area => area.area_name));
+    }
+    return clone;
+  }
+
   private static getSessions(): DiscoverySession[] {
     const stored = localStorage.getItem(STORAGE_KEYS.SESSIONS);
     if (!stored) return [];
@@ -68,9 +131,88 @@ export class MockStorageService {
     }
   }
 
+  // Accounts
+  static async getAccount(accountId: string): Promise<Account | null> {
+    return this.getAccountList().find(account => account.id === accountId) || null;
+  }
+
+  // Accounts a consultant can add calls to: their organization's, or their own without one
+  static async getAccounts(consultantId: string, organizationId?: string): Promise<Account[]> {
+    return this.getAccountList()
+      .filter(account => organizationId ? account.organization_id === organizationId : account.consultant_id === consultantId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * The account a new call belongs to, matched by name. A new account picks up the
+   * consultant's earlier sessions with the same account name.
+   */
+  static async findOrCreateAccount(name: string, consultantId: string, organizationId?: string): Promise<Account> {
+    const key = accountKey(name);
+    const existing = (await this.getAccounts(consultantId, organizationId)).find(account => accountKey(account.name) === key);
+    if (existing) return existing;
+
+    const account: Account = {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      organization_id: organizationId,
+      consultant_id: consultantId,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    localStorage.setItem(STORAGE_KEYS.ACCOUNTS, JSON.stringify([...this.getAccountList(), account]));
+    this.logChange('accounts', account.id, account);
+
+    const legacy = this.getSessions().filter(session =>
+      !session.account_id && session.consultant_id === consultantId && accountKey(session.account_name) === key
+    );
+    for (const session of legacy) {
+      await this.updateSession(session.id, { account_id: account.id });
+    }
+    return account;
+  }
+
+  // Every call with an account, oldest first, with its notes and dismissed contradictions
+  static async getAccountCalls(accountId: string): Promise<AccountCall[]> {
+    const sessions = this.getSessions().filter(session => session.account_id === accountId);
+    const calls = await Promise.all(sessions.map(async session => ({
+      session,
+      notes: await this.getDiscoveryNotes(await this.getDiscoveryAreas(session.id)),
+      dismissedContradictions: this.getDismissedContradictions(session.id)
+    })));
+    return sortCalls(calls);
+  }
+
+  // Written by the session page as contradictions are dismissed
+  static getDismissedContradictions(sessionId: string): string[] {
+    try {
+      return JSON.parse(localStorage.getItem(`discovery_contradictions_${sessionId}`) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private static getAccountList(): Account[] {
+    const stored = localStorage.getItem(STORAGE_KEYS.ACCOUNTS);
+    if (!stored) return [];
+
+    try {
+      return JSON.parse(stored).map((a: Account) => ({
+        ...a,
+        created_at: new Date(a.created_at),
+        updated_at: new Date(a.updated_at)
+      }));
+    } catch {
+      return [];
+    }
+  }
+
   // Discovery Areas
-  static async initializeDiscoveryAreas(sessionId: string): Promise<DiscoveryArea[]> {
-    const areas = DISCOVERY_AREAS.map((areaName, index) => ({
+  static async initializeDiscoveryAreas(
+    sessionId: string,
+    areaNames: string[] = DISCOVERY_AREAS
+  ): Promise<DiscoveryArea[]> {
+    const areas = areaNames.map((areaName, index) => ({
       id: crypto.randomUUID(),
       session_id: sessionId,
       area_name: areaName,
@@ -87,6 +229,7 @@ export class MockStorageService {
     const allAreas = [...filteredAreas, ...areas];
     
     localStorage.setItem(STORAGE_KEYS.AREAS, JSON.stringify(allAreas));
+    areas.forEach(area => this.logChange('discovery_areas', area.id, area, sessionId));
     return areas;
   }
 
@@ -108,6 +251,7 @@ export class MockStorageService {
     };
     
     localStorage.setItem(STORAGE_KEYS.AREAS, JSON.stringify(areas));
+    this.logChange('discovery_areas', areaId, areas[areaIndex], areas[areaIndex].session_id);
     return areas[areaIndex];
   }
 
@@ -121,6 +265,9 @@ export class MockStorageService {
     });
     
     localStorage.setItem(STORAGE_KEYS.AREAS, JSON.stringify(updatedAreas));
+    updatedAreas
+      .filter(area => area.session_id === sessionId)
+      .forEach(area => this.logChange('discovery_areas', area.id, { is_active: area.is_active }, sessionId));
   }
 
   private static getAreas(): DiscoveryArea[] {
@@ -138,11 +285,488 @@ export class MockStorageService {
     }
   }
 
+  // Prospect Discovery
+  static async getProspectDiscovery(sessionId: string): Promise<ProspectDiscovery | null> {
+    const prospects = this.getProspects();
+    return prospects.find(p => p.session_id === sessionId) || null;
+  }
+
+  static async saveProspectDiscovery(
+    sessionId: string,
+    updates: Partial<Omit<ProspectDiscovery, 'id' | 'session_id' | 'created_at'>>
+  ): Promise<ProspectDiscovery> {
+    const prospects = this.getProspects();
+    const prospectIndex = prospects.findIndex(p => p.session_id === sessionId);
+
+    const prospect: ProspectDiscovery = prospectIndex === -1
+      ? {
+          raw_conversation_data: {},
+          completion_percentage: 0,
+          ...updates,
+          id: crypto.randomUUID(),
+          session_id: sessionId,
+          created_at: new Date(),
+          updated_at: new Date()
+        }
+      : {
+          ...prospects[prospectIndex],
+          ...updates,
+          updated_at: new Date()
+        };
+
+    if (prospectIndex === -1) {
+      prospects.push(prospect);
+    } else {
+      prospects[prospectIndex] = prospect;
+    }
+
+    localStorage.setItem(STORAGE_KEYS.PROSPECTS, JSON.stringify(prospects));
+    this.logChange('prospect_discovery', prospect.id, prospect, sessionId);
+    return prospect;
+  }
+
+  private static getProspects(): ProspectDiscovery[] {
+    const stored = localStorage.getItem(STORAGE_KEYS.PROSPECTS);
+    if (!stored) return [];
+    
+    try {
+      return JSON.parse(stored).map((p: ProspectDiscovery) => ({
+        ...p,
+        created_at: new Date(p.created_at),
+        updated_at: new Date(p.updated_at)
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  // Prospect questionnaires
+  static async saveProspectQuestionnaire(questionnaire: ProspectQuestionnaire): Promise<ProspectQuestionnaire> {
+    const questionnaires = this.getQuestionnaires();
+    const index = questionnaires.findIndex(q => q.id === questionnaire.id);
+
+    if (index === -1) {
+      questionnaires.push(questionnaire);
+    } else {
+      questionnaires[index] = questionnaire;
+    }
+    localStorage.setItem(STORAGE_KEYS.QUESTIONNAIRES, JSON.stringify(questionnaires));
+    this.logChange('prospect_questionnaires', questionnaire.id, questionnaire, questionnaire.session_id);
+    return questionnaire;
+  }
+
+  static async getSessionQuestionnaires(sessionId: string): Promise<ProspectQuestionnaire[]> {
+    return this.getQuestionnaires()
+      .filter(questionnaire => questionnaire.session_id === sessionId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  /**
+   * The questionnaire behind a public link. Prospects open it on their own device, so with
+   * Supabase configured it comes from the server; only the local demo reads this browser's copy.
+   */
+  static async getQuestionnaireByToken(token: string): Promise<PublicQuestionnaire | null> {
+    if (supabase) {
+      const { data, error } = await supabase.rpc('get_prospect_questionnaire', { questionnaire_token: token });
+      if (error) throw error;
+      return (data as PublicQuestionnaire[] | null)?.[0] || null;
+    }
+    return this.getQuestionnaires().find(questionnaire => questionnaire.token === token) || null;
+  }
+
+  /**
+   * Store a prospect's answers. Each link takes one submission, and only while it's
+   * open - throws otherwise, so the form can say why.
+   */
+  static async submitProspectQuestionnaire(token: string, answers: Record<string, string>): Promise<void> {
+    const questionnaire = await this.getQuestionnaireByToken(token);
+    if (!questionnaire) throw new Error('This questionnaire link is not valid.');
+
+    const status = questionnaireStatus(questionnaire);
+    if (status !== 'open') {
+      throw new Error(status === 'submitted' ? 'These answers have already been sent.' : 'This questionnaire link is no longer active.');
+    }
+
+    const cleaned = cleanAnswers(questionnaire, answers);
+    if (Object.keys(cleaned).length === 0) throw new Error('Please answer at least one question.');
+
+    if (supabase) {
+      const { data: accepted, error } = await supabase.rpc('submit_prospect_questionnaire', {
+        questionnaire_token: token,
+        questionnaire_answers: cleaned
+      });
+      if (error) throw new Error('Your answers could not be sent. Please try again.');
+      if (!accepted) throw new Error('This questionnaire link is no longer active.');
+      return;
+    }
+
+    const stored = this.getQuestionnaires().find(q => q.token === token);
+    await this.saveProspectQuestionnaire({
+      ...stored,
+      answers: cleaned,
+      status: 'submitted',
+      submitted_at: new Date().toISOString()
+    });
+  }
+
+  static async revokeProspectQuestionnaire(questionnaireId: string): Promise<void> {
+    const questionnaire = this.getQuestionnaires().find(q => q.id === questionnaireId);
+    if (questionnaire?.status === 'open') {
+      await this.saveProspectQuestionnaire({ ...questionnaire, status: 'revoked' });
+    }
+  }
+
+  /**
+   * Add answered questionnaires to the session's notes as prospect-submitted blocks.
+   * Runs when the session opens, since its areas only exist once setup is finished.
+   */
+  static async applyProspectQuestionnaires(sessionId: string, areas: DiscoveryArea[]): Promise<number> {
+    // Offline, answers already brought down are still applied
+    try {
+      await this.pullSubmittedQuestionnaires(sessionId);
+    } catch (error) {
+      console.error('Error pulling questionnaire answers:', error);
+    }
+
+    const pending = (await this.getSessionQuestionnaires(sessionId))
+      .filter(questionnaire => questionnaire.status === 'submitted' && !questionnaire.applied_at);
+
+    for (const questionnaire of pending) {
+      for (const area of areas) {
+        const note = await this.getDiscoveryNote(area.id) || {
+          areaId: area.id,
+          areaName: area.area_name,
+          questions: [],
+          currentNotes: '',
+          lastUpdated: new Date()
+        };
+        const merged = mergeQuestionnaireAnswers(note, questionnaire);
+        if (merged !== note) await this.saveDiscoveryNote(sessionId, merged);
+      }
+      await this.saveProspectQuestionnaire({ ...questionnaire, applied_at: new Date().toISOString() });
+    }
+    return pending.length;
+  }
+
+  // Prospects submit straight to the server, so their answers have to be brought down to this device
+  private static async pullSubmittedQuestionnaires(sessionId: string): Promise<void> {
+    if (!supabase || !syncQueue.canSync()) return;
+
+    const { data, error } = await supabase
+      .from('prospect_questionnaires')
+      .select('id, answers, status, submitted_at, field_versions')
+      .eq('session_id', sessionId)
+      .eq('status', 'submitted');
+    if (error) throw error;
+
+    const questionnaires = this.getQuestionnaires();
+    for (const row of data || []) {
+      const index = questionnaires.findIndex(questionnaire => questionnaire.id === row.id);
+      if (index === -1 || questionnaires[index].status === 'submitted') continue;
+
+      const submitted = { answers: row.answers, status: row.status, submitted_at: row.submitted_at };
+      questionnaires[index] = { ...questionnaires[index], ...submitted };
+      await OfflineStore.applyRemote('prospect_questionnaires', row.id, submitted, row.field_versions || {}, sessionId);
+    }
+    localStorage.setItem(STORAGE_KEYS.QUESTIONNAIRES, JSON.stringify(questionnaires));
+  }
+
+  private static getQuestionnaires(): ProspectQuestionnaire[] {
+    const stored = localStorage.getItem(STORAGE_KEYS.QUESTIONNAIRES);
+    if (!stored) return [];
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return [];
+    }
+  }
+
+  // Stakeholder maps - one per account, or per session for calls without an account
+  static async getStakeholderMap(mapId: string): Promise<StakeholderMap | null> {
+    return this.getStakeholderMaps()[mapId] || null;
+  }
+
+  static async saveStakeholderMap(map: StakeholderMap): Promise<StakeholderMap> {
+    const maps = this.getStakeholderMaps();
+    const saved = { ...map, updated_at: new Date().toISOString() };
+    maps[saved.id] = saved;
+    localStorage.setItem(STORAGE_KEYS.STAKEHOLDER_MAPS, JSON.stringify(maps));
+    this.logChange('stakeholder_maps', saved.id, saved, saved.session_id);
+    return saved;
+  }
+
+  private static getStakeholderMaps(): Record<string, StakeholderMap> {
+    const stored = localStorage.getItem(STORAGE_KEYS.STAKEHOLDER_MAPS);
+    if (!stored) return {};
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return {};
+    }
+  }
+
+  // Discovery notes - kept in IndexedDB, which survives crashes and has far more room than localStorage
+  static async getDiscoveryNote(areaId: string): Promise<DiscoveryNote | null> {
+    const note = await OfflineStore.getRecord<DiscoveryNote>('discovery_notes', areaId);
+    return note || this.migrateLegacyNote(areaId);
+  }
+
+  static async getDiscoveryNotes(areas: DiscoveryArea[]): Promise<DiscoveryNote[]> {
+    const notes = await Promise.all(areas.map(area => this.getDiscoveryNote(area.id)));
+    return notes.filter((note): note is DiscoveryNote => !!note);
+  }
+
+  static async saveDiscoveryNote(sessionId: string, note: DiscoveryNote): Promise<void> {
+    // Tags are re-read from the notes on every save, so edits from any path keep them current
+    await OfflineStore.putRecord('discovery_notes', note.areaId, annotateNote(note), sessionId);
+  }
+
+  // Note revisions - one history per question block (by block id) and per area's working notes (by area id)
+  static async getNoteRevisions(targetId: string): Promise<NoteRevision[]> {
+    const history = await OfflineStore.getRecord<NoteRevisionHistory>('note_revisions', targetId);
+    return sortRevisions(history?.revisions || []);
+  }
+
+  // Each write reads the history before storing it, so writes to one target wait for the one before
+  private static revisionWrites = new Map<string, Promise<void>>();
+
+  static async recordNoteRevision(
+    sessionId: string,
+    target: { id: string; areaId: string; kind: RevisionTargetKind },
+    text: string,
+    author: RevisionAuthor,
+    reason: RevisionReason,
+    options: { previousText?: string; restoredFrom?: string } = {}
+  ): Promise<void> {
+    const previous = this.revisionWrites.get(target.id) || Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(() => this.writeNoteRevision(sessionId, target, text, author, reason, options));
+    this.revisionWrites.set(target.id, write);
+    try {
+      await write;
+    } finally {
+      if (this.revisionWrites.get(target.id) === write) this.revisionWrites.delete(target.id);
+    }
+  }
+
+  private static async writeNoteRevision(
+    sessionId: string,
+    target: { id: string; areaId: string; kind: RevisionTargetKind },
+    text: string,
+    author: RevisionAuthor,
+    reason: RevisionReason,
+    options: { previousText?: string; restoredFrom?: string }
+  ): Promise<void> {
+    const revisions = await this.getNoteRevisions(target.id);
+    // Notes saved before history existed are kept as the first revision, so the first overwrite is still undoable
+    const seeded = revisions.length === 0 && options.previousText?.trim()
+      ? appendRevision([], options.previousText, UNKNOWN_AUTHOR, 'baseline')
+      : revisions;
+    // Cleared notes aren't recorded; the previous revision still holds whatever was removed
+    const updated = text.trim()
+      ? appendRevision(seeded, text, author, reason, new Date(), options.restoredFrom)
+      : seeded;
+    if (updated === revisions) return;
+
+    const history: NoteRevisionHistory = { areaId: target.areaId, kind: target.kind, revisions: updated };
+    await OfflineStore.putRecord('note_revisions', target.id, history, sessionId);
+  }
+
+  // Notes saved before the offline store existed lived under one localStorage key per area
+  private static async migrateLegacyNote(areaId: string): Promise<DiscoveryNote | null> {
+    const key = `discovery_note_${areaId}`;
+    const stored = localStorage.getItem(key);
+    if (!stored) return null;
+
+    try {
+      const note: DiscoveryNote = JSON.parse(stored);
+      const sessionId = this.getAreas().find(area => area.id === areaId)?.session_id || null;
+      await OfflineStore.putRecord('discovery_notes', areaId, note, sessionId);
+      localStorage.removeItem(key);
+      return note;
+    } catch {
+      return null;
+    }
+  }
+
+  // Log a write for the sync queue; the localStorage copy above is already saved either way
+  private static logChange(table: SyncTable, id: string, data: object, sessionId: string | null = null): void {
+    OfflineStore.putRecord(table, id, data, sessionId).catch(error => {
+      console.error('Error logging change for sync:', error);
+    });
+  }
+
+  // Organization elicitation policies
+  static async getOrganizationPolicy(organizationId: string): Promise<OrganizationElicitationPolicy | null> {
+    return this.getOrganizationPolicies()[organizationId] || null;
+  }
+
+  static async saveOrganizationPolicy(
+    organizationId: string,
+    policy: OrganizationElicitationPolicy | null
+  ): Promise<void> {
+    const policies = this.getOrganizationPolicies();
+    if (policy) {
+      policies[organizationId] = policy;
+    } else {
+      delete policies[organizationId];
+    }
+    localStorage.setItem(STORAGE_KEYS.ORGANIZATION_POLICIES, JSON.stringify(policies));
+  }
+
+  private static getOrganizationPolicies(): Record<string, OrganizationElicitationPolicy> {
+    const stored = localStorage.getItem(STORAGE_KEYS.ORGANIZATION_POLICIES);
+    if (!stored) return {};
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return {};
+    }
+  }
+
+  // Organization slide masters for readout decks
+  static async getOrganizationDeckMaster(organizationId: string): Promise<Partial<DeckMasterTemplate> | null> {
+    return this.getDeckMasters()[organizationId] || null;
+  }
+
+  static async saveOrganizationDeckMaster(
+    organizationId: string,
+    master: Partial<DeckMasterTemplate> | null
+  ): Promise<void> {
+    const masters = this.getDeckMasters();
+    if (master) {
+      masters[organizationId] = master;
+    } else {
+      delete masters[organizationId];
+    }
+    localStorage.setItem(STORAGE_KEYS.DECK_MASTERS, JSON.stringify(masters));
+  }
+
+  private static getDeckMasters(): Record<string, Partial<DeckMasterTemplate>> {
+    const stored = localStorage.getItem(STORAGE_KEYS.DECK_MASTERS);
+    if (!stored) return {};
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return {};
+    }
+  }
+
+  // Organization report templates: branding, cover, disclaimer and section layout
+  static async getOrganizationReportTemplate(organizationId: string): Promise<OrganizationReportTemplate | null> {
+    return this.getReportTemplates()[organizationId] || null;
+  }
+
+  static async saveOrganizationReportTemplate(
+    organizationId: string,
+    template: OrganizationReportTemplate | null
+  ): Promise<void> {
+    const templates = this.getReportTemplates();
+    if (template) {
+      templates[organizationId] = template;
+    } else {
+      delete templates[organizationId];
+    }
+    localStorage.setItem(STORAGE_KEYS.REPORT_TEMPLATES, JSON.stringify(templates));
+  }
+
+  private static getReportTemplates(): Record<string, OrganizationReportTemplate> {
+    const stored = localStorage.getItem(STORAGE_KEYS.REPORT_TEMPLATES);
+    if (!stored) return {};
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return {};
+    }
+  }
+
+  // Session templates
+  static async getSessionTemplates(user: TemplateOwner): Promise<SessionTemplate[]> {
+    return visibleTemplates(this.getTemplates(), user);
+  }
+
+  static async getSessionTemplate(templateId: string): Promise<SessionTemplate | null> {
+    return this.getTemplates().find(template => template.id === templateId && !template.deleted_at) || null;
+  }
+
+  static async saveSessionTemplate(template: SessionTemplate): Promise<SessionTemplate> {
+    const templates = this.getTemplates();
+    const index = templates.findIndex(t => t.id === template.id);
+    const saved = { ...template, updated_at: new Date().toISOString() };
+
+    if (index === -1) {
+      templates.push(saved);
+    } else {
+      templates[index] = saved;
+    }
+    localStorage.setItem(STORAGE_KEYS.SESSION_TEMPLATES, JSON.stringify(templates));
+    this.logChange('session_templates', saved.id, saved);
+    return saved;
+  }
+
+  // Marks the template deleted rather than dropping it, so the sync queue carries the delete to the remote row
+  static async deleteSessionTemplate(templateId: string, userId: string | undefined): Promise<void> {
+    const template = this.getTemplates().find(t => t.id === templateId);
+    if (!template || template.deleted_at) return;
+    if (!canEditTemplate(template, userId)) throw new Error('Only the author can delete this template.');
+    await this.saveSessionTemplate({ ...template, deleted_at: new Date().toISOString() });
+  }
+
+  private static getTemplates(): SessionTemplate[] {
+    const stored = localStorage.getItem(STORAGE_KEYS.SESSION_TEMPLATES);
+    if (!stored) return [];
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return [];
+    }
+  }
+
+  // Question effectiveness history
+  static async recordQuestionOutcome(outcome: QuestionOutcome): Promise<void> {
+    const outcomes = this.getOutcomes();
+    outcomes.push(outcome);
+    localStorage.setItem(STORAGE_KEYS.QUESTION_OUTCOMES, JSON.stringify(outcomes));
+  }
+
+  static async getQuestionOutcomes(): Promise<QuestionOutcome[]> {
+    return this.getOutcomes();
+  }
+
+  private static getOutcomes(): QuestionOutcome[] {
+    const stored = localStorage.getItem(STORAGE_KEYS.QUESTION_OUTCOMES);
+    if (!stored) return [];
+
+    try {
+      return JSON.parse(stored).map((o: QuestionOutcome) => ({
+        ...o,
+        recordedAt: new Date(o.recordedAt)
+      }));
+    } catch {
+      return [];
+    }
+  }
+
   // Utility methods for development
   static clearAllData(): void {
     localStorage.removeItem(STORAGE_KEYS.SESSIONS);
     localStorage.removeItem(STORAGE_KEYS.AREAS);
     localStorage.removeItem(STORAGE_KEYS.PROSPECTS);
+    localStorage.removeItem(STORAGE_KEYS.ORGANIZATION_POLICIES);
+    localStorage.removeItem(STORAGE_KEYS.QUESTION_OUTCOMES);
+    localStorage.removeItem(STORAGE_KEYS.SESSION_TEMPLATES);
+    localStorage.removeItem(STORAGE_KEYS.ACCOUNTS);
+    localStorage.removeItem(STORAGE_KEYS.QUESTIONNAIRES);
+    localStorage.removeItem(STORAGE_KEYS.STAKEHOLDER_MAPS);
+    localStorage.removeItem(STORAGE_KEYS.DECK_MASTERS);
+    localStorage.removeItem(STORAGE_KEYS.REPORT_TEMPLATES);
   }
 
   static getAllSessions(): DiscoverySession[] {
@@ -156,9 +780,11 @@ export class MockStorageService {
     // Remove session and related areas
     const filteredSessions = sessions.filter(s => s.id !== sessionId);
     const filteredAreas = areas.filter(a => a.session_id !== sessionId);
+    const filteredProspects = this.getProspects().filter(p => p.session_id !== sessionId);
     
     localStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(filteredSessions));
     localStorage.setItem(STORAGE_KEYS.AREAS, JSON.stringify(filteredAreas));
+    localStorage.setItem(STORAGE_KEYS.PROSPECTS, JSON.stringify(filteredProspects));
   }
 }
 
@@ -0,0 +1,329 @@
+// Offline Store
+// IndexedDB-backed local copy of discovery data with an operation log for background sync
+
+export type SyncTable =
+  | 'accounts'
+  | 'discovery_sessions'
+  | 'discovery_areas'
+  | 'discovery_notes'
+  | 'note_revisions'
+  | 'session_templates'
+  | 'prospect_discovery'
+  | 'prospect_questionnaires'
+  | 'stakeholder_maps';
+
+export interface LocalRecord<T = Record<string, unknown>> {
+  key: string;                              // `${table}:${id}`
+  table: SyncTable;
+  id: string;
+  sessionId: string | null;
+  data: T;
+  fieldVersions: Record<string, number>;    // Time of the last edit per field, for conflict resolution
+  updatedAt: number;
+}
+
+export type OperationStatus = 'pending' | 'syncing' | 'failed';
+
+export interface PendingOperation {
+  seq?: number;                             // Assigned by the store, gives push order
+  key: string;
+  table: SyncTable;
+  recordId: string;
+  sessionId: string | null;
+  fields: Record<string, unknown>;          // Only the fields this edit changed
+  timestamp: number;
+  status: OperationStatus;
+  attempts: number;
+  lastError: string | null;
+}
+
+interface StoreBackend {
+  getRecord(key: string): Promise<LocalRecord | null>;
+  getRecordsBySession(table: SyncTable, sessionId: string): Promise<LocalRecord[]>;
+  // Writes the record and adds or coalesces its operation atomically
+  write(record: LocalRecord, operation: PendingOperation | null): Promise<void>;
+  getOperations(): Promise<PendingOperation[]>;
+  putOperation(operation: PendingOperation): Promise<void>;
+  deleteOperation(seq: number): Promise<void>;
+}
+
+const DB_NAME = 'sep_offline';
+const DB_VERSION = 1;
+const RECORDS = 'records';
+const OPERATIONS = 'operations';
+
+export const recordKey = (table: SyncTable, id: string): string => `${table}:${id}`;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// New edits fold into a pending operation for the same record so autosave doesn't flood the log
+const coalesce = (existing: PendingOperation | undefined, operation: PendingOperation): PendingOperation =>
+  existing
+    ? { ...existing, fields: { ...existing.fields, ...operation.fields }, timestamp: operation.timestamp }
+    : operation;
+
+const createIndexedDbBackend = (): StoreBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          const records = db.createObjectStore(RECORDS, { keyPath: 'key' });
+          records.createIndex('by_session', ['table', 'sessionId']);
+          const operations = db.createObjectStore(OPERATIONS, { keyPath: 'seq', autoIncrement: true });
+          operations.createIndex('by_key', 'key');
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    async getRecord(key) {
+      const db = await open();
+      const record = await request(db.transaction(RECORDS).objectStore(RECORDS).get(key));
+      return (record as LocalRecord | undefined) || null;
+    },
+
+    async getRecordsBySession(table, sessionId) {
+      const db = await open();
+      const index = db.transaction(RECORDS).objectStore(RECORDS).index('by_session');
+      return request(index.getAll([table, sessionId])) as Promise<LocalRecord[]>;
+    },
+
+    async write(record, operation) {
+      const db = await open();
+      const tx = db.transaction([RECORDS, OPERATIONS], 'readwrite');
+      const done = transactionDone(tx);
+      tx.objectStore(RECORDS).put(record);
+
+      if (operation) {
+        const operations = tx.objectStore(OPERATIONS);
+        const forKey = await request(operations.index('by_key').getAll(record.key)) as PendingOperation[];
+        operations.put(coalesce(forKey.find(op => op.status === 'pending'), operation));
+      }
+      await done;
+    },
+
+    async getOperations() {
+      const db = await open();
+      return request(db.transaction(OPERATIONS).objectStore(OPERATIONS).getAll()) as Promise<PendingOperation[]>;
+    },
+
+    async putOperation(operation) {
+      const db = await open();
+      const tx = db.transaction(OPERATIONS, 'readwrite');
+      tx.objectStore(OPERATIONS).put(operation);
+      await transactionDone(tx);
+    },
+
+    async deleteOperation(seq) {
+      const db = await open();
+      const tx = db.transaction(OPERATIONS, 'readwrite');
+      tx.objectStore(OPERATIONS).delete(seq);
+      await transactionDone(tx);
+    }
+  };
+};
+
+// Used where IndexedDB is unavailable (private browsing in some browsers, scripts and tests)
+const createMemoryBackend = (): StoreBackend => {
+  const records = new Map<string, LocalRecord>();
+  const operations = new Map<number, PendingOperation>();
+  let nextSeq = 1;
+
+  return {
+    async getRecord(key) {
+      return records.get(key) || null;
+    },
+    async getRecordsBySession(table, sessionId) {
+      return [...records.values()].filter(r => r.table === table && r.sessionId === sessionId);
+    },
+    async write(record, operation) {
+      records.set(record.key, record);
+      if (operation) {
+        const existing = [...operations.values()].find(op => op.key === record.key && op.status === 'pending');
+        const merged = coalesce(existing, operation);
+        const seq = merged.seq ?? nextSeq++;
+        operations.set(seq, { ...merged, seq });
+      }
+    },
+    async getOperations() {
+      return [...operations.values()];
+    },
+    async putOperation(operation) {
+      if (operation.seq !== undefined) operations.set(operation.seq, operation);
+    },
+    async deleteOperation(seq) {
+      operations.delete(seq);
+    }
+  };
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+export class OfflineStore {
+  private static backend: StoreBackend =
+    typeof indexedDB !== 'undefined' ? createIndexedDbBackend() : createMemoryBackend();
+  private static listeners = new Set<() => void>();
+  // Writes read the current record first, so they run one at a time
+  private static writeChain: Promise<unknown> = Promise.resolve();
+
+  private static serialize<T>(write: () => Promise<T>): Promise<T> {
+    const next = this.writeChain.then(write, write);
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+
+  static async getRecord<T>(table: SyncTable, id: string): Promise<T | null> {
+    const record = await this.backend.getRecord(recordKey(table, id));
+    return (record?.data as T | undefined) || null;
+  }
+
+  static async getRecordEntry(table: SyncTable, id: string): Promise<LocalRecord | null> {
+    return this.backend.getRecord(recordKey(table, id));
+  }
+
+  static async getSessionRecords<T>(table: SyncTable, sessionId: string): Promise<T[]> {
+    const records = await this.backend.getRecordsBySession(table, sessionId);
+    return records.map(record => record.data as T);
+  }
+
+  /**
+   * Save a local edit. Only fields that actually changed get a new version
+   * and go into the operation log.
+   */
+  static async putRecord<T extends object>(
+    table: SyncTable,
+    id: string,
+    data: T,
+    sessionId: string | null = null
+  ): Promise<void> {
+    return this.serialize(() => this.writeLocalEdit(table, id, data as Record<string, unknown>, sessionId));
+  }
+
+  /**
+   * Store values that came from the server. No operation is logged.
+   */
+  static async applyRemote(
+    table: SyncTable,
+    id: string,
+    fields: Record<string, unknown>,
+    versions: Record<string, number>,
+    sessionId: string | null = null
+  ): Promise<void> {
+    if (Object.keys(fields).length === 0) return;
+    return this.serialize(() => this.writeRemote(table, id, fields, versions, sessionId));
+  }
+
+  private static async writeLocalEdit(
+    table: SyncTable,
+    id: string,
+    data: Record<string, unknown>,
+    sessionId: string | null
+  ): Promise<void> {
+    const key = recordKey(table, id);
+    const existing = await this.backend.getRecord(key);
+    const now = Date.now();
+
+    const fields = Object.fromEntries(
+      Object.entries(data).filter(([field, value]) => !existing || !sameValue(existing.data[field], value))
+    );
+    if (existing && Object.keys(fields).length === 0) return;
+
+    const fieldVersions = { ...(existing?.fieldVersions || {}) };
+    Object.keys(fields).forEach(field => { fieldVersions[field] = now; });
+    const owner = sessionId ?? existing?.sessionId ?? null;
+
+    await this.backend.write(
+      {
+        key,
+        table,
+        id,
+        sessionId: owner,
+        data: { ...(existing?.data || {}), ...data },
+        fieldVersions,
+        updatedAt: now
+      },
+      {
+        key,
+        table,
+        recordId: id,
+        sessionId: owner,
+        fields,
+        timestamp: now,
+        status: 'pending',
+        attempts: 0,
+        lastError: null
+      }
+    );
+    this.notify();
+  }
+
+  private static async writeRemote(
+    table: SyncTable,
+    id: string,
+    fields: Record<string, unknown>,
+    versions: Record<string, number>,
+    sessionId: string | null
+  ): Promise<void> {
+    const key = recordKey(table, id);
+    const existing = await this.backend.getRecord(key);
+
+    await this.backend.write(
+      {
+        key,
+        table,
+        id,
+        sessionId: existing?.sessionId ?? sessionId,
+        data: { ...(existing?.data || {}), ...fields },
+        fieldVersions: { ...(existing?.fieldVersions || {}), ...versions },
+        updatedAt: Date.now()
+      },
+      null
+    );
+    this.notify();
+  }
+
+  static async getOperations(): Promise<PendingOperation[]> {
+    const operations = await this.backend.getOperations();
+    return operations.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+  }
+
+  static async updateOperation(operation: PendingOperation): Promise<void> {
+    await this.backend.putOperation(operation);
+    this.notify();
+  }
+
+  static async completeOperation(seq: number): Promise<void> {
+    await this.backend.deleteOperation(seq);
+    this.notify();
+  }
+
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
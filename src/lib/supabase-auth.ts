@@ -18,6 +18,7 @@ export interface DeepRabbitUser {
   full_name: string;
   company: string;
   role: string;
+  organization_id?: string | null;
   subscription_status: 'trialing' | 'active' | 'canceled' | 'past_due';
   subscription_tier: 'professional' | 'team' | 'enterprise';
   trial_ends_at: string;
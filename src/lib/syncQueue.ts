@@ -0,0 +1,297 @@
+// Sync Queue
+// Pushes the offline store's operation log to Supabase when online, resolving conflicts field by field
+
+import { supabase } from './supabase';
+import { OfflineStore, type PendingOperation, type SyncTable } from './offlineStore';
+
+export type SyncState = 'local' | 'syncing' | 'synced';
+
+export interface FieldSnapshot {
+  values: Record<string, unknown>;
+  versions: Record<string, number>;
+}
+
+export interface FieldResolution {
+  values: Record<string, unknown>;          // Value to write to the server, per field
+  versions: Record<string, number>;
+  localUpdates: Record<string, unknown>;    // Fields where the local copy must take the server's value
+}
+
+// Operations that keep failing are parked so they don't block the rest of the queue
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60000;
+// Batch autosave bursts into one push
+const FLUSH_DELAY_MS = 500;
+
+// Remote rows keep the same per-field edit times as the local store, keyed by local field name
+const VERSIONS_COLUMN = 'field_versions';
+
+// Kept on the device: ids are sent separately, timestamps are set by the database triggers
+const LOCAL_ONLY_FIELDS = new Set(['id', 'created_at', 'updated_at', 'consultant', 'last_saved_at']);
+
+// Notes and their revisions are keyed by area or question block, so the owning session is sent alongside
+const SESSION_SCOPED_TABLES: SyncTable[] = ['discovery_notes', 'note_revisions'];
+
+// DiscoveryNote uses camelCase fields; the table uses snake_case columns
+const toColumn = (field: string): string => field.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+
+const isIdList = (value: unknown): value is Array<{ id: string }> =>
+  Array.isArray(value) &&
+  value.every(item => !!item && typeof item === 'object' && typeof (item as { id?: unknown }).id === 'string');
+
+// Lists of entries (question blocks, slot proposals) merge by id, so entries added on two devices both survive
+const mergeById = (winner: Array<{ id: string }>, other: Array<{ id: string }>): Array<{ id: string }> => {
+  const ids = new Set(winner.map(item => item.id));
+  return [...winner, ...other.filter(item => !ids.has(item.id))];
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Per-field last-writer-wins. The side that edited a field most recently keeps it;
+ * lists of entries with ids are unioned instead of replaced.
+ */
+export function resolveFieldConflicts(
+  fields: string[],
+  local: FieldSnapshot,
+  remote: FieldSnapshot | null
+): FieldResolution {
+  const resolution: FieldResolution = { values: {}, versions: {}, localUpdates: {} };
+
+  for (const field of fields) {
+    const localValue = local.values[field];
+    const localVersion = local.versions[field] ?? 0;
+    const remoteValue = remote?.values[field];
+    const remoteVersion = remote?.versions[field] ?? 0;
+    const remoteWins = !!remote && remoteVersion > localVersion;
+
+    let value = remoteWins ? remoteValue : localValue;
+    if (remote && isIdList(localValue) && isIdList(remoteValue)) {
+      value = remoteWins ? mergeById(remoteValue, localValue) : mergeById(localValue, remoteValue);
+    }
+
+    resolution.values[field] = value;
+    resolution.versions[field] = Math.max(localVersion, remoteVersion);
+    if (!sameValue(value, localValue)) {
+      resolution.localUpdates[field] = value;
+    }
+  }
+
+  return resolution;
+}
+
+const toSnapshot = (row: Record<string, unknown>, fields: string[]): FieldSnapshot => {
+  const versions = (row[VERSIONS_COLUMN] as Record<string, number> | null) || {};
+  return {
+    values: Object.fromEntries(fields.map(field => [field, row[toColumn(field)]])),
+    versions
+  };
+};
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : typeof error === 'object' && error && 'message' in error
+    ? String((error as { message: unknown }).message)
+    : String(error);
+
+class SyncQueue {
+  private started = false;
+  private flushing = false;
+  private flushAgain = false;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = RETRY_BASE_MS;
+  private inFlight = new Set<string>();
+  private listeners = new Set<() => void>();
+
+  /**
+   * Begin pushing in the background. Safe to call from every page that writes.
+   * Parked operations get another chance each time the app starts.
+   */
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    window.addEventListener('online', () => this.scheduleFlush(0));
+    OfflineStore.subscribe(() => this.scheduleFlush());
+
+    OfflineStore.getOperations()
+      .then(operations => Promise.all(
+        operations
+          .filter(operation => operation.status !== 'pending')
+          .map(operation => OfflineStore.updateOperation({ ...operation, status: 'pending', attempts: 0 }))
+      ))
+      .then(() => this.scheduleFlush(0))
+      .catch(error => console.error('Sync queue start failed:', error));
+  }
+
+  // Whether pushes can happen at all; without Supabase everything stays on the device
+  isEnabled(): boolean {
+    return supabase !== null;
+  }
+
+  canSync(): boolean {
+    return this.isEnabled() && (typeof navigator === 'undefined' || navigator.onLine);
+  }
+
+  /**
+   * Sync state per record key (`${table}:${id}`). Records with no queued
+   * operations are synced, or local-only when Supabase isn't configured.
+   */
+  async getStates(): Promise<Record<string, SyncState>> {
+    const states: Record<string, SyncState> = {};
+    for (const operation of await OfflineStore.getOperations()) {
+      const syncing = this.inFlight.has(operation.key) || operation.status === 'syncing';
+      states[operation.key] = syncing || states[operation.key] === 'syncing' ? 'syncing' : 'local';
+    }
+    return states;
+  }
+
+  defaultState(): SyncState {
+    return this.isEnabled() ? 'synced' : 'local';
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Bring down a session's rows edited on another device. Only fields
+   * the server edited more recently than this device are applied.
+   */
+  async pull(table: SyncTable, sessionId: string): Promise<void> {
+    if (!supabase || !this.canSync()) return;
+
+    const { data, error } = await supabase.from(table).select('*').eq('session_id', sessionId);
+    if (error) throw error;
+
+    for (const row of (data || []) as Record<string, unknown>[]) {
+      const id = String(row.id);
+      const fields = Object.keys((row[VERSIONS_COLUMN] as Record<string, number> | null) || {});
+      const local = await OfflineStore.getRecordEntry(table, id);
+      const resolution = resolveFieldConflicts(
+        fields,
+        { values: local?.data || {}, versions: local?.fieldVersions || {} },
+        toSnapshot(row, fields)
+      );
+      const versions = Object.fromEntries(Object.keys(resolution.localUpdates).map(field => [field, resolution.versions[field]]));
+      await OfflineStore.applyRemote(table, id, resolution.localUpdates, versions, sessionId);
+    }
+  }
+
+  private scheduleFlush(delay = FLUSH_DELAY_MS): void {
+    // A failed push waits out its backoff instead of retrying on every local write
+    if (!this.started || this.retryTimer) return;
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, RETRY_MAX_MS);
+  }
+
+  private async flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushAgain = true;
+      return;
+    }
+
+    this.flushing = true;
+    try {
+      do {
+        this.flushAgain = false;
+        for (const operation of await OfflineStore.getOperations()) {
+          if (operation.status !== 'pending' || operation.seq === undefined) continue;
+          if (!this.canSync()) return;
+
+          if (!(await this.push(operation))) {
+            this.scheduleRetry();
+            return;
+          }
+        }
+      } while (this.flushAgain);
+      this.retryDelay = RETRY_BASE_MS;
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  // False when the push should be retried later
+  private async push(operation: PendingOperation): Promise<boolean> {
+    if (!supabase) return false;
+
+    this.inFlight.add(operation.key);
+    this.notify();
+    try {
+      await OfflineStore.updateOperation({ ...operation, status: 'syncing' });
+
+      const { data: remote, error: fetchError } = await supabase
+        .from(operation.table)
+        .select('*')
+        .eq('id', operation.recordId)
+        .maybeSingle();
+      if (fetchError) throw fetchError;
+
+      const local = await OfflineStore.getRecordEntry(operation.table, operation.recordId);
+      const fields = Object.keys(operation.fields).filter(field => !LOCAL_ONLY_FIELDS.has(field));
+      const resolution = resolveFieldConflicts(
+        fields,
+        { values: local?.data || operation.fields, versions: local?.fieldVersions || {} },
+        remote ? toSnapshot(remote as Record<string, unknown>, fields) : null
+      );
+
+      const remoteVersions = ((remote as Record<string, unknown> | null)?.[VERSIONS_COLUMN] as Record<string, number> | null) || {};
+      const row: Record<string, unknown> = {
+        id: operation.recordId,
+        ...Object.fromEntries(Object.entries(resolution.values).map(([field, value]) => [toColumn(field), value])),
+        [VERSIONS_COLUMN]: { ...remoteVersions, ...resolution.versions }
+      };
+      if (SESSION_SCOPED_TABLES.includes(operation.table)) {
+        row.session_id = operation.sessionId;
+      }
+
+      const { error: upsertError } = await supabase.from(operation.table).upsert(row, { onConflict: 'id' });
+      if (upsertError) throw upsertError;
+
+      const pulledVersions = Object.fromEntries(
+        Object.keys(resolution.localUpdates).map(field => [field, resolution.versions[field]])
+      );
+      await OfflineStore.applyRemote(operation.table, operation.recordId, resolution.localUpdates, pulledVersions);
+      await OfflineStore.completeOperation(operation.seq!);
+      return true;
+    } catch (error) {
+      console.error('Sync push failed:', error);
+
+      const attempts = operation.attempts + 1;
+      const parked = attempts >= MAX_ATTEMPTS;
+      await OfflineStore.updateOperation({
+        ...operation,
+        status: parked ? 'failed' : 'pending',
+        attempts,
+        lastError: errorMessage(error)
+      });
+      // A parked operation no longer blocks the ones behind it
+      return parked;
+    } finally {
+      this.inFlight.delete(operation.key);
+      this.notify();
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const syncQueue = new SyncQueue();
@@ -5,11 +5,36 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { getCurrentUser } from '@/lib/supabase-auth';
 import { MockStorageService } from '@/lib/mockStorage';
 import { SolutionScope, NextStepGoal, DiscoverySession, ICP_CONFIGS } from '@/types/discovery';
 import AppHeader from '@/components/AppHeader';
+import SaveTemplateDialog from '@/components/SaveTemplateDialog';
+import ProspectQuestionnaireDialog from '@/components/ProspectQuestionnaireDialog';
+import {
+  METHODOLOGY_PACKS,
+  DEFAULT_METHODOLOGY_ID,
+  getMethodologyPack,
+  getMethodologyAreaNames
+} from '@/services/methodologyPacks';
+import { resolveElicitationPolicy, type OrganizationElicitationPolicy } from '@/services/depthPolicy';
+import { DEFAULT_CALL_LENGTH_MINUTES } from '@/services/areaRecommender';
+import {
+  clampCallLength,
+  planAreaBudgets,
+  MIN_CALL_LENGTH_MINUTES,
+  MAX_CALL_LENGTH_MINUTES
+} from '@/services/callPacing';
+import {
+  createTemplate,
+  formatSeededQuestions,
+  parseSeededQuestions,
+  sessionAreaNames,
+  type SessionSetup,
+  type TemplateVisibility
+} from '@/services/sessionTemplates';
 
 const DiscoveryContext = () => {
   const navigate = useNavigate();
@@ -20,8 +45,18 @@ const DiscoveryContext = () => {
   const [formData, setFormData] = useState({
     discoveryContext: '',
     solutionScope: '' as SolutionScope | '',
-    nextStepGoal: '' as NextStepGoal | ''
+    nextStepGoal: '' as NextStepGoal | '',
+    methodologyId: DEFAULT_METHODOLOGY_ID as string,
+    callMinutes: String(DEFAULT_CALL_LENGTH_MINUTES)
   });
+  // Discovery areas this call covers, and the questions to ask first in each (one per line)
+  const [areaNames, setAreaNames] = useState<string[]>([]);
+  const [seededText, setSeededText] = useState<Record<string, string>>({});
+  const [seedingArea, setSeedingArea] = useState<string | null>(null);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const [savedTemplateName, setSavedTemplateName] = useState<string | null>(null);
+  const [showQuestionnaire, setShowQuestionnaire] = useState(false);
+  const [organizationPolicy, setOrganizationPolicy] = useState<OrganizationElicitationPolicy | null>(null);
 
   useEffect(() => {
     loadUser();
@@ -72,8 +107,18 @@ const DiscoveryContext = () => {
       setFormData({
         discoveryContext: sessionData.discovery_context || '',
         solutionScope: sessionData.solution_scope || '',
-        nextStepGoal: sessionData.next_step_goal || ''
+        nextStepGoal: sessionData.next_step_goal || '',
+        methodologyId: sessionData.methodology_id || DEFAULT_METHODOLOGY_ID,
+        callMinutes: String(sessionData.planned_call_minutes || DEFAULT_CALL_LENGTH_MINUTES)
       });
+      if (sessionData.organization_id) {
+        setOrganizationPolicy(await MockStorageService.getOrganizationPolicy(sessionData.organization_id));
+      }
+      const pack = getMethodologyPack(sessionData.methodology_id || DEFAULT_METHODOLOGY_ID);
+      setAreaNames(sessionAreaNames(sessionData, getMethodologyAreaNames(pack)));
+      setSeededText(Object.fromEntries(
+        Object.entries(sessionData.seeded_questions || {}).map(([area, questions]) => [area, formatSeededQuestions(questions)])
+      ));
     } catch (error) {
       console.error('Error loading session:', error);
       navigate('/discovery/setup');
@@ -89,15 +134,64 @@ const DiscoveryContext = () => {
     }));
   };
 
+  // Areas belong to a methodology, so switching it starts from all of the new one's areas
+  const handleMethodologyChange = (methodologyId: string) => {
+    handleInputChange('methodologyId', methodologyId);
+    setAreaNames(getMethodologyAreaNames(getMethodologyPack(methodologyId)));
+    setSeedingArea(null);
+  };
+
+  const toggleArea = (areaName: string, included: boolean) => {
+    const allAreas = getMethodologyAreaNames(getMethodologyPack(formData.methodologyId));
+    setAreaNames(prev => allAreas.filter(name => name === areaName ? included : prev.includes(name)));
+  };
+
+  const seededQuestions = (): Record<string, string[]> => Object.fromEntries(
+    areaNames
+      .map(area => [area, parseSeededQuestions(seededText[area] || '')] as const)
+      .filter(([, questions]) => questions.length > 0)
+  );
+
+  // The session as currently configured on this page
+  const currentSetup = (): SessionSetup => {
+    const allAreas = getMethodologyAreaNames(getMethodologyPack(formData.methodologyId));
+    return {
+      client_icp: session?.client_icp,
+      custom_icp_id: session?.custom_icp_id,
+      business_area: session?.business_area || '',
+      discovery_context: formData.discoveryContext,
+      solution_scope: (formData.solutionScope || undefined) as SolutionScope,
+      next_step_goal: (formData.nextStepGoal || undefined) as NextStepGoal,
+      methodology_id: formData.methodologyId,
+      locale: session?.locale,
+      // Only a real subset is stored, so sessions with every area pick up areas added to the methodology later
+      area_names: areaNames.length === allAreas.length ? undefined : areaNames,
+      seeded_questions: seededQuestions(),
+      planned_call_minutes: clampCallLength(Number(formData.callMinutes))
+    };
+  };
+
+  const handleSaveTemplate = async (details: { name: string; description: string; visibility: TemplateVisibility }) => {
+    if (!user) return;
+    const template = createTemplate(currentSetup(), user, details);
+    await MockStorageService.saveSessionTemplate(template);
+    setSavedTemplateName(template.name);
+  };
+
   const handleNext = async () => {
     if (!isFormValid() || !sessionId) return;
 
     try {
+      const setup = currentSetup();
       // Update the session with context information
       const updatedSession = await MockStorageService.updateSession(sessionId, {
         discovery_context: formData.discoveryContext,
         solution_scope: formData.solutionScope as SolutionScope,
-        next_step_goal: formData.nextStepGoal as NextStepGoal
+        next_step_goal: formData.nextStepGoal as NextStepGoal,
+        methodology_id: formData.methodologyId,
+        area_names: setup.area_names,
+        seeded_questions: setup.seeded_questions,
+        planned_call_minutes: setup.planned_call_minutes
       });
 
       if (!updatedSession) {
@@ -121,7 +215,11 @@ const DiscoveryContext = () => {
     if (!sessionId) return;
 
     try {
-      const areas = await MockStorageService.initializeDiscoveryAreas(sessionId);
+      const pack = getMethodologyPack(formData.methodologyId);
+      const areas = await MockStorageService.initializeDiscoveryAreas(
+        sessionId,
+        sessionAreaNames({ area_names: areaNames }, getMethodologyAreaNames(pack))
+      );
       console.log('Initialized discovery areas:', areas);
     } catch (error) {
       console.error('Error initializing discovery areas:', error);
@@ -135,7 +233,8 @@ const DiscoveryContext = () => {
   const isFormValid = () => {
     return formData.discoveryContext.trim() && 
            formData.solutionScope && 
-           formData.nextStepGoal;
+           formData.nextStepGoal &&
+           areaNames.length > 0;
   };
 
   const solutionScopes: SolutionScope[] = [
@@ -163,6 +262,13 @@ const DiscoveryContext = () => {
     );
   }
 
+  // Preview of how the call splits between the chosen areas; the session page tracks against the same plan
+  const areaBudgets = planAreaBudgets(
+    areaNames,
+    resolveElicitationPolicy(getMethodologyPack(formData.methodologyId), organizationPolicy),
+    clampCallLength(Number(formData.callMinutes))
+  );
+
   const selectedICP = session?.client_icp ? ICP_CONFIGS[session.client_icp as keyof typeof ICP_CONFIGS] : null;
 
   return (
@@ -260,6 +366,114 @@ const DiscoveryContext = () => {
               </RadioGroup>
             </div>
 
+            {/* Sales Methodology */}
+            <div className="space-y-4">
+              <Label className="text-text-primary font-medium text-lg">
+                Sales Methodology
+              </Label>
+              <p className="text-text-secondary text-sm">
+                Which framework should structure the discovery areas and report?
+              </p>
+              <RadioGroup
+                value={formData.methodologyId}
+                onValueChange={handleMethodologyChange}
+                className="space-y-3"
+              >
+                {Object.values(METHODOLOGY_PACKS).map((pack) => (
+                  <div key={pack.id} className="flex items-center space-x-3 p-4 rounded-lg hover:bg-glass-bg/30 transition-colors">
+                    <RadioGroupItem value={pack.id} id={`methodology-${pack.id}`} />
+                    <Label htmlFor={`methodology-${pack.id}`} className="text-text-primary cursor-pointer flex-1">
+                      {pack.name}
+                      <span className="block text-text-muted text-xs mt-1">{pack.description}</span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            {/* Discovery Areas */}
+            <div className="space-y-4">
+              <Label className="text-text-primary font-medium text-lg">
+                Discovery Areas <span className="text-error">*</span>
+              </Label>
+              <p className="text-text-secondary text-sm">
+                Which areas should this call cover? Seeded questions are asked first, before GABI generates its own.
+              </p>
+              <div className="space-y-2">
+                {getMethodologyPack(formData.methodologyId).areas.map((area) => {
+                  const included = areaNames.includes(area.name);
+                  const seededCount = parseSeededQuestions(seededText[area.name] || '').length;
+                  return (
+                    <div key={area.name} className="p-3 rounded-lg hover:bg-glass-bg/30 transition-colors">
+                      <div className="flex items-center space-x-3">
+                        <Checkbox
+                          id={`area-${area.name}`}
+                          checked={included}
+                          onCheckedChange={(checked) => toggleArea(area.name, checked === true)}
+                        />
+                        <Label htmlFor={`area-${area.name}`} className="text-text-primary cursor-pointer flex-1">
+                          {area.name}
+                          <span className="block text-text-muted text-xs mt-1">{area.description}</span>
+                        </Label>
+                        {included && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-xs text-text-secondary"
+                            onClick={() => setSeedingArea(seedingArea === area.name ? null : area.name)}
+                          >
+                            {seededCount > 0 ? `${seededCount} seeded` : 'Seed questions'}
+                          </Button>
+                        )}
+                      </div>
+                      {included && seedingArea === area.name && (
+                        <Textarea
+                          value={seededText[area.name] || ''}
+                          onChange={(e) => setSeededText(prev => ({ ...prev, [area.name]: e.target.value }))}
+                          placeholder={area.initialQuestions[0] || 'One question per line'}
+                          className="input-field mt-3 text-sm"
+                          rows={3}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Call Length */}
+            <div className="space-y-4">
+              <Label htmlFor="callMinutes" className="text-text-primary font-medium text-lg">
+                Planned Call Length
+              </Label>
+              <p className="text-text-secondary text-sm">
+                Each area gets a share of the call by priority, and GABI warns you when one runs over.
+              </p>
+              <div className="flex items-center space-x-3">
+                <Input
+                  id="callMinutes"
+                  type="number"
+                  min={MIN_CALL_LENGTH_MINUTES}
+                  max={MAX_CALL_LENGTH_MINUTES}
+                  step={5}
+                  value={formData.callMinutes}
+                  onChange={(e) => handleInputChange('callMinutes', e.target.value)}
+                  onBlur={() => handleInputChange('callMinutes', String(clampCallLength(Number(formData.callMinutes))))}
+                  className="input-field w-28"
+                />
+                <span className="text-text-secondary">minutes</span>
+              </div>
+              {areaNames.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {areaNames.map(area => (
+                    <span key={area} className="text-xs px-2 py-1 rounded bg-glass-bg border border-glass-border text-text-secondary">
+                      {area}: {areaBudgets[area]} min
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* Next Step Goal */}
             <div className="space-y-4">
               <Label className="text-text-primary font-medium text-lg">
@@ -295,17 +509,56 @@ const DiscoveryContext = () => {
           >
             ← Back
           </Button>
-          
-          <Button
-            onClick={handleNext}
-            disabled={!isFormValid()}
-            className="btn-sep px-8 py-3"
-          >
-            Start Discovery Session
-            <span className="ml-2">→</span>
-          </Button>
+
+          <div className="flex items-center gap-3">
+            {savedTemplateName && (
+              <span className="text-success text-sm">Saved "{savedTemplateName}"</span>
+            )}
+            <Button
+              onClick={() => setShowQuestionnaire(true)}
+              disabled={!session || areaNames.length === 0}
+              variant="outline"
+              className="px-6 py-3"
+            >
+              Pre-Call Questionnaire
+            </Button>
+            <Button
+              onClick={() => setShowSaveTemplate(true)}
+              disabled={!isFormValid()}
+              variant="outline"
+              className="px-6 py-3"
+            >
+              Save as Template
+            </Button>
+            <Button
+              onClick={handleNext}
+              disabled={!isFormValid()}
+              className="btn-sep px-8 py-3"
+            >
+              Start Discovery Session
+              <span className="ml-2">→</span>
+            </Button>
+          </div>
         </div>
       </div>
+
+      <SaveTemplateDialog
+        open={showSaveTemplate}
+        onOpenChange={setShowSaveTemplate}
+        defaultName={selectedICP ? `${selectedICP.label} discovery` : `${session?.account_name || 'Discovery'} template`}
+        canShare={!!user?.organization_id}
+        areaCount={areaNames.length}
+        seededCount={Object.values(seededQuestions()).reduce((total, questions) => total + questions.length, 0)}
+        onSave={handleSaveTemplate}
+      />
+
+      <ProspectQuestionnaireDialog
+        open={showQuestionnaire}
+        onOpenChange={setShowQuestionnaire}
+        session={session}
+        areaNames={areaNames}
+        user={user}
+      />
     </div>
   );
 };
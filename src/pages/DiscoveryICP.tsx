@@ -8,6 +8,7 @@ import { ClientICP, ICP_CONFIGS, DiscoverySession } from '@/types/discovery';
 import { getUserCustomICPs } from '@/lib/business-intelligence';
 import { getCurrentUser } from '@/lib/supabase-auth';
 import AppHeader from '@/components/AppHeader';
+import { getSessionLocale, getLocalizedIcpQuestions } from '@/services/locales';
 import { Target, Users, Building, Zap } from 'lucide-react';
 
 // Helper function to get appropriate icon for custom ICPs
@@ -322,7 +323,9 @@ const DiscoveryICP = () => {
             ) : (
               // Fallback to hardcoded questions
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                {Object.entries(ICP_CONFIGS[selectedICP].questions).map(([category, question]) => (
+                {Object.entries(
+                  getLocalizedIcpQuestions(getSessionLocale(session), selectedICP) || ICP_CONFIGS[selectedICP].questions
+                ).map(([category, question]) => (
                   <div key={category} className="bg-glass-bg/50 p-4 rounded-lg">
                     <div className="text-xs text-sep-secondary uppercase font-medium mb-2 tracking-wide">
                       {category.replace(/([A-Z])/g, ' $1').trim()}
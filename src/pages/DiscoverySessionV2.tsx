@@ -1,27 +1,105 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Progress } from '@/components/ui/progress';
-import { ChevronDown, ChevronRight } from 'lucide-react';
+import { ChevronDown, ChevronRight, FileText, HardDrive, RefreshCw, Cloud, History } from 'lucide-react';
 import { MockStorageService } from '@/lib/mockStorage';
-import { generateDiscoveryQuestion } from '@/services/openai';
+import { syncQueue, type SyncState } from '@/lib/syncQueue';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { useCollabSession, assessLockKey, questionKey } from '@/hooks/use-collab-session';
+import { blockNotesField, currentNotesField, type CollabDocument } from '@/lib/collabDocument';
+import { generateDiscoveryQuestion, extractProspectSlots, extractStakeholders, type DiscoveryQuestionResult } from '@/services/openai';
 import { getCurrentUser } from '@/lib/supabase-auth';
 import AppHeader from '@/components/AppHeader';
+import ProspectSlotReview from '@/components/ProspectSlotReview';
+import ContradictionPanel from '@/components/ContradictionPanel';
+import TranscriptImportDialog from '@/components/TranscriptImportDialog';
+import NoteHistoryDialog from '@/components/NoteHistoryDialog';
+import CollabPresence from '@/components/CollabPresence';
+import PriorCallsPanel from '@/components/PriorCallsPanel';
+import CallPacingPanel from '@/components/CallPacingPanel';
+import StakeholderMapPanel from '@/components/StakeholderMapPanel';
+import { getMethodologyPack, getMethodologyArea } from '@/services/methodologyPacks';
+import {
+  resolveElicitationPolicy,
+  getAreaDepthRule,
+  getPolicyAssessmentTarget,
+  isDiscoveryComplete,
+  type ElicitationPolicy,
+  type OrganizationElicitationPolicy
+} from '@/services/depthPolicy';
+import { recommendNextAreas } from '@/services/areaRecommender';
+import { addAreaTime, assessPacing, totalAreaSeconds } from '@/services/callPacing';
+import {
+  applySlotProposals,
+  getSlotProposals,
+  mergeSlotProposals,
+  reviewSlotProposal,
+  PROSPECT_SLOT_KEYS,
+  type SlotProposal,
+  type SlotProposalStatus
+} from '@/services/prospectExtraction';
+import { buildFollowUpContext, openAccountContradictions, priorCalls, type AccountCall, type FollowUpContext } from '@/services/accountThreads';
+import { createQuestionOutcome, type QuestionOutcome, type QuestionProvenance } from '@/services/questionEffectiveness';
+import { getSessionLocale, getLocalizedInitialQuestions, getNoteLexicon } from '@/services/locales';
+import { mergeTranscriptTurns, type TranscriptTurn } from '@/services/transcriptImport';
+import { nextSeededQuestion, fillContactName } from '@/services/sessionTemplates';
+import { onlyProspectAnswers } from '@/services/prospectQuestionnaire';
+import { emptyStakeholderMap, mergeStakeholderExtraction, stakeholderMapKey, type StakeholderMap } from '@/services/stakeholderMap';
+import {
+  annotateNote,
+  parseAnnotations,
+  wrapSelection,
+  ANNOTATION_KINDS,
+  ANNOTATION_LABELS,
+  type AnnotationKind
+} from '@/services/noteAnnotations';
+import {
+  revisionAuthor,
+  type NoteRevision,
+  type RevisionReason,
+  type RevisionTargetKind
+} from '@/services/noteRevisions';
 import { 
   DiscoverySession as SessionType, 
   DiscoveryArea,
   DiscoveryNote,
   QuestionBlock,
   ProgressTracking,
-  DISCOVERY_AREAS,
-  DISCOVERY_AREA_PROMPTS,
+  ProspectDiscovery,
   ICP_CONFIGS
 } from '@/types/discovery';
 
+const SYNC_BADGES: Record<SyncState, { label: string; title: string; className: string; Icon: typeof Cloud }> = {
+  local: { label: 'Saved locally', title: 'Saved on this device; will sync when you are back online', className: 'text-warning', Icon: HardDrive },
+  syncing: { label: 'Syncing', title: 'Uploading your latest notes', className: 'text-text-secondary', Icon: RefreshCw },
+  synced: { label: 'Synced', title: 'Saved to your account', className: 'text-success', Icon: Cloud }
+};
+
+// A question block (id = block id) or an area's working notes (id = area id)
+interface RevisionTarget {
+  id: string;
+  areaId: string;
+  kind: RevisionTargetKind;
+  title: string;
+}
+
+// What question generation reads from the session. The opening area loads before the session's
+// state has caught up, so this is passed along instead of read from state.
+interface QuestionContext {
+  session: SessionType;
+  policy: ElicitationPolicy;
+  followUp: FollowUpContext | null;
+  history: QuestionOutcome[];
+}
+
 const DiscoverySessionV2 = () => {
   const { sessionId } = useParams<{ sessionId: string }>();
+  // Report citations link to the question a passage was tagged in
+  const [searchParams] = useSearchParams();
+  const linkedQuestionId = searchParams.get('question');
   const navigate = useNavigate();
   const [session, setSession] = useState<SessionType | null>(null);
   const [user, setUser] = useState<any>(null);
@@ -29,19 +107,87 @@ const DiscoverySessionV2 = () => {
   const [activeArea, setActiveArea] = useState<DiscoveryArea | null>(null);
   const [discoveryNotes, setDiscoveryNotes] = useState<Map<string, DiscoveryNote>>(new Map());
   const [currentQuestion, setCurrentQuestion] = useState<string>('');
+  // How the current question was produced; null for questions restored from saved notes
+  const [currentProvenance, setCurrentProvenance] = useState<QuestionProvenance | null>(null);
+  const [questionHistory, setQuestionHistory] = useState<QuestionOutcome[]>([]);
   const [currentNotes, setCurrentNotes] = useState<string>('');
   const [progressTracking, setProgressTracking] = useState<ProgressTracking>({
-    totalAssessments: 16,
+    totalAssessments: 0,         // Set from the elicitation policy once the session loads
     completedAssessments: 0,
     areaBreakdown: {},
     isComplete: false
   });
   const [isLoading, setIsLoading] = useState(true);
   const [isGeneratingQuestion, setIsGeneratingQuestion] = useState(false);
+  const [prospect, setProspect] = useState<ProspectDiscovery | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [stakeholderMap, setStakeholderMap] = useState<StakeholderMap | null>(null);
+  const [isMappingStakeholders, setIsMappingStakeholders] = useState(false);
+  const [dismissedContradictions, setDismissedContradictions] = useState<string[]>([]);
+  // Earlier calls with the same account, oldest first
+  const [earlierCalls, setEarlierCalls] = useState<AccountCall[]>([]);
+  const [organizationPolicy, setOrganizationPolicy] = useState<OrganizationElicitationPolicy | null>(null);
+  const [isTranscriptImportOpen, setIsTranscriptImportOpen] = useState(false);
+  const [historyTarget, setHistoryTarget] = useState<RevisionTarget | null>(null);
+  // Unsaved edits to earlier question blocks, committed on blur
+  const [blockDrafts, setBlockDrafts] = useState<Record<string, string>>({});
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout>();
+  const [now, setNow] = useState<number>(Date.now());
+  // Time actually spent per area; the clock runs on the active area unless paused
+  const [areaSeconds, setAreaSeconds] = useState<Record<string, number>>({});
+  const areaSecondsRef = useRef<Record<string, number>>({});
+  const areaClockRef = useRef<{ area: string | null; since: number }>({ area: null, since: Date.now() });
+  const [runningSince, setRunningSince] = useState<number | null>(null);
+  const [isPacingPaused, setIsPacingPaused] = useState(false);
+  const [scrollToQuestionId, setScrollToQuestionId] = useState<string | null>(null);
+  const methodology = getMethodologyPack(session?.methodology_id);
+  const locale = getSessionLocale(session);
+  const policy = useMemo(
+    () => resolveElicitationPolicy(methodology, organizationPolicy),
+    [methodology, organizationPolicy]
+  );
+  const followUp = useMemo(
+    () => buildFollowUpContext(session, earlierCalls, policy),
+    [session, earlierCalls, policy]
+  );
+  const questionContext: QuestionContext | null = session ? { session, policy, followUp, history: questionHistory } : null;
+  const noteSyncStates = useSyncStatus('discovery_notes', discoveryAreas.map(area => area.id));
+  const notesTextareaRef = useRef<HTMLTextAreaElement>(null);
+  // Caret position in the working notes, carried across a co-editor's changes
+  const caretRef = useRef<{ doc: CollabDocument; field: string; start: string | null; end: string | null } | null>(null);
+  const collab = useCollabSession({
+    sessionId,
+    user,
+    areaId: activeArea?.id ?? null,
+    ready: !isLoading,
+    getLocalNotes: () => Array.from(discoveryNotes.values()).map(note =>
+      note.areaId === activeArea?.id ? { ...note, currentNotes } : note
+    ),
+    onBeforeRemoteApply: (doc) => {
+      const textarea = notesTextareaRef.current;
+      if (!activeArea || !textarea || document.activeElement !== textarea) return;
+      const field = currentNotesField(activeArea.id);
+      caretRef.current = {
+        doc,
+        field,
+        start: doc.anchorAt(field, textarea.selectionStart),
+        end: doc.anchorAt(field, textarea.selectionEnd)
+      };
+    },
+    onRemoteChange: (changed, doc) => handleRemoteChange(changed, doc)
+  });
+
+  useLayoutEffect(() => {
+    const caret = caretRef.current;
+    const textarea = notesTextareaRef.current;
+    if (!caret || !textarea) return;
+    caretRef.current = null;
+    textarea.setSelectionRange(caret.doc.indexOfAnchor(caret.field, caret.start), caret.doc.indexOfAnchor(caret.field, caret.end));
+  }, [currentNotes]);
 
   useEffect(() => {
     loadUser();
+    syncQueue.start();
   }, []);
 
   const loadUser = async () => {
@@ -75,27 +221,108 @@ const DiscoverySessionV2 = () => {
 
   const saveCurrentProgress = async () => {
     if (activeArea && currentNotes.trim() !== '' && session) {
-      try {
-        // Save current area notes
-        await MockStorageService.saveDiscoveryNote({
-          session_id: session.id,
-          area: activeArea.name,
-          notes: currentNotes,
-          question_blocks: activeArea.questionBlocks || []
-        });
-      } catch (error) {
-        console.error('Error saving progress:', error);
-      }
+      await saveCurrentAreaNotes();
     }
   };
 
   useEffect(() => {
     if (sessionId) {
-      loadSession();
-      loadDiscoveryAreas();
+      // The opening area's question depends on the session, so areas wait for it
+      loadSession().then(loadDiscoveryAreas);
     }
   }, [sessionId]);
 
+  // Assessment target and completion follow the organization's policy for this methodology
+  useEffect(() => {
+    const areaNames = methodology.areas.map(area => area.name);
+    const questionsPerArea = Object.fromEntries(
+      Object.entries(progressTracking.areaBreakdown).map(([areaName, data]) => [areaName, data.questionsAsked])
+    );
+    const totalAssessments = getPolicyAssessmentTarget(policy, areaNames);
+    const isComplete = isDiscoveryComplete(policy, areaNames, questionsPerArea);
+
+    setProgressTracking(prev =>
+      prev.totalAssessments === totalAssessments && prev.isComplete === isComplete
+        ? prev
+        : { ...prev, totalAssessments, isComplete }
+    );
+  }, [methodology, policy, progressTracking.areaBreakdown]);
+
+  // Tick once a minute so recommendations react to the remaining call time
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Credit the time since the last flush to the timed area, save it, then start timing nextArea
+  const flushAreaTime = useCallback((nextArea: string | null) => {
+    const clock = areaClockRef.current;
+    const flushedAt = Date.now();
+    areaClockRef.current = { area: nextArea, since: flushedAt };
+    setRunningSince(nextArea ? flushedAt : null);
+    if (!clock.area || !sessionId) return;
+
+    const updated = addAreaTime(areaSecondsRef.current, clock.area, (flushedAt - clock.since) / 1000);
+    if (updated === areaSecondsRef.current) return;
+    areaSecondsRef.current = updated;
+    setAreaSeconds(updated);
+    MockStorageService.updateSession(sessionId, {
+      area_time_seconds: updated,
+      total_elicitation_time: totalAreaSeconds(updated)
+    }).catch(error => console.error('Error saving area time:', error));
+  }, [sessionId]);
+
+  // Timing starts once the session's stored times are loaded, and follows the active area
+  const timedArea = session && !isPacingPaused ? activeArea?.area_name ?? null : null;
+  useEffect(() => {
+    flushAreaTime(timedArea);
+  }, [timedArea, flushAreaTime]);
+
+  // Saved every minute, and when the page is closed or left
+  useEffect(() => {
+    flushAreaTime(areaClockRef.current.area);
+  }, [now, flushAreaTime]);
+
+  useEffect(() => {
+    const handleUnload = () => flushAreaTime(null);
+    window.addEventListener('beforeunload', handleUnload);
+    return () => {
+      window.removeEventListener('beforeunload', handleUnload);
+      flushAreaTime(null);
+    };
+  }, [flushAreaTime]);
+
+  useEffect(() => {
+    if (isLoading || !scrollToQuestionId) return;
+    document.getElementById(`question-${scrollToQuestionId}`)?.scrollIntoView({ block: 'center' });
+  }, [isLoading, scrollToQuestionId]);
+
+  const pacing = useMemo(() => assessPacing({
+    areaNames: discoveryAreas.map(area => area.area_name),
+    policy,
+    callMinutes: session?.planned_call_minutes,
+    areaSeconds,
+    activeArea: activeArea?.area_name
+  }), [discoveryAreas, policy, session?.planned_call_minutes, areaSeconds, activeArea]);
+
+  const recommendations = useMemo(() => {
+    return recommendNextAreas({
+      methodology,
+      notes: Array.from(discoveryNotes.values()),
+      activeArea: activeArea?.area_name,
+      activeAreaDraft: currentNotes,
+      remainingMinutes: pacing.remainingMinutes,
+      policy,
+      lexicon: getNoteLexicon(locale)
+    }).slice(0, 3);
+  }, [methodology, policy, locale, discoveryNotes, activeArea, currentNotes, pacing.remainingMinutes]);
+
+  // Re-checked whenever a question block is saved; follow-up calls also check against earlier calls
+  const contradictions = useMemo(
+    () => openAccountContradictions(earlierCalls, Array.from(discoveryNotes.values()), dismissedContradictions),
+    [earlierCalls, discoveryNotes, dismissedContradictions]
+  );
+
   // Auto-save notes when typing
   useEffect(() => {
     if (autoSaveTimeoutRef.current) {
@@ -103,7 +330,8 @@ const DiscoverySessionV2 = () => {
     }
     
     autoSaveTimeoutRef.current = setTimeout(() => {
-      if (activeArea && currentNotes) {
+      // Clearing the notes is saved too; saveCurrentAreaNotes skips unchanged text
+      if (activeArea) {
         saveCurrentAreaNotes();
       }
     }, 3000);
@@ -115,31 +343,64 @@ const DiscoverySessionV2 = () => {
     };
   }, [currentNotes, activeArea]);
 
-  const loadSession = async () => {
+  const loadSession = async (): Promise<QuestionContext | null> => {
     try {
       if (!sessionId) {
         navigate('/discovery/setup');
-        return;
+        return null;
       }
 
       const sessionData = await MockStorageService.getSession(sessionId);
       if (!sessionData) {
         navigate('/discovery/setup');
-        return;
+        return null;
       }
 
+      areaSecondsRef.current = sessionData.area_time_seconds || {};
+      setAreaSeconds(areaSecondsRef.current);
       setSession(sessionData);
+      setProspect(await MockStorageService.getProspectDiscovery(sessionId));
+      setStakeholderMap(await MockStorageService.getStakeholderMap(stakeholderMapKey(sessionData)) || emptyStakeholderMap(sessionData));
+      const organizationPolicyData = sessionData.organization_id
+        ? await MockStorageService.getOrganizationPolicy(sessionData.organization_id)
+        : null;
+      setOrganizationPolicy(organizationPolicyData);
+
+      const dismissed = localStorage.getItem(`discovery_contradictions_${sessionId}`);
+      if (dismissed) setDismissedContradictions(JSON.parse(dismissed));
+
+      const calls = sessionData.account_id
+        ? priorCalls(await MockStorageService.getAccountCalls(sessionData.account_id), sessionData)
+        : [];
+      setEarlierCalls(calls);
+
+      const history = await MockStorageService.getQuestionOutcomes();
+      setQuestionHistory(history);
+
+      const sessionPolicy = resolveElicitationPolicy(getMethodologyPack(sessionData.methodology_id), organizationPolicyData);
+      return { session: sessionData, policy: sessionPolicy, followUp: buildFollowUpContext(sessionData, calls, sessionPolicy), history };
     } catch (error) {
       console.error('Error loading session:', error);
+      return null;
     }
   };
 
-  const loadDiscoveryAreas = async () => {
+  const loadDiscoveryAreas = async (context: QuestionContext | null) => {
     try {
       if (!sessionId) return;
 
       const areas = await MockStorageService.getDiscoveryAreas(sessionId);
       setDiscoveryAreas(areas);
+
+      // Pick up notes taken on another device; offline, the local copy is used as-is
+      try {
+        await syncQueue.pull('discovery_notes', sessionId);
+      } catch (error) {
+        console.error('Error pulling remote notes:', error);
+      }
+      // Answers the prospect sent in ahead of the call become the first question blocks
+      await MockStorageService.applyProspectQuestionnaires(sessionId, areas);
+      const storedNotes = await MockStorageService.getDiscoveryNotes(areas);
       
       // Initialize progress tracking
       const areaBreakdown: ProgressTracking['areaBreakdown'] = {};
@@ -147,7 +408,7 @@ const DiscoverySessionV2 = () => {
       
       areas.forEach(area => {
         // Load any existing notes
-        const existingNote = loadAreaNote(area.id);
+        const existingNote = storedNotes.find(note => note.areaId === area.id);
         if (existingNote) {
           discoveryNotes.set(area.id, existingNote);
           totalAssessments += existingNote.questions.length;
@@ -163,14 +424,24 @@ const DiscoverySessionV2 = () => {
       setProgressTracking(prev => ({
         ...prev,
         completedAssessments: totalAssessments,
-        areaBreakdown,
-        isComplete: totalAssessments >= 16
+        areaBreakdown
       }));
       
-      // Set first area as active
-      if (areas.length > 0) {
-        setActiveArea(areas[0]);
-        await loadAreaData(areas[0]);
+      // Open on the linked question's area, with the question expanded, else on the first area
+      const linkedNote = linkedQuestionId
+        ? storedNotes.find(note => note.questions.some(block => block.id === linkedQuestionId))
+        : undefined;
+      const startArea = areas.find(area => area.id === linkedNote?.areaId) || areas[0];
+      if (linkedNote) {
+        discoveryNotes.set(linkedNote.areaId, {
+          ...linkedNote,
+          questions: linkedNote.questions.map(block => block.id === linkedQuestionId ? { ...block, isCollapsed: false } : block)
+        });
+        setScrollToQuestionId(linkedQuestionId);
+      }
+      if (startArea) {
+        setActiveArea(startArea);
+        await loadAreaData(startArea, context);
       }
     } catch (error) {
       console.error('Error loading discovery areas:', error);
@@ -179,47 +450,93 @@ const DiscoverySessionV2 = () => {
     }
   };
 
-  const loadAreaNote = (areaId: string): DiscoveryNote | null => {
-    // In production, this would load from database
-    const stored = localStorage.getItem(`discovery_note_${areaId}`);
-    if (stored) {
-      try {
-        return JSON.parse(stored);
-      } catch {
-        return null;
-      }
+  const saveAreaNote = async (areaId: string, note: DiscoveryNote) => {
+    const annotated = annotateNote(note);
+    discoveryNotes.set(areaId, annotated);
+    setDiscoveryNotes(new Map(discoveryNotes));
+
+    // Written to IndexedDB and queued for sync
+    if (!sessionId) return;
+    try {
+      await MockStorageService.saveDiscoveryNote(sessionId, annotated);
+    } catch (error) {
+      console.error('Error saving notes:', error);
     }
-    return null;
   };
 
-  const saveAreaNote = (areaId: string, note: DiscoveryNote) => {
-    // In production, save to database
-    localStorage.setItem(`discovery_note_${areaId}`, JSON.stringify(note));
-    discoveryNotes.set(areaId, note);
-    setDiscoveryNotes(new Map(discoveryNotes));
+  const recordRevision = (
+    target: Omit<RevisionTarget, 'title'>,
+    text: string,
+    reason: RevisionReason,
+    options: { previousText?: string; restoredFrom?: string } = {}
+  ): Promise<void> => {
+    if (!sessionId) return Promise.resolve();
+    return MockStorageService.recordNoteRevision(sessionId, target, text, revisionAuthor(user), reason, options)
+      .catch(error => console.error('Error recording note revision:', error));
   };
 
-  const loadAreaData = async (area: DiscoveryArea) => {
+  const loadAreaData = async (area: DiscoveryArea, context: QuestionContext | null) => {
     const existingNote = discoveryNotes.get(area.id);
+    // A co-editor may already have asked a newer question in this area
+    const sharedQuestion = collab.getRegister<string>(questionKey(area.id));
     
     if (existingNote) {
-      // Load existing notes and question
+      // Load existing notes and question; if the prospect answered the openers in writing, follow up on those
       setCurrentNotes(existingNote.currentNotes);
-      const lastQuestion = existingNote.questions.length > 0 
-        ? existingNote.questions[existingNote.questions.length - 1].questionText
-        : await generateInitialQuestion(area.area_name);
-      setCurrentQuestion(lastQuestion);
+      const lastQuestion = sharedQuestion
+        ? { question: sharedQuestion, provenance: null }
+        : onlyProspectAnswers(existingNote)
+          ? await generateNextQuestion(area, existingNote, context)
+          : existingNote.questions.length > 0 
+            ? { question: existingNote.questions[existingNote.questions.length - 1].questionText, provenance: null }
+            : await generateInitialQuestion(area.area_name, context);
+      askQuestion(lastQuestion.question, lastQuestion.provenance, area.id);
     } else {
       // New area - generate AI-powered initial question
       setCurrentNotes('');
-      const initialQuestion = await generateInitialQuestion(area.area_name);
-      setCurrentQuestion(initialQuestion);
+      const initialQuestion = sharedQuestion
+        ? { question: sharedQuestion, provenance: null }
+        : await generateInitialQuestion(area.area_name, context);
+      askQuestion(initialQuestion.question, initialQuestion.provenance, area.id);
     }
   };
 
-  const generateInitialQuestion = async (areaName: string): Promise<string> => {
-    if (!session) {
-      return getInitialQuestion(areaName);
+  // Wrap the selected working notes in a tag, or open an empty one at the caret
+  const tagSelection = (kind: AnnotationKind) => {
+    const textarea = notesTextareaRef.current;
+    if (!textarea || !activeArea) return;
+    const { notes, caret } = wrapSelection(currentNotes, textarea.selectionStart, textarea.selectionEnd, kind);
+    setCurrentNotes(notes);
+    collab.editText(currentNotesField(activeArea.id), notes);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(caret, caret);
+    });
+  };
+
+  // Passing the area shares the question with co-editors
+  const askQuestion = (question: string, provenance: QuestionProvenance | null | undefined, areaId?: string) => {
+    setCurrentQuestion(question);
+    setCurrentProvenance(provenance || null);
+    if (areaId) collab.setRegister(questionKey(areaId), question);
+  };
+
+  const generateInitialQuestion = async (
+    areaName: string,
+    context: QuestionContext | null
+  ): Promise<Pick<DiscoveryQuestionResult, 'question' | 'provenance'>> => {
+    if (!context) {
+      return getInitialQuestion(areaName, null);
+    }
+    const { session, policy, followUp, history } = context;
+
+    // Questions seeded by the session's template come before generated ones
+    const seeded = nextSeededQuestion(session, areaName, []);
+    if (seeded) {
+      return {
+        question: fillContactName(seeded, session),
+        provenance: { source: 'template', depth: 0, template: seeded, promptVersion: null }
+      };
     }
     
     setIsGeneratingQuestion(true);
@@ -229,30 +546,37 @@ const DiscoverySessionV2 = () => {
         session,
         currentArea: areaName,
         discoveryNotes: Array.from(discoveryNotes.values()),
-        currentNotes: '' // No current notes for initial question
+        currentNotes: '', // No current notes for initial question
+        policy,
+        history,
+        priorNotes: followUp?.priorNotes
       });
       
       console.log('🤖 Generated initial question for', areaName, '- Reasoning:', result.reasoning);
-      return result.question;
+      return result;
     } catch (error) {
       console.error('❌ Error generating initial question:', error);
       // Fallback to template question
-      return getInitialQuestion(areaName);
+      return getInitialQuestion(areaName, session);
     } finally {
       setIsGeneratingQuestion(false);
     }
   };
 
-  const getInitialQuestion = (areaName: string): string => {
-    const areaConfig = DISCOVERY_AREA_PROMPTS[areaName as keyof typeof DISCOVERY_AREA_PROMPTS];
-    if (areaConfig && areaConfig.initialQuestions.length > 0) {
-      let question = areaConfig.initialQuestions[0];
+  const getInitialQuestion = (areaName: string, session: SessionType | null): Pick<DiscoveryQuestionResult, 'question' | 'provenance'> => {
+    const initialQuestions = getLocalizedInitialQuestions(getSessionLocale(session), areaName) ||
+      getMethodologyArea(getMethodologyPack(session?.methodology_id), areaName)?.initialQuestions || [];
+    if (initialQuestions.length > 0) {
+      let question = initialQuestions[0];
       if (session?.contact_name) {
         question = question.replace('[Contact Name]', session.contact_name);
       }
-      return question;
+      return { question, provenance: { source: 'fallback', depth: 0, template: initialQuestions[0], promptVersion: null } };
     }
-    return `Tell me about your ${areaName.toLowerCase()}.`;
+    return {
+      question: `Tell me about your ${areaName.toLowerCase()}.`,
+      provenance: { source: 'fallback', depth: 0, template: null, promptVersion: null }
+    };
   };
 
   const handleAreaSelect = async (area: DiscoveryArea) => {
@@ -264,10 +588,10 @@ const DiscoverySessionV2 = () => {
     }
     
     setActiveArea(area);
-    await loadAreaData(area);
+    await loadAreaData(area, questionContext);
   };
 
-  const saveCurrentAreaNotes = () => {
+  const saveCurrentAreaNotes = async () => {
     if (!activeArea) return;
     
     const existingNote = discoveryNotes.get(activeArea.id) || {
@@ -277,6 +601,7 @@ const DiscoverySessionV2 = () => {
       currentNotes: '',
       lastUpdated: new Date()
     };
+    if (existingNote.currentNotes === currentNotes) return;
     
     const updatedNote: DiscoveryNote = {
       ...existingNote,
@@ -284,11 +609,112 @@ const DiscoverySessionV2 = () => {
       lastUpdated: new Date()
     };
     
-    saveAreaNote(activeArea.id, updatedNote);
+    await saveAreaNote(activeArea.id, updatedNote);
+    await recordRevision({ id: activeArea.id, areaId: activeArea.id, kind: 'current' }, currentNotes, 'autosave', {
+      previousText: existingNote.currentNotes
+    });
+  };
+
+  const runSlotExtraction = async (areaName: string, questionBlock: QuestionBlock) => {
+    if (!sessionId) return;
+
+    setIsExtracting(true);
+    try {
+      // Re-read so concurrent reviews/extractions aren't overwritten by a stale copy
+      const current = await MockStorageService.getProspectDiscovery(sessionId);
+      const existing = getSlotProposals(current);
+      const filledSlots = PROSPECT_SLOT_KEYS.filter(key => current?.[key]);
+
+      const proposals = await extractProspectSlots(areaName, questionBlock, filledSlots);
+      await persistSlotProposals(mergeSlotProposals(existing, proposals));
+    } catch (error) {
+      console.error('Error extracting prospect slots:', error);
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const runStakeholderExtraction = async (areaName: string, questionBlock: QuestionBlock) => {
+    if (!session) return;
+
+    setIsMappingStakeholders(true);
+    try {
+      const { extractedBy, ...extraction } = await extractStakeholders(areaName, questionBlock, stakeholderMap?.stakeholders);
+      // Re-read so edits made while extracting aren't overwritten by a stale copy
+      const current = await MockStorageService.getStakeholderMap(stakeholderMapKey(session)) || emptyStakeholderMap(session);
+      setStakeholderMap(await MockStorageService.saveStakeholderMap(mergeStakeholderExtraction(current, extraction, extractedBy)));
+    } catch (error) {
+      console.error('Error extracting stakeholders:', error);
+    } finally {
+      setIsMappingStakeholders(false);
+    }
+  };
+
+  const handleStakeholderMapChange = async (map: StakeholderMap) => {
+    setStakeholderMap(map);
+    setStakeholderMap(await MockStorageService.saveStakeholderMap(map));
+  };
+
+  const handleStakeholderReextract = async () => {
+    for (const note of discoveryNotes.values()) {
+      for (const block of note.questions) {
+        await runStakeholderExtraction(note.areaName, block);
+      }
+    }
+  };
+
+  const persistSlotProposals = async (proposals: SlotProposal[]) => {
+    if (!sessionId) return;
+
+    const current = await MockStorageService.getProspectDiscovery(sessionId);
+    const base = current || await MockStorageService.saveProspectDiscovery(sessionId, {});
+    const updated = applySlotProposals(base, proposals);
+    setProspect(await MockStorageService.saveProspectDiscovery(sessionId, updated));
+  };
+
+  const handleSlotReview = async (proposalId: string, status: SlotProposalStatus, value?: string) => {
+    if (!sessionId) return;
+
+    const current = await MockStorageService.getProspectDiscovery(sessionId);
+    await persistSlotProposals(reviewSlotProposal(getSlotProposals(current), proposalId, status, value));
+  };
+
+  const handleDismissContradiction = (contradictionId: string) => {
+    const dismissed = [...dismissedContradictions, contradictionId];
+    setDismissedContradictions(dismissed);
+    localStorage.setItem(`discovery_contradictions_${sessionId}`, JSON.stringify(dismissed));
+  };
+
+  // Reviewed transcript answers become question blocks in their areas
+  const handleTranscriptMerge = async (turns: TranscriptTurn[]) => {
+    const updatedNotes = mergeTranscriptTurns(turns, discoveryAreas, discoveryNotes);
+    const importedBlocks: Array<{ areaName: string; block: QuestionBlock }> = [];
+
+    updatedNotes.forEach((note, areaId) => {
+      const previousCount = discoveryNotes.get(areaId)?.questions.length || 0;
+      const added = note.questions.slice(previousCount);
+      saveAreaNote(areaId, note);
+      added.forEach(block => {
+        collab.addBlock(areaId, block);
+        recordRevision({ id: block.id, areaId, kind: 'question' }, block.notes, 'import');
+        importedBlocks.push({ areaName: note.areaName, block });
+        updateProgress(note.areaName);
+      });
+    });
+
+    // One at a time so proposals from different answers don't overwrite each other
+    for (const { areaName, block } of importedBlocks) {
+      await runSlotExtraction(areaName, block);
+      await runStakeholderExtraction(areaName, block);
+    }
   };
 
   const handleAssess = async () => {
     if (!activeArea || !session) return;
+
+    // Only one co-editor generates the next question for an area at a time
+    const lockKey = assessLockKey(activeArea.id);
+    if (!(await collab.acquireLock(lockKey))) return;
     
     setIsGeneratingQuestion(true);
     
@@ -309,7 +735,8 @@ const DiscoverySessionV2 = () => {
         questionNumber: existingNote.questions.length + 1,
         notes: currentNotes,
         isCollapsed: existingNote.questions.length > 0, // Collapse previous questions
-        timestamp: new Date()
+        timestamp: new Date(),
+        provenance: currentProvenance || undefined
       };
       
       // Update the note with new question block
@@ -321,10 +748,26 @@ const DiscoverySessionV2 = () => {
       };
       
       saveAreaNote(activeArea.id, updatedNote);
+      collab.addBlock(activeArea.id, questionBlock);
+      collab.editText(currentNotesField(activeArea.id), '');
+      recordRevision({ id: questionBlock.id, areaId: activeArea.id, kind: 'question' }, questionBlock.notes, 'assess');
+
+      // Extract prospect slots and stakeholders in the background; question generation shouldn't wait on it
+      runSlotExtraction(activeArea.area_name, questionBlock);
+      runStakeholderExtraction(activeArea.area_name, questionBlock);
+
+      // Record how well the question worked before ranking the next one
+      const history = currentProvenance
+        ? [...questionHistory, createQuestionOutcome(session, activeArea.area_name, questionBlock, currentProvenance)]
+        : questionHistory;
+      if (currentProvenance) {
+        await MockStorageService.recordQuestionOutcome(history[history.length - 1]);
+        setQuestionHistory(history);
+      }
       
       // Generate new question based on all context
-      const newQuestion = await generateNextQuestion(activeArea, updatedNote);
-      setCurrentQuestion(newQuestion);
+      const newQuestion = await generateNextQuestion(activeArea, updatedNote, { session, policy, followUp, history });
+      askQuestion(newQuestion.question, newQuestion.provenance, activeArea.id);
       setCurrentNotes(''); // Clear notes area for new question
       
       // Update progress tracking
@@ -334,12 +777,26 @@ const DiscoverySessionV2 = () => {
       console.error('Error generating assessment:', error);
     } finally {
       setIsGeneratingQuestion(false);
+      collab.releaseLock(lockKey);
     }
   };
 
-  const generateNextQuestion = async (area: DiscoveryArea, note: DiscoveryNote): Promise<string> => {
-    if (!session) {
-      return "What would you like to explore about this topic?";
+  const generateNextQuestion = async (
+    area: DiscoveryArea,
+    note: DiscoveryNote,
+    context: QuestionContext | null
+  ): Promise<Pick<DiscoveryQuestionResult, 'question' | 'provenance'>> => {
+    if (!context) {
+      return { question: "What would you like to explore about this topic?" };
+    }
+    const { session, policy, followUp, history } = context;
+
+    const seeded = nextSeededQuestion(session, area.area_name, note.questions.map(block => block.questionText));
+    if (seeded) {
+      return {
+        question: fillContactName(seeded, session),
+        provenance: { source: 'template', depth: note.questions.length, template: seeded, promptVersion: null }
+      };
     }
 
     try {
@@ -348,23 +805,31 @@ const DiscoverySessionV2 = () => {
         session,
         currentArea: area.area_name,
         discoveryNotes: Array.from(discoveryNotes.values()),
-        currentNotes: currentNotes
+        currentNotes: currentNotes,
+        policy,
+        history,
+        priorNotes: followUp?.priorNotes
       });
       
       console.log('Generated question reasoning:', result.reasoning);
-      return result.question;
+      return result;
     } catch (error) {
       console.error('Error generating question with OpenAI:', error);
       
       // Fallback to basic questions if OpenAI fails
       const questionCount = note.questions.length;
-      const areaConfig = DISCOVERY_AREA_PROMPTS[area.area_name as keyof typeof DISCOVERY_AREA_PROMPTS];
+      const initialQuestions = getLocalizedInitialQuestions(getSessionLocale(session), area.area_name) ||
+        getMethodologyArea(getMethodologyPack(session.methodology_id), area.area_name)?.initialQuestions || [];
       
-      if (questionCount < areaConfig?.initialQuestions.length) {
-        return areaConfig.initialQuestions[questionCount];
+      if (questionCount < initialQuestions.length) {
+        const template = initialQuestions[questionCount];
+        return { question: template, provenance: { source: 'fallback', depth: questionCount, template, promptVersion: null } };
       }
       
-      return `Can you tell me more about your experience with ${area.area_name.toLowerCase()}?`;
+      return {
+        question: `Can you tell me more about your experience with ${area.area_name.toLowerCase()}?`,
+        provenance: { source: 'fallback', depth: questionCount, template: null, promptVersion: null }
+      };
     }
   };
 
@@ -383,13 +848,10 @@ const DiscoverySessionV2 = () => {
         lastUpdated: new Date()
       };
       
-      const newTotal = prev.completedAssessments + 1;
-      
       return {
         ...prev,
-        completedAssessments: newTotal,
-        areaBreakdown: updatedBreakdown,
-        isComplete: newTotal >= 16
+        completedAssessments: prev.completedAssessments + 1,
+        areaBreakdown: updatedBreakdown
       };
     });
   };
@@ -406,11 +868,127 @@ const DiscoverySessionV2 = () => {
     saveAreaNote(areaId, updatedNote);
   };
 
+  const saveQuestionNotes = async (
+    areaId: string,
+    questionId: string,
+    notes: string,
+    reason: RevisionReason,
+    restoredFrom?: string
+  ) => {
+    const note = discoveryNotes.get(areaId);
+    const block = note?.questions.find(q => q.id === questionId);
+    if (!note || !block || block.notes === notes) return;
+
+    const updatedQuestions = note.questions.map(q => (q.id === questionId ? { ...q, notes } : q));
+    saveAreaNote(areaId, { ...note, questions: updatedQuestions, lastUpdated: new Date() });
+    collab.editText(blockNotesField(questionId), notes);
+    await recordRevision({ id: questionId, areaId, kind: 'question' }, notes, reason, { previousText: block.notes, restoredFrom });
+  };
+
+  const commitBlockDraft = (areaId: string, questionId: string) => {
+    const draft = blockDrafts[questionId];
+    if (draft === undefined) return;
+
+    saveQuestionNotes(areaId, questionId, draft, 'edit');
+    setBlockDrafts(prev => {
+      const { [questionId]: _committed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const historyText = (target: RevisionTarget | null): string => {
+    if (!target) return '';
+    if (target.kind === 'current') return currentNotes;
+    return blockDrafts[target.id] ??
+      discoveryNotes.get(target.areaId)?.questions.find(q => q.id === target.id)?.notes ?? '';
+  };
+
+  const handleRestoreRevision = async (revision: NoteRevision) => {
+    if (!historyTarget) return;
+
+    // Whatever is on screen is kept as a revision first, so a restore can itself be undone
+    if (historyTarget.kind === 'question') {
+      const draft = blockDrafts[historyTarget.id];
+      setBlockDrafts(prev => {
+        const { [historyTarget.id]: _replaced, ...rest } = prev;
+        return rest;
+      });
+      if (draft !== undefined) await saveQuestionNotes(historyTarget.areaId, historyTarget.id, draft, 'edit');
+      await saveQuestionNotes(historyTarget.areaId, historyTarget.id, revision.text, 'restore', revision.id);
+      return;
+    }
+
+    // Working notes history is only offered for the active area
+    if (!activeArea || historyTarget.areaId !== activeArea.id) return;
+    setCurrentNotes(revision.text);
+    collab.editText(currentNotesField(activeArea.id), revision.text);
+    const note = discoveryNotes.get(activeArea.id) || {
+      areaId: activeArea.id,
+      areaName: activeArea.area_name,
+      questions: [],
+      currentNotes: '',
+      lastUpdated: new Date()
+    };
+    const target = { id: activeArea.id, areaId: activeArea.id, kind: 'current' as const };
+    await recordRevision(target, currentNotes, 'edit', { previousText: note.currentNotes });
+    await saveAreaNote(activeArea.id, { ...note, currentNotes: revision.text, lastUpdated: new Date() });
+    await recordRevision(target, revision.text, 'restore', { restoredFrom: revision.id });
+  };
+
+  // Co-editors' changes arrive as document updates; rebuild the affected areas' notes from it
+  const handleRemoteChange = (changed: Set<string>, doc: CollabDocument) => {
+    discoveryAreas.forEach(area => {
+      const blocks = doc.getBlocks(area.id);
+      const touched = changed.has(area.id) ||
+        changed.has(currentNotesField(area.id)) ||
+        blocks.some(block => changed.has(blockNotesField(block.id)));
+      if (!touched) return;
+
+      const existing = discoveryNotes.get(area.id) || {
+        areaId: area.id,
+        areaName: area.area_name,
+        questions: [],
+        currentNotes: '',
+        lastUpdated: new Date()
+      };
+      const sharedIds = new Set(blocks.map(block => block.id));
+      const questions: QuestionBlock[] = [
+        ...blocks.map(block => ({
+          ...block,
+          timestamp: new Date(block.timestamp),
+          notes: doc.getText(blockNotesField(block.id)),
+          // Collapsing is a per-consultant view choice
+          isCollapsed: existing.questions.find(q => q.id === block.id)?.isCollapsed ?? true
+        })),
+        ...existing.questions.filter(q => !sharedIds.has(q.id))
+      ];
+      const areaNotes = doc.getText(currentNotesField(area.id));
+
+      saveAreaNote(area.id, { ...existing, questions, currentNotes: areaNotes, lastUpdated: new Date() });
+      for (let added = questions.length - existing.questions.length; added > 0; added--) {
+        updateProgress(area.area_name);
+      }
+
+      if (area.id === activeArea?.id) {
+        setCurrentNotes(areaNotes);
+        // Unsaved block edits were already shared as they were typed, so the document holds them too
+        setBlockDrafts(prev => Object.fromEntries(
+          Object.keys(prev).map(id => [id, sharedIds.has(id) ? doc.getText(blockNotesField(id)) : prev[id]])
+        ));
+      }
+    });
+
+    if (activeArea && changed.has(questionKey(activeArea.id))) {
+      const question = doc.get<string>(questionKey(activeArea.id));
+      if (question && question !== currentQuestion) askQuestion(question, null);
+    }
+  };
+
   const handleSubmit = async () => {
     if (!progressTracking.isComplete) return;
     
     // Save all current notes
-    saveCurrentAreaNotes();
+    await saveCurrentAreaNotes();
     
     // In production, this would:
     // 1. Generate Perplexity analysis
@@ -423,7 +1001,12 @@ const DiscoverySessionV2 = () => {
     navigate(`/discovery/scoping/${sessionId}`);
   };
 
-  const progressPercentage = Math.min((progressTracking.completedAssessments / progressTracking.totalAssessments) * 100, 100);
+  const assessHolder = activeArea ? collab.lockHolder(assessLockKey(activeArea.id)) : null;
+  const activeAreaAtLimit = !!activeArea &&
+    (progressTracking.areaBreakdown[activeArea.area_name]?.questionsAsked || 0) >= getAreaDepthRule(policy, activeArea.area_name).maxDepth;
+  const progressPercentage = progressTracking.totalAssessments > 0
+    ? Math.min((progressTracking.completedAssessments / progressTracking.totalAssessments) * 100, 100)
+    : 0;
 
   if (isLoading) {
     return (
@@ -454,6 +1037,12 @@ const DiscoverySessionV2 = () => {
               {selectedICP?.label && `${selectedICP.label} • `}Discovery Progress: {progressTracking.completedAssessments}/{progressTracking.totalAssessments} Assessments
             </div>
             <div className="flex items-center space-x-3">
+              {collab.enabled && collab.peers.length > 0 && (
+                <div className="flex items-center space-x-2 mr-3 text-xs text-text-secondary">
+                  <CollabPresence peers={collab.peers} size="md" />
+                  <span>Co-editing</span>
+                </div>
+              )}
               <Progress value={progressPercentage} className="w-48" />
               <span className="text-text-primary font-medium">{Math.round(progressPercentage)}%</span>
             </div>
@@ -465,13 +1054,53 @@ const DiscoverySessionV2 = () => {
         {/* Left Sidebar - Discovery Areas */}
         <div className="w-80 border-r border-glass-border bg-glass-bg/30 flex-shrink-0 overflow-y-auto">
           <div className="p-6">
-            <h3 className="text-lg font-semibold text-text-primary mb-4">Discovery Areas</h3>
+            <h3 className="text-lg font-semibold text-text-primary mb-1">Discovery Areas</h3>
+            <p className="text-xs text-text-muted mb-4">{methodology.name}</p>
+
+            <CallPacingPanel
+              status={pacing}
+              activeArea={activeArea?.area_name}
+              runningSince={runningSince}
+              onTogglePause={() => setIsPacingPaused(!isPacingPaused)}
+            />
+
+            {/* Recommended Next */}
+            {recommendations.length > 0 && (
+              <div className="mb-4 p-4 bg-glass-bg rounded-lg border border-glass-border">
+                <h4 className="text-sm font-medium text-text-primary mb-3">Recommended Next</h4>
+                <div className="space-y-2">
+                  {recommendations.map((rec, index) => {
+                    const area = discoveryAreas.find(a => a.area_name === rec.area);
+                    return (
+                      <button
+                        key={rec.area}
+                        type="button"
+                        className="w-full text-left text-xs disabled:cursor-default"
+                        disabled={!area}
+                        onClick={() => area && handleAreaSelect(area)}
+                      >
+                        <div className={`font-medium ${
+                          activeArea?.area_name === rec.area ? 'sep-text' : 'text-text-primary'
+                        }`}>
+                          {index + 1}. {rec.area}
+                        </div>
+                        <div className="text-text-muted">{rec.reason}</div>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             <div className="space-y-3">
               {discoveryAreas.map((area) => {
                 const areaProgress = progressTracking.areaBreakdown[area.area_name];
                 const questionsAsked = areaProgress?.questionsAsked || 0;
                 const hasNotes = areaProgress?.hasNotes || false;
-                const areaProgressPercent = Math.min((questionsAsked / 2) * 100, 100);
+                const { minDepth } = getAreaDepthRule(policy, area.area_name);
+                const areaProgressPercent = minDepth > 0 ? Math.min((questionsAsked / minDepth) * 100, 100) : 100;
+                const syncBadge = hasNotes && noteSyncStates[area.id] ? SYNC_BADGES[noteSyncStates[area.id]] : null;
+                const areaPeers = collab.peers.filter(peer => peer.areaId === area.id);
                 
                 return (
                   <Card
@@ -490,16 +1119,26 @@ const DiscoverySessionV2 = () => {
                         {area.area_name}
                       </h4>
                       <div className="flex items-center space-x-2">
+                        <CollabPresence peers={areaPeers} />
                         {hasNotes && <span className="text-xs text-success">✓</span>}
+                        {policy.requiredAreas.includes(area.area_name) && (
+                          <span className="text-xs text-warning" title="Required by your organization's policy">*</span>
+                        )}
                         <span className="text-xs text-text-secondary">
-                          {questionsAsked}/2
+                          {questionsAsked}/{minDepth}
                         </span>
                       </div>
                     </div>
                     <Progress value={areaProgressPercent} className="mb-2 h-1" />
                     <p className="text-xs text-text-muted">
-                      {DISCOVERY_AREA_PROMPTS[area.area_name as keyof typeof DISCOVERY_AREA_PROMPTS]?.description}
+                      {getMethodologyArea(methodology, area.area_name)?.description}
                     </p>
+                    {syncBadge && (
+                      <p className={`mt-2 text-xs flex items-center ${syncBadge.className}`} title={syncBadge.title}>
+                        <syncBadge.Icon className={`w-3 h-3 mr-1 ${noteSyncStates[area.id] === 'syncing' ? 'animate-spin' : ''}`} />
+                        {syncBadge.label}
+                      </p>
+                    )}
                   </Card>
                 );
               })}
@@ -510,7 +1149,8 @@ const DiscoverySessionV2 = () => {
               <h4 className="text-sm font-medium text-text-primary mb-3">Area Breakdown</h4>
               <div className="space-y-2">
                 {Object.entries(progressTracking.areaBreakdown).map(([areaName, data]) => {
-                  const progress = Math.min((data.questionsAsked / 2) * 100, 100);
+                  const { minDepth } = getAreaDepthRule(policy, areaName);
+                  const progress = minDepth > 0 ? Math.min((data.questionsAsked / minDepth) * 100, 100) : 100;
                   const icon = progress === 100 ? '✅' : progress > 0 ? '⚡' : '⭕';
                   
                   return (
@@ -520,7 +1160,7 @@ const DiscoverySessionV2 = () => {
                           <span className="mr-2">{icon}</span>
                           {areaName}
                         </span>
-                        <span className="text-text-muted">({data.questionsAsked}/2)</span>
+                        <span className="text-text-muted">({data.questionsAsked}/{minDepth})</span>
                       </div>
                       <Progress value={progress} className="h-1" />
                     </div>
@@ -554,45 +1194,122 @@ const DiscoverySessionV2 = () => {
 
               {/* Discovery Notes */}
               <div className="flex-1 p-6 overflow-y-auto">
-                <h3 className="text-sm font-medium text-text-secondary mb-4">Discovery Notes:</h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-sm font-medium text-text-secondary">Discovery Notes:</h3>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => setHistoryTarget({
+                        id: activeArea.id,
+                        areaId: activeArea.id,
+                        kind: 'current',
+                        title: `Working notes for ${activeArea.area_name}`
+                      })}
+                    >
+                      <History className="w-3 h-3 mr-1" /> History
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={() => setIsTranscriptImportOpen(true)}>
+                      <FileText className="w-3 h-3 mr-1" /> Import Transcript
+                    </Button>
+                  </div>
+                </div>
                 
                 {/* Previous Question Blocks */}
-                {currentAreaNote?.questions.map((question, index) => (
-                  <div key={question.id} className="mb-4">
-                    <div
-                      className={`rounded-lg overflow-hidden ${
-                        question.isCollapsed 
-                          ? 'bg-glass-bg/80 border border-glass-border h-12' 
-                          : 'bg-glass-bg/80 border border-glass-border'
-                      }`}
-                    >
+                {currentAreaNote?.questions.map((question, index) => {
+                  const tagged = parseAnnotations(blockDrafts[question.id] ?? question.notes).annotations;
+                  return (
+                    <div key={question.id} id={`question-${question.id}`} className="mb-4">
                       <div
-                        className="flex items-center px-4 py-3 cursor-pointer transition-colors bg-glass-bg/80 hover:bg-glass-bg/90"
-                        onClick={() => toggleQuestionBlock(activeArea.id, question.id)}
+                        className={`rounded-lg overflow-hidden ${
+                          question.isCollapsed 
+                            ? 'bg-glass-bg/80 border border-glass-border h-12' 
+                            : 'bg-glass-bg/80 border border-glass-border'
+                        } ${question.id === scrollToQuestionId ? 'ring-2 ring-sep-primary' : ''}`}
                       >
-                        {question.isCollapsed ? (
-                          <ChevronRight className="w-4 h-4 mr-2 text-text-secondary" />
-                        ) : (
-                          <ChevronDown className="w-4 h-4 mr-2 text-text-secondary" />
+                        <div
+                          className="flex items-center px-4 py-3 cursor-pointer transition-colors bg-glass-bg/80 hover:bg-glass-bg/90"
+                          onClick={() => toggleQuestionBlock(activeArea.id, question.id)}
+                        >
+                          {question.isCollapsed ? (
+                            <ChevronRight className="w-4 h-4 mr-2 text-text-secondary" />
+                          ) : (
+                            <ChevronDown className="w-4 h-4 mr-2 text-text-secondary" />
+                          )}
+                          <span className="flex-1 text-sm text-text-secondary italic font-mono">
+                            (Answers to: {question.questionText.slice(0, 60)}...)
+                          </span>
+                          {tagged.length > 0 && (
+                            <span className="mr-2 text-xs text-text-muted" title={tagged.map(a => `${ANNOTATION_LABELS[a.kind]}: ${a.text}`).join('\n')}>
+                              {tagged.length} tagged
+                            </span>
+                          )}
+                          {question.prospectSubmitted && (
+                            <span className="mr-2 text-xs text-sep-primary" title="Answered in writing before the call">
+                              From prospect
+                            </span>
+                          )}
+                          <button
+                            className="p-1 text-text-muted hover:text-text-primary"
+                            title="Note history"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setHistoryTarget({
+                                id: question.id,
+                                areaId: activeArea.id,
+                                kind: 'question',
+                                title: `Answers to question ${question.questionNumber}: ${question.questionText}`
+                              });
+                            }}
+                          >
+                            <History className="w-4 h-4" />
+                          </button>
+                        </div>
+                        {!question.isCollapsed && (
+                          <Textarea
+                            value={blockDrafts[question.id] ?? question.notes}
+                            onChange={(e) => {
+                              const notes = e.target.value;
+                              setBlockDrafts(prev => ({ ...prev, [question.id]: notes }));
+                              collab.editText(blockNotesField(question.id), notes);
+                            }}
+                            onBlur={() => commitBlockDraft(activeArea.id, question.id)}
+                            className="w-full min-h-[120px] px-4 py-3 bg-black text-text-primary font-mono border-0 rounded-none focus:ring-0 resize-y"
+                          />
                         )}
-                        <span className="text-sm text-text-secondary italic font-mono">
-                          (Answers to: {question.questionText.slice(0, 60)}...)
-                        </span>
                       </div>
-                      {!question.isCollapsed && (
-                        <div className="px-4 py-3 bg-black text-text-primary whitespace-pre-wrap font-mono">
-                          {question.notes}
-                        </div>
-                      )}
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
                 
+                {/* Tags for the prospect's exact words, figures, risks and commitments */}
+                <div className="flex items-center gap-1 mb-2 text-xs">
+                  <span className="text-text-muted mr-1">Tag selection:</span>
+                  {ANNOTATION_KINDS.map(kind => (
+                    <Button
+                      key={kind}
+                      size="sm"
+                      variant="outline"
+                      className="h-6 px-2 text-xs"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => tagSelection(kind)}
+                    >
+                      {ANNOTATION_LABELS[kind]}
+                    </Button>
+                  ))}
+                  <span className="text-text-muted ml-2 hidden xl:inline">or type {'{{q: ...}}'}</span>
+                </div>
+
                 {/* Current Notes Area */}
                 <div className="border-2 border-sep-secondary rounded-lg bg-white">
                   <Textarea
+                    ref={notesTextareaRef}
                     value={currentNotes}
-                    onChange={(e) => setCurrentNotes(e.target.value)}
+                    onChange={(e) => {
+                      setCurrentNotes(e.target.value);
+                      collab.editText(currentNotesField(activeArea.id), e.target.value);
+                    }}
                     placeholder={`Take notes about ${activeArea.area_name.toLowerCase()}...\n\nPress Enter to add new lines. Click ASSESS when ready for the next question.`}
                     className="w-full min-h-[300px] p-4 border-0 focus:ring-0 resize-none font-mono"
                     style={{ outline: 'none', boxShadow: 'none' }}
@@ -603,11 +1320,21 @@ const DiscoverySessionV2 = () => {
                 <div className="mt-4">
                   <Button
                     onClick={handleAssess}
-                    disabled={!currentNotes.trim() || isGeneratingQuestion}
+                    disabled={!currentNotes.trim() || isGeneratingQuestion || activeAreaAtLimit || !!assessHolder}
                     className="w-full py-6 text-lg font-bold bg-gradient-to-r from-red-600/80 to-red-500/80 hover:from-red-600/90 hover:to-red-500/90 text-white"
                   >
                     {isGeneratingQuestion ? 'Generating Question...' : 'ASSESS'}
                   </Button>
+                  {assessHolder && (
+                    <p className="mt-2 text-xs text-text-muted text-center">
+                      {assessHolder.name} is generating the next question for {activeArea.area_name}...
+                    </p>
+                  )}
+                  {activeAreaAtLimit && (
+                    <p className="mt-2 text-xs text-text-muted text-center">
+                      Your organization's policy caps {activeArea.area_name} at {getAreaDepthRule(policy, activeArea.area_name).maxDepth} questions. Move to another area.
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -631,7 +1358,55 @@ const DiscoverySessionV2 = () => {
             </div>
           )}
         </div>
+
+        {/* Right Sidebar - Prospect Profile */}
+        <div className="w-80 border-l border-glass-border bg-glass-bg/30 flex-shrink-0 overflow-y-auto">
+          <div className="p-6">
+            <PriorCallsPanel context={followUp} areaName={activeArea?.area_name} />
+            <ContradictionPanel
+              contradictions={contradictions}
+              onAsk={(contradiction) => askQuestion(contradiction.clarifyingQuestion, {
+                source: 'contradiction',
+                depth: currentAreaNote?.questions.length || 0,
+                template: null,
+                promptVersion: null
+              }, activeArea?.id)}
+              onDismiss={handleDismissContradiction}
+            />
+            <ProspectSlotReview
+              proposals={getSlotProposals(prospect)}
+              completionPercentage={prospect?.completion_percentage || 0}
+              isExtracting={isExtracting}
+              onAccept={(id, value) => handleSlotReview(id, 'accepted', value)}
+              onReject={(id) => handleSlotReview(id, 'rejected')}
+              onReopen={(id) => handleSlotReview(id, 'pending')}
+            />
+            <StakeholderMapPanel
+              map={stakeholderMap}
+              onChange={handleStakeholderMapChange}
+              onReextract={handleStakeholderReextract}
+              isExtracting={isMappingStakeholders}
+            />
+          </div>
+        </div>
       </div>
+
+      <TranscriptImportDialog
+        open={isTranscriptImportOpen}
+        onOpenChange={setIsTranscriptImportOpen}
+        areas={methodology.areas}
+        contactName={session?.contact_name}
+        onMerge={handleTranscriptMerge}
+      />
+
+      <NoteHistoryDialog
+        open={!!historyTarget}
+        onOpenChange={(open) => { if (!open) setHistoryTarget(null); }}
+        title={historyTarget?.title || ''}
+        targetId={historyTarget?.id || null}
+        currentText={historyText(historyTarget)}
+        onRestore={handleRestoreRevision}
+      />
     </div>
   );
 };
@@ -1,22 +1,41 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { getCurrentUser } from '@/lib/supabase-auth';
 import { MockStorageService } from '@/lib/mockStorage';
 import AppHeader from '@/components/AppHeader';
+import { SUPPORTED_LOCALES, DEFAULT_LOCALE, type SessionLocale } from '@/services/locales';
+import { canEditTemplate, templateSessionFields, type SessionTemplate } from '@/services/sessionTemplates';
+import { accountKey } from '@/services/accountThreads';
+import type { Account, DiscoverySession } from '@/types/discovery';
+
+// Select needs a non-empty value for "start from scratch"
+const BLANK = '__blank__';
+const TEMPLATE_PREFIX = 'template:';
+const CLONE_PREFIX = 'clone:';
 
 const DiscoverySetup = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [user, setUser] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [formData, setFormData] = useState({
     accountName: '',
     contactName: '',
-    contactRole: ''
+    contactRole: '',
+    locale: DEFAULT_LOCALE as SessionLocale
   });
+  const [templates, setTemplates] = useState<SessionTemplate[]>([]);
+  const [previousSessions, setPreviousSessions] = useState<DiscoverySession[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [callCounts, setCallCounts] = useState<Record<string, number>>({});
+  // BLANK, `template:<id>` or `clone:<session id>`
+  const [startFrom, setStartFrom] = useState(BLANK);
 
   useEffect(() => {
     loadUser();
@@ -30,6 +49,23 @@ const DiscoverySetup = () => {
         return;
       }
       setUser(currentUser);
+
+      setTemplates(await MockStorageService.getSessionTemplates(currentUser));
+      setAccounts(await MockStorageService.getAccounts(currentUser.id, currentUser.organization_id || undefined));
+      const counts: Record<string, number> = {};
+      MockStorageService.getAllSessions().forEach(session => {
+        if (session.account_id) counts[session.account_id] = (counts[session.account_id] || 0) + 1;
+      });
+      setCallCounts(counts);
+      const sessions = MockStorageService.getAllSessions()
+        .filter(session => session.consultant_id === currentUser.id && session.discovery_context)
+        .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+      setPreviousSessions(sessions);
+
+      // Linked from a session summary's "Clone for Another Contact"
+      const cloneId = searchParams.get('clone');
+      const cloneSource = sessions.find(session => session.id === cloneId);
+      if (cloneSource) selectStart(`${CLONE_PREFIX}${cloneSource.id}`, sessions);
     } catch (error) {
       console.error('Error loading user:', error);
       navigate('/auth');
@@ -45,21 +81,87 @@ const DiscoverySetup = () => {
     }));
   };
 
+  const selectedTemplate = startFrom.startsWith(TEMPLATE_PREFIX)
+    ? templates.find(template => `${TEMPLATE_PREFIX}${template.id}` === startFrom) || null
+    : null;
+  const cloneSource = startFrom.startsWith(CLONE_PREFIX)
+    ? previousSessions.find(session => `${CLONE_PREFIX}${session.id}` === startFrom) || null
+    : null;
+
+  const selectStart = (value: string, sessions: DiscoverySession[] = previousSessions) => {
+    setStartFrom(value);
+
+    const template = templates.find(t => `${TEMPLATE_PREFIX}${t.id}` === value);
+    const source = sessions.find(session => `${CLONE_PREFIX}${session.id}` === value);
+    if (template?.locale) {
+      setFormData(prev => ({ ...prev, locale: template.locale }));
+    }
+    // A clone is for another contact at the same account
+    if (source) {
+      setFormData(prev => ({
+        ...prev,
+        accountName: source.account_name,
+        contactName: '',
+        contactRole: '',
+        locale: source.locale || DEFAULT_LOCALE
+      }));
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplate) return;
+    try {
+      await MockStorageService.deleteSessionTemplate(selectedTemplate.id, user?.id);
+      setTemplates(prev => prev.filter(template => template.id !== selectedTemplate.id));
+      setStartFrom(BLANK);
+    } catch (error) {
+      console.error('Error deleting template:', error);
+    }
+  };
+
   const handleNext = async () => {
     if (!formData.accountName || !formData.contactName || !user) return;
 
     try {
+      if (cloneSource) {
+        const clone = await MockStorageService.cloneSession(cloneSource.id, {
+          contact_name: formData.contactName,
+          contact_role: formData.contactRole
+        });
+        if (!clone) {
+          console.error('Error cloning session');
+          return;
+        }
+        await MockStorageService.updateSession(clone.id, { locale: formData.locale });
+
+        // Profile and context carry over; review them before the call
+        navigate(`/discovery/context/${clone.id}`);
+        return;
+      }
+
+      // Calls with the same account name join that account's thread
+      const account = await MockStorageService.findOrCreateAccount(
+        formData.accountName,
+        user.id,
+        user.organization_id || undefined
+      );
+
       // Use mock storage service for development
       const session = await MockStorageService.createSession({
-        account_name: formData.accountName,
+        account_id: account.id,
+        account_name: account.name,
         contact_name: formData.contactName,
         contact_role: formData.contactRole,
         consultant_id: user.id,
+        organization_id: user.organization_id || undefined,
+        locale: formData.locale,
         client_icp: 'Aerospace/Defense', // Will be updated on next page
         business_area: '',
         discovery_context: '',
         solution_scope: 'Software consultation ($10K-$50K)',
-        next_step_goal: 'Technical deep-dive meeting'
+        next_step_goal: 'Technical deep-dive meeting',
+        // Template fields prefill the profile and context pages that follow
+        ...(selectedTemplate ? { ...templateSessionFields(selectedTemplate), locale: formData.locale } : {})
       });
 
       console.log('Created session:', session);
@@ -72,6 +174,8 @@ const DiscoverySetup = () => {
   };
 
   const isFormValid = formData.accountName && formData.contactName;
+  const existingAccount = accounts.find(account => accountKey(account.name) === accountKey(formData.accountName));
+  const earlierCallCount = existingAccount ? callCounts[existingAccount.id] || 0 : 0;
 
   if (isLoading) {
     return (
@@ -105,6 +209,61 @@ const DiscoverySetup = () => {
 
         <Card className="glass-card p-8">
           <div className="space-y-6">
+            {/* Start From */}
+            {(templates.length > 0 || previousSessions.length > 0) && (
+              <div className="space-y-2">
+                <Label className="text-text-primary font-medium">
+                  Start From
+                </Label>
+                <div className="flex items-center gap-2">
+                  <Select value={startFrom} onValueChange={(value) => selectStart(value)}>
+                    <SelectTrigger className="input-field flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={BLANK}>Blank session</SelectItem>
+                      {templates.length > 0 && (
+                        <SelectGroup>
+                          <SelectLabel>Templates</SelectLabel>
+                          {templates.map(template => (
+                            <SelectItem key={template.id} value={`${TEMPLATE_PREFIX}${template.id}`}>
+                              {template.name}
+                              {template.created_by !== user?.id && ` · shared by ${template.created_by_name}`}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      )}
+                      {previousSessions.length > 0 && (
+                        <SelectGroup>
+                          <SelectLabel>Clone for another contact</SelectLabel>
+                          {previousSessions.map(session => (
+                            <SelectItem key={session.id} value={`${CLONE_PREFIX}${session.id}`}>
+                              {session.account_name} · {session.contact_name}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      )}
+                    </SelectContent>
+                  </Select>
+                  {selectedTemplate && canEditTemplate(selectedTemplate, user?.id) && (
+                    <Button variant="ghost" size="sm" className="text-error" onClick={handleDeleteTemplate}>
+                      Delete
+                    </Button>
+                  )}
+                </div>
+                {selectedTemplate && (
+                  <p className="text-text-muted text-xs">
+                    {selectedTemplate.description || 'Client profile, context, scope and discovery areas are filled in from this template.'}
+                  </p>
+                )}
+                {cloneSource && (
+                  <p className="text-text-muted text-xs">
+                    Copies the client profile, context, scope and discovery areas from the call with {cloneSource.contact_name}. Notes are not copied.
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Account Name */}
             <div className="space-y-2">
               <Label htmlFor="accountName" className="text-text-primary font-medium">
@@ -116,7 +275,18 @@ const DiscoverySetup = () => {
                 onChange={(e) => handleInputChange('accountName', e.target.value)}
                 placeholder="e.g., Acme Corporation"
                 className="input-field"
+                disabled={!!cloneSource}
+                list="knownAccounts"
               />
+              <datalist id="knownAccounts">
+                {accounts.map(account => <option key={account.id} value={account.name} />)}
+              </datalist>
+              {earlierCallCount > 0 && (
+                <p className="text-text-muted text-xs">
+                  Follow-up call: findings, open gaps and unresolved contradictions from {earlierCallCount} earlier
+                  call{earlierCallCount === 1 ? '' : 's'} with {existingAccount.name} are carried into this one.
+                </p>
+              )}
             </div>
 
             {/* Client Name */}
@@ -147,6 +317,30 @@ const DiscoverySetup = () => {
               />
             </div>
 
+            {/* Call Language */}
+            <div className="space-y-2">
+              <Label className="text-text-primary font-medium">
+                Call Language
+              </Label>
+              <RadioGroup
+                value={formData.locale}
+                onValueChange={(value) => handleInputChange('locale', value)}
+                className="grid grid-cols-2 md:grid-cols-4 gap-2"
+              >
+                {Object.entries(SUPPORTED_LOCALES).map(([locale, { label }]) => (
+                  <div key={locale} className="flex items-center space-x-2 p-2 rounded-lg hover:bg-glass-bg/30 transition-colors">
+                    <RadioGroupItem value={locale} id={`locale-${locale}`} />
+                    <Label htmlFor={`locale-${locale}`} className="text-text-primary cursor-pointer">
+                      {label}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              <p className="text-text-muted text-xs">
+                Questions are generated in this language. The report language can be changed on the summary.
+              </p>
+            </div>
+
             {/* Next Button */}
             <div className="pt-6">
               <Button
@@ -154,7 +348,7 @@ const DiscoverySetup = () => {
                 disabled={!isFormValid}
                 className="btn-sep w-full py-4 text-lg font-semibold"
               >
-                Continue to Client Profile
+                {cloneSource ? 'Continue to Context & Scope' : 'Continue to Client Profile'}
                 <span className="ml-2">→</span>
               </Button>
             </div>
@@ -1,14 +1,83 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { MockStorageService } from '@/lib/mockStorage';
 import { 
   DiscoverySession as SessionType,
   DiscoveryNote,
+  QuestionBlock,
   ICP_CONFIGS
 } from '@/types/discovery';
 import { generateReport } from '@/services/openai';
+import { getMethodologyPack, groupNotesByReportSection } from '@/services/methodologyPacks';
+import {
+  detectContradictions,
+  formatContradictionsMarkdown,
+  CONTRADICTION_LABELS,
+  type Contradiction
+} from '@/services/contradictionDetector';
+import { accountReportSession, mergeAccountNotes, type AccountCall } from '@/services/accountThreads';
+import {
+  collectCitations,
+  citationLink,
+  citationSource,
+  formatCitationsForPrompt,
+  formatCitationsMarkdown,
+  stripAnnotationMarkup,
+  ANNOTATION_LABELS,
+  type NoteCitation
+} from '@/services/noteAnnotations';
+import {
+  emptyStakeholderMap,
+  formatPowerMapMarkdown,
+  formatStakeholdersForPrompt,
+  stakeholderMapKey,
+  type StakeholderMap
+} from '@/services/stakeholderMap';
+import StakeholderMapEditor from '@/components/StakeholderMapEditor';
+import { exportFileName, exportReport, renderReportHtml, type ExportFormat, type ReportExportRequest } from '@/services/reportExport';
+import { exportSlideDeck } from '@/services/slideDeck';
+import { processReportForUI, type ProcessedReportData } from '@/services/reportGenerator';
+import type { ScopingReview } from '@/components/ScopingReview';
+import {
+  DEFAULT_REPORT_TEMPLATE,
+  assembleReportMarkdown,
+  buildSectionInstructions,
+  resolveReportTemplate,
+  templateDeckMaster,
+  templateExportOptions,
+  type ReportSectionId,
+  type ReportTemplate
+} from '@/services/reportTemplates';
+import {
+  buildSourceCatalog,
+  findUncitedNumericClaims,
+  formatResearchForPrompt,
+  resolveClaimCitations,
+  type MarketResearch
+} from '@/services/claimSources';
+import {
+  SUPPORTED_LOCALES,
+  getSessionLocale,
+  getReportHeadings,
+  isSessionLocale,
+  type SessionLocale
+} from '@/services/locales';
+
+// A report covers this call, or every call with the account so far
+type ReportScope = 'call' | 'account';
+
+// HTML is built in the browser; PDF, DOCX and the PPTX deck come from the local export service
+type DownloadFormat = 'html' | ExportFormat | 'pptx';
+
+const DOWNLOAD_FORMAT_LABELS: Record<DownloadFormat, string> = {
+  pdf: 'PDF',
+  docx: 'Word (DOCX)',
+  pptx: 'Slides (PPTX)',
+  html: 'HTML'
+};
 
 const DiscoverySummary = () => {
   const { sessionId } = useParams<{ sessionId: string }>();
@@ -17,6 +86,24 @@ const DiscoverySummary = () => {
   const [discoveryNotes, setDiscoveryNotes] = useState<DiscoveryNote[]>([]);
   const [isGeneratingAnalysis, setIsGeneratingAnalysis] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<string>('');
+  const [contradictions, setContradictions] = useState<Contradiction[]>([]);
+  // Defaults to the call language; can be switched before downloading
+  const [reportLocale, setReportLocale] = useState<SessionLocale>('en');
+  const [accountCalls, setAccountCalls] = useState<AccountCall[]>([]);
+  const [reportScope, setReportScope] = useState<ReportScope>('call');
+  const [stakeholderMap, setStakeholderMap] = useState<StakeholderMap | null>(null);
+  const [downloadFormat, setDownloadFormat] = useState<DownloadFormat>('pdf');
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  // The structured report behind the deck; only the AI path produces one
+  const [processedReport, setProcessedReport] = useState<ProcessedReportData | null>(null);
+  const [scopingReview, setScopingReview] = useState<ScopingReview | null>(null);
+  // Uncited numeric claims someone has checked; the report can't be shared until all are
+  const [reviewedClaims, setReviewedClaims] = useState<Set<string>>(new Set());
+  // Read by report generation, which starts before the state update lands
+  const stakeholderMapRef = useRef<StakeholderMap | null>(null);
+  // The organization's report template: sections, their order, branding and disclaimer
+  const reportTemplateRef = useRef<ReportTemplate>(DEFAULT_REPORT_TEMPLATE);
 
   useEffect(() => {
     if (sessionId) {
@@ -45,31 +132,91 @@ const DiscoverySummary = () => {
     
     // Load all discovery notes
     const areas = await MockStorageService.getDiscoveryAreas(sessionId);
-    const notes: DiscoveryNote[] = [];
-    
-    areas.forEach(area => {
-      const stored = localStorage.getItem(`discovery_note_${area.id}`);
-      if (stored) {
-        try {
-          notes.push(JSON.parse(stored));
-        } catch (e) {
-          console.error('Error parsing note:', e);
-        }
-      }
-    });
+    const notes = await MockStorageService.getDiscoveryNotes(areas);
     
     setDiscoveryNotes(notes);
+    setContradictions(getOpenContradictions(notes));
+    if (sessionData.account_id) {
+      setAccountCalls(await MockStorageService.getAccountCalls(sessionData.account_id));
+    }
+    stakeholderMapRef.current = await MockStorageService.getStakeholderMap(stakeholderMapKey(sessionData)) || emptyStakeholderMap(sessionData);
+    setStakeholderMap(stakeholderMapRef.current);
+    reportTemplateRef.current = resolveReportTemplate(
+      sessionData.organization_id ? await MockStorageService.getOrganizationReportTemplate(sessionData.organization_id) : null
+    );
     
-    // Auto-generate analysis
-    generateAnalysis(sessionData, notes);
+    // Auto-generate analysis in the language the call was run in
+    const locale = getSessionLocale(sessionData);
+    setReportLocale(locale);
+    generateAnalysis(sessionData, notes, locale);
+  };
+
+  // Contradictions dismissed during this call, or any call with the account, are left out
+  const getOpenContradictions = (notes: DiscoveryNote[]): Contradiction[] => {
+    const sessions = MockStorageService.getAllSessions();
+    const accountId = sessions.find(s => s.id === sessionId)?.account_id;
+    const sessionIds = accountId ? sessions.filter(s => s.account_id === accountId).map(s => s.id) : [sessionId];
+    const dismissed = sessionIds.flatMap(id => MockStorageService.getDismissedContradictions(id));
+    return detectContradictions(notes).filter(c => !dismissed.includes(c.id));
+  };
+
+  const handleStakeholderMapChange = async (map: StakeholderMap) => {
+    stakeholderMapRef.current = map;
+    setStakeholderMap(map);
+    stakeholderMapRef.current = await MockStorageService.saveStakeholderMap(map);
   };
 
-  const generateAnalysis = async (sessionData: SessionType, notes: DiscoveryNote[]) => {
+  // The call each question block was asked on; account reports span several
+  const blockSessionFor = (sessionData: SessionType) => {
+    const blockSessions = new Map(accountCalls.flatMap(call =>
+      call.notes.flatMap(note => note.questions.map(block => [block.id, call.session] as const))
+    ));
+    return (block: QuestionBlock) => blockSessions.get(block.id) || sessionData;
+  };
+
+  // Tagged passages in a report's notes, each with the call it was tagged on
+  const getCitations = (sessionData: SessionType, notes: DiscoveryNote[]): NoteCitation[] =>
+    collectCitations(notes, blockSessionFor(sessionData));
+
+  // Session details and notes a report in the given scope is built from
+  const getReportInputs = (scope: ReportScope): { sessionData: SessionType; notes: DiscoveryNote[] } | null => {
+    if (!session) return null;
+    return scope === 'account' && accountCalls.length > 1
+      ? { sessionData: accountReportSession(session, accountCalls), notes: mergeAccountNotes(accountCalls, { labelCalls: true }) }
+      : { sessionData: session, notes: discoveryNotes };
+  };
+
+  const reportSession = getReportInputs(reportScope)?.sessionData || session;
+  const reportNotes = getReportInputs(reportScope)?.notes || discoveryNotes;
+  const reportCitations = reportSession ? getCitations(reportSession, reportNotes) : [];
+  const uncitedClaims = useMemo(() => findUncitedNumericClaims(analysisResult), [analysisResult]);
+  const unreviewedClaims = uncitedClaims.filter(claim => !reviewedClaims.has(claim.key));
+
+  const markClaimsReviewed = (keys: string[]) => setReviewedClaims(reviewed => new Set([...reviewed, ...keys]));
+
+  const handleReportScopeChange = (value: string) => {
+    const scope = value as ReportScope;
+    const inputs = getReportInputs(scope);
+    if (!inputs || scope === reportScope) return;
+    setReportScope(scope);
+    setContradictions(getOpenContradictions(inputs.notes));
+    generateAnalysis(inputs.sessionData, inputs.notes, reportLocale, scope);
+  };
+
+  const generateAnalysis = async (
+    sessionData: SessionType,
+    notes: DiscoveryNote[],
+    locale: SessionLocale,
+    scope: ReportScope = 'call'
+  ) => {
     setIsGeneratingAnalysis(true);
     
     // Load scoping review data
     const scopingData = localStorage.getItem(`discovery_scoping_${sessionId}`);
     const scoping = scopingData ? JSON.parse(scopingData).scoping : null;
+    setScopingReview(scoping);
+    setProcessedReport(null);
+    setReviewedClaims(new Set());
     
     // Call real AI analysis with discovery content
     const analysisPrompt = buildAnalysisPrompt(sessionData, notes, scoping);
@@ -82,24 +229,27 @@ const DiscoverySummary = () => {
     });
     
     try {
-      const analysis = await generateRealAnalysis(analysisPrompt, sessionData, notes, scoping);
+      const analysis = await generateRealAnalysis(analysisPrompt, sessionData, notes, scoping, locale);
       setAnalysisResult(analysis);
       setIsGeneratingAnalysis(false);
       
       // Save to Airtable
-      saveToAirtable(sessionData, notes, analysis);
+      saveToAirtable(sessionData, notes, analysis, scope);
     } catch (error) {
       console.error('❌ Analysis generation failed:', error);
       // Fallback to mock analysis if AI fails
-      const mockAnalysis = generateMockAnalysis(sessionData, notes, scoping);
+      const mockAnalysis = generateMockAnalysis(sessionData, notes, scoping, locale);
       setAnalysisResult(mockAnalysis);
       setIsGeneratingAnalysis(false);
-      saveToAirtable(sessionData, notes, mockAnalysis);
+      saveToAirtable(sessionData, notes, mockAnalysis, scope);
     }
   };
 
   const buildAnalysisPrompt = (sessionData: SessionType, notes: DiscoveryNote[], scoping: any): string => {
     const icpConfig = sessionData.client_icp ? ICP_CONFIGS[sessionData.client_icp as keyof typeof ICP_CONFIGS] : null;
+    const methodology = getMethodologyPack(sessionData.methodology_id);
+    const openContradictions = getOpenContradictions(notes);
+    const citations = getCitations(sessionData, notes);
     
     return `Analyze this B2B software discovery session and provide strategic intelligence:
 
@@ -111,17 +261,30 @@ CONTEXT:
 - Discovery Context: ${sessionData.discovery_context}
 - Solution Scope: ${sessionData.solution_scope}
 - Next Step Goal: ${sessionData.next_step_goal}
+- Sales Methodology: ${methodology.name}
 
-DISCOVERY NOTES BY AREA:
-${notes.map(note => `
+DISCOVERY NOTES BY ${methodology.name.toUpperCase()} SECTION:
+${groupNotesByReportSection(methodology, notes).map(({ section, notes: sectionNotes }) => `
+### ${section.title} (${section.guidance})
+${sectionNotes.map(note => `
 ${note.areaName}:
 ${note.questions.map(q => `
 Question ${q.questionNumber}: ${q.questionText}
-Notes: ${q.notes}
+Notes: ${stripAnnotationMarkup(q.notes)}
 `).join('\n')}
-${note.currentNotes ? `Current Notes: ${note.currentNotes}` : ''}
-`).join('\n---\n')}
-
+${note.currentNotes ? `Current Notes: ${stripAnnotationMarkup(note.currentNotes)}` : ''}
+`).join('\n---\n')}`).join('\n')}
+${citations.length > 0 ? `
+${formatCitationsForPrompt(citations)}
+` : ''}
+${stakeholderMapRef.current?.stakeholders.length ? `
+${formatStakeholdersForPrompt(stakeholderMapRef.current)}
+(Weigh the recommendations by who holds influence; plan around high-influence skeptics and blockers)
+` : ''}
+${openContradictions.length > 0 ? `
+UNRESOLVED INCONSISTENCIES (report these as risks; do not pick a side):
+${openContradictions.map(c => `- ${CONTRADICTION_LABELS[c.kind]}: ${c.summary}`).join('\n')}
+` : ''}
 RESEARCH REQUIREMENTS:
 1. Industry Analysis: Research current challenges in ${sessionData.client_icp} industry
 2. Competitive Intelligence: Identify similar solutions and vendors
@@ -129,15 +292,12 @@ RESEARCH REQUIREMENTS:
 4. Compliance Research: Analyze regulatory requirements mentioned (${icpConfig?.keywords.join(', ')})
 5. Market Sizing: Estimate opportunity size based on described scope
 
-DELIVERABLE FORMAT:
-- Executive Summary (3-4 bullets)
-- Opportunity Qualification (score 1-100 with reasoning)
-- Key Risk Factors (technical, business, competitive)
-- Recommended Solution Approach
-- Estimated Project Scope & Timeline
-- Next Step Recommendations
-- Competitive Differentiation Strategy
-
+DELIVERABLE FORMAT (these sections, in this order):
+${buildSectionInstructions(reportTemplateRef.current, {
+  qualification: methodology.qualificationGuidance,
+  current_state: `Cover each ${methodology.name} report section above, in the same order.`
+})}
+${citations.length > 0 ? '- Support findings with the tagged evidence: quote it word for word and cite it as [C#]\n' : ''}
 Use web research to validate findings and provide market context.`;
   };
 
@@ -145,7 +305,8 @@ Use web research to validate findings and provide market context.`;
     prompt: string, 
     sessionData: SessionType, 
     notes: DiscoveryNote[], 
-    scoping: any
+    scoping: any,
+    locale: SessionLocale
   ): Promise<string> => {
     console.log('🔍 Calling AI for analysis generation...');
     console.log('📋 Analysis prompt length:', prompt.length, 'chars');
@@ -158,6 +319,10 @@ Use web research to validate findings and provide market context.`;
       // Step 1: Call Perplexity for market research
       console.log('🔍 Calling Perplexity for market research...');
       const marketResearch = await callPerplexityForResearch(sessionData, notes);
+      const openContradictions = getOpenContradictions(notes);
+      const citations = getCitations(sessionData, notes);
+      // Every question block and research URL gets an id the model cites claims with
+      const sources = buildSourceCatalog(notes, blockSessionFor(sessionData), marketResearch, citations);
       
       // Create a structured prompt that the OpenAI service expects
       const assessmentData = {
@@ -166,53 +331,51 @@ Use web research to validate findings and provide market context.`;
         business_type: sessionData.client_icp,
         opportunity_focus: sessionData.business_area,
         investment_level: sessionData.solution_scope,
-        challenges: notes.map(note => `${note.areaName}: ${note.questions.map(q => q.notes).join(' ')}`),
+        challenges: notes.map(note => `${note.areaName}: ${note.questions.map(q => stripAnnotationMarkup(q.notes)).join(' ')}`),
         process_description: notes.map(note => 
-          note.questions.map(q => `${q.questionText}: ${q.notes}`).join('\n')
+          note.questions.map(q => `${sources.noteIds.has(q.id) ? `[${sources.noteIds.get(q.id)}] ` : ''}${q.questionText}: ${stripAnnotationMarkup(q.notes)}`).join('\n')
         ).join('\n\n'),
         team_description: sessionData.contact_role,
         revenue_model: sessionData.next_step_goal,
-        additional_context: `${sessionData.discovery_context}\n\nMARKET RESEARCH:\n${marketResearch}`
+        additional_context: `${sessionData.discovery_context}\n\nMARKET RESEARCH:\n${formatResearchForPrompt(marketResearch)}${
+          openContradictions.length > 0
+            ? `\n\nUNRESOLVED INCONSISTENCIES:\n${openContradictions.map(c => `- ${c.summary}`).join('\n')}`
+            : ''
+        }${citations.length > 0 ? `\n\n${formatCitationsForPrompt(citations)}` : ''}${
+          stakeholderMapRef.current?.stakeholders.length ? `\n\n${formatStakeholdersForPrompt(stakeholderMapRef.current)}` : ''
+        }`
       };
 
       console.log('📊 Calling OpenAI generateReport with market research:', {
         company: assessmentData.company,
         processDescriptionLength: assessmentData.process_description.length,
         challengeCount: assessmentData.challenges?.length,
-        marketResearchLength: marketResearch.length,
+        marketResearchLength: marketResearch.text.length,
         additionalContextLength: assessmentData.additional_context.length
       });
 
-      const result = await generateReport(assessmentData);
+      const template = reportTemplateRef.current;
+      const result = await generateReport(assessmentData, { locale, template, citeSources: true });
       
       if (result?.sections) {
-        // Convert the structured report to markdown format with proper section titles
-        const analysisText = `# Discovery Intelligence Report
-
-## ${result.sections.executive_summary.title}
-${result.sections.executive_summary.content}
-
-## ${result.sections.current_state.title}
-${result.sections.current_state.content}
-
-## ${result.sections.opportunities.title}
-${result.sections.opportunities.content}
-
-## ${result.sections.recommendations.title}
-${result.sections.recommendations.content}
-
-## ${result.sections.roadmap.title}
-${result.sections.roadmap.content}
-
-## ${result.sections.roi_projections.title}
-${result.sections.roi_projections.content}
-
-## ${result.sections.next_steps.title}
-${result.sections.next_steps.content}
+        setProcessedReport(processReportForUI(result, { session_id: sessionData.id, email: '', ...assessmentData, report_template: template }));
+
+        // Convert the structured report to markdown, in the template's section order
+        const parts: Partial<Record<ReportSectionId, string>> = {
+          ...Object.fromEntries(Object.entries(result.sections).map(([id, section]) => [id, `## ${section.title}\n${section.content}`])),
+          contradictions: formatContradictionsMarkdown(openContradictions),
+          evidence: formatCitationsMarkdown(citations),
+          power_map: formatPowerMapMarkdown(stakeholderMapRef.current)
+        };
+        const report = resolveClaimCitations(
+          assembleReportMarkdown(locale === 'en' ? 'Discovery Intelligence Report' : getReportHeadings(locale).title, parts, template),
+          sources
+        );
+        const analysisText = `${report.markdown}
 
 ---
 *Intelligence extracted from ${notes.reduce((sum, n) => sum + n.questions.length, 0)} discovery questions across ${notes.length} areas*
-*Market research: ${marketResearch.split(' ').length} words analyzed*
+*Market research: ${marketResearch.text.split(' ').length} words analyzed*
 *Confidence Score: ${Math.round(result.confidence_score * 100)}/100*`;
 
         console.log('✅ AI Analysis generated successfully:', {
@@ -234,13 +397,13 @@ ${result.sections.next_steps.content}
   const callPerplexityForResearch = async (
     sessionData: SessionType, 
     notes: DiscoveryNote[]
-  ): Promise<string> => {
+  ): Promise<MarketResearch> => {
     const apiKey = import.meta.env.VITE_PERPLEXITY_API_KEY;
     const mockResponses = import.meta.env.VITE_MOCK_AI_RESPONSES === 'true';
     
     if (mockResponses || !apiKey) {
       console.log('📚 Using mock Perplexity research (API disabled or no key)');
-      return generateMockMarketResearch(sessionData, notes);
+      return { text: generateMockMarketResearch(sessionData, notes), sources: [] };
     }
 
     try {
@@ -309,11 +472,12 @@ Provide comprehensive analysis with specific data, statistics, and actionable ma
         containsDiscoveryContext: research.toLowerCase().includes(sessionData.account_name.toLowerCase())
       });
 
-      return research;
+      // Perplexity's [1], [2]... markers in the text refer to these URLs
+      return { text: research, sources: data.citations || [] };
       
     } catch (error) {
       console.error('❌ Perplexity research failed:', error);
-      return generateMockMarketResearch(sessionData, notes);
+      return { text: generateMockMarketResearch(sessionData, notes), sources: [] };
     }
   };
 
@@ -322,20 +486,23 @@ Provide comprehensive analysis with specific data, statistics, and actionable ma
     notes: DiscoveryNote[]
   ): Promise<string> => {
     console.log('🔄 Creating structured synthesis for', notes.length, 'elicitation areas');
+    const citations = getCitations(sessionData, notes);
     
     try {
       const synthesesPromises = notes.map(async (note) => {
         // Create synthesis for each elicitation area
+        const areaCitations = citations.filter(c => c.areaName === note.areaName);
         const areaData = `
 ELICITATION AREA: ${note.areaName}
 
 DISCOVERY QUESTIONS & RESPONSES:
 ${note.questions.map(q => `
 Question ${q.questionNumber}: ${q.questionText}
-Response: ${q.notes}
+Response: ${stripAnnotationMarkup(q.notes)}
 `).join('\n')}
 
-${note.currentNotes ? `Additional Notes: ${note.currentNotes}` : ''}
+${note.currentNotes ? `Additional Notes: ${stripAnnotationMarkup(note.currentNotes)}` : ''}
+${formatCitationsForPrompt(areaCitations)}
 `;
 
         const synthesisPrompt = `You are an elite business analyst. Analyze this elicitation area and create a structured synthesis.
@@ -361,6 +528,8 @@ For the elicitation area "${note.areaName}", provide a structured synthesis foll
 
 **Assumptions:** [List unconfirmed assumptions being made for these requirements]
 
+**In Their Words:** [Each tagged quote, number, risk and commitment, exactly as written, followed by its [C#] citation]
+
 IMPORTANT: Only include sections that have actual content. Skip any section where no relevant information was found.`;
 
         // Call OpenAI for synthesis
@@ -463,7 +632,8 @@ Relevant Case Studies:
     return guidance[nextStep as keyof typeof guidance] || '';
   };
 
-  const generateMockAnalysis = (sessionData: SessionType, notes: DiscoveryNote[], scoping: any): string => {
+  const generateMockAnalysis = (sessionData: SessionType, notes: DiscoveryNote[], scoping: any, locale: SessionLocale): string => {
+    const headings = getReportHeadings(locale);
     const totalNotes = notes.reduce((sum, note) => sum + note.questions.length, 0);
     const baseScore = Math.min(50 + (totalNotes * 3), 95);
     
@@ -472,16 +642,15 @@ Relevant Case Studies:
                                  scoping?.confidenceLevel === 'Low' ? 0.9 : 1.0;
     const score = Math.min(Math.round(baseScore * confidenceMultiplier), 100);
     
-    return `# Discovery Analysis Report
-${scoping?.additionalContext ? `\n*Consultant Notes: ${scoping.additionalContext}*\n` : ''}
-
-## Executive Summary
+    const template = reportTemplateRef.current;
+    const parts: Partial<Record<ReportSectionId, string>> = {
+      executive_summary: `## ${headings.executiveSummary}
 • **${score >= 80 ? 'Strong' : score >= 60 ? 'Moderate' : 'Initial'} Opportunity**: ${sessionData.account_name} shows clear need for ${sessionData.solution_scope}
 • **Next Step**: ${scoping?.recommendedNextStep || sessionData.next_step_goal}
 • **Budget Scope**: ${scoping?.budgetScope || 'To be determined'}
-• **Discovery Confidence**: ${scoping?.confidenceLevel || 'Medium'} - ${score >= 80 ? 'Ready to proceed' : score >= 60 ? 'Some gaps remain' : 'Needs follow-up'}
+• **Discovery Confidence**: ${scoping?.confidenceLevel || 'Medium'} - ${score >= 80 ? 'Ready to proceed' : score >= 60 ? 'Some gaps remain' : 'Needs follow-up'}`,
 
-## Opportunity Qualification
+      qualification: `## ${headings.opportunityQualification}
 **Score: ${score}/100** (Discovery Confidence: ${scoping?.confidenceLevel || 'Medium'})
 
 ### Scoring Rationale:
@@ -489,9 +658,9 @@ ${scoping?.additionalContext ? `\n*Consultant Notes: ${scoping.additionalContext
 - **Budget (${Math.round(score * 0.2)}/20)**: ${sessionData.solution_scope} indicates healthy investment capacity
 - **Authority (${Math.round(score * 0.15)}/15)**: ${sessionData.contact_role} has decision influence
 - **Timeline (${Math.round(score * 0.2)}/20)**: ${sessionData.next_step_goal} suggests active buying process
-- **Fit (${Math.round(score * 0.15)}/15)**: Strong alignment with Discovery Wizard's ${sessionData.client_icp} expertise
+- **Fit (${Math.round(score * 0.15)}/15)**: Strong alignment with ${template.companyName}'s ${sessionData.client_icp} expertise`,
 
-## Key Risk Factors
+      risks: `## ${headings.keyRiskFactors}
 
 ### Technical Risks
 - Integration complexity with existing systems
@@ -506,9 +675,13 @@ ${scoping?.additionalContext ? `\n*Consultant Notes: ${scoping.additionalContext
 ### Competitive Risks
 - Incumbent vendor relationships
 - Internal build vs. buy evaluation
-- Price sensitivity in current market
+- Price sensitivity in current market`,
+
+      contradictions: formatContradictionsMarkdown(getOpenContradictions(notes)),
+      evidence: formatCitationsMarkdown(getCitations(sessionData, notes)),
+      power_map: formatPowerMapMarkdown(stakeholderMapRef.current),
 
-## Recommended Solution Approach
+      recommendations: `## ${headings.recommendedApproach}
 
 ### Phase 1: Discovery & Architecture (2-4 weeks)
 - Deep technical assessment of current systems
@@ -526,9 +699,9 @@ ${scoping?.additionalContext ? `\n*Consultant Notes: ${scoping.additionalContext
 - Phased rollout by department/function
 - Continuous integration with existing systems
 - Training and change management
-- Success metrics tracking
+- Success metrics tracking`,
 
-## Next Step Recommendations
+      next_steps: `## ${headings.nextSteps}
 
 1. **Immediate Action**: ${scoping?.recommendedNextStep || sessionData.next_step_goal}
    ${getNextStepGuidance(scoping?.recommendedNextStep)}
@@ -539,24 +712,32 @@ ${scoping?.additionalContext ? `\n*Consultant Notes: ${scoping.additionalContext
 3. **Stakeholder Engagement**:
    - Identify technical decision makers
    - Map approval process for ${scoping?.budgetScope || 'solution investment'}
-   - Understand budget cycles
+   - Understand budget cycles`,
 
-## Competitive Differentiation
+      competitive_differentiation: `## ${headings.competitiveDifferentiation}
 
-### Why Discovery Wizard Wins:
+### Why ${template.companyName} Wins:
 - **Domain Expertise**: Deep ${sessionData.client_icp} industry knowledge
 - **Integration Experience**: Proven track record with similar tech stacks
 - **Compliance Understanding**: Familiar with regulatory requirements
 - **Local Presence**: On-site support and collaboration
-- **Agile Approach**: Iterative development with continuous feedback
+- **Agile Approach**: Iterative development with continuous feedback`,
 
-## Appendix: Discovery Coverage
-- Areas Explored: ${notes.length}/8
+      appendix: `## ${headings.appendix}
+- Areas Explored: ${notes.length}/${getMethodologyPack(sessionData.methodology_id).areas.length}
 - Questions Asked: ${totalNotes}
-- Key Themes: Integration, Compliance, Automation, Scalability`;
+- Key Themes: Integration, Compliance, Automation, Scalability`
+    };
+
+    return assembleReportMarkdown(
+      headings.title,
+      parts,
+      template,
+      scoping?.additionalContext ? `*Consultant Notes: ${scoping.additionalContext}*` : ''
+    );
   };
 
-  const saveToAirtable = async (sessionData: SessionType, notes: DiscoveryNote[], analysis: string) => {
+  const saveToAirtable = async (sessionData: SessionType, notes: DiscoveryNote[], analysis: string, scope: ReportScope) => {
     // In production, this would save to Airtable
     console.log('Saving to Airtable:', {
       session: sessionData,
@@ -564,8 +745,11 @@ ${scoping?.additionalContext ? `\n*Consultant Notes: ${scoping.additionalContext
       analysis: analysis
     });
     
-    // Mock Airtable save
-    localStorage.setItem(`discovery_analysis_${sessionId}`, JSON.stringify({
+    // Mock Airtable save; account reports are kept per account so they don't replace the call's
+    const key = scope === 'account' && sessionData.account_id
+      ? `discovery_account_analysis_${sessionData.account_id}`
+      : `discovery_analysis_${sessionId}`;
+    localStorage.setItem(key, JSON.stringify({
       sessionData,
       notes,
       analysis,
@@ -573,45 +757,96 @@ ${scoping?.additionalContext ? `\n*Consultant Notes: ${scoping.additionalContext
     }));
   };
 
+  const handleReportLocaleChange = (value: string) => {
+    const inputs = getReportInputs(reportScope);
+    if (!inputs || !isSessionLocale(value) || value === reportLocale) return;
+    setReportLocale(value);
+    generateAnalysis(inputs.sessionData, inputs.notes, value, reportScope);
+  };
+
   const handleNewDiscovery = () => {
     navigate('/discovery/setup');
   };
 
-  const handleDownloadReport = () => {
-    // Create a downloadable HTML report
-    const reportHtml = `
-<!DOCTYPE html>
-<html>
-<head>
-  <title>Discovery Report - ${session?.account_name}</title>
-  <style>
-    body { font-family: 'Inter', sans-serif; max-width: 800px; margin: 0 auto; padding: 40px; }
-    h1 { color: #6366F1; }
-    h2 { color: #14B8A6; margin-top: 30px; }
-    h3 { color: #475569; }
-    .meta { background: #F8FAFC; padding: 20px; border-radius: 8px; margin-bottom: 30px; }
-    .score { font-size: 48px; color: #10B981; font-weight: bold; }
-    pre { white-space: pre-wrap; }
-  </style>
-</head>
-<body>
-  <h1>Discovery Analysis Report</h1>
-  <div class="meta">
-    <p><strong>Company:</strong> ${session?.account_name}</p>
-    <p><strong>Contact:</strong> ${session?.contact_name}, ${session?.contact_role}</p>
-    <p><strong>Industry:</strong> ${session?.client_icp}</p>
-    <p><strong>Date:</strong> ${new Date().toLocaleDateString()}</p>
-  </div>
-  <pre>${analysisResult}</pre>
-</body>
-</html>`;
-    
-    const blob = new Blob([reportHtml], { type: 'text/html' });
+  const reportMeta = () => [
+    { label: 'Company', value: session?.account_name || '' },
+    { label: reportScope === 'account' ? 'Contacts' : 'Contact', value: [reportSession?.contact_name, reportSession?.contact_role].filter(Boolean).join(', ') },
+    ...(reportScope === 'account' ? [{ label: 'Calls', value: String(accountCalls.length) }] : []),
+    { label: 'Industry', value: session?.client_icp || '' },
+    { label: 'Date', value: new Date().toLocaleDateString(reportLocale) }
+  ];
+
+  const reportFileBase = () =>
+    `discovery-report-${session?.account_name?.replace(/\s+/g, '-')}${reportScope === 'account' ? '-account' : ''}-${new Date().toISOString().split('T')[0]}`;
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `discovery-report-${session?.account_name?.replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}.html`;
+    a.download = fileName;
     a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // Everything the HTML, PDF and DOCX downloads share, branded by the organization's template
+  const reportExportRequest = (): ReportExportRequest => ({
+    title: reportTemplateRef.current.cover.title,
+    subtitle: reportTemplateRef.current.cover.subtitle || reportSession?.account_name,
+    meta: reportMeta(),
+    markdown: analysisResult,
+    locale: reportLocale,
+    linkBase: window.location.origin,
+    ...templateExportOptions(reportTemplateRef.current)
+  });
+
+  const handleDownloadHtml = () => {
+    const reportHtml = renderReportHtml(reportExportRequest());
+    downloadBlob(new Blob([reportHtml], { type: 'text/html' }), `${reportFileBase()}.html`);
+  };
+
+  const exportSlides = async (): Promise<Blob> => {
+    const master = session?.organization_id
+      ? await MockStorageService.getOrganizationDeckMaster(session.organization_id)
+      : null;
+    return exportSlideDeck({
+      title: 'Discovery Readout',
+      account: reportSession?.account_name || '',
+      date: new Date().toLocaleDateString(reportLocale),
+      report: processedReport,
+      stakeholderMap,
+      scoping: scopingReview,
+      // The deck follows the report template unless the organization has its own slide master
+      master: { ...templateDeckMaster(reportTemplateRef.current), ...master }
+    });
+  };
+
+  const handleDownloadReport = async () => {
+    setExportError(null);
+    if (unreviewedClaims.length > 0) {
+      setExportError(`${unreviewedClaims.length} numeric claim${unreviewedClaims.length === 1 ? ' has' : 's have'} no source; review them before sharing the report.`);
+      return;
+    }
+    if (downloadFormat === 'html') {
+      handleDownloadHtml();
+      return;
+    }
+    if (downloadFormat === 'pptx' && !processedReport) {
+      setExportError('Slides need an AI-generated report; regenerate the analysis and try again.');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const blob = downloadFormat === 'pptx'
+        ? await exportSlides()
+        : await exportReport(downloadFormat, reportExportRequest());
+      downloadBlob(blob, exportFileName(reportFileBase(), downloadFormat));
+    } catch (error) {
+      console.error('❌ Report export failed:', error);
+      setExportError(error.message);
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   return (
@@ -622,12 +857,43 @@ ${scoping?.additionalContext ? `\n*Consultant Notes: ${scoping.additionalContext
           <div className="flex items-center justify-between">
             <h1 className="text-2xl font-bold sep-text">Discovery Analysis</h1>
             <div className="flex space-x-4">
+              {accountCalls.length > 1 && (
+                <Select value={reportScope} onValueChange={handleReportScopeChange} disabled={isGeneratingAnalysis}>
+                  <SelectTrigger className="w-44" aria-label="Report scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="call">This call</SelectItem>
+                    <SelectItem value="account">Whole account ({accountCalls.length} calls)</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              <Select value={reportLocale} onValueChange={handleReportLocaleChange} disabled={isGeneratingAnalysis}>
+                <SelectTrigger className="w-36" aria-label="Report language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SUPPORTED_LOCALES).map(([locale, { label }]) => (
+                    <SelectItem key={locale} value={locale}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={downloadFormat} onValueChange={value => setDownloadFormat(value as DownloadFormat)}>
+                <SelectTrigger className="w-36" aria-label="Download format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DOWNLOAD_FORMAT_LABELS).map(([format, label]) => (
+                    <SelectItem key={format} value={format} disabled={format === 'pptx' && !processedReport}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
                 onClick={handleDownloadReport}
                 variant="outline"
-                disabled={!analysisResult}
+                disabled={!analysisResult || isExporting}
               >
-                Download Report
+                {isExporting ? 'Exporting...' : 'Download Report'}
               </Button>
               <Button
                 onClick={handleNewDiscovery}
@@ -637,6 +903,7 @@ ${scoping?.additionalContext ? `\n*Consultant Notes: ${scoping.additionalContext
               </Button>
             </div>
           </div>
+          {exportError && <p className="text-error text-sm mt-2 text-right">{exportError}</p>}
         </div>
       </header>
 
@@ -651,8 +918,8 @@ ${scoping?.additionalContext ? `\n*Consultant Notes: ${scoping.additionalContext
               <div className="text-text-primary font-medium">{session?.account_name}</div>
             </div>
             <div>
-              <div className="text-text-secondary text-sm">Contact</div>
-              <div className="text-text-primary font-medium">{session?.contact_name}</div>
+              <div className="text-text-secondary text-sm">{reportScope === 'account' ? 'Contacts' : 'Contact'}</div>
+              <div className="text-text-primary font-medium">{reportSession?.contact_name}</div>
             </div>
             <div>
               <div className="text-text-secondary text-sm">Industry</div>
@@ -669,7 +936,7 @@ ${scoping?.additionalContext ? `\n*Consultant Notes: ${scoping.additionalContext
         <Card className="glass-card p-6 mb-8">
           <h2 className="text-xl font-bold text-text-primary mb-4">Discovery Coverage</h2>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {discoveryNotes.map((note) => (
+            {reportNotes.map((note) => (
               <div key={note.areaId} className="border-l-4 border-sep-primary pl-4">
                 <h3 className="font-medium text-text-primary mb-2">{note.areaName}</h3>
                 <div className="text-sm text-text-secondary">
@@ -685,6 +952,89 @@ ${scoping?.additionalContext ? `\n*Consultant Notes: ${scoping.additionalContext
           </div>
         </Card>
 
+        {/* Inconsistencies */}
+        {contradictions.length > 0 && (
+          <Card className="glass-card p-6 mb-8">
+            <h2 className="text-xl font-bold text-text-primary mb-4">Inconsistencies to Resolve</h2>
+            <div className="space-y-4">
+              {contradictions.map(contradiction => (
+                <div key={contradiction.id} className="border-l-4 border-warning pl-4">
+                  <h3 className="font-medium text-text-primary mb-1">{CONTRADICTION_LABELS[contradiction.kind]}</h3>
+                  <div className="text-sm text-text-secondary">{contradiction.summary}</div>
+                  <div className="text-xs text-text-muted mt-1">Follow-up: {contradiction.clarifyingQuestion}</div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Tagged Quotes, Numbers, Risks and Commitments */}
+        {reportCitations.length > 0 && (
+          <Card className="glass-card p-6 mb-8">
+            <h2 className="text-xl font-bold text-text-primary mb-4">In Their Words</h2>
+            <div className="space-y-3">
+              {reportCitations.map(citation => (
+                <div key={citation.id} className="border-l-4 border-sep-primary pl-4">
+                  <div className="text-text-primary">
+                    {citation.kind === 'quote' ? `"${citation.text}"` : citation.text}
+                  </div>
+                  <div className="text-xs text-text-muted mt-1">
+                    [{citation.id}] {ANNOTATION_LABELS[citation.kind]}
+                    {citation.kind === 'quote' && ` from ${citation.contactName}`} ·{' '}
+                    <button
+                      type="button"
+                      className="underline hover:text-text-primary"
+                      title={citation.questionText}
+                      onClick={() => navigate(citationLink(citation))}
+                    >
+                      {citationSource(citation)}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Stakeholder Power Map */}
+        {stakeholderMap && (
+          <Card className="glass-card p-6 mb-8">
+            <h2 className="text-xl font-bold text-text-primary mb-1">Power Map</h2>
+            <p className="text-xs text-text-muted mb-4">
+              {session?.account_id ? 'Shared by every call with this account. ' : ''}Changes are included the next time the report is generated.
+            </p>
+            <StakeholderMapEditor map={stakeholderMap} onChange={handleStakeholderMapChange} />
+          </Card>
+        )}
+
+        {/* Numeric claims without a source */}
+        {!isGeneratingAnalysis && unreviewedClaims.length > 0 && (
+          <Card className="glass-card p-6 mb-8">
+            <div className="flex items-center justify-between mb-1">
+              <h2 className="text-xl font-bold text-text-primary">Claims to Review</h2>
+              <Button variant="outline" size="sm" onClick={() => markClaimsReviewed(unreviewedClaims.map(claim => claim.key))}>
+                Mark all reviewed
+              </Button>
+            </div>
+            <p className="text-xs text-text-muted mb-4">
+              These figures aren't backed by the notes or research. Check each one before the report is shared.
+            </p>
+            <div className="space-y-3">
+              {unreviewedClaims.map(claim => (
+                <div key={claim.key} className="border-l-4 border-warning pl-4 flex items-start justify-between gap-4">
+                  <div>
+                    <div className="text-sm text-text-primary">{claim.text}</div>
+                    {claim.section && <div className="text-xs text-text-muted mt-1">{claim.section}</div>}
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => markClaimsReviewed([claim.key])}>
+                    Reviewed
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* Analysis Results */}
         <Card className="glass-card p-6">
           <h2 className="text-xl font-bold text-text-primary mb-4">
@@ -725,6 +1075,12 @@ ${scoping?.additionalContext ? `\n*Consultant Notes: ${scoping.additionalContext
               >
                 Start New Discovery
               </Button>
+              <Button
+                onClick={() => navigate(`/discovery/setup?clone=${sessionId}`)}
+                variant="outline"
+              >
+                Clone for Another Contact
+              </Button>
               <Button
                 onClick={() => navigate(`/discovery/session/${sessionId}`)}
                 variant="outline"
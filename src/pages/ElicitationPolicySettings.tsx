@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import AppHeader from '@/components/AppHeader';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { getCurrentUser, type DeepRabbitUser } from '@/lib/supabase-auth';
+import { MockStorageService } from '@/lib/mockStorage';
+import { METHODOLOGY_PACKS } from '@/services/methodologyPacks';
+import {
+  resolveElicitationPolicy,
+  getPolicyAssessmentTarget,
+  validateOrganizationPolicy,
+  EXAMPLE_ORGANIZATION_POLICY,
+  type OrganizationElicitationPolicy
+} from '@/services/depthPolicy';
+
+// Roles allowed to change their organization's policy
+const POLICY_EDITOR_ROLES = ['Principal', 'Manager'];
+
+const ElicitationPolicySettings = () => {
+  const navigate = useNavigate();
+  const [user, setUser] = useState<DeepRabbitUser | null>(null);
+  const [draft, setDraft] = useState('');
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadPolicy = async () => {
+      try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) {
+          navigate('/auth');
+          return;
+        }
+        setUser(currentUser);
+
+        const stored = currentUser.organization_id
+          ? await MockStorageService.getOrganizationPolicy(currentUser.organization_id)
+          : null;
+        setDraft(JSON.stringify(stored || EXAMPLE_ORGANIZATION_POLICY, null, 2));
+      } catch (error) {
+        console.error('Error loading elicitation policy:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPolicy();
+  }, [navigate]);
+
+  // Parse and validate on every edit so principals see problems before saving
+  const parsed = useMemo((): { policy: OrganizationElicitationPolicy | null; errors: string[] } => {
+    if (!draft.trim()) return { policy: null, errors: [] };
+    try {
+      const policy = JSON.parse(draft);
+      const errors = validateOrganizationPolicy(policy);
+      return { policy: errors.length === 0 ? policy : null, errors };
+    } catch (error) {
+      return { policy: null, errors: [`Invalid JSON: ${(error as Error).message}`] };
+    }
+  }, [draft]);
+
+  const canEdit = !!user?.organization_id && POLICY_EDITOR_ROLES.includes(user.role);
+
+  const handleSave = async () => {
+    if (!user?.organization_id || !canEdit || parsed.errors.length > 0) return;
+    await MockStorageService.saveOrganizationPolicy(user.organization_id, parsed.policy);
+    setSavedAt(new Date());
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-sep-primary mx-auto mb-4"></div>
+          <p className="text-text-secondary">Loading policy...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      <AppHeader title="Elicitation Policy" user={user} />
+
+      <div className="max-w-6xl mx-auto px-6 py-8 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="p-6 bg-glass-bg border-glass-border">
+          <h2 className="text-lg font-semibold text-text-primary mb-2">Organization Policy</h2>
+          <p className="text-xs text-text-muted mb-4">
+            "default" applies to every methodology; entries under "methodologies" override it per pack.
+            Each may set minDepth, maxDepth, areaOverrides, requiredAreas, stopWhen and assessmentTarget.
+          </p>
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            readOnly={!canEdit}
+            className="w-full min-h-[420px] font-mono text-xs"
+          />
+          {parsed.errors.length > 0 && (
+            <ul className="mt-3 space-y-1 text-xs text-error">
+              {parsed.errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+          <div className="mt-4 flex items-center justify-between">
+            <span className="text-xs text-text-muted">
+              {!canEdit
+                ? 'Only Principals and Managers can change this policy'
+                : savedAt ? `Saved ${savedAt.toLocaleTimeString()}` : ''}
+            </span>
+            <Button onClick={handleSave} disabled={!canEdit || parsed.errors.length > 0}>
+              Save Policy
+            </Button>
+          </div>
+        </Card>
+
+        <Card className="p-6 bg-glass-bg border-glass-border">
+          <h2 className="text-lg font-semibold text-text-primary mb-4">Effective Rules</h2>
+          <div className="space-y-4">
+            {Object.values(METHODOLOGY_PACKS).map(pack => {
+              const policy = resolveElicitationPolicy(pack, parsed.policy);
+              const areaNames = pack.areas.map(area => area.name);
+              return (
+                <div key={pack.id} className="text-xs">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium text-text-primary">{pack.name}</span>
+                    <span className="text-text-muted">
+                      {getPolicyAssessmentTarget(policy, areaNames)} assessments
+                    </span>
+                  </div>
+                  <p className="text-text-secondary">
+                    Depth {policy.minDepth}-{policy.maxDepth} per area
+                    {Object.keys(policy.areaOverrides).length > 0 &&
+                      ` (overridden for ${Object.keys(policy.areaOverrides).join(', ')})`}
+                  </p>
+                  {policy.requiredAreas.length > 0 && (
+                    <p className="text-text-muted">Required: {policy.requiredAreas.join(', ')}</p>
+                  )}
+                  {policy.stopWhen.map((condition, index) => (
+                    <p key={index} className="text-text-muted">
+                      Stop when {condition.dimensions.join(' + ')} reach {condition.minScore}/3
+                    </p>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ElicitationPolicySettings;
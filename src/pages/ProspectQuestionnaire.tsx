@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { MockStorageService } from '@/lib/mockStorage';
+import {
+  questionnaireStatus,
+  MAX_ANSWER_LENGTH,
+  type PublicQuestionnaire
+} from '@/services/prospectQuestionnaire';
+
+// Public page a prospect opens from a questionnaire link; no sign-in
+const ProspectQuestionnaire = () => {
+  const { token } = useParams<{ token: string }>();
+  const [questionnaire, setQuestionnaire] = useState<PublicQuestionnaire | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (token) {
+      loadQuestionnaire(token);
+    }
+  }, [token]);
+
+  const loadQuestionnaire = async (questionnaireToken: string) => {
+    try {
+      setQuestionnaire(await MockStorageService.getQuestionnaireByToken(questionnaireToken));
+    } catch (loadError) {
+      console.error('Error loading questionnaire:', loadError);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!token) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await MockStorageService.submitProspectQuestionnaire(token, answers);
+      setIsSubmitted(true);
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Your answers could not be sent. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-sep-primary mx-auto mb-4"></div>
+          <p className="text-text-secondary">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const status = questionnaire ? questionnaireStatus(questionnaire) : null;
+  const hasAnswer = Object.values(answers).some(answer => answer.trim());
+
+  const message = isSubmitted
+    ? { title: 'Thank you!', body: `${questionnaire?.consultant_name} will go through your answers before the call.` }
+    : !questionnaire
+      ? { title: 'Link not found', body: 'Please check the link you were sent, or ask for a new one.' }
+      : status === 'submitted'
+        ? { title: 'Already answered', body: 'Your answers have been received. Thank you!' }
+        : status !== 'open'
+          ? { title: 'Link no longer active', body: `Please ask ${questionnaire.consultant_name} for a new link.` }
+          : null;
+
+  return (
+    <div className="min-h-screen bg-black">
+      <div className="max-w-2xl mx-auto px-6 py-12">
+        {message ? (
+          <Card className="glass-card p-8 text-center">
+            <h2 className="text-2xl font-bold text-text-primary mb-3">{message.title}</h2>
+            <p className="text-text-secondary">{message.body}</p>
+          </Card>
+        ) : (
+          <>
+            <div className="text-center mb-10">
+              <h2 className="text-3xl font-bold text-text-primary mb-4">
+                Before We Talk
+              </h2>
+              <p className="text-text-secondary text-lg">
+                Hi {questionnaire.contact_name}, {questionnaire.consultant_name} would like a little background
+                before your call about {questionnaire.account_name}. Short answers are fine, and you can skip anything.
+              </p>
+            </div>
+
+            <Card className="glass-card p-8">
+              <div className="space-y-6">
+                {questionnaire.questions.map((question, index) => (
+                  <div key={question.id} className="space-y-2">
+                    <Label htmlFor={`answer-${index}`} className="text-text-primary font-medium">
+                      {question.questionText}
+                    </Label>
+                    <Textarea
+                      id={`answer-${index}`}
+                      value={answers[question.id] || ''}
+                      onChange={(e) => setAnswers(prev => ({ ...prev, [question.id]: e.target.value }))}
+                      maxLength={MAX_ANSWER_LENGTH}
+                      className="input-field"
+                      rows={4}
+                    />
+                  </div>
+                ))}
+
+                {error && <p className="text-error text-sm">{error}</p>}
+
+                <Button
+                  onClick={handleSubmit}
+                  disabled={!hasAnswer || isSubmitting}
+                  className="btn-sep w-full py-4 text-lg font-semibold"
+                >
+                  {isSubmitting ? 'Sending...' : 'Send Answers'}
+                </Button>
+              </div>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProspectQuestionnaire;
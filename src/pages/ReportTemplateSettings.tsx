@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import AppHeader from '@/components/AppHeader';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { getCurrentUser, type DeepRabbitUser } from '@/lib/supabase-auth';
+import { MockStorageService } from '@/lib/mockStorage';
+import {
+  resolveReportTemplate,
+  validateReportTemplate,
+  sectionTitle,
+  EXAMPLE_REPORT_TEMPLATE,
+  REPORT_SECTIONS,
+  REPORT_SECTION_IDS,
+  type OrganizationReportTemplate
+} from '@/services/reportTemplates';
+
+// Roles allowed to change their organization's report template
+const TEMPLATE_EDITOR_ROLES = ['Principal', 'Manager'];
+
+// Logos are stored inline with the template, so keep them small
+const MAX_LOGO_BYTES = 256 * 1024;
+
+const ReportTemplateSettings = () => {
+  const navigate = useNavigate();
+  const [user, setUser] = useState<DeepRabbitUser | null>(null);
+  const [draft, setDraft] = useState('');
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadTemplate = async () => {
+      try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) {
+          navigate('/auth');
+          return;
+        }
+        setUser(currentUser);
+
+        const stored = currentUser.organization_id
+          ? await MockStorageService.getOrganizationReportTemplate(currentUser.organization_id)
+          : null;
+        setDraft(JSON.stringify(stored || EXAMPLE_REPORT_TEMPLATE, null, 2));
+      } catch (error) {
+        console.error('Error loading report template:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTemplate();
+  }, [navigate]);
+
+  // Parse and validate on every edit so principals see problems before saving
+  const parsed = useMemo((): { template: OrganizationReportTemplate | null; errors: string[] } => {
+    if (!draft.trim()) return { template: null, errors: [] };
+    try {
+      const template = JSON.parse(draft);
+      const errors = validateReportTemplate(template);
+      return { template: errors.length === 0 ? template : null, errors };
+    } catch (error) {
+      return { template: null, errors: [`Invalid JSON: ${(error as Error).message}`] };
+    }
+  }, [draft]);
+
+  const effective = resolveReportTemplate(parsed.template);
+  const canEdit = !!user?.organization_id && TEMPLATE_EDITOR_ROLES.includes(user.role);
+
+  // The logo goes into the draft as a data URL; it's saved with the rest of the template
+  const handleLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setLogoError(null);
+
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      setLogoError('The logo must be a PNG or JPEG image');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setLogoError(`The logo must be under ${MAX_LOGO_BYTES / 1024} KB`);
+      return;
+    }
+    if (!parsed.template && draft.trim()) {
+      setLogoError('Fix the template before adding a logo');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setDraft(JSON.stringify({ ...parsed.template, logo: reader.result as string }, null, 2));
+    };
+    reader.onerror = () => setLogoError('Could not read the logo file');
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    if (!user?.organization_id || !canEdit || parsed.errors.length > 0) return;
+    await MockStorageService.saveOrganizationReportTemplate(user.organization_id, parsed.template);
+    setSavedAt(new Date());
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-sep-primary mx-auto mb-4"></div>
+          <p className="text-text-secondary">Loading report template...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      <AppHeader title="Report Template" user={user} />
+
+      <div className="max-w-6xl mx-auto px-6 py-8 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="p-6 bg-glass-bg border-glass-border">
+          <h2 className="text-lg font-semibold text-text-primary mb-2">Organization Template</h2>
+          <p className="text-xs text-text-muted mb-4">
+            Sets companyName, colours, fonts, cover, disclaimer, persona and pitch for every report.
+            "sections" lists the sections in report order; each may set a title and a prompt. Sections: {REPORT_SECTION_IDS.join(', ')}.
+          </p>
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            readOnly={!canEdit}
+            className="w-full min-h-[420px] font-mono text-xs"
+          />
+          {parsed.errors.length > 0 && (
+            <ul className="mt-3 space-y-1 text-xs text-error">
+              {parsed.errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+          {logoError && <p className="mt-3 text-xs text-error">{logoError}</p>}
+          <div className="mt-4 flex items-center justify-between gap-4">
+            <span className="text-xs text-text-muted">
+              {!canEdit
+                ? 'Only Principals and Managers can change the report template'
+                : savedAt ? `Saved ${savedAt.toLocaleTimeString()}` : ''}
+            </span>
+            <div className="flex items-center gap-2">
+              {canEdit && (
+                <label className="text-xs text-text-secondary cursor-pointer underline">
+                  Upload logo
+                  <input type="file" accept="image/png,image/jpeg" onChange={handleLogoUpload} className="hidden" />
+                </label>
+              )}
+              <Button onClick={handleSave} disabled={!canEdit || parsed.errors.length > 0}>
+                Save Template
+              </Button>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="p-6 bg-glass-bg border-glass-border">
+          <h2 className="text-lg font-semibold text-text-primary mb-4">Report Preview</h2>
+          <div className="rounded-md bg-white p-5 mb-4" style={{ borderTop: `6px solid ${effective.primaryColor}` }}>
+            {effective.logo && <img src={effective.logo} alt={effective.companyName} className="max-h-10 mb-3" />}
+            <p className="text-xs font-bold uppercase tracking-widest" style={{ color: effective.accentColor }}>
+              {effective.companyName}
+            </p>
+            <p className="text-xl font-bold" style={{ color: effective.primaryColor, fontFamily: effective.headingFont }}>
+              {effective.cover.title}
+            </p>
+            {effective.cover.subtitle && (
+              <p className="text-sm text-gray-500" style={{ fontFamily: effective.bodyFont }}>{effective.cover.subtitle}</p>
+            )}
+            {!effective.cover.enabled && <p className="text-xs text-gray-400 mt-2">No cover page; the report opens on its first section</p>}
+          </div>
+
+          <h3 className="text-sm font-medium text-text-primary mb-2">Sections, in order</h3>
+          <ol className="space-y-2 text-xs list-decimal list-inside">
+            {effective.sections.map(section => (
+              <li key={section.id} className="text-text-secondary">
+                <span className="text-text-primary">{sectionTitle(effective, section.id)}</span>
+                {!REPORT_SECTIONS[section.id].generated && <span className="text-text-muted"> (from session data)</span>}
+                {section.prompt && <p className="text-text-muted ml-4">Prompt: {section.prompt}</p>}
+              </li>
+            ))}
+          </ol>
+
+          {effective.disclaimer && (
+            <>
+              <h3 className="text-sm font-medium text-text-primary mt-4 mb-1">Disclaimer</h3>
+              <p className="text-xs text-text-muted">{effective.disclaimer}</p>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ReportTemplateSettings;
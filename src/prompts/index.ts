@@ -1,7 +1,15 @@
-// GABI AI Assessment Prompt Engineering System
+// AI Assessment Prompt Engineering System
 // Carefully crafted prompts for consistent, high-quality AI analysis
 
 import type { AssessmentRecord } from '@/lib/supabase';
+import {
+  DEFAULT_REPORT_TEMPLATE,
+  REPORT_SECTIONS,
+  generatedSections,
+  sectionTitle,
+  type ReportSectionId,
+  type ReportTemplate
+} from '@/services/reportTemplates';
 
 // Industry benchmarks and context data
 const INDUSTRY_BENCHMARKS = {
@@ -92,8 +100,8 @@ export const getInvestmentContext = (investmentLevel: string) => {
   return INVESTMENT_LEVELS[investmentLevel as keyof typeof INVESTMENT_LEVELS] || INVESTMENT_LEVELS['Transformation'];
 };
 
-// Core system prompt for GABI personality
-export const GABI_SYSTEM_PROMPT = `You are GABI (Generative AI Business Intelligence), an expert AI transformation consultant with deep experience helping service businesses implement AI solutions.
+// Core system prompt; the persona comes from the organization's report template
+export const buildSystemPrompt = (template: ReportTemplate): string => `${template.persona}
 
 Your personality:
 - Professional yet approachable
@@ -118,6 +126,8 @@ Always provide:
 
 Format all responses as valid JSON unless specifically requested otherwise.`;
 
+export const GABI_SYSTEM_PROMPT = buildSystemPrompt(DEFAULT_REPORT_TEMPLATE);
+
 // Confidence evaluation prompt
 export const buildConfidencePrompt = (assessmentData: AssessmentRecord): string => {
   const industryContext = getIndustryContext(assessmentData.business_type || '');
@@ -169,10 +179,51 @@ Focus on: Can we generate specific, actionable AI recommendations based on this
 `;
 };
 
-// Report generation prompt
-export const buildReportPrompt = (assessmentData: AssessmentRecord): string => {
+// What the report prompt asks of each section when the template doesn't give its own prompt
+const REPORT_REQUIREMENTS: Partial<Record<ReportSectionId, string>> = {
+  executive_summary: '2-3 paragraphs with key findings, primary opportunity, and expected ROI',
+  current_state: 'Analysis of their specific process, pain points, and inefficiencies',
+  opportunities: '4-5 specific AI applications relevant to their challenges and industry',
+  recommendations: 'Prioritized solutions that fit their investment level and timeline',
+  roadmap: '3-phase implementation plan with specific milestones',
+  roi_projections: 'Quantified benefits with methodology (time savings, cost reduction, revenue impact)',
+  next_steps: '3-4 immediate actions they can take'
+};
+
+// Structured fields each section returns beyond its title and content
+const REPORT_SECTION_FIELDS: Partial<Record<ReportSectionId, object>> = {
+  executive_summary: { key_takeaways: ['3-4 bullet points of main insights'] },
+  current_state: { inefficiencies: ['specific inefficiencies identified'], strengths: ['existing strengths to build upon'] },
+  opportunities: {
+    specific_applications: [{ name: 'Application Name', description: 'What it does', impact: 'Expected business impact', effort: 'Implementation effort level' }]
+  },
+  recommendations: {
+    priority_solutions: [{ name: 'Solution Name', description: 'Detailed description', business_case: 'Why this solution first', estimated_cost: 'Cost range', timeline: 'Implementation time' }]
+  },
+  roadmap: {
+    phases: [{ name: 'Phase Name', duration: 'Timeline', objectives: ['Key objectives'], deliverables: ['What gets delivered'], success_metrics: ['How to measure success'] }]
+  },
+  roi_projections: {
+    projections: { time_savings: 'X hours/week', cost_reduction: '$X,XXX annually', revenue_impact: '$X,XXX potential increase', efficiency_gains: 'X% improvement', payback_period: 'X months' },
+    methodology: 'How these numbers were calculated'
+  },
+  next_steps: { immediate_actions: ['3-4 things they can do now'], follow_up: ['How to continue the conversation'] }
+};
+
+// Report generation prompt; sections, their order and their prompts come from the report template
+export const buildReportPrompt = (assessmentData: AssessmentRecord, template: ReportTemplate = DEFAULT_REPORT_TEMPLATE): string => {
   const industryContext = getIndustryContext(assessmentData.business_type || '');
   const investmentContext = getInvestmentContext(assessmentData.investment_level || 'Transformation');
+  const sections = generatedSections(template);
+  const sectionsShape = JSON.stringify(
+    Object.fromEntries(sections.map(section => [section.id, {
+      title: sectionTitle(template, section.id),
+      content: section.prompt || REPORT_REQUIREMENTS[section.id] || REPORT_SECTIONS[section.id].guidance,
+      ...REPORT_SECTION_FIELDS[section.id]
+    }])),
+    null,
+    2
+  ).replace(/\n/g, '\n  ');
   
   return `
 Generate a comprehensive AI transformation assessment report for this client. Make it specific, actionable, and valuable.
@@ -210,13 +261,7 @@ Scope: ${investmentContext.scope}
 Typical Solutions: ${investmentContext.typical_solutions.join(', ')}
 
 REQUIREMENTS:
-1. Executive Summary: 2-3 paragraphs with key findings, primary opportunity, and expected ROI
-2. Current State: Analysis of their specific process, pain points, and inefficiencies  
-3. AI Opportunities: 4-5 specific AI applications relevant to their challenges and industry
-4. Recommendations: Prioritized solutions that fit their investment level and timeline
-5. Roadmap: 3-phase implementation plan with specific milestones
-6. ROI Projections: Quantified benefits with methodology (time savings, cost reduction, revenue impact)
-7. Next Steps: 3-4 immediate actions they can take
+${sections.map((section, index) => `${index + 1}. ${sectionTitle(template, section.id)}: ${section.prompt || REPORT_REQUIREMENTS[section.id] || REPORT_SECTIONS[section.id].guidance}`).join('\n')}
 
 Make recommendations specific to their:
 - Stated challenges (${assessmentData.challenges?.join(', ') || 'general optimization'})
@@ -227,75 +272,7 @@ Make recommendations specific to their:
 Return JSON with this exact structure:
 {
   "id": "report_${Date.now()}",
-  "sections": {
-    "executive_summary": {
-      "title": "Executive Summary",
-      "content": "2-3 paragraphs with key findings and ROI potential",
-      "key_takeaways": ["3-4 bullet points of main insights"]
-    },
-    "current_state": {
-      "title": "Current State Analysis",
-      "content": "Analysis of current processes and pain points",
-      "inefficiencies": ["specific inefficiencies identified"],
-      "strengths": ["existing strengths to build upon"]
-    },
-    "opportunities": {
-      "title": "AI Transformation Opportunities", 
-      "content": "Overview of AI potential for this business",
-      "specific_applications": [
-        {
-          "name": "Application Name",
-          "description": "What it does",
-          "impact": "Expected business impact",
-          "effort": "Implementation effort level"
-        }
-      ]
-    },
-    "recommendations": {
-      "title": "Recommended Solutions",
-      "content": "Prioritized recommendations overview",
-      "priority_solutions": [
-        {
-          "name": "Solution Name",
-          "description": "Detailed description",
-          "business_case": "Why this solution first",
-          "estimated_cost": "Cost range",
-          "timeline": "Implementation time"
-        }
-      ]
-    },
-    "roadmap": {
-      "title": "Implementation Roadmap",
-      "content": "Phased approach overview",
-      "phases": [
-        {
-          "name": "Phase Name",
-          "duration": "Timeline",
-          "objectives": ["Key objectives"],
-          "deliverables": ["What gets delivered"],
-          "success_metrics": ["How to measure success"]
-        }
-      ]
-    },
-    "roi_projections": {
-      "title": "ROI Projections",
-      "content": "Financial impact analysis",
-      "projections": {
-        "time_savings": "X hours/week",
-        "cost_reduction": "$X,XXX annually", 
-        "revenue_impact": "$X,XXX potential increase",
-        "efficiency_gains": "X% improvement",
-        "payback_period": "X months"
-      },
-      "methodology": "How these numbers were calculated"
-    },
-    "next_steps": {
-      "title": "Next Steps",
-      "content": "Immediate actions overview",
-      "immediate_actions": ["3-4 things they can do now"],
-      "follow_up": ["How to continue the conversation"]
-    }
-  },
+  "sections": ${sectionsShape},
   "confidence_score": 0.0-1.0,
   "generation_metadata": {
     "tokens_used": estimated_tokens,
@@ -415,6 +392,7 @@ Make questions conversational but precise.
 
 // Export all prompt builders
 export const prompts = {
+  buildSystemPrompt,
   buildConfidencePrompt,
   buildReportPrompt,
   buildProcessValidationPrompt,
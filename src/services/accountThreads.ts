@@ -0,0 +1,184 @@
+/**
+ * Account Threads
+ * Carries findings, open gaps and unresolved contradictions from earlier calls with an account into the next one
+ */
+
+import type { DiscoveryNote, DiscoverySession, QuestionBlock } from '@/types/discovery';
+import { calculateDiscoveryCompleteness } from './elicitationEngine';
+import { getMethodologyPack } from './methodologyPacks';
+import { detectContradictions, type Contradiction } from './contradictionDetector';
+import type { ElicitationPolicy } from './depthPolicy';
+
+// One call in an account's thread, as loaded from storage
+export interface AccountCall {
+  session: DiscoverySession;
+  notes: DiscoveryNote[];
+  dismissedContradictions: string[];
+}
+
+export interface PriorFinding {
+  sessionId: string;
+  callNumber: number;
+  contactName: string;
+  areaName: string;
+  questionText: string;
+  notes: string;
+}
+
+export interface FollowUpContext {
+  callNumber: number;                  // This call's place in the thread
+  contacts: string[];                  // People spoken to on earlier calls
+  findings: PriorFinding[];
+  priorNotes: DiscoveryNote[];         // Earlier calls' notes, merged per area, for question generation
+  gaps: string[];                      // calculateDiscoveryCompleteness gaps across earlier calls
+  contradictions: Contradiction[];     // Unresolved across earlier calls
+}
+
+export const accountKey = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const sortCalls = (calls: AccountCall[]): AccountCall[] =>
+  [...calls].sort((a, b) => new Date(a.session.created_at).getTime() - new Date(b.session.created_at).getTime());
+
+// Calls that happened before this session, oldest first
+export function priorCalls(calls: AccountCall[], session: DiscoverySession): AccountCall[] {
+  const startedAt = new Date(session.created_at).getTime();
+  return sortCalls(calls).filter(call =>
+    call.session.id !== session.id && new Date(call.session.created_at).getTime() <= startedAt
+  );
+}
+
+const callLabel = (call: AccountCall, callNumber: number) =>
+  `Call ${callNumber}${call.session.contact_name ? `, ${call.session.contact_name}` : ''}`;
+
+/**
+ * One note per area across every call, questions in call order. Block ids are kept,
+ * so contradiction ids and dismissals still match. With `labelCalls`, each question
+ * says which call it came from, for account-level reports.
+ */
+export function mergeAccountNotes(calls: AccountCall[], options: { labelCalls?: boolean } = {}): DiscoveryNote[] {
+  const merged = new Map<string, DiscoveryNote>();
+
+  sortCalls(calls).forEach((call, index) => {
+    for (const note of call.notes) {
+      const existing = merged.get(note.areaName) || {
+        areaId: note.areaId,
+        areaName: note.areaName,
+        questions: [] as QuestionBlock[],
+        currentNotes: '',
+        lastUpdated: note.lastUpdated
+      };
+
+      const questions = note.questions.map(block => ({
+        ...block,
+        questionText: options.labelCalls ? `${block.questionText} (${callLabel(call, index + 1)})` : block.questionText
+      }));
+      const currentNotes = [existing.currentNotes, note.currentNotes.trim()].filter(Boolean).join('\n');
+
+      merged.set(note.areaName, {
+        ...existing,
+        questions: [...existing.questions, ...questions].map((block, i) => ({ ...block, questionNumber: i + 1 })),
+        currentNotes,
+        lastUpdated: new Date(note.lastUpdated) > new Date(existing.lastUpdated) ? note.lastUpdated : existing.lastUpdated
+      });
+    }
+  });
+
+  return [...merged.values()];
+}
+
+// Contradictions across all the calls, minus any dismissed on one of them
+export function openAccountContradictions(calls: AccountCall[], extraNotes: DiscoveryNote[] = [], extraDismissed: string[] = []): Contradiction[] {
+  const dismissed = new Set([...calls.flatMap(call => call.dismissedContradictions), ...extraDismissed]);
+  return detectContradictions([...mergeAccountNotes(calls), ...extraNotes]).filter(c => !dismissed.has(c.id));
+}
+
+/**
+ * Everything a follow-up call should start with. Returns null for a first call.
+ * Gaps are judged by the follow-up call's own methodology.
+ */
+export function buildFollowUpContext(
+  session: Pick<DiscoverySession, 'methodology_id'> | null,
+  earlierCalls: AccountCall[],
+  policy?: ElicitationPolicy
+): FollowUpContext | null {
+  if (earlierCalls.length === 0) return null;
+
+  const calls = sortCalls(earlierCalls);
+  const priorNotes = mergeAccountNotes(calls);
+  const findings = calls.flatMap((call, index) => call.notes.flatMap(note =>
+    note.questions
+      .filter(block => block.notes.trim())
+      .map(block => ({
+        sessionId: call.session.id,
+        callNumber: index + 1,
+        contactName: call.session.contact_name,
+        areaName: note.areaName,
+        questionText: block.questionText,
+        notes: block.notes.trim()
+      }))
+  ));
+
+  const notesPerArea = new Map<string, string[]>();
+  for (const note of priorNotes) {
+    const answered = note.questions.map(block => block.notes).filter(text => text.trim());
+    if (answered.length > 0) notesPerArea.set(note.areaName, answered);
+  }
+
+  return {
+    callNumber: calls.length + 1,
+    contacts: [...new Set(calls.map(call => call.session.contact_name).filter(Boolean))],
+    findings,
+    priorNotes,
+    gaps: calculateDiscoveryCompleteness(notesPerArea, getMethodologyPack(session?.methodology_id).completeness, policy).gaps,
+    contradictions: openAccountContradictions(calls)
+  };
+}
+
+export const findingsForArea = (context: FollowUpContext | null, areaName: string): PriorFinding[] =>
+  context ? context.findings.filter(finding => finding.areaName === areaName) : [];
+
+export const gapsForArea = (context: FollowUpContext | null, areaName: string): string[] =>
+  context ? context.gaps.filter(gap => gap.startsWith(`${areaName}:`)) : [];
+
+/**
+ * Prompt section listing what earlier calls already established, so generated
+ * questions build on it instead of asking again
+ */
+export function formatPriorFindingsForPrompt(priorNotes: DiscoveryNote[], currentArea: string): string {
+  const answered = priorNotes
+    .map(note => ({ ...note, questions: note.questions.filter(block => block.notes.trim()) }))
+    .filter(note => note.questions.length > 0);
+  if (answered.length === 0) return '';
+
+  const inArea = answered.find(note => note.areaName === currentArea);
+  const elsewhere = answered.filter(note => note.areaName !== currentArea);
+
+  return `ALREADY ESTABLISHED ON EARLIER CALLS WITH THIS ACCOUNT (do not ask for any of this again; confirm changes or go deeper):
+${inArea ? `${currentArea}:
+${inArea.questions.map(block => `- Q: ${block.questionText}\n  A: ${block.notes}`).join('\n')}` : `${currentArea}: not covered yet`}
+${elsewhere.map(note => `${note.areaName}: ${note.questions.map(block => block.notes).join(' / ')}`).join('\n')}`;
+}
+
+// The session shown on an account-level report: every contact, one account
+export function accountReportSession(session: DiscoverySession, calls: AccountCall[]): DiscoverySession {
+  const sorted = sortCalls(calls);
+  const contacts = [...new Set(sorted.map(call => call.session.contact_name).filter(Boolean))];
+  const roles = [...new Set(sorted.map(call => call.session.contact_role).filter(Boolean))];
+  return {
+    ...session,
+    contact_name: contacts.join(', ') || session.contact_name,
+    contact_role: roles.join(', ') || session.contact_role
+  };
+}
+
+export default {
+  accountKey,
+  priorCalls,
+  mergeAccountNotes,
+  openAccountContradictions,
+  buildFollowUpContext,
+  findingsForArea,
+  gapsForArea,
+  formatPriorFindingsForPrompt,
+  accountReportSession
+};
@@ -0,0 +1,174 @@
+/**
+ * Next-Best-Area Recommender
+ * Ranks discovery areas by coverage, note quality, remaining call time and area dependencies
+ */
+
+import { ElicitationDepthManager, type NoteQuality } from './elicitationEngine';
+import { RUBRIC_MAX_SCORE, RUBRIC_PASS_SCORE, QUALITY_DIMENSIONS, type NoteLexicon } from './noteQualityRubric';
+import type { MethodologyPack } from './methodologyPacks';
+import { getAreaDepthRule, resolveElicitationPolicy, type ElicitationPolicy } from './depthPolicy';
+import type { DiscoveryNote } from '@/types/discovery';
+
+export const DEFAULT_CALL_LENGTH_MINUTES = 60;
+
+// Rough time a consultant spends on one question/answer block
+const MINUTES_PER_QUESTION = 4;
+
+export interface AreaRecommendationInput {
+  methodology: MethodologyPack;
+  notes: DiscoveryNote[];
+  activeArea?: string;
+  // Live notes for the active area that haven't been assessed yet
+  activeAreaDraft?: string;
+  remainingMinutes?: number;
+  // Organization policy; defaults to the methodology's own rules
+  policy?: ElicitationPolicy;
+  // Signal terms for the session language; English only when omitted
+  lexicon?: NoteLexicon;
+}
+
+export interface AreaRecommendation {
+  area: string;
+  score: number;       // Higher is more urgent
+  reason: string;      // One line, shown to the consultant
+  questionsAsked: number;
+  blockedBy?: string;  // Prerequisite area that should come first
+}
+
+interface AreaState {
+  area: string;
+  questionsAsked: number;
+  minQuestions: number;
+  maxQuestions: number;
+  quality: NoteQuality | null;
+}
+
+const depthManager = new ElicitationDepthManager();
+
+const qualityRatio = (quality: NoteQuality | null): number => {
+  if (!quality) return 0;
+  const total = QUALITY_DIMENSIONS.reduce((sum, d) => sum + quality.dimensions[d].score, 0);
+  return total / (QUALITY_DIMENSIONS.length * RUBRIC_MAX_SCORE);
+};
+
+/**
+ * Rank every area in the methodology, most valuable next area first
+ */
+export function recommendNextAreas(input: AreaRecommendationInput): AreaRecommendation[] {
+  const { methodology, notes, activeArea, activeAreaDraft } = input;
+  const policy = input.policy ?? resolveElicitationPolicy(methodology);
+  const { requiredAreas } = policy;
+  const remainingMinutes = input.remainingMinutes ?? DEFAULT_CALL_LENGTH_MINUTES;
+  const sessionDepthManager = new ElicitationDepthManager(policy, input.lexicon);
+
+  // Snapshot each area's coverage and quality
+  const states = new Map<string, AreaState>();
+  for (const { name } of methodology.areas) {
+    const note = notes.find(n => n.areaName === name);
+    const answered = note?.questions.map(q => q.notes).filter(text => text.trim()) || [];
+    const draft = name === activeArea ? activeAreaDraft || '' : note?.currentNotes || '';
+    const combined = [...answered, draft].filter(text => text.trim()).join('\n');
+
+    const { minDepth, maxDepth } = getAreaDepthRule(policy, name);
+    states.set(name, {
+      area: name,
+      questionsAsked: note?.questions.length || 0,
+      minQuestions: minDepth,
+      maxQuestions: maxDepth,
+      quality: combined ? sessionDepthManager.assessNoteQuality(combined) : null
+    });
+  }
+
+  // Time pressure: 0 = plenty of time, 1 = not enough time to cover what's left
+  const questionsOutstanding = Array.from(states.values())
+    .reduce((sum, s) => sum + Math.max(0, s.minQuestions - s.questionsAsked), 0);
+  const minutesNeeded = questionsOutstanding * MINUTES_PER_QUESTION;
+  const timePressure = minutesNeeded > 0
+    ? Math.min(1, Math.max(0, 1 - remainingMinutes / minutesNeeded))
+    : 0;
+
+  const recommendations = Array.from(states.values()).map(state => {
+    const coverageGap = state.minQuestions > 0
+      ? Math.max(0, state.minQuestions - state.questionsAsked) / state.minQuestions
+      : 0;
+    const qualityGap = 1 - qualityRatio(state.quality);
+    const isRequired = requiredAreas.includes(state.area);
+    const atLimit = state.questionsAsked >= state.maxQuestions;
+
+    // Under time pressure, breadth (untouched areas) beats depth
+    let score = coverageGap * (40 + 30 * timePressure) + qualityGap * (30 - 20 * timePressure);
+    if (isRequired) score += 10;
+
+    // Prerequisites that haven't reached the pass mark push this area back
+    const unmet = methodology.dependencies.find(dep => {
+      if (dep.area !== state.area) return false;
+      const prerequisite = states.get(dep.after)?.quality;
+      return !prerequisite || prerequisite.dimensions[dep.dimension].score < RUBRIC_PASS_SCORE;
+    });
+    if (unmet && coverageGap > 0) score -= 20 * (1 - timePressure);
+
+    // Areas that unlock others get a nudge
+    const unlocks = methodology.dependencies.filter(dep => dep.after === state.area);
+    if (unlocks.length > 0 && coverageGap > 0) score += 5 * unlocks.length;
+
+    // Staying put is cheap; a small bonus keeps the active area from flickering
+    if (state.area === activeArea && coverageGap > 0) score += 3;
+
+    // The policy allows no more questions here
+    if (atLimit) score = 0;
+
+    return {
+      area: state.area,
+      score: Math.round(score * 10) / 10,
+      reason: buildReason(state, {
+        coverageGap,
+        isRequired,
+        timePressure,
+        unmetReason: unmet?.reason,
+        unlocksArea: unlocks[0]?.area,
+        atLimit
+      }),
+      questionsAsked: state.questionsAsked,
+      blockedBy: unmet && coverageGap > 0 ? unmet.after : undefined
+    };
+  });
+
+  return recommendations.sort((a, b) => b.score - a.score);
+}
+
+function buildReason(
+  state: AreaState,
+  factors: {
+    coverageGap: number;
+    isRequired: boolean;
+    timePressure: number;
+    unmetReason?: string;
+    unlocksArea?: string;
+    atLimit: boolean;
+  }
+): string {
+  const { coverageGap, isRequired, timePressure, unmetReason, unlocksArea, atLimit } = factors;
+
+  if (atLimit) return `Depth limit of ${state.maxQuestions} reached`;
+
+  if (unmetReason && coverageGap > 0 && timePressure < 0.5) {
+    return `Hold for now - ${unmetReason}`;
+  }
+
+  if (state.questionsAsked === 0) {
+    if (timePressure >= 0.5) return `Untouched and time is running short${isRequired ? ' - required area' : ''}`;
+    if (unlocksArea) return `Not started yet - opens up ${unlocksArea}`;
+    return isRequired ? 'Required area not started yet' : 'Not started yet';
+  }
+
+  if (coverageGap > 0) {
+    return `${state.questionsAsked}/${state.minQuestions} questions so far${isRequired ? ' in a required area' : ''}`;
+  }
+
+  const weakest = state.quality ? depthManager.getWeakestDimension(state.quality) : null;
+  if (weakest && state.quality) {
+    return `Covered, but ${state.quality.dimensions[weakest].justification.toLowerCase().replace(/\.$/, '')}`;
+  }
+
+  return 'Well covered - revisit only to confirm';
+}
@@ -0,0 +1,210 @@
+/**
+ * Call Pacing
+ * Time budgets per discovery area from the planned call length, overrun alerts and what to compress
+ */
+
+import { getAreaDepthRule, type ElicitationPolicy } from './depthPolicy';
+import { DEFAULT_CALL_LENGTH_MINUTES } from './areaRecommender';
+
+export const MIN_CALL_LENGTH_MINUTES = 15;
+export const MAX_CALL_LENGTH_MINUTES = 180;
+
+// No area is planned shorter than this, however many there are
+const MIN_AREA_BUDGET_MINUTES = 2;
+// Required areas get a bigger share of the call, and are compressed last
+const REQUIRED_AREA_WEIGHT = 1.5;
+// Overrunning a budget by this much turns the alert critical
+const CRITICAL_OVERRUN_RATIO = 1.5;
+
+export type PacingSeverity = 'warning' | 'critical';
+
+export interface AreaPacing {
+  area: string;
+  budgetMinutes: number;
+  spentMinutes: number;
+  overrunMinutes: number;   // 0 while within budget
+}
+
+export interface PacingAlert {
+  severity: PacingSeverity;
+  message: string;
+  area?: string;
+}
+
+export interface CompressionSuggestion {
+  area: string;
+  fromMinutes: number;      // Time the plan still has for the area
+  toMinutes: number;        // 0 means skip it on this call
+  reason: string;
+}
+
+export interface PacingStatus {
+  callMinutes: number;
+  elapsedMinutes: number;
+  remainingMinutes: number;
+  areas: AreaPacing[];
+  alerts: PacingAlert[];
+  compress: CompressionSuggestion[];
+}
+
+export interface PacingInput {
+  areaNames: string[];
+  policy: ElicitationPolicy;
+  callMinutes?: number;
+  areaSeconds: Record<string, number>;
+  activeArea?: string;
+}
+
+export const clampCallLength = (minutes: number): number =>
+  Math.min(MAX_CALL_LENGTH_MINUTES, Math.max(MIN_CALL_LENGTH_MINUTES, Math.round(minutes) || DEFAULT_CALL_LENGTH_MINUTES));
+
+// An area's share of the call: its minimum depth, weighted up when the policy requires it
+const areaWeight = (policy: ElicitationPolicy, area: string): number =>
+  Math.max(1, getAreaDepthRule(policy, area).minDepth) * (policy.requiredAreas.includes(area) ? REQUIRED_AREA_WEIGHT : 1);
+
+/**
+ * Split the call between the session's areas by priority, in whole minutes
+ */
+export function planAreaBudgets(
+  areaNames: string[],
+  policy: ElicitationPolicy,
+  callMinutes: number = DEFAULT_CALL_LENGTH_MINUTES
+): Record<string, number> {
+  const totalWeight = areaNames.reduce((sum, area) => sum + areaWeight(policy, area), 0);
+  if (totalWeight === 0) return {};
+
+  return Object.fromEntries(areaNames.map(area => [
+    area,
+    Math.max(MIN_AREA_BUDGET_MINUTES, Math.round(callMinutes * areaWeight(policy, area) / totalWeight))
+  ]));
+}
+
+// Adds time to an area without touching the caller's record
+export function addAreaTime(areaSeconds: Record<string, number>, area: string, seconds: number): Record<string, number> {
+  if (seconds <= 0) return areaSeconds;
+  return { ...areaSeconds, [area]: Math.round((areaSeconds[area] || 0) + seconds) };
+}
+
+// What gets stored as the session's total_elicitation_time
+export const totalAreaSeconds = (areaSeconds: Record<string, number>): number =>
+  Object.values(areaSeconds).reduce((sum, seconds) => sum + seconds, 0);
+
+export const formatMinutes = (minutes: number): string =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m` : `${Math.round(minutes)} min`;
+
+/**
+ * Where the call stands against the plan, with alerts and the areas to compress to finish on time
+ */
+export function assessPacing(input: PacingInput): PacingStatus {
+  const { areaNames, policy, areaSeconds, activeArea } = input;
+  const callMinutes = input.callMinutes ?? DEFAULT_CALL_LENGTH_MINUTES;
+  const budgets = planAreaBudgets(areaNames, policy, callMinutes);
+  const elapsedMinutes = totalAreaSeconds(areaSeconds) / 60;
+  const remainingMinutes = Math.max(0, callMinutes - elapsedMinutes);
+
+  const areas: AreaPacing[] = areaNames.map(area => {
+    const spentMinutes = (areaSeconds[area] || 0) / 60;
+    return {
+      area,
+      budgetMinutes: budgets[area],
+      spentMinutes,
+      overrunMinutes: Math.max(0, spentMinutes - budgets[area])
+    };
+  });
+
+  const alerts: PacingAlert[] = [];
+  const active = areas.find(area => area.area === activeArea);
+  if (active && active.overrunMinutes >= 1) {
+    alerts.push({
+      area: active.area,
+      severity: active.spentMinutes >= active.budgetMinutes * CRITICAL_OVERRUN_RATIO ? 'critical' : 'warning',
+      message: `${active.area} is ${formatMinutes(active.overrunMinutes)} over its ${formatMinutes(active.budgetMinutes)} budget`
+    });
+  }
+
+  // Time the plan still needs for the areas other than the one being discussed
+  const outstanding = areas.filter(area => area.area !== activeArea && area.overrunMinutes === 0);
+  const outstandingMinutes = outstanding.reduce((sum, area) => sum + area.budgetMinutes - area.spentMinutes, 0);
+  const shortfall = outstandingMinutes - remainingMinutes;
+
+  if (remainingMinutes === 0) {
+    alerts.push({ severity: 'critical', message: `Planned ${formatMinutes(callMinutes)} call time is used up` });
+  } else if (shortfall >= 1) {
+    alerts.push({
+      severity: shortfall >= remainingMinutes / 2 ? 'critical' : 'warning',
+      message: `The remaining areas need ${formatMinutes(outstandingMinutes)}, but only ${formatMinutes(remainingMinutes)} of the call is left`
+    });
+  }
+
+  return {
+    callMinutes,
+    elapsedMinutes,
+    remainingMinutes,
+    areas,
+    alerts,
+    compress: shortfall >= 1 ? suggestCompression(outstanding, policy, shortfall) : []
+  };
+}
+
+/**
+ * Take the shortfall out of optional areas first: trim them, then skip the lowest priority ones,
+ * and only then trim required areas
+ */
+function suggestCompression(
+  outstanding: AreaPacing[],
+  policy: ElicitationPolicy,
+  shortfall: number
+): CompressionSuggestion[] {
+  const plan = outstanding
+    .map(area => ({
+      area,
+      isRequired: policy.requiredAreas.includes(area.area),
+      fromMinutes: Math.round(area.budgetMinutes - area.spentMinutes),
+      toMinutes: Math.round(area.budgetMinutes - area.spentMinutes)
+    }))
+    .filter(entry => entry.fromMinutes >= 1)
+    // Lowest priority first
+    .sort((a, b) => areaWeight(policy, a.area.area) - areaWeight(policy, b.area.area) || a.area.spentMinutes - b.area.spentMinutes);
+  let toCut = Math.ceil(shortfall);
+
+  // Spread a cut over the entries in proportion to what each can give above the floor
+  const trim = (entries: typeof plan, floor: number) => {
+    const slack = entries.reduce((sum, entry) => sum + Math.max(0, entry.toMinutes - floor), 0);
+    if (slack === 0 || toCut <= 0) return;
+    const share = Math.min(1, toCut / slack);
+    for (const entry of entries) {
+      const cut = Math.min(toCut, Math.ceil(Math.max(0, entry.toMinutes - floor) * share));
+      entry.toMinutes -= cut;
+      toCut -= cut;
+    }
+  };
+
+  const optional = plan.filter(entry => !entry.isRequired);
+  trim(optional, MIN_AREA_BUDGET_MINUTES);
+  for (const entry of optional) {
+    if (toCut <= 0) break;
+    toCut -= entry.toMinutes;
+    entry.toMinutes = 0;
+  }
+  trim(plan.filter(entry => entry.isRequired), MIN_AREA_BUDGET_MINUTES);
+
+  return plan
+    .filter(entry => entry.toMinutes < entry.fromMinutes)
+    .map(({ area, isRequired, fromMinutes, toMinutes }) => ({
+      area: area.area,
+      fromMinutes,
+      toMinutes,
+      reason: toMinutes === 0
+        ? area.spentMinutes > 0 ? 'Wrap up and follow up by email' : 'Skip on this call, or cover by email'
+        : isRequired ? 'Required - keep to the essentials' : 'Lower priority - ask only the key question'
+    }));
+}
+
+export default {
+  planAreaBudgets,
+  addAreaTime,
+  totalAreaSeconds,
+  assessPacing,
+  clampCallLength,
+  formatMinutes
+};
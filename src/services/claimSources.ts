@@ -0,0 +1,213 @@
+/**
+ * Claim Sources
+ * Every claim in a generated report tagged with where it came from: a discovery note (one
+ * question block), a research URL or model inference. Tags become numbered footnotes, and
+ * numeric claims without one are held for review before the report is shared.
+ */
+
+import type { DiscoveryNote, DiscoverySession, QuestionBlock } from '@/types/discovery';
+import { citationLink, type NoteCitation } from './noteAnnotations';
+
+export type ClaimSource =
+  | { kind: 'note'; questionId: string; sessionId: string; areaName: string; questionNumber: number; questionText: string }
+  | { kind: 'research'; url: string }
+  | { kind: 'inference' };
+
+// What a report's claims can cite, by the ids the model is shown
+export interface SourceCatalog {
+  notes: Map<string, Extract<ClaimSource, { kind: 'note' }>>;       // N1, N2... one per question block
+  noteIds: Map<string, string>;                                      // Question block id -> N#
+  research: Map<string, Extract<ClaimSource, { kind: 'research' }>>; // R1, R2... in the research's own order
+  citations: Map<string, NoteCitation>;                              // C# tagged evidence, cited to its block
+}
+
+export interface ClaimFootnote {
+  number: number;
+  source: ClaimSource;
+}
+
+// A numeric claim with no source, waiting for a person to check it
+export interface UncitedClaim {
+  key: string;                   // Stable for the same claim in the same section
+  section: string;
+  text: string;
+}
+
+export interface MarketResearch {
+  text: string;
+  sources: string[];             // URLs, numbered [1], [2]... in the text
+}
+
+export const INFERENCE_MARKER = '[AI]';
+
+export const CLAIM_CITATION_RULES = `SOURCE EVERY CLAIM:
+- End each sentence or bullet with the source it rests on: [N#] for a discovery note, [C#] for tagged evidence, [R#] for a research source, or ${INFERENCE_MARKER} when it is your own inference.
+- Several sources go in one bracket, e.g. [N3, R2].
+- Every number ($, %, counts, durations) needs a source. Only use ids listed above; never invent one.`;
+
+// One marker or a comma-separated group of them, e.g. [N3] or [N3, R2, AI]; links like [C1: ...](...) don't match
+const MARKER_PATTERN = /\[((?:[NRC]\d+|AI)(?:\s*[,;]\s*(?:[NRC]\d+|AI))*)\](?!\()/g;
+
+const FOOTNOTE_REF = /\[\^\d+\]/;
+
+// Money, percentages, ratios, multiples and counted quantities; bare numbers like "Phase 1" aren't claims
+const NUMERIC_CLAIM = new RegExp([
+  '[$€£]\\s?\\d',
+  '\\d(?:[\\d,.]*)\\s?%',
+  '\\b\\d+\\s?/\\s?\\d+\\b',
+  '\\b\\d+(?:\\.\\d+)?x\\b',
+  '\\b\\d[\\d,.]*\\s?(?:k|m|bn|thousand|million|billion|hours?|days?|weeks?|months?|years?|users?|employees?|people|staff|FTEs?|customers?|clients?|tickets?|deals?)\\b'
+].join('|'), 'i');
+
+/**
+ * Number everything a report can cite: each question block with notes, each research URL,
+ * and each tagged passage
+ */
+export function buildSourceCatalog(
+  notes: DiscoveryNote[],
+  sessionFor: (block: QuestionBlock) => Pick<DiscoverySession, 'id'>,
+  research: MarketResearch | null,
+  citations: NoteCitation[]
+): SourceCatalog {
+  const catalog: SourceCatalog = { notes: new Map(), noteIds: new Map(), research: new Map(), citations: new Map() };
+
+  notes.forEach(note => note.questions.filter(block => block.notes?.trim()).forEach(block => {
+    const id = `N${catalog.notes.size + 1}`;
+    catalog.notes.set(id, {
+      kind: 'note',
+      questionId: block.id,
+      sessionId: sessionFor(block).id,
+      areaName: note.areaName,
+      questionNumber: block.questionNumber,
+      questionText: block.questionText
+    });
+    catalog.noteIds.set(block.id, id);
+  }));
+  research?.sources.forEach((url, index) => catalog.research.set(`R${index + 1}`, { kind: 'research', url }));
+  citations.forEach(citation => catalog.citations.set(citation.id, citation));
+
+  return catalog;
+}
+
+// Perplexity numbers its sources [1], [2]...; renumber them R1, R2... so they can't be taken for notes
+export function formatResearchForPrompt(research: MarketResearch): string {
+  if (research.sources.length === 0) return research.text;
+  return `${research.text.replace(/\[(\d+)\]/g, (marker, number) => (research.sources[number - 1] ? `[R${number}]` : marker))}
+
+RESEARCH SOURCES:
+${research.sources.map((url, index) => `[R${index + 1}] ${url}`).join('\n')}`;
+}
+
+const sourceFor = (id: string, catalog: SourceCatalog): ClaimSource | null => {
+  if (id === 'AI') return { kind: 'inference' };
+  if (id.startsWith('N')) return catalog.notes.get(id) || null;
+  if (id.startsWith('R')) return catalog.research.get(id) || null;
+  const citation = catalog.citations.get(id);
+  return citation
+    ? { kind: 'note', questionId: citation.questionId, sessionId: citation.sessionId, areaName: citation.areaName, questionNumber: citation.questionNumber, questionText: citation.questionText }
+    : null;
+};
+
+const sourceKey = (source: ClaimSource): string =>
+  source.kind === 'note' ? `note:${source.questionId}` : source.kind === 'research' ? `research:${source.url}` : 'inference';
+
+export function formatFootnote(footnote: ClaimFootnote): string {
+  const { source } = footnote;
+  switch (source.kind) {
+    case 'note':
+      return `Discovery notes, [${source.areaName}, Q${source.questionNumber}](${citationLink(source)}): ${source.questionText}`;
+    case 'research':
+      return `Research, [${source.url}](${source.url})`;
+    case 'inference':
+      return 'Model inference; not stated in the notes or research';
+  }
+}
+
+/**
+ * Swap the model's source markers for numbered footnotes ([^1]) and add the footnotes as a
+ * Sources section. Markers that don't match a known source are dropped, which leaves the
+ * claim uncited.
+ */
+export function resolveClaimCitations(
+  markdown: string,
+  catalog: SourceCatalog
+): { markdown: string; footnotes: ClaimFootnote[] } {
+  const footnotes: ClaimFootnote[] = [];
+  const numbers = new Map<string, number>();
+
+  const body = markdown.replace(MARKER_PATTERN, (_, ids: string) => {
+    const refs = ids.split(/\s*[,;]\s*/).flatMap(id => {
+      const source = sourceFor(id, catalog);
+      if (!source) return [];
+      const key = sourceKey(source);
+      if (!numbers.has(key)) {
+        numbers.set(key, footnotes.length + 1);
+        footnotes.push({ number: footnotes.length + 1, source });
+      }
+      return [numbers.get(key)];
+    });
+    return [...new Set(refs)].map(number => `[^${number}]`).join('');
+  }).replace(/[ \t]+(\[\^\d+\])/g, '$1').replace(/(\S) {2,}(?=\S)/g, '$1 ');
+
+  if (footnotes.length === 0) return { markdown: body, footnotes };
+  return {
+    markdown: `${body.trimEnd()}\n\n## Sources\n${footnotes.map(footnote => `[^${footnote.number}]: ${formatFootnote(footnote)}`).join('\n')}`,
+    footnotes
+  };
+}
+
+// For places that show report text without footnotes, e.g. slides
+export const stripClaimMarkers = (text: string): string =>
+  text.replace(MARKER_PATTERN, '').replace(/\[\^\d+\]/g, '').replace(/[ \t]+([.,;:])/g, '$1');
+
+const plainClaim = (text: string): string =>
+  text
+    .replace(/\[\^\d+\]/g, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    .replace(/^([-*•]|\d+[.)])\s+/, '')
+    .replace(/^\|\s*|\s*\|$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Sentences with a figure in them and no footnote or evidence link. Headings, the Sources
+ * section, quotes (the prospect's own words) and italic run metadata aren't claims.
+ */
+export function findUncitedNumericClaims(markdown: string): UncitedClaim[] {
+  const claims: UncitedClaim[] = [];
+  let section = '';
+
+  for (const rawLine of markdown.split('\n')) {
+    const line = rawLine.trim();
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      if (line.startsWith('## ')) section = heading[1].trim();
+      continue;
+    }
+    if (!line || section === 'Sources' || /^(>|\[\^\d+\]:|\|?\s*:?-{3,}|-{3,}$)/.test(line) || /^\*[^*].*\*$/.test(line)) continue;
+
+    // A footnote after the full stop belongs to the sentence before it
+    const sentences = line.split(/(?<=[.!?])\s+/).reduce<string[]>((merged, piece) => {
+      if (merged.length > 0 && /^\[\^\d+\]/.test(piece)) merged[merged.length - 1] += piece;
+      else merged.push(piece);
+      return merged;
+    }, []);
+
+    sentences.forEach(sentence => {
+      const cited = FOOTNOTE_REF.test(sentence) || /\]\((\/|https?:)/.test(sentence);
+      if (cited || !NUMERIC_CLAIM.test(plainClaim(sentence))) return;
+      const text = plainClaim(sentence);
+      claims.push({ key: `${section}|${text}`, section, text });
+    });
+  }
+  return claims;
+}
+
+export default {
+  buildSourceCatalog,
+  formatResearchForPrompt,
+  resolveClaimCitations,
+  stripClaimMarkers,
+  findUncitedNumericClaims
+};
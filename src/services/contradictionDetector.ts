@@ -0,0 +1,244 @@
+/**
+ * Contradiction Detector
+ * Flags incompatible budget figures, timelines and decision makers across a session's notes
+ */
+
+import type { DiscoveryNote, QuestionBlock } from '@/types/discovery';
+import { extractEntities } from './templateEngine';
+import { stripAnnotationMarkup } from './noteAnnotations';
+
+export type ContradictionKind = 'budget' | 'timeline' | 'decision_maker';
+
+export interface NoteReference {
+  areaId: string;
+  areaName: string;
+  questionBlockId: string;
+  questionNumber: number;
+  questionText: string;
+  excerpt: string;
+}
+
+export interface Contradiction {
+  id: string;                  // Stable across re-runs so dismissals stick
+  kind: ContradictionKind;
+  summary: string;
+  first: NoteReference;
+  second: NoteReference;
+  clarifyingQuestion: string;
+}
+
+type TimelineSubject = 'decision' | 'go-live';
+
+interface BudgetFact { kind: 'budget'; min: number | null; max: number | null; display: string; ref: NoteReference }
+interface TimelineFact { kind: 'timeline'; subject: TimelineSubject; month: number; display: string; ref: NoteReference }
+interface DecisionMakerFact { kind: 'decision_maker'; person: string; display: string; ref: NoteReference }
+type Fact = BudgetFact | TimelineFact | DecisionMakerFact;
+
+export const CONTRADICTION_LABELS: Record<ContradictionKind, string> = {
+  budget: 'Budget',
+  timeline: 'Timeline',
+  decision_maker: 'Decision maker'
+};
+
+// Budgets this far apart (after allowing for rounding) are treated as incompatible
+const BUDGET_TOLERANCE = 1.25;
+// Timelines at least this many months apart are treated as incompatible
+const TIMELINE_TOLERANCE_MONTHS = 3;
+
+const BUDGET_CONTEXT = /\b(budget\w*|allocated|set aside|approved for|spend up to|can spend|funding|funded)\b/i;
+const NO_BUDGET = /\b(no budget|not budgeted|unbudgeted|unfunded|no funding|budget (?:is|has been) (?:frozen|cut to zero))\b/i;
+const AMOUNT = /[$€£]\s?(\d[\d,.]*)\s*(k|m|mm|million|thousand)?\b|\b(\d[\d,.]*)\s*(k|m|million|thousand)\b/gi;
+const RANGE_JOINER = /^\s*(?:-|–|to|and)\s*$/i;
+
+const DECISION_CONTEXT = /\b(final (?:say|decision|sign[- ]?off)|decision maker|ultimately decides?|makes the call|economic buyer|signs? off on)\b/i;
+
+const DECISION_SUBJECT = /\b(decid\w*|decision|select\w*|choose|choosing|sign the contract|award\w*|purchas\w+|buy)\b/i;
+const GO_LIVE_SUBJECT = /\b(go[- ]live|live|launch\w*|roll ?out|implement\w*|deploy\w*|cut ?over|in production)\b/i;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, six: 6, nine: 9, twelve: 12, eighteen: 18 };
+
+const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+
+const toReference = (note: DiscoveryNote, block: QuestionBlock, excerpt: string): NoteReference => ({
+  areaId: note.areaId,
+  areaName: note.areaName,
+  questionBlockId: block.id,
+  questionNumber: block.questionNumber,
+  questionText: block.questionText,
+  excerpt
+});
+
+const parseAmount = (digits: string, unit?: string): number => {
+  const value = parseFloat(digits.replace(/,/g, ''));
+  const multiplier = !unit ? 1 : /^(k|thousand)$/i.test(unit) ? 1e3 : 1e6;
+  return value * multiplier;
+};
+
+const formatAmount = (value: number): string =>
+  value >= 1e6 ? `$${+(value / 1e6).toFixed(1)}M` : value >= 1e3 ? `$${Math.round(value / 1e3)}K` : `$${value}`;
+
+function parseBudget(sentence: string): Pick<BudgetFact, 'min' | 'max' | 'display'> | null {
+  if (NO_BUDGET.test(sentence)) return { min: null, max: null, display: 'no budget' };
+  if (!BUDGET_CONTEXT.test(sentence)) return null;
+
+  const matches = Array.from(sentence.matchAll(new RegExp(AMOUNT.source, AMOUNT.flags)));
+  if (matches.length === 0) return null;
+
+  const amounts = matches.map(m => parseAmount(m[1] || m[3], m[2] || m[4]));
+  const first = matches[0];
+  const second = matches[1];
+
+  // "$100-150K" or "$100K to $150K" - the unit of the upper bound applies to a bare lower bound
+  if (second && RANGE_JOINER.test(sentence.slice(first.index! + first[0].length, second.index))) {
+    const lower = first[2] || first[4] ? amounts[0] : parseAmount(first[1] || first[3], second[2] || second[4]);
+    return { min: lower, max: amounts[1], display: `${formatAmount(lower)}-${formatAmount(amounts[1])}` };
+  }
+
+  return { min: amounts[0], max: amounts[0], display: formatAmount(amounts[0]) };
+}
+
+/**
+ * Resolve a time reference to an absolute month index (year * 12 + month)
+ */
+function parseTimeline(sentence: string, reference: Date): Pick<TimelineFact, 'month' | 'display'> | null {
+  const now = reference.getFullYear() * 12 + reference.getMonth();
+  const nextOccurrence = (monthOfYear: number, year?: number) => {
+    if (year) return year * 12 + monthOfYear;
+    const thisYear = reference.getFullYear() * 12 + monthOfYear;
+    return thisYear < now ? thisYear + 12 : thisYear;
+  };
+  const toYear = (raw?: string) => raw ? (raw.length === 2 ? 2000 + Number(raw) : Number(raw)) : undefined;
+
+  const quarter = sentence.match(/\bQ([1-4])(?:\s*(?:of\s+)?(?:FY\s*)?'?(\d{4}|\d{2})\b)?/i);
+  if (quarter) {
+    return { month: nextOccurrence(Number(quarter[1]) * 3 - 1, toYear(quarter[2])), display: quarter[0] };
+  }
+
+  const relative = sentence.match(/\b(?:in|within|next)\s+(\d+|a|an|one|two|three|four|six|nine|twelve|eighteen)\s+(weeks?|months?|years?)\b/i);
+  if (relative) {
+    const count = NUMBER_WORDS[relative[1].toLowerCase()] ?? Number(relative[1]);
+    const unit = relative[2].toLowerCase();
+    const months = unit.startsWith('year') ? count * 12 : unit.startsWith('week') ? Math.round(count / 4.3) : count;
+    return { month: now + months, display: relative[0] };
+  }
+
+  // Month names need a preposition so "may" the verb isn't read as a date
+  const named = sentence.match(/\b(?:by|in|before|until|starting|end of)\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?(?:\s+(\d{4}))?\b/i);
+  if (named) {
+    return { month: nextOccurrence(MONTHS.indexOf(named[1].toLowerCase()), toYear(named[2])), display: named[0] };
+  }
+
+  const yearEnd = sentence.match(/\b(end of (?:the )?year|year[- ]end|EOY|by december)\b/i);
+  if (yearEnd) return { month: nextOccurrence(11), display: yearEnd[0] };
+
+  const nextYear = sentence.match(/\bnext year\b/i);
+  if (nextYear) return { month: (reference.getFullYear() + 1) * 12 + 5, display: nextYear[0] };
+
+  return null;
+}
+
+function extractFacts(note: DiscoveryNote, block: QuestionBlock): Fact[] {
+  const facts: Fact[] = [];
+  const reference = new Date(block.timestamp);
+
+  for (const sentence of splitSentences(stripAnnotationMarkup(block.notes))) {
+    const ref = toReference(note, block, sentence);
+
+    const budget = parseBudget(sentence);
+    if (budget) facts.push({ kind: 'budget', ...budget, ref });
+
+    const subject: TimelineSubject | null = DECISION_SUBJECT.test(sentence) ? 'decision'
+      : GO_LIVE_SUBJECT.test(sentence) ? 'go-live' : null;
+    const timeline = subject ? parseTimeline(sentence, isNaN(reference.getTime()) ? new Date() : reference) : null;
+    if (subject && timeline) facts.push({ kind: 'timeline', subject, ...timeline, ref });
+
+    if (DECISION_CONTEXT.test(sentence)) {
+      const person = extractEntities(sentence).find(entity => entity.type === 'person');
+      if (person) facts.push({ kind: 'decision_maker', person: person.value.toLowerCase(), display: person.value, ref });
+    }
+  }
+
+  return facts;
+}
+
+const citation = (ref: NoteReference) => `${ref.areaName} Q${ref.questionNumber}`;
+
+function compare(a: Fact, b: Fact): Omit<Contradiction, 'id' | 'first' | 'second'> | null {
+  if (a.kind === 'budget' && b.kind === 'budget') {
+    const noBudget = a.min === null || b.min === null;
+    if (noBudget && a.min === b.min) return null;
+    if (!noBudget) {
+      const [low, high] = a.max! <= b.max! ? [a, b] : [b, a];
+      if (low.max! * BUDGET_TOLERANCE >= high.min!) return null;
+    }
+    return {
+      kind: 'budget',
+      summary: `Budget stated as ${a.display} (${citation(a.ref)}) but ${b.display} (${citation(b.ref)})`,
+      clarifyingQuestion: `I have ${a.display} from when we discussed ${a.ref.areaName.toLowerCase()}, but ${b.display} from ${b.ref.areaName.toLowerCase()}. Which budget figure should we plan around?`
+    };
+  }
+
+  if (a.kind === 'timeline' && b.kind === 'timeline') {
+    if (a.subject !== b.subject || Math.abs(a.month - b.month) < TIMELINE_TOLERANCE_MONTHS) return null;
+    const label = a.subject === 'decision' ? 'decision' : 'go-live';
+    return {
+      kind: 'timeline',
+      summary: `${label === 'decision' ? 'Decision' : 'Go-live'} timing given as "${a.display}" (${citation(a.ref)}) and "${b.display}" (${citation(b.ref)})`,
+      clarifyingQuestion: `I've heard both "${a.display}" and "${b.display}" for the ${label} date. Which one is the real commitment, and what's driving it?`
+    };
+  }
+
+  if (a.kind === 'decision_maker' && b.kind === 'decision_maker') {
+    if (a.person === b.person) return null;
+    return {
+      kind: 'decision_maker',
+      summary: `Final decision attributed to ${a.display} (${citation(a.ref)}) and ${b.display} (${citation(b.ref)})`,
+      clarifyingQuestion: `You mentioned ${a.display} and also ${b.display} as having the final say. When it comes to signing off, who actually makes the call?`
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Compare every fact against facts from other question blocks. At most one
+ * flag is raised per kind for each pair of blocks.
+ */
+export function detectContradictions(notes: DiscoveryNote[]): Contradiction[] {
+  const facts = notes.flatMap(note => note.questions.flatMap(block => extractFacts(note, block)));
+  const contradictions: Contradiction[] = [];
+
+  for (let i = 0; i < facts.length; i++) {
+    for (let j = i + 1; j < facts.length; j++) {
+      const [a, b] = [facts[i], facts[j]];
+      if (a.kind !== b.kind || a.ref.questionBlockId === b.ref.questionBlockId) continue;
+
+      const id = `${a.kind}:${[a.ref.questionBlockId, b.ref.questionBlockId].sort().join(':')}`;
+      if (contradictions.some(c => c.id === id)) continue;
+
+      const result = compare(a, b);
+      if (result) contradictions.push({ ...result, id, first: a.ref, second: b.ref });
+    }
+  }
+
+  return contradictions;
+}
+
+/**
+ * Markdown section for reports; empty when there is nothing to resolve
+ */
+export function formatContradictionsMarkdown(contradictions: Contradiction[]): string {
+  if (contradictions.length === 0) return '';
+
+  return `## Inconsistencies to Resolve
+${contradictions.map(c => `- **${CONTRADICTION_LABELS[c.kind]}**: ${c.summary}
+  - "${c.first.excerpt}" (${citation(c.first)})
+  - "${c.second.excerpt}" (${citation(c.second)})
+  - Follow-up: ${c.clarifyingQuestion}`).join('\n')}`;
+}
+
+export default {
+  detectContradictions,
+  formatContradictionsMarkdown
+};
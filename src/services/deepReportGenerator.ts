@@ -1,5 +1,5 @@
 // Enhanced Deep Research Report Generation Engine
-// Multi-call research pipeline with cross-sectional analysis
+// Deep research reports as a report pipeline: context inference, Perplexity research, GPT evaluation, HTML and saving
 
 import { generateReport } from './openai';
 import type { EnhancedAssessmentData, ContextInferences, ResearchResult } from '@/types/assessment';
@@ -10,21 +10,20 @@ import { enhanceAssessmentData, extractSuccessMetrics } from '@/lib/dataHelpers'
 import { compileResearchTargets } from '@/lib/assessment/input-compiler';
 import { executeResearch } from '@/lib/assessment/research-engine';
 import { synthesizeReport } from '@/lib/assessment/report-synthesizer';
-import { formatHTMLReport } from '@/lib/assessment/report-formatter';
-
-// Progress tracking for the new system
-export interface DeepResearchProgress {
-  type: 'start' | 'progress' | 'complete' | 'report' | 'error';
-  message?: string;
-  step?: string;
-  phase?: 'researching' | 'complete';
-  duration?: number;
-  html?: string;
-  metrics?: {
-    tokens: number;
-    duration: number;
-  };
-}
+import { runReportPipeline, type ReportEngineOptions, type ReportPipeline, type ReportPipelineProgress, type RunPipelineOptions } from './reportPipeline';
+import { renderReportHtml } from './reportExport';
+import {
+  applySectionLayout,
+  buildSectionInstructions,
+  generatedSections,
+  includesSection,
+  resolveReportTemplate,
+  sectionTitle,
+  templateExportOptions,
+  templatePitch,
+  type ReportTemplate,
+  type TemplatedInput
+} from './reportTemplates';
 
 // Enhanced report generation result
 export interface DeepReportGenerationResult {
@@ -86,113 +85,87 @@ class OpenAIService {
   }
 }
 
-// Main Deep Research Engine
-export class DeepReportGenerationEngine {
-  private progressCallback?: (progress: DeepResearchProgress) => void;
-  private openai: OpenAIService;
-  private startTime: number = 0;
-
-  constructor(progressCallback?: (progress: DeepResearchProgress) => void) {
-    this.progressCallback = progressCallback;
-    this.openai = new OpenAIService();
-  }
-
-  private sendProgress(progress: DeepResearchProgress) {
-    if (this.progressCallback) {
-      this.progressCallback(progress);
-    }
-  }
-
-  async generateDeepResearchReport(data: any): Promise<DeepReportGenerationResult> {
-    console.log('🎯 DeepReportGenerator: Starting generation');
-    console.log('📊 Input data keys:', Object.keys(data));
-    console.log('🏢 Company:', data.company);
-    console.log('💼 Business Type:', data.businessType);
-    
-    this.startTime = Date.now();
-    let totalTokens = 0;
-    const phasesCompleted: string[] = [];
-
-    try {
-      // Send initial status
-      console.log('📢 Sending initial progress status');
-      this.sendProgress({
-        type: 'start',
-        message: 'Analyzing your business context...'
-      });
+// What each stage of a deep research report produces
+export interface DeepReportOutputs {
+  context_inference: ContextInferences;
+  research: string;                                  // Raw Perplexity research; empty when it failed
+  synthesis: { results: ResearchResult[]; tokens: number };
+  formatting: string;                                // Report HTML
+  persistence: ReportRecord | null;
+}
 
-      // Save assessment to database first
-      try {
-        const assessmentRecord = convertToAssessmentRecord(data);
-        const { error } = await supabase
-          .from('assessments')
-          .upsert(assessmentRecord);
-          
-        if (error) {
-          console.warn('Assessment save failed:', error);
-          // Continue anyway - don't block report generation
-        } else {
-          console.log('✅ Assessment saved to database');
+export const deepReportPipeline: ReportPipeline<EnhancedAssessmentData & TemplatedInput, DeepReportOutputs> = {
+  engine: 'deep_research',
+  version: 1,
+  runId: (data) => `deep_research_${data.sessionId || data.company || 'draft'}`,
+  stages: {
+    context_inference: {
+      message: 'Analyzing your business context...',
+      weight: 10,
+      run: async ({ input: data }) => {
+        // Save assessment to database first
+        try {
+          const assessmentRecord = convertToAssessmentRecord(data);
+          const { error } = await supabase
+            .from('assessments')
+            .upsert(assessmentRecord);
+            
+          if (error) {
+            console.warn('Assessment save failed:', error);
+            // Continue anyway - don't block report generation
+          } else {
+            console.log('✅ Assessment saved to database');
+          }
+        } catch (err) {
+          console.warn('Assessment save error:', err);
+          // Continue with report generation
         }
-      } catch (err) {
-        console.warn('Assessment save error:', err);
-        // Continue with report generation
-      }
 
-      // STEP 1: Infer business context and multiplier effects
-      console.log('🧠 STEP 1: Inferring business context...');
-      const contextInferences = await inferBusinessContext(data);
-      console.log('✅ Context inferences:', contextInferences);
-      phasesCompleted.push('context_inference');
-
-      // STEP 2: Execute Perplexity research to gather real-world data
-      console.log('🔍 STEP 2: Starting Perplexity research...');
-      this.sendProgress({
-        type: 'progress',
-        step: 'Researching industry benchmarks and solutions...',
-        phase: 'researching'
-      });
-
-      let perplexityResearchContent = '';
-      try {
-        console.log('📋 Compiling research targets...');
+        // Infer business context and multiplier effects
+        const contextInferences = await inferBusinessContext(data);
+        console.log('✅ Context inferences:', contextInferences);
+        return contextInferences;
+      }
+    },
+    research: {
+      message: 'Researching industry benchmarks and solutions...',
+      weight: 50,
+      run: async ({ input: data, outputs }) => {
         const researchTargets = compileResearchTargets(data);
         console.log('🎯 Research targets:', researchTargets);
-        
-        console.log('🌐 Calling Perplexity API via executeResearch...');
-        perplexityResearchContent = await executeResearch(researchTargets, data, contextInferences);
-        console.log('✅ Perplexity research completed successfully');
-        console.log('📄 Research content length:', perplexityResearchContent.length);
-        phasesCompleted.push('perplexity_research');
-      } catch (error) {
-        console.error('❌ Perplexity research failed:', error);
-        console.error('Stack trace:', error.stack);
-        // Continue without Perplexity research if it fails
-      }
 
-      // STEP 3: Use Perplexity research directly with GPT evaluation
-      let researchResults: ResearchResult[] = [];
-      
-      if (perplexityResearchContent) {
-        console.log('✅ Using Perplexity research directly (no template synthesis)');
-        
-        // Send progress update for evaluation
-        this.sendProgress({
-          type: 'progress',
-          step: 'Evaluating and formatting research findings...',
-          phase: 'researching'
-        });
+        const research = await executeResearch(researchTargets, data, outputs.context_inference);
+        console.log('📄 Research content length:', research.length);
+        return research;
+      },
+      // Continue without Perplexity research if it fails
+      fallback: () => ''
+    },
+    synthesis: {
+      message: 'Evaluating and formatting research findings...',
+      weight: 30,
+      run: async ({ input: data, outputs }) => {
+        const perplexityResearchContent = outputs.research;
+        if (!perplexityResearchContent) {
+          console.warn('⚠️ No Perplexity research available - using fallback');
+          return {
+            results: [{ name: 'fallback', content: 'Research analysis temporarily unavailable due to technical constraints.' }],
+            tokens: 0
+          };
+        }
 
-        try {
-          // Use GPT only for evaluation and formatting
-          const evaluationPrompt = `You are a report evaluator and GABI positioning specialist.
+        // Use GPT only for evaluation and formatting
+        const template = resolveReportTemplate(data.report_template);
+        const evaluationPrompt = `You are a report evaluator and positioning specialist for ${template.companyName}.
 
 TASK:
 1. EVALUATE if the Perplexity research below is complete and actionable
 2. FORMAT it properly as markdown with clear sections
-3. ADD GABI competitive advantage using the GABI Framework at the end
+${includesSection(template, 'competitive_differentiation')
+    ? `3. ADD ${template.companyName}'s competitive advantage at the end, using this positioning: ${templatePitch(template, data.company || 'the client')}`
+    : '3. Leave out vendor positioning; this report is neutral'}
 
-GABI Framework Context:
+Client Context:
 - Business Type: ${data.businessType || 'Technology Service Provider'}
 - Opportunity Area: ${data.opportunityFocus || 'Business Growth'}
 - Challenge: ${data.challenges || 'Process Optimization'}
@@ -202,145 +175,143 @@ GABI Framework Context:
 PERPLEXITY RESEARCH TO EVALUATE:
 ${perplexityResearchContent}
 
-FORMAT as a comprehensive business intelligence report with these sections:
-# Executive Summary
-# Current State Analysis  
-# Solution Recommendations
-# Implementation Roadmap
-# Expected ROI & Impact
-# GABI Competitive Advantage
-# Next Steps`;
+FORMAT as a comprehensive business intelligence report with these sections, in this order:
+${generatedSections(template).map(section => `# ${sectionTitle(template, section.id)}`).join('\n')}
 
-          const response = await this.openai.chat([
-            { role: 'system', content: 'You are an expert business analyst and report formatter.' },
-            { role: 'user', content: evaluationPrompt }
-          ]);
+What each section covers:
+${buildSectionInstructions(template)}`;
 
-          const evaluatedContent = response.choices[0].message.content;
-          totalTokens += response.usage?.total_tokens || 0;
+        const response = await new OpenAIService().chat([
+          { role: 'system', content: 'You are an expert business analyst and report formatter.' },
+          { role: 'user', content: evaluationPrompt }
+        ]);
 
-          researchResults.push({
-            name: 'perplexity_evaluation',
-            content: evaluatedContent
-          });
-
-          phasesCompleted.push('perplexity_evaluation');
-
-        } catch (error: any) {
-          console.error('GPT evaluation failed:', error);
-          // Fall back to using raw Perplexity research
-          researchResults.push({
-            name: 'perplexity_research',
-            content: perplexityResearchContent
-          });
-        }
-
-      } else {
-        console.warn('⚠️ No Perplexity research available - using fallback');
-        researchResults.push({
-          name: 'fallback',
-          content: 'Research analysis temporarily unavailable due to technical constraints.'
+        return {
+          results: [{ name: 'perplexity_evaluation', content: response.choices[0].message.content }],
+          tokens: response.usage?.total_tokens || 0
+        };
+      },
+      // Fall back to using raw Perplexity research
+      fallback: (_error, { outputs }) => ({
+        results: [{ name: 'perplexity_research', content: outputs.research }],
+        tokens: 0
+      })
+    },
+    formatting: {
+      message: 'Formatting your report...',
+      weight: 5,
+      run: async ({ input: data, outputs }) => {
+        // Use the evaluated content directly as the report
+        const synthesizedReport = outputs.synthesis.results[0]?.content || 'No research data available.';
+        const businessName = data.company || data.businessName || 'Your Company';
+        const template = resolveReportTemplate(data.report_template);
+        return renderReportHtml({
+          title: template.cover.title,
+          subtitle: template.cover.subtitle,
+          meta: [{ label: 'Company', value: businessName }, { label: 'Date', value: new Date().toLocaleDateString() }],
+          // Raw research (the synthesis fallback) comes back in whatever order Perplexity wrote it
+          markdown: applySectionLayout(synthesizedReport, template),
+          ...templateExportOptions(template)
         });
       }
-
-      // Use the evaluated content directly as the report
-      const synthesizedReport = researchResults.length > 0 ? researchResults[0].content : 'No research data available.';
-      console.log('✅ Using Perplexity research directly, length:', synthesizedReport.length);
-      
-      // STEP 4: Format as HTML
-      console.log('🎨 STEP 4: Formatting as HTML...');
-      const businessName = data.company || data.businessName || 'Your Company';
-      const finalReportHtml = formatHTMLReport(synthesizedReport, businessName);
-      console.log('✅ HTML formatting completed, length:', finalReportHtml.length);
-
-      // STEP 5: Save to database if possible
-      try {
+    },
+    persistence: {
+      message: 'Saving report...',
+      weight: 5,
+      run: async ({ input: data, outputs, startedAt }) => {
+        const researchResults = outputs.synthesis.results;
         const reportRecord: Omit<ReportRecord, 'id'> = {
           assessment_id: data.sessionId || '',
           report_data: {
             research_results: researchResults,
-            context_inferences: contextInferences,
+            context_inferences: outputs.context_inference,
             enhanced_data: data
           },
-          executive_summary: this.extractExecutiveSummary(researchResults),
-          confidence_score: this.calculateOverallConfidence(researchResults),
-          generation_time_ms: Date.now() - this.startTime,
-          tokens_used: totalTokens,
+          executive_summary: extractExecutiveSummary(researchResults),
+          confidence_score: calculateOverallConfidence(researchResults),
+          generation_time_ms: Date.now() - startedAt,
+          tokens_used: outputs.synthesis.tokens,
           model_version: 'gpt-4o-deep-research',
           status: 'generated'
         };
 
-        await saveReport(reportRecord);
-      } catch (saveError) {
-        console.warn('Could not save report to database:', saveError);
-        // Continue without database save
-      }
-
-      // Send final report
-      this.sendProgress({
-        type: 'report',
-        html: finalReportHtml,
-        metrics: {
-          tokens: totalTokens,
-          duration: (Date.now() - this.startTime) / 1000
-        }
-      });
+        return saveReport(reportRecord);
+      },
+      // Continue without database save
+      fallback: () => null
+    }
+  }
+};
 
-      return {
-        success: true,
-        reportHtml: finalReportHtml,
-        metadata: {
-          totalTokens,
-          duration: Date.now() - this.startTime,
-          confidence: this.calculateOverallConfidence(researchResults),
-          phases: phasesCompleted
-        }
-      };
+// Main Deep Research Engine
+export class DeepReportGenerationEngine {
+  private progressCallback?: (progress: ReportPipelineProgress) => void;
+  private options: Omit<RunPipelineOptions, 'onProgress'>;
+  private template: ReportTemplate;
+
+  constructor(
+    progressCallback?: (progress: ReportPipelineProgress) => void,
+    { template, ...options }: ReportEngineOptions = {}
+  ) {
+    this.progressCallback = progressCallback;
+    this.options = options;
+    this.template = resolveReportTemplate(template);
+  }
 
-    } catch (error: any) {
-      console.error('Deep report generation failed:', error);
-      
-      this.sendProgress({
-        type: 'error',
-        message: error.message || 'Report generation failed'
-      });
+  // Resumes a failed run for the same session from its last good stage
+  async generateDeepResearchReport(data: any): Promise<DeepReportGenerationResult> {
+    console.log('🎯 DeepReportGenerator: Starting generation for', data.company);
 
+    const run = await runReportPipeline(deepReportPipeline, { ...data, report_template: this.template }, {
+      ...this.options,
+      onProgress: this.progressCallback
+    });
+    const researchResults = run.outputs.synthesis?.results || [];
+    const metadata = {
+      totalTokens: run.outputs.synthesis?.tokens || 0,
+      duration: run.duration_ms,
+      confidence: run.status === 'completed' ? calculateOverallConfidence(researchResults) : 0,
+      phases: run.completedStages
+    };
+
+    if (run.status !== 'completed') {
       return {
         success: false,
-        error: error.message || 'Unknown error occurred',
-        metadata: {
-          totalTokens,
-          duration: Date.now() - this.startTime,
-          confidence: 0,
-          phases: phasesCompleted
-        }
+        error: run.error || 'Unknown error occurred',
+        metadata
       };
     }
-  }
 
-
-  private extractExecutiveSummary(results: ResearchResult[]): string {
-    const roiResult = results.find(r => r.name === 'ROI_ANALYSIS');
-    if (roiResult) {
-      // Extract first paragraph or summary from ROI analysis
-      const lines = roiResult.content.split('\n').filter(line => line.trim());
-      return lines.slice(0, 3).join(' ').substring(0, 500);
-    }
-    return 'Comprehensive AI transformation analysis completed with detailed recommendations.';
+    return {
+      success: true,
+      reportHtml: run.outputs.formatting,
+      metadata
+    };
   }
+}
 
-  private calculateOverallConfidence(results: ResearchResult[]): number {
-    // Base confidence on successful completion of research steps
-    const completedSteps = results.filter(r => r.content && !r.content.includes('temporarily unavailable'));
-    return Math.min(0.95, (completedSteps.length / RESEARCH_SEQUENCE.length) * 0.9 + 0.1);
+function extractExecutiveSummary(results: ResearchResult[]): string {
+  const roiResult = results.find(r => r.name === 'ROI_ANALYSIS');
+  if (roiResult) {
+    // Extract first paragraph or summary from ROI analysis
+    const lines = roiResult.content.split('\n').filter(line => line.trim());
+    return lines.slice(0, 3).join(' ').substring(0, 500);
   }
+  return 'Comprehensive AI transformation analysis completed with detailed recommendations.';
+}
+
+function calculateOverallConfidence(results: ResearchResult[]): number {
+  // Base confidence on successful completion of research steps
+  const completedSteps = results.filter(r => r.content && !r.content.includes('temporarily unavailable'));
+  return Math.min(0.95, (completedSteps.length / RESEARCH_SEQUENCE.length) * 0.9 + 0.1);
 }
 
 // Factory function
 export const createDeepReportGenerator = (
-  progressCallback?: (progress: DeepResearchProgress) => void
+  progressCallback?: (progress: ReportPipelineProgress) => void,
+  options?: ReportEngineOptions
 ): DeepReportGenerationEngine => {
-  return new DeepReportGenerationEngine(progressCallback);
+  return new DeepReportGenerationEngine(progressCallback, options);
 };
 
 // Utility to convert enhanced data to assessment record for compatibility
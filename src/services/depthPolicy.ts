@@ -0,0 +1,221 @@
+/**
+ * Elicitation Depth Policies
+ * Declarative per-organization, per-methodology rules for questioning depth and completion
+ */
+
+import { QUALITY_DIMENSIONS, RUBRIC_MAX_SCORE, RUBRIC_PASS_SCORE, type DimensionScores, type QualityDimension } from './noteQualityRubric';
+import type { MethodologyId, MethodologyPack } from './methodologyPacks';
+
+export interface StopCondition {
+  // Stop probing once every listed dimension reaches minScore
+  dimensions: QualityDimension[];
+  minScore: number;
+}
+
+export interface AreaDepthRule {
+  minDepth: number;
+  maxDepth: number;
+}
+
+export interface ElicitationPolicy extends AreaDepthRule {
+  areaOverrides: Record<string, Partial<AreaDepthRule>>;
+  requiredAreas: string[];
+  // Any satisfied condition ends questioning in an area once minDepth is met
+  stopWhen: StopCondition[];
+  // Total question blocks for the session; null means the sum of per-area minimums
+  assessmentTarget: number | null;
+}
+
+// What an organization stores: a default plus per-methodology overrides, all partial
+export type ElicitationPolicyOverrides = Partial<ElicitationPolicy>;
+
+export interface OrganizationElicitationPolicy {
+  default?: ElicitationPolicyOverrides;
+  methodologies?: Partial<Record<MethodologyId, ElicitationPolicyOverrides>>;
+}
+
+export const DEFAULT_ELICITATION_POLICY: ElicitationPolicy = {
+  minDepth: 2,
+  maxDepth: 5,
+  areaOverrides: {},
+  requiredAreas: [],
+  stopWhen: [],
+  assessmentTarget: null
+};
+
+// Hard ceiling - matches the deepest template in ELICITATION_PATTERNS plus a synthesis question
+export const ABSOLUTE_MAX_DEPTH = 10;
+
+const mergePolicy = (base: ElicitationPolicy, overrides?: ElicitationPolicyOverrides): ElicitationPolicy => {
+  if (!overrides) return base;
+  return {
+    ...base,
+    ...overrides,
+    areaOverrides: { ...base.areaOverrides, ...(overrides.areaOverrides || {}) },
+    requiredAreas: overrides.requiredAreas ?? base.requiredAreas,
+    stopWhen: overrides.stopWhen ?? base.stopWhen
+  };
+};
+
+/**
+ * Effective policy for a session: built-in defaults, then the methodology pack,
+ * then the organization default, then the organization's methodology override
+ */
+export function resolveElicitationPolicy(
+  methodology: MethodologyPack,
+  organizationPolicy?: OrganizationElicitationPolicy | null
+): ElicitationPolicy {
+  const fromMethodology = mergePolicy(DEFAULT_ELICITATION_POLICY, {
+    minDepth: methodology.completeness.minQuestionsPerArea,
+    requiredAreas: methodology.completeness.requiredAreas
+  });
+
+  return mergePolicy(
+    mergePolicy(fromMethodology, organizationPolicy?.default),
+    organizationPolicy?.methodologies?.[methodology.id]
+  );
+}
+
+export function getAreaDepthRule(policy: ElicitationPolicy, area?: string): AreaDepthRule {
+  const override = area ? policy.areaOverrides[area] : undefined;
+  const minDepth = override?.minDepth ?? policy.minDepth;
+  return { minDepth, maxDepth: Math.max(minDepth, override?.maxDepth ?? policy.maxDepth) };
+}
+
+/**
+ * Total question blocks expected across the methodology's areas
+ */
+export function getPolicyAssessmentTarget(policy: ElicitationPolicy, areas: string[]): number {
+  if (policy.assessmentTarget !== null) return policy.assessmentTarget;
+  return areas.reduce((sum, area) => sum + getAreaDepthRule(policy, area).minDepth, 0);
+}
+
+export function isStopConditionMet(
+  policy: ElicitationPolicy,
+  scores: DimensionScores
+): StopCondition | undefined {
+  return policy.stopWhen.find(condition =>
+    condition.dimensions.length > 0 &&
+    condition.dimensions.every(dimension => scores[dimension].score >= condition.minScore)
+  );
+}
+
+/**
+ * Discovery is complete once the total target is met and every required area
+ * has reached its minimum depth
+ */
+export function isDiscoveryComplete(
+  policy: ElicitationPolicy,
+  areas: string[],
+  questionsPerArea: Record<string, number>
+): boolean {
+  const total = Object.values(questionsPerArea).reduce((sum, count) => sum + count, 0);
+  if (total < getPolicyAssessmentTarget(policy, areas)) return false;
+
+  return policy.requiredAreas.every(area => (questionsPerArea[area] || 0) >= getAreaDepthRule(policy, area).minDepth);
+}
+
+const isDepth = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= ABSOLUTE_MAX_DEPTH;
+
+/**
+ * Validate a stored or hand-edited policy override. Returns the list of problems;
+ * an empty list means the override is safe to save.
+ */
+export function validatePolicyOverrides(overrides: unknown, label = 'policy'): string[] {
+  if (overrides === undefined) return [];
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    return [`${label} must be an object`];
+  }
+
+  const policy = overrides as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (policy.minDepth !== undefined && !isDepth(policy.minDepth)) errors.push(`${label}.minDepth must be 0-${ABSOLUTE_MAX_DEPTH}`);
+  if (policy.maxDepth !== undefined && !isDepth(policy.maxDepth)) errors.push(`${label}.maxDepth must be 0-${ABSOLUTE_MAX_DEPTH}`);
+  if (isDepth(policy.minDepth) && isDepth(policy.maxDepth) && policy.minDepth > policy.maxDepth) {
+    errors.push(`${label}.minDepth cannot exceed maxDepth`);
+  }
+
+  if (policy.requiredAreas !== undefined &&
+      (!Array.isArray(policy.requiredAreas) || policy.requiredAreas.some(area => typeof area !== 'string'))) {
+    errors.push(`${label}.requiredAreas must be a list of area names`);
+  }
+
+  if (policy.assessmentTarget !== undefined && policy.assessmentTarget !== null &&
+      !(Number.isInteger(policy.assessmentTarget) && (policy.assessmentTarget as number) > 0)) {
+    errors.push(`${label}.assessmentTarget must be a positive whole number or null`);
+  }
+
+  if (policy.stopWhen !== undefined) {
+    if (!Array.isArray(policy.stopWhen)) {
+      errors.push(`${label}.stopWhen must be a list`);
+    } else {
+      policy.stopWhen.forEach((condition: Record<string, unknown>, index) => {
+        const dims = condition?.dimensions;
+        if (!Array.isArray(dims) || dims.length === 0 || dims.some(d => !QUALITY_DIMENSIONS.includes(d as QualityDimension))) {
+          errors.push(`${label}.stopWhen[${index}].dimensions must list ${QUALITY_DIMENSIONS.join(', ')}`);
+        }
+        const minScore = condition?.minScore;
+        if (!Number.isInteger(minScore) || (minScore as number) < 0 || (minScore as number) > RUBRIC_MAX_SCORE) {
+          errors.push(`${label}.stopWhen[${index}].minScore must be 0-${RUBRIC_MAX_SCORE}`);
+        }
+      });
+    }
+  }
+
+  if (policy.areaOverrides !== undefined) {
+    if (!policy.areaOverrides || typeof policy.areaOverrides !== 'object' || Array.isArray(policy.areaOverrides)) {
+      errors.push(`${label}.areaOverrides must be an object keyed by area name`);
+    } else {
+      Object.entries(policy.areaOverrides as Record<string, Record<string, unknown>>).forEach(([area, rule]) => {
+        if (rule?.minDepth !== undefined && !isDepth(rule.minDepth)) errors.push(`${label}.areaOverrides["${area}"].minDepth must be 0-${ABSOLUTE_MAX_DEPTH}`);
+        if (rule?.maxDepth !== undefined && !isDepth(rule.maxDepth)) errors.push(`${label}.areaOverrides["${area}"].maxDepth must be 0-${ABSOLUTE_MAX_DEPTH}`);
+      });
+    }
+  }
+
+  return errors;
+}
+
+export function validateOrganizationPolicy(raw: unknown): string[] {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return ['Policy must be an object'];
+  const { default: defaults, methodologies } = raw as OrganizationElicitationPolicy;
+
+  const errors = validatePolicyOverrides(defaults, 'default');
+  if (methodologies !== undefined) {
+    if (!methodologies || typeof methodologies !== 'object') {
+      errors.push('methodologies must be an object keyed by methodology id');
+    } else {
+      Object.entries(methodologies).forEach(([id, overrides]) => {
+        errors.push(...validatePolicyOverrides(overrides, `methodologies.${id}`));
+      });
+    }
+  }
+  return errors;
+}
+
+// Example shown to principals when no policy has been saved yet
+export const EXAMPLE_ORGANIZATION_POLICY: OrganizationElicitationPolicy = {
+  default: {
+    minDepth: 2,
+    maxDepth: 5,
+    stopWhen: [{ dimensions: ['requirements', 'quantification'], minScore: RUBRIC_PASS_SCORE }]
+  },
+  methodologies: {
+    meddicc: {
+      requiredAreas: ['Metrics', 'Economic Buyer', 'Decision Process'],
+      areaOverrides: { 'Economic Buyer': { minDepth: 3 } }
+    }
+  }
+};
+
+export default {
+  DEFAULT_ELICITATION_POLICY,
+  resolveElicitationPolicy,
+  getAreaDepthRule,
+  getPolicyAssessmentTarget,
+  isStopConditionMet,
+  isDiscoveryComplete,
+  validateOrganizationPolicy
+};
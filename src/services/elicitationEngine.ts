@@ -3,12 +3,56 @@
  * Implements depth algorithms and note quality assessment
  */
 
+import {
+  scoreNotesLocally,
+  getOverallQuality,
+  RUBRIC_PASS_SCORE,
+  type DimensionScores,
+  type NoteLexicon,
+  type QualityDimension
+} from './noteQualityRubric';
+import {
+  renderTemplate,
+  buildClarificationQuestion,
+  createEntityStore,
+  type EntityStore,
+  type TemplateContext,
+  type RenderedTemplate,
+  type UnresolvedSlot
+} from './templateEngine';
+import {
+  DEFAULT_ELICITATION_POLICY,
+  getAreaDepthRule,
+  isStopConditionMet,
+  type ElicitationPolicy
+} from './depthPolicy';
+
 export interface NoteQuality {
   hasUncoveredComplexity: boolean;
   hasSpecificRequirements: boolean;
   hasQuantification: boolean;
   hasTechnicalDetail: boolean;
   overallQuality: 'high' | 'medium' | 'low';
+  dimensions: DimensionScores;
+  scoredBy: 'model' | 'local';
+}
+
+/**
+ * Build a NoteQuality result from rubric dimension scores
+ */
+export function toNoteQuality(
+  dimensions: DimensionScores,
+  scoredBy: NoteQuality['scoredBy']
+): NoteQuality {
+  return {
+    hasUncoveredComplexity: dimensions.complexity.score >= RUBRIC_PASS_SCORE,
+    hasSpecificRequirements: dimensions.requirements.score >= RUBRIC_PASS_SCORE,
+    hasQuantification: dimensions.quantification.score >= RUBRIC_PASS_SCORE,
+    hasTechnicalDetail: dimensions.technicalDetail.score >= RUBRIC_PASS_SCORE,
+    overallQuality: getOverallQuality(dimensions),
+    dimensions,
+    scoredBy
+  };
 }
 
 export interface ElicitationContext {
@@ -21,46 +65,57 @@ export interface ElicitationContext {
 }
 
 export class ElicitationDepthManager {
-  private readonly MAX_DEPTH = 5;
-  private readonly MIN_DEPTH = 2;
+  private readonly policy: ElicitationPolicy;
+  private readonly lexicon?: NoteLexicon;
+
+  // lexicon: the session language's signal terms, see services/locales
+  constructor(policy: ElicitationPolicy = DEFAULT_ELICITATION_POLICY, lexicon?: NoteLexicon) {
+    this.policy = policy;
+    this.lexicon = lexicon;
+  }
+
+  getPolicy(): ElicitationPolicy {
+    return this.policy;
+  }
 
   /**
    * Determines if we should continue deeper questioning
    */
   shouldContinueQuestioning(
     currentDepth: number,
-    noteQuality: NoteQuality
+    noteQuality: NoteQuality,
+    area?: string
   ): boolean {
-    // Always allow at least 2 questions per area
-    if (currentDepth < this.MIN_DEPTH) return true;
+    const { minDepth, maxDepth } = getAreaDepthRule(this.policy, area);
+
+    // Always reach the policy minimum for the area
+    if (currentDepth < minDepth) return true;
     
-    // Stop at 5 to prevent rabbit holes
-    if (currentDepth >= this.MAX_DEPTH) return false;
+    // Stop at the policy maximum to prevent rabbit holes
+    if (currentDepth >= maxDepth) return false;
     
-    // Intelligence: Continue if we've uncovered complexity but lack specifics
-    return noteQuality.hasUncoveredComplexity && 
-           !noteQuality.hasSpecificRequirements;
+    const { dimensions } = noteQuality;
+
+    // The organization has declared the area good enough
+    if (isStopConditionMet(this.policy, dimensions)) return false;
+
+    // Complexity surfaced but not yet pinned down to requirements or numbers
+    if (dimensions.complexity.score >= RUBRIC_PASS_SCORE &&
+        (dimensions.requirements.score < RUBRIC_PASS_SCORE ||
+         dimensions.quantification.score < RUBRIC_PASS_SCORE)) {
+      return true;
+    }
+
+    // Otherwise keep going only while the area is still thin overall
+    return noteQuality.overallQuality === 'low';
   }
 
   /**
-   * Assess the quality of notes to determine questioning depth
+   * Assess the quality of notes with the deterministic local rubric scorer.
+   * Use gradeNoteQuality in services/openai for model-graded scores.
    */
   assessNoteQuality(notes: string): NoteQuality {
-    const complexity = /critical|urgent|blocked|failed|risk|challenge|issue|problem/i.test(notes);
-    const requirements = /must have|need|require|essential|mandatory|critical/i.test(notes);
-    const quantification = /\d+\s*(hours?|days?|weeks?|months?|dollars?|USD|\$|%|percent)/i.test(notes);
-    const technical = /system|API|database|workflow|integration|platform|architecture|infrastructure/i.test(notes);
-    
-    // Calculate overall quality score
-    const score = [complexity, requirements, quantification, technical].filter(Boolean).length;
-    
-    return {
-      hasUncoveredComplexity: complexity,
-      hasSpecificRequirements: requirements,
-      hasQuantification: quantification,
-      hasTechnicalDetail: technical,
-      overallQuality: score >= 3 ? 'high' : score >= 2 ? 'medium' : 'low'
-    };
+    return toNoteQuality(scoreNotesLocally(notes, this.lexicon), 'local');
   }
 
   /**
@@ -70,27 +125,84 @@ export class ElicitationDepthManager {
     if (depth === 0) {
       return "Initial exploration - broad but specific to their context";
     }
-    
-    if (!quality.hasQuantification) {
-      return "Probe for specific metrics, numbers, timeframes";
-    }
-    
-    if (!quality.hasTechnicalDetail) {
-      return "Dig into technical specifics and system details";
-    }
-    
-    if (!quality.hasSpecificRequirements) {
-      return "Extract concrete requirements and must-haves";
+
+    const weakest = this.getWeakestDimension(quality);
+    if (!weakest) {
+      return "Synthesize and confirm understanding";
     }
-    
-    if (quality.hasUncoveredComplexity) {
-      return "Explore the complexity - what makes this challenging?";
+
+    const { justification } = quality.dimensions[weakest];
+    const guidance = DEPTH_GUIDANCE[weakest];
+    return justification ? `${guidance} (${justification})` : guidance;
+  }
+
+  /**
+   * Lowest-scoring dimension below the pass mark, in rubric priority order
+   */
+  getWeakestDimension(quality: NoteQuality): QualityDimension | null {
+    let weakest: QualityDimension | null = null;
+    for (const dimension of GUIDANCE_PRIORITY) {
+      const score = quality.dimensions[dimension].score;
+      if (score >= RUBRIC_PASS_SCORE) continue;
+      if (!weakest || score < quality.dimensions[weakest].score) {
+        weakest = dimension;
+      }
     }
-    
-    return "Synthesize and confirm understanding";
+    return weakest;
   }
 }
 
+// Order in which gaps are probed when dimensions tie
+const GUIDANCE_PRIORITY: QualityDimension[] = [
+  'quantification',
+  'technicalDetail',
+  'requirements',
+  'complexity'
+];
+
+const DEPTH_GUIDANCE: Record<QualityDimension, string> = {
+  quantification: "Probe for specific metrics, numbers, timeframes",
+  technicalDetail: "Dig into technical specifics and system details",
+  requirements: "Extract concrete requirements and must-haves",
+  complexity: "Explore the complexity - what makes this challenging?"
+};
+
+/**
+ * Depth-indexed question templates for a single discovery area
+ */
+export interface DepthTemplates {
+  depth0: string;
+  depth1: string;
+  depth2: string;
+  depth3: string;
+  depth4: string;
+}
+
+/**
+ * Rules used by calculateDiscoveryCompleteness to decide coverage and gaps
+ */
+export interface CompletenessRules {
+  minQuestionsPerArea: number;
+  requiredAreas: string[];
+  // Dimensions that must reach the rubric pass mark in every area...
+  defaultDimensions: QualityDimension[];
+  // ...unless overridden for a specific area
+  areaDimensions?: Record<string, QualityDimension[]>;
+}
+
+export const DEFAULT_COMPLETENESS_RULES: CompletenessRules = {
+  minQuestionsPerArea: 2,
+  requiredAreas: [],
+  defaultDimensions: ['quantification']
+};
+
+const DIMENSION_GAPS: Record<QualityDimension, string> = {
+  quantification: 'Missing quantification/metrics',
+  technicalDetail: 'Needs technical specifics',
+  requirements: 'Needs concrete requirements',
+  complexity: 'Root causes not yet explored'
+};
+
 /**
  * Universal elicitation areas for all B2B services
  * These are the 8 core discovery categories that apply across all industries and services
@@ -109,7 +221,7 @@ export const UNIVERSAL_ELICITATION_AREAS = [
 /**
  * Elicitation patterns for each universal discovery area
  */
-export const ELICITATION_PATTERNS = {
+export const ELICITATION_PATTERNS: Record<string, DepthTemplates> = {
   "Current State Assessment": {
     depth0: "Walk me through how [business area from context] operates today?",
     depth1: "What systems, processes, or tools currently handle [specific process mentioned]?",
@@ -176,66 +288,144 @@ export const ELICITATION_PATTERNS = {
 };
 
 /**
- * Generate question progression guidance
+ * Alternative phrasings for ELICITATION_PATTERNS. The question effectiveness
+ * ranking picks between the base template and these using recorded outcomes.
+ */
+export const ELICITATION_PATTERN_VARIANTS: Record<string, Partial<Record<keyof DepthTemplates, string[]>>> = {
+  "Current State Assessment": {
+    depth1: ["Which tools does your team open first thing when [specific process mentioned] kicks off?"],
+    depth2: ["Take the last time [specific scenario from notes] happened - what did each step look like and how long did it take?"]
+  },
+
+  "Pain Points & Challenges": {
+    depth1: ["If you added up the hours lost to [specific pain mentioned] last month, what would the number be?"],
+    depth3: ["If [business metric] kept trending the way it is for another two quarters, what would break first?"]
+  },
+
+  "Desired Future State": {
+    depth1: ["Describe [specific process mentioned] on a good day a year from now - what's different?"]
+  },
+
+  "Constraints & Requirements": {
+    depth1: ["Where does [specific requirement mentioned] come from - [compliance/regulatory concern], a customer contract, or internal policy?"],
+    depth2: ["If a solution met [specific requirement] only partially at launch, would that be a blocker or a phase-two item?"]
+  },
+
+  "Decision Process & Timeline": {
+    depth1: ["When [specific stakeholder mentioned] compares options, what will they look at first?"],
+    depth2: ["Walk me through the last purchase of this size - who signed, and how long did it take from first call to contract?"]
+  },
+
+  "Budget & Resources": {
+    depth1: ["Has a figure been set aside for [solution scope], or will this need a business case first?"],
+    depth3: ["Who has to say yes before [specific amount range] can be committed?"]
+  },
+
+  "Success Metrics": {
+    depth1: ["What number would you put in front of leadership to show [outcome mentioned] was achieved?"],
+    depth2: ["Where does the baseline for [specific metric] come from today, and how much do you trust it?"]
+  },
+
+  "Stakeholders & Politics": {
+    depth1: ["What would [specific stakeholder mentioned] need to hear to actively support this?"]
+  }
+};
+
+export interface QuestionProgression {
+  question: string;            // Rendered template text
+  depth: number;               // Depth of the template actually used
+  rendered: RenderedTemplate;
+  unresolved: UnresolvedSlot[];
+  // Set when no template for the area could be fully resolved
+  clarification?: string;
+}
+
+const DEPTH_KEYS: Array<keyof DepthTemplates> = ['depth0', 'depth1', 'depth2', 'depth3', 'depth4'];
+
+/**
+ * Generate question progression guidance.
+ * Prefers the template for the current depth; if its placeholders can't all be
+ * filled from the entity store, tries deeper then shallower templates (never
+ * falling back to the opener) before asking for clarification.
  */
 export function getQuestionProgression(
   area: string,
   depth: number,
-  previousNotes: string[]
-): string {
-  const patterns = ELICITATION_PATTERNS[area as keyof typeof ELICITATION_PATTERNS];
-  if (!patterns) return "Tell me more about this area.";
-  
-  const depthKey = `depth${depth}` as keyof typeof patterns;
-  let template = patterns[depthKey] || patterns.depth0;
-  
-  // Replace placeholders with actual context from notes
-  if (previousNotes.length > 0) {
-    const lastNote = previousNotes[previousNotes.length - 1];
-    
-    // Extract key terms from previous notes
-    const systemMatch = lastNote.match(/\b([A-Z][a-zA-Z]+(?:\s+[A-Z][a-zA-Z]+)*)\b/);
-    const numberMatch = lastNote.match(/\d+\s*(?:hours?|days?|dollars?|\$|%)/);
-    const painMatch = lastNote.match(/(?:challenge|issue|problem|bottleneck|pain):\s*([^.]+)/i);
-    
-    if (systemMatch) {
-      template = template.replace(/\[specific system mentioned\]/, systemMatch[0]);
-      template = template.replace(/\[system A\]/, systemMatch[0]);
-    }
-    
-    if (numberMatch) {
-      template = template.replace(/\[specific amount mentioned\]/, numberMatch[0]);
-    }
-    
-    if (painMatch) {
-      template = template.replace(/\[specific pain mentioned\]/, painMatch[1]);
+  entities: EntityStore = createEntityStore(),
+  patternSet: Record<string, DepthTemplates> = ELICITATION_PATTERNS,
+  context: TemplateContext = {}
+): QuestionProgression {
+  const patterns = patternSet[area];
+  if (!patterns) {
+    const rendered = renderTemplate("Tell me more about this area.", entities, { area, context });
+    return { question: rendered.text, depth, rendered, unresolved: [] };
+  }
+
+  const target = Math.min(Math.max(depth, 0), DEPTH_KEYS.length - 1);
+  // The opener is only used at depth 0, and depth 0 has no alternatives
+  const candidates = target === 0 ? [0] : [
+    target,
+    ...DEPTH_KEYS.map((_, i) => i).filter(i => i > target),
+    ...DEPTH_KEYS.map((_, i) => i).filter(i => i < target && i > 0).reverse()
+  ];
+
+  const primary = renderTemplate(patterns[DEPTH_KEYS[target]] || patterns.depth0, entities, { area, context });
+  if (primary.unresolved.length === 0) {
+    return { question: primary.text, depth: target, rendered: primary, unresolved: [] };
+  }
+
+  for (const candidate of candidates.slice(1)) {
+    const rendered = renderTemplate(patterns[DEPTH_KEYS[candidate]], entities, { area, context });
+    if (rendered.unresolved.length === 0) {
+      return { question: rendered.text, depth: candidate, rendered, unresolved: [] };
     }
   }
-  
-  return template;
+
+  return {
+    question: primary.text,
+    depth: target,
+    rendered: primary,
+    unresolved: primary.unresolved,
+    clarification: buildClarificationQuestion(primary.unresolved, area)
+  };
 }
 
 /**
- * Calculate discovery completeness
+ * Calculate discovery completeness. An organization policy, when given,
+ * overrides the per-area minimums and required areas from the rules.
  */
 export function calculateDiscoveryCompleteness(
-  notesPerArea: Map<string, string[]>
+  notesPerArea: Map<string, string[]>,
+  rules: CompletenessRules = DEFAULT_COMPLETENESS_RULES,
+  policy?: ElicitationPolicy
 ): {
   percentage: number;
   quality: 'high' | 'medium' | 'low';
   gaps: string[];
 } {
-  const depthManager = new ElicitationDepthManager();
+  const depthManager = new ElicitationDepthManager(policy);
+  const minQuestionsFor = (area: string) =>
+    policy ? getAreaDepthRule(policy, area).minDepth : rules.minQuestionsPerArea;
+  const requiredAreas = policy ? policy.requiredAreas : rules.requiredAreas;
   let totalQuality = 0;
   let totalAreas = 0;
   const gaps: string[] = [];
+
+  // Required areas that haven't been touched at all
+  for (const area of requiredAreas) {
+    if (!notesPerArea.has(area)) {
+      totalAreas++;
+      gaps.push(`${area}: Not yet explored (required)`);
+    }
+  }
   
   // Check each area
   for (const [area, notes] of notesPerArea) {
     totalAreas++;
     
-    if (notes.length < 2) {
-      gaps.push(`${area}: Needs more exploration (${notes.length}/2 minimum)`);
+    const minQuestions = minQuestionsFor(area);
+    if (notes.length < minQuestions) {
+      gaps.push(`${area}: Needs more exploration (${notes.length}/${minQuestions} minimum)`);
     } else {
       // Assess combined note quality
       const combinedNotes = notes.join(' ');
@@ -246,17 +436,17 @@ export function calculateDiscoveryCompleteness(
       else totalQuality += 1;
       
       // Check for specific missing elements
-      if (!quality.hasQuantification) {
-        gaps.push(`${area}: Missing quantification/metrics`);
-      }
-      if (!quality.hasTechnicalDetail && area.includes('Tech')) {
-        gaps.push(`${area}: Needs technical specifics`);
+      const expected = rules.areaDimensions?.[area] || rules.defaultDimensions;
+      for (const dimension of expected) {
+        if (quality.dimensions[dimension].score < RUBRIC_PASS_SCORE) {
+          gaps.push(`${area}: ${DIMENSION_GAPS[dimension]}`);
+        }
       }
     }
   }
   
   const maxQuality = totalAreas * 3;
-  const percentage = Math.round((totalQuality / maxQuality) * 100);
+  const percentage = maxQuality > 0 ? Math.round((totalQuality / maxQuality) * 100) : 0;
   
   return {
     percentage,
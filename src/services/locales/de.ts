@@ -0,0 +1,255 @@
+/**
+ * German (Deutsch) discovery catalog
+ */
+
+import type { LocaleCatalog } from './index';
+
+const joinList = (items: string[]): string =>
+  items.length === 1 ? items[0] : `${items.slice(0, -1).join(', ')} und ${items[items.length - 1]}`;
+
+export const GERMAN_CATALOG: LocaleCatalog = {
+  areaNames: {
+    'Current State Assessment': 'Ist-Zustand',
+    'Pain Points & Challenges': 'Schmerzpunkte & Herausforderungen',
+    'Desired Future State': 'Gewünschter Soll-Zustand',
+    'Constraints & Requirements': 'Rahmenbedingungen & Anforderungen',
+    'Decision Process & Timeline': 'Entscheidungsprozess & Zeitplan',
+    'Budget & Resources': 'Budget & Ressourcen',
+    'Success Metrics': 'Erfolgskennzahlen',
+    'Stakeholders & Politics': 'Stakeholder & Interessenlage'
+  },
+
+  areaPrompts: {
+    'Current State Assessment': {
+      description: 'Verstehen, wie heute gearbeitet wird - Systeme, Prozesse und Abläufe',
+      initialQuestions: [
+        'Können Sie mir beschreiben, wie dieser Bereich heute funktioniert?',
+        'Welche Systeme, Prozesse oder Tools unterstützen das aktuell?',
+        'Wie läuft der Prozess im Alltag tatsächlich ab?'
+      ]
+    },
+    'Pain Points & Challenges': {
+      description: 'Herausfinden, was nicht funktioniert, ineffizient ist oder Probleme verursacht',
+      initialQuestions: [
+        'Was sind in diesem Bereich Ihre größten Engpässe oder Ärgernisse?',
+        'Wo hakt es, oder wo braucht es Workarounds?',
+        'Welche Probleme tauchen immer wieder auf?'
+      ]
+    },
+    'Desired Future State': {
+      description: 'Vision und Ziele für den idealen Soll-Zustand verstehen',
+      initialQuestions: [
+        'Woran würden Sie in 12 Monaten Erfolg erkennen?',
+        'Wenn Sie es sich aussuchen könnten - wie würde das idealerweise funktionieren?',
+        'Welche Fähigkeiten hätten Sie gern, die Ihnen heute fehlen?'
+      ]
+    },
+    'Constraints & Requirements': {
+      description: 'Unverzichtbare Anforderungen und einschränkende Faktoren erfassen',
+      initialQuestions: [
+        'Welche Anforderungen muss jede Lösung unbedingt erfüllen?',
+        'Welche regulatorischen, Compliance- oder internen Vorgaben gelten?',
+        'Innerhalb welcher technischen oder geschäftlichen Grenzen müssen wir arbeiten?'
+      ]
+    },
+    'Decision Process & Timeline': {
+      description: 'Entscheidungsprozess und Zeitplan nachvollziehen',
+      initialQuestions: [
+        'Wer muss eine Lösung oder Änderung freigeben?',
+        'Nach welchen Kriterien werden die Optionen bewertet?',
+        'Welcher Zeitrahmen ist für die Entscheidung vorgesehen?'
+      ]
+    },
+    'Budget & Resources': {
+      description: 'Budgetrahmen und verfügbare Ressourcen verstehen',
+      initialQuestions: [
+        'Welcher Budgetrahmen wurde für diese Initiative besprochen?',
+        'Wie denken Sie über ROI und die Rechtfertigung der Kosten?',
+        'Welche internen Ressourcen stehen zur Verfügung?'
+      ]
+    },
+    'Success Metrics': {
+      description: 'Festlegen, wie Erfolg aussieht und wie er gemessen wird',
+      initialQuestions: [
+        'Wie werden Sie den Erfolg dieser Initiative messen?',
+        'Welche konkreten Kennzahlen oder Ergebnisse streben Sie an?',
+        'Wie messen Sie die Leistung in diesem Bereich heute?'
+      ]
+    },
+    'Stakeholders & Politics': {
+      description: 'Verstehen, wer Entscheidungen beeinflusst und wie die Organisation tickt',
+      initialQuestions: [
+        'Wer wäre noch von Änderungen in diesem Bereich betroffen?',
+        'Welche Gruppen oder Abteilungen haben ein Interesse daran, wie das funktioniert?',
+        'Welche internen Dynamiken könnten den Erfolg von Änderungen beeinflussen?'
+      ]
+    }
+  },
+
+  elicitationPatterns: {
+    'Current State Assessment': {
+      depth0: 'Können Sie mir beschreiben, wie [business area from context] heute abläuft?',
+      depth1: 'Welche Systeme, Prozesse oder Tools unterstützen derzeit [specific process mentioned]?',
+      depth2: 'Wenn [specific scenario from notes] eintritt - wie sieht der Ablauf Schritt für Schritt aus?',
+      depth3: 'Was passiert bei [edge case scenario] - wer wird eingebunden und wie sieht der Workaround aus?',
+      depth4: 'Wenn ich Ihr Team einen Tag lang begleiten würde, was würde mich daran überraschen, wie es wirklich läuft?'
+    },
+    'Pain Points & Challenges': {
+      depth0: 'Was ist der größte Engpass oder das größte Ärgernis in [business area from context]?',
+      depth1: 'Wie viel Zeit oder Geld kostet Sie [specific pain mentioned] pro Monat?',
+      depth2: 'Wann ist dieses Problem zum ersten Mal aufgetreten, und was hat es ausgelöst?',
+      depth3: 'Was würde mit [business metric] passieren, wenn das in 6 Monaten nicht behoben ist?',
+      depth4: 'Wer ist intern am stärksten betroffen, wenn [specific pain point] auftritt?'
+    },
+    'Desired Future State': {
+      depth0: 'Woran würden Sie in 12 Monaten Erfolg in [business area from context] erkennen?',
+      depth1: 'Wenn Sie freie Hand hätten - wie würde [specific process mentioned] idealerweise funktionieren?',
+      depth2: 'Welche Fähigkeiten hätten Sie gern, die Ihnen heute fehlen?',
+      depth3: 'Wie würde [specific improvement] den Arbeitsalltag Ihres Teams verändern?',
+      depth4: 'Was wäre möglich, wenn [constraint mentioned] kein Thema mehr wäre?'
+    },
+    'Constraints & Requirements': {
+      depth0: 'Welche Anforderungen muss jede Lösung unbedingt erfüllen?',
+      depth1: 'Wie hängt [specific requirement mentioned] mit [compliance/regulatory concern] zusammen?',
+      depth2: 'Was passiert, wenn [specific requirement] nicht exakt wie vorgegeben erfüllt werden kann?',
+      depth3: 'Bei welcher Anforderung würden Sie im Zweifel zuerst Abstriche machen?',
+      depth4: 'Welche Einschränkungen sind nicht offensichtlich, könnten ein Projekt später aber ausbremsen?'
+    },
+    'Decision Process & Timeline': {
+      depth0: 'Wer muss eine Lösung für [solution scope] freigeben?',
+      depth1: 'Nach welchen Kriterien wird [specific stakeholder mentioned] die Optionen bewerten?',
+      depth2: 'Wie ist es beim letzten Mal gelaufen, als Sie eine ähnliche Entscheidung getroffen haben?',
+      depth3: 'Welche internen Interessen oder konkurrierenden Prioritäten könnten die Entscheidung beeinflussen?',
+      depth4: 'Wenn [key stakeholder] Nein sagt - wie sieht der Eskalationsweg aus?'
+    },
+    'Budget & Resources': {
+      depth0: 'Was kostet es Sie heute, [problem state from context] aufrechtzuerhalten?',
+      depth1: 'Welcher Budgetrahmen wurde für [solution scope] besprochen?',
+      depth2: 'Wie verhält sich [specific budget mentioned] zum Budget anderer Initiativen?',
+      depth3: 'Wer entscheidet über die Freigabe von [specific amount range]?',
+      depth4: 'Was würde es rechtfertigen, das ursprüngliche Budget um 20-30 % zu überschreiten?'
+    },
+    'Success Metrics': {
+      depth0: 'Woran werden Sie den Erfolg in den ersten 90 Tagen messen?',
+      depth1: 'Welche konkrete Zahl oder Kennzahl würde [outcome mentioned] belegen?',
+      depth2: 'Wie erfassen Sie [specific metric] heute, und wo liegt der Ausgangswert?',
+      depth3: 'Was würde dieses Projekt trotz erreichter Zielwerte zum Misserfolg machen?',
+      depth4: 'Wie würde [specific stakeholder] einen echten Durchbruch von bloßer Zielerreichung unterscheiden?'
+    },
+    'Stakeholders & Politics': {
+      depth0: 'Wer wäre noch von Änderungen in [business area from context] betroffen?',
+      depth1: 'Wer aus [specific stakeholder mentioned] würde sich am stärksten gegen Veränderungen wehren, und warum?',
+      depth2: 'Welche Gruppen oder Abteilungen haben in diesem Bereich gegensätzliche Interessen?',
+      depth3: 'Wer hat sich an ähnlichen Initiativen in der Vergangenheit schon die Finger verbrannt?',
+      depth4: 'Welche unausgesprochenen Dynamiken könnten über Erfolg oder Scheitern entscheiden?'
+    }
+  },
+
+  icpQuestions: {
+    'Aerospace/Defense': {
+      tech: 'Welche Zertifizierungsanforderungen (DO-178, RTCA) gelten für Ihre Systeme?',
+      process: 'Wie steuern Sie heute Konfigurations- und Versionsmanagement?',
+      validation: 'Wie gehen Sie bei der Validierung sicherheitskritischer Systeme vor?'
+    },
+    'Healthcare/Medical': {
+      compliance: 'Welche Compliance-Anforderungen (HIPAA, FDA, SOX) betreffen Ihre aktuellen Systeme?',
+      integration: 'Wie integrieren Sie heute Patientendaten über Systemgrenzen hinweg?',
+      workflow: 'Welche Erfahrungen haben Sie mit der Automatisierung klinischer Abläufe?'
+    },
+    'Automotive': {
+      connectivity: 'Wie gehen Sie an Fahrzeugvernetzung und Datenmanagement heran?',
+      safety: 'Welche Normen zur funktionalen Sicherheit (ISO 26262) müssen Sie erfüllen?',
+      supply: 'Wie sieht Ihre Strategie für Transparenz und Steuerung der Lieferkette aus?'
+    },
+    'IoT/Industrial': {
+      protocols: 'Über welche Protokolle kommunizieren Ihre Geräte derzeit?',
+      edge: 'Wie entscheiden Sie zwischen Verarbeitung am Edge und in der Cloud?',
+      lifecycle: 'Wie sieht Ihre Strategie für das Lebenszyklusmanagement der Geräte aus?'
+    },
+    'Construction': {
+      tracking: 'Wie erfassen Sie heute die Auslastung von Geräten und Ressourcen?',
+      safety: 'Welche Anforderungen an Arbeitssicherheit und Berichtswesen haben Sie?',
+      collaboration: 'Wie organisieren Sie die Projektzusammenarbeit über mehrere Baustellen hinweg?'
+    },
+    'Precision Agriculture': {
+      sensors: 'Welche Sensoren und Datenerfassung setzen Sie auf dem Feld ein?',
+      analytics: 'Wie werten Sie Ertrags- und Optimierungsdaten aus?',
+      integration: 'Wie wollen Sie bestehende Farm-Management-Systeme anbinden?'
+    },
+    'Financial Services': {
+      compliance: 'Welche regulatorischen Anforderungen (PCI DSS, SOX) gelten für Sie?',
+      processing: 'Wie handhaben Sie Transaktionsverarbeitung und Abstimmung in Echtzeit?',
+      security: 'Wie gehen Sie bei Betrugserkennung und Sicherheit vor?'
+    },
+    'Education Technology': {
+      privacy: 'Wie erfüllen Sie die Datenschutzanforderungen für Schülerdaten (FERPA, DSGVO)?',
+      integration: 'Mit welchen bestehenden Lernmanagementsystemen müssen Sie sich integrieren?',
+      analytics: 'Wie messen Sie Lernfortschritt und Lernergebnisse?'
+    }
+  },
+
+  slotTypeLabels: {
+    system: 'System',
+    process: 'Prozess',
+    metric: 'Zahl oder Kennzahl',
+    pain: 'Problem',
+    person: 'Person oder Rolle',
+    constraint: 'Anforderung',
+    context: 'Kontext'
+  },
+
+  clarification: (needed, area) => needed.length === 0
+    ? `Können Sie mir mehr über ${area} erzählen?`
+    : `Bevor wir bei ${area} tiefer einsteigen: Worauf genau sollten wir uns konzentrieren (${joinList(needed)})?`,
+
+  wrapUp: area =>
+    `Bevor wir ${area} abschließen: Gibt es etwas, das wir noch nicht besprochen haben und das Ihre Priorisierung verändern würde?`,
+
+  reportHeadings: {
+    title: 'Discovery-Analysebericht',
+    executiveSummary: 'Zusammenfassung für die Geschäftsleitung',
+    opportunityQualification: 'Bewertung der Opportunity',
+    keyRiskFactors: 'Wesentliche Risikofaktoren',
+    recommendedApproach: 'Empfohlener Lösungsansatz',
+    nextSteps: 'Empfehlungen für die nächsten Schritte',
+    competitiveDifferentiation: 'Differenzierung im Wettbewerb',
+    appendix: 'Anhang: Abdeckung der Discovery'
+  },
+
+  lexicon: {
+    problemTerms: [
+      'kritisch\\p{L}*', 'dringend\\p{L}*', 'blockiert\\p{L}*', 'fehlgeschlagen\\p{L}*', 'scheiter\\p{L}*', 'risiko', 'risiken',
+      'herausforderung\\p{L}*', 'problem\\p{L}*', 'engpass', 'engpässe\\p{L}*', 'verzöger\\p{L}*', 'ausfall', 'ausfälle\\p{L}*',
+      'workaround\\p{L}*', 'rückstau', 'abwanderung', 'eskal\\p{L}+', 'manuell\\p{L}*', 'fehler\\p{L}*'
+    ],
+    causalTerms: ['weil', 'aufgrund', 'wegen', 'deshalb', 'daher', 'dadurch', 'führt zu', 'führen zu', 'was bedeutet', 'sodass', 'so dass', 'infolgedessen'],
+    hardRequirementTerms: [
+      'muss', 'müssen', 'darf nicht', 'dürfen nicht', 'zwingend\\p{L}*', 'verpflichtend\\p{L}*', 'erforderlich\\p{L}*',
+      'vorgeschrieben\\p{L}*', 'unverzichtbar\\p{L}*', 'nicht verhandelbar', 'kann nicht', 'können nicht', 'spätestens', 'konform mit'
+    ],
+    softRequirementTerms: ['brauchen', 'braucht', 'benötig\\p{L}*', 'möchten', 'möchte', 'wünsch\\p{L}*', 'hätten gern', 'bevorzug\\p{L}*', 'suchen nach'],
+    priorityTerms: ['priorität\\p{L}*', 'oberste', 'wichtigste\\p{L}*', 'zuerst', 'nice to have', 'k\\.?\\s?o\\.?-kriterium', 'ausschlusskriterium'],
+    units: [
+      'prozent', 'stunden?', 'std\\.?', 'tage?n?', 'wochen?', 'monate?n?', 'jahre?n?', 'minuten?', 'min\\.?', 'euro', '€', 'eur',
+      'tsd\\.?', 'mio\\.?', 'millionen?', 'mrd\\.?', 'milliarden?', 'mitarbeite\\p{L}*', 'personen', 'nutzer\\p{L}*', 'tickets?',
+      'aufträge\\p{L}*', 'bestellungen', 'standorte?n?', 'werke?n?', 'stück', 'mal'
+    ],
+    baselineTerms: ['ausgangswert', 'derzeit', 'aktuell', 'heute', 'bisher', 'von \\d', 'ziel\\p{L}*', 'reduzier\\p{L}*', 'senk\\p{L}*', 'steiger\\p{L}*', 'erhöh\\p{L}*', 'gegenüber'],
+    genericTechTerms: [
+      'system\\p{L}*', 'datenbank\\p{L}*', 'schnittstelle\\p{L}*', 'plattform\\p{L}*', 'architektur', 'infrastruktur', 'software',
+      'werkzeug\\p{L}*', 'tabelle\\p{L}*', 'anwendung\\p{L}*', 'server', 'prozess\\p{L}*', 'ablauf', 'abläufe', 'arbeitsablauf\\p{L}*'
+    ],
+    techRelationTerms: [
+      'synchronisier\\p{L}*', 'export\\p{L}*', 'import\\p{L}*', 'übertr\\p{L}+', 'angebunden', 'anbind\\p{L}*', 'integrier\\p{L}*',
+      'schnittstelle\\p{L}*', 'stapelverarbeitung', 'echtzeit', 'nächtlich\\p{L}*', 'manuell (?:erfasst|eingegeben|übertragen)', 'kopier\\p{L}*', 'doppelt\\p{L}*'
+    ],
+    spaceDelimited: true
+  },
+
+  // Processes are mostly compounds ("Freigabeprozess"), and the verb of a requirement comes last
+  slotPatterns: {
+    process: /(?<!\p{L})\p{L}+(?:prozess|workflow|ablauf|abläufe|übergabe|abgleich|verfahren)\p{L}*/giu,
+    pain: /(?<!\p{L})(?:herausforderung|problem|engpass|schwierigkeit)(?:\s+(?:ist|sind|war),?|:)\s+(?:dass\s+)?([^.;\n]+)|(?<!\p{L})(?:probleme|schwierigkeiten|ärger|kämpfen)\s+mit\s+([^.;\n]+)/giu,
+    constraint: /(?<!\p{L})(?:muss|müssen|darf nicht|dürfen nicht|kann nicht|können nicht)\s+([^.,;\n]+?)(?=\s+(?:und|aber|weil|denn)(?!\p{L})|[.,;\n]|$)/giu
+  }
+};
@@ -0,0 +1,255 @@
+/**
+ * Spanish (Español) discovery catalog
+ */
+
+import type { LocaleCatalog } from './index';
+
+const joinList = (items: string[]): string =>
+  items.length === 1 ? items[0] : `${items.slice(0, -1).join(', ')} y ${items[items.length - 1]}`;
+
+export const SPANISH_CATALOG: LocaleCatalog = {
+  areaNames: {
+    'Current State Assessment': 'Situación actual',
+    'Pain Points & Challenges': 'Problemas y desafíos',
+    'Desired Future State': 'Situación futura deseada',
+    'Constraints & Requirements': 'Restricciones y requisitos',
+    'Decision Process & Timeline': 'Proceso de decisión y plazos',
+    'Budget & Resources': 'Presupuesto y recursos',
+    'Success Metrics': 'Métricas de éxito',
+    'Stakeholders & Politics': 'Partes interesadas y política interna'
+  },
+
+  areaPrompts: {
+    'Current State Assessment': {
+      description: 'Entender cómo operan hoy: sistemas, procesos y flujos de trabajo',
+      initialQuestions: [
+        '¿Me puede explicar cómo funciona esta área hoy en día?',
+        '¿Qué sistemas, procesos o herramientas se encargan de esto actualmente?',
+        '¿Cómo funciona realmente el flujo de trabajo en el día a día?'
+      ]
+    },
+    'Pain Points & Challenges': {
+      description: 'Identificar qué no funciona, qué es ineficiente o qué causa problemas',
+      initialQuestions: [
+        '¿Cuáles son sus mayores cuellos de botella o frustraciones en esta área?',
+        '¿Dónde se rompen las cosas o hacen falta soluciones provisionales?',
+        '¿Qué problemas se repiten una y otra vez?'
+      ]
+    },
+    'Desired Future State': {
+      description: 'Entender su visión y objetivos para la situación ideal',
+      initialQuestions: [
+        '¿Cómo sería el éxito dentro de 12 meses?',
+        'Si pudiera diseñarlo desde cero, ¿cómo funcionaría idealmente?',
+        '¿Qué capacidades le gustaría tener que hoy no tiene?'
+      ]
+    },
+    'Constraints & Requirements': {
+      description: 'Recoger los requisitos innegociables y los factores limitantes',
+      initialQuestions: [
+        '¿Cuáles son los requisitos innegociables para cualquier solución?',
+        '¿Qué restricciones regulatorias, de cumplimiento o de políticas internas aplican?',
+        '¿Dentro de qué límites técnicos o de negocio tenemos que trabajar?'
+      ]
+    },
+    'Decision Process & Timeline': {
+      description: 'Mapear su proceso de toma de decisiones y sus plazos',
+      initialQuestions: [
+        '¿Quién tiene que aprobar cualquier solución o cambio?',
+        '¿Qué criterios se usarán para evaluar las opciones?',
+        '¿Con qué plazos trabajan para tomar la decisión?'
+      ]
+    },
+    'Budget & Resources': {
+      description: 'Entender las restricciones de presupuesto y los recursos disponibles',
+      initialQuestions: [
+        '¿Qué rango de presupuesto se ha hablado para esta iniciativa?',
+        '¿Cómo están pensando en el ROI y la justificación del coste?',
+        '¿Qué recursos internos tienen disponibles?'
+      ]
+    },
+    'Success Metrics': {
+      description: 'Definir cómo se ve el éxito y cómo se medirá',
+      initialQuestions: [
+        '¿Cómo medirán el éxito de esta iniciativa?',
+        '¿Qué métricas o resultados concretos persiguen?',
+        '¿Cómo miden hoy el rendimiento en esta área?'
+      ]
+    },
+    'Stakeholders & Politics': {
+      description: 'Entender quién influye en las decisiones y la dinámica de la organización',
+      initialQuestions: [
+        '¿A quién más afectarían los cambios en esta área?',
+        '¿Qué grupos o departamentos tienen intereses en cómo funciona esto?',
+        '¿Qué dinámicas internas podrían influir en el éxito de los cambios?'
+      ]
+    }
+  },
+
+  elicitationPatterns: {
+    'Current State Assessment': {
+      depth0: '¿Me puede explicar cómo funciona hoy [business area from context]?',
+      depth1: '¿Qué sistemas, procesos o herramientas se encargan actualmente de [specific process mentioned]?',
+      depth2: 'Cuando ocurre [specific scenario from notes], ¿cuál es el flujo de trabajo actual paso a paso?',
+      depth3: '¿Qué pasa cuando se da [edge case scenario]? ¿Quién interviene y cuál es la solución provisional?',
+      depth4: 'Si acompañara a su equipo durante un día, ¿qué me sorprendería de cómo funciona esto realmente?'
+    },
+    'Pain Points & Challenges': {
+      depth0: '¿Cuál es el mayor cuello de botella o frustración en [business area from context]?',
+      depth1: '¿Cuánto tiempo o dinero les cuesta [specific pain mentioned] al mes?',
+      depth2: '¿Cuándo apareció este problema por primera vez y qué lo desencadenó?',
+      depth3: '¿Qué le pasaría a [business metric] si esto no se resuelve en 6 meses?',
+      depth4: '¿Quién es el más afectado internamente cuando ocurre [specific pain point]?'
+    },
+    'Desired Future State': {
+      depth0: '¿Cómo sería el éxito para [business area from context] dentro de 12 meses?',
+      depth1: 'Si pudiera diseñarlo a su medida, ¿cómo funcionaría idealmente [specific process mentioned]?',
+      depth2: '¿Qué capacidades le gustaría tener que hoy no tiene?',
+      depth3: '¿Cómo cambiaría [specific improvement] el día a día de su equipo?',
+      depth4: '¿Qué sería posible si [constraint mentioned] dejara de ser un problema?'
+    },
+    'Constraints & Requirements': {
+      depth0: '¿Cuáles son los requisitos innegociables para cualquier solución?',
+      depth1: '¿Cómo se relaciona [specific requirement mentioned] con [compliance/regulatory concern]?',
+      depth2: '¿Qué pasa si [specific requirement] no se puede cumplir exactamente como está especificado?',
+      depth3: 'Si tuviera que elegir, ¿en qué requisito cedería primero?',
+      depth4: '¿Qué restricciones no son evidentes pero podrían descarrilar un proyecto más adelante?'
+    },
+    'Decision Process & Timeline': {
+      depth0: '¿Quién tiene que aprobar una solución para [solution scope]?',
+      depth1: '¿Qué criterios usará [specific stakeholder mentioned] para evaluar las opciones?',
+      depth2: '¿Qué pasó la última vez que tomaron una decisión similar?',
+      depth3: '¿Qué política interna o prioridades en competencia podrían afectar a esta decisión?',
+      depth4: 'Si [key stakeholder] dice que no, ¿cuál es la vía de escalado?'
+    },
+    'Budget & Resources': {
+      depth0: '¿Cuánto les cuesta mantener la situación actual de [problem state from context]?',
+      depth1: '¿Qué rango de presupuesto se ha hablado para [solution scope]?',
+      depth2: '¿Cómo se compara [specific budget mentioned] con la financiación de otras iniciativas?',
+      depth3: '¿Quién controla la aprobación de un presupuesto de [specific amount range]?',
+      depth4: '¿Qué justificaría superar el presupuesto inicial en un 20-30 %?'
+    },
+    'Success Metrics': {
+      depth0: '¿Cómo medirán el éxito en los primeros 90 días?',
+      depth1: '¿Qué número o métrica concreta indicaría [outcome mentioned]?',
+      depth2: '¿Cómo miden hoy [specific metric] y cuál es el punto de partida?',
+      depth3: '¿Qué haría que este proyecto fuera un fracaso aun alcanzando las métricas objetivo?',
+      depth4: '¿Cómo distinguiría [specific stakeholder] un éxito rotundo de simplemente cumplir los objetivos?'
+    },
+    'Stakeholders & Politics': {
+      depth0: '¿A quién más afectarían los cambios en [business area from context]?',
+      depth1: '¿Quién de [specific stakeholder mentioned] se resistiría más al cambio y por qué?',
+      depth2: '¿Qué grupos o departamentos tienen intereses contrapuestos en esta área?',
+      depth3: '¿Quién ha salido escaldado de iniciativas similares en el pasado?',
+      depth4: '¿Qué dinámicas no expresadas podrían influir en que esto salga bien o mal?'
+    }
+  },
+
+  icpQuestions: {
+    'Aerospace/Defense': {
+      tech: '¿Qué requisitos de certificación (DO-178, RTCA) aplican a sus sistemas?',
+      process: '¿Cómo gestionan actualmente la configuración y el control de versiones?',
+      validation: '¿Cómo abordan la validación de sistemas críticos para la seguridad?'
+    },
+    'Healthcare/Medical': {
+      compliance: '¿Qué requisitos de cumplimiento (HIPAA, FDA, SOX) afectan a sus sistemas actuales?',
+      integration: '¿Cómo integran hoy los datos de pacientes entre sistemas?',
+      workflow: '¿Qué experiencia tienen con la automatización de flujos clínicos?'
+    },
+    'Automotive': {
+      connectivity: '¿Cómo están abordando la conectividad del vehículo y la gestión de datos?',
+      safety: '¿Qué normas de seguridad funcional (ISO 26262) deben cumplir?',
+      supply: '¿Cuál es su estrategia de visibilidad y gestión de la cadena de suministro?'
+    },
+    'IoT/Industrial': {
+      protocols: '¿Qué protocolos usan actualmente sus dispositivos para comunicarse?',
+      edge: '¿Cómo deciden entre procesamiento en el edge y en la nube?',
+      lifecycle: '¿Cuál es su estrategia para la gestión del ciclo de vida de los dispositivos?'
+    },
+    'Construction': {
+      tracking: '¿Cómo controlan hoy el uso de equipos y recursos?',
+      safety: '¿Qué requisitos de seguridad laboral y de reporte tienen?',
+      collaboration: '¿Cómo organizan la colaboración entre obras?'
+    },
+    'Precision Agriculture': {
+      sensors: '¿Qué tipos de sensores y recogida de datos usan en el campo?',
+      analytics: '¿Cómo analizan los datos de rendimiento y optimización?',
+      integration: '¿Cuál es su estrategia para integrarse con los sistemas de gestión agrícola existentes?'
+    },
+    'Financial Services': {
+      compliance: '¿Qué requisitos regulatorios (PCI DSS, SOX) tienen que cumplir?',
+      processing: '¿Cómo gestionan el procesamiento de transacciones y la conciliación en tiempo real?',
+      security: '¿Cómo abordan la detección de fraude y la seguridad?'
+    },
+    'Education Technology': {
+      privacy: '¿Cómo gestionan los requisitos de privacidad de datos de estudiantes (FERPA, RGPD)?',
+      integration: '¿Con qué sistemas de gestión del aprendizaje existentes necesitan integrarse?',
+      analytics: '¿Cómo miden la analítica del aprendizaje y los resultados?'
+    }
+  },
+
+  slotTypeLabels: {
+    system: 'sistema',
+    process: 'proceso',
+    metric: 'cifra o métrica',
+    pain: 'problema',
+    person: 'persona o rol',
+    constraint: 'requisito',
+    context: 'contexto'
+  },
+
+  clarification: (needed, area) => needed.length === 0
+    ? `¿Me puede contar algo más sobre ${area.toLowerCase()}?`
+    : `Antes de profundizar en ${area.toLowerCase()}, ¿qué ${joinList(needed)} en concreto deberíamos priorizar?`,
+
+  wrapUp: area =>
+    `Antes de dejar ${area.toLowerCase()}, ¿hay algo que no hayamos tratado que cambiaría cómo lo priorizaría?`,
+
+  reportHeadings: {
+    title: 'Informe de análisis de discovery',
+    executiveSummary: 'Resumen ejecutivo',
+    opportunityQualification: 'Cualificación de la oportunidad',
+    keyRiskFactors: 'Principales factores de riesgo',
+    recommendedApproach: 'Enfoque de solución recomendado',
+    nextSteps: 'Recomendaciones de próximos pasos',
+    competitiveDifferentiation: 'Diferenciación competitiva',
+    appendix: 'Anexo: cobertura del discovery'
+  },
+
+  lexicon: {
+    problemTerms: [
+      'crític[oa]s?', 'urgente\\p{L}*', 'bloquead[oa]s?', 'bloqueo\\p{L}*', 'fall[oóa]\\p{L}*', 'riesgos?', 'desafíos?', 'retos?',
+      'problemas?', 'cuellos? de botella', 'retras\\p{L}*', 'caída\\p{L}*', 'interrupci\\p{L}+', 'solución provisional',
+      'atascos?', 'pérdida de clientes', 'escal\\p{L}+', 'manual(?:es|mente)?', 'errore?s?'
+    ],
+    causalTerms: ['porque', 'debido a', 'ya que', 'por eso', 'por lo tanto', 'lo que significa', 'de modo que', 'como resultado', 'provoca', 'provocan', 'causad[oa]s? por', 'lleva a', 'genera'],
+    hardRequirementTerms: [
+      'debe', 'deben', 'tiene que', 'tienen que', 'hay que', 'obligatori\\p{L}*', 'requerid[oa]s?', 'requiere\\p{L}*',
+      'imprescindible\\p{L}*', 'innegociable\\p{L}*', 'no puede', 'no pueden', 'a más tardar', 'cumplir con'
+    ],
+    softRequirementTerms: ['necesit\\p{L}*', 'quier\\p{L}*', 'querría\\p{L}*', 'nos gustaría', 'le gustaría', 'desea\\p{L}*', 'prefer\\p{L}*', 'buscamos', 'esperamos'],
+    priorityTerms: ['prioridad\\p{L}*', 'lo más importante', 'primero', 'principal\\p{L}*', 'deseable', 'imprescindible', 'excluyente'],
+    units: [
+      'por ?ciento', 'horas?', 'h', 'días?', 'semanas?', 'meses', 'mes', 'años?', 'minutos?', 'min', 'euros?', '€', 'eur',
+      'dólares', 'mil', 'millones', 'millón', 'mm', 'empleados', 'personas', 'usuarios', 'ingenieros', 'tickets?', 'pedidos',
+      'órdenes', 'unidades', 'sedes', 'plantas', 'veces'
+    ],
+    baselineTerms: ['desde', 'línea base', 'actualmente', 'hoy', 'hasta', 'objetivo', 'meta', 'reducir', 'aumentar', 'frente a'],
+    genericTechTerms: [
+      'sistemas?', 'base de datos', 'flujo de trabajo', 'integraci\\p{L}+', 'plataformas?', 'arquitectura', 'infraestructura',
+      'software', 'herramientas?', 'hojas? de cálculo', 'aplicaci\\p{L}+', 'servidor\\p{L}*', 'nube', 'procesos?'
+    ],
+    techRelationTerms: [
+      'sincroniz\\p{L}+', 'export\\p{L}+', 'import\\p{L}+', 'alimenta\\p{L}*', 'conect\\p{L}+', 'integr\\p{L}+', 'interfaz',
+      'por lotes', 'en tiempo real', 'nocturn\\p{L}+', 'introduc\\p{L}+ manualmente', 'cop\\p{L}+', 'duplicad\\p{L}+'
+    ],
+    spaceDelimited: true
+  },
+
+  // The noun comes first: "proceso de aprobación"
+  slotPatterns: {
+    process: /(?<!\p{L})(?:proceso|flujo de trabajo|procedimiento|traspaso|conciliación)\s+de\s+\p{L}+/giu,
+    pain: /(?<!\p{L})(?:reto|desafío|problema|cuello de botella|dificultad)(?:\s+(?:es|son|era),?|:)\s+(?:que\s+)?([^.;\n]+)|(?<!\p{L})(?:problemas|dificultades|luchamos|lidiamos)\s+con\s+([^.;\n]+)/giu,
+    constraint: /(?<!\p{L})(?:debe|deben|tiene que|tienen que|hay que|no puede|no pueden)\s+(?:ser\s+|estar\s+)?([^.,;\n]+?)(?=\s+(?:y|pero|porque)(?!\p{L})|[.,;\n]|$)/giu
+  }
+};
@@ -0,0 +1,163 @@
+/**
+ * Session Locales
+ * Localized template catalogs for running discovery calls outside English
+ */
+
+import type { ClientICP, DiscoveryAreaName } from '@/types/discovery';
+import type { DepthTemplates } from '../elicitationEngine';
+import type { NoteLexicon } from '../noteQualityRubric';
+import type { SlotPatterns, SlotType, UnresolvedSlot } from '../templateEngine';
+import { GERMAN_CATALOG } from './de';
+import { SPANISH_CATALOG } from './es';
+import { JAPANESE_CATALOG } from './ja';
+
+export type SessionLocale = 'en' | 'de' | 'es' | 'ja';
+
+export const DEFAULT_LOCALE: SessionLocale = 'en';
+
+export const SUPPORTED_LOCALES: Record<SessionLocale, { label: string; languageName: string }> = {
+  en: { label: 'English', languageName: 'English' },
+  de: { label: 'Deutsch', languageName: 'German' },
+  es: { label: 'Español', languageName: 'Spanish' },
+  ja: { label: '日本語', languageName: 'Japanese' }
+};
+
+/**
+ * Everything a non-English session needs. Area and ICP keys stay in English -
+ * they are identifiers - and template placeholders keep their English names so
+ * PLACEHOLDER_DECLARATIONS still applies.
+ */
+export interface LocaleCatalog {
+  areaNames: Record<DiscoveryAreaName, string>;
+  areaPrompts: Record<DiscoveryAreaName, { description: string; initialQuestions: string[] }>;
+  elicitationPatterns: Record<DiscoveryAreaName, DepthTemplates>;
+  icpQuestions: Record<ClientICP, Record<string, string>>;
+  slotTypeLabels: Record<SlotType, string>;
+  clarification: (needed: string[], area: string) => string;
+  wrapUp: (area: string) => string;
+  reportHeadings: ReportHeadings;
+  lexicon: NoteLexicon;
+  slotPatterns: SlotPatterns;
+}
+
+export interface ReportHeadings {
+  title: string;
+  executiveSummary: string;
+  opportunityQualification: string;
+  keyRiskFactors: string;
+  recommendedApproach: string;
+  nextSteps: string;
+  competitiveDifferentiation: string;
+  appendix: string;
+}
+
+export const ENGLISH_REPORT_HEADINGS: ReportHeadings = {
+  title: 'Discovery Analysis Report',
+  executiveSummary: 'Executive Summary',
+  opportunityQualification: 'Opportunity Qualification',
+  keyRiskFactors: 'Key Risk Factors',
+  recommendedApproach: 'Recommended Solution Approach',
+  nextSteps: 'Next Step Recommendations',
+  competitiveDifferentiation: 'Competitive Differentiation',
+  appendix: 'Appendix: Discovery Coverage'
+};
+
+const LOCALE_CATALOGS: Record<Exclude<SessionLocale, 'en'>, LocaleCatalog> = {
+  de: GERMAN_CATALOG,
+  es: SPANISH_CATALOG,
+  ja: JAPANESE_CATALOG
+};
+
+export function isSessionLocale(value: unknown): value is SessionLocale {
+  return typeof value === 'string' && value in SUPPORTED_LOCALES;
+}
+
+export function getSessionLocale(session?: { locale?: string } | null): SessionLocale {
+  return isSessionLocale(session?.locale) ? session!.locale as SessionLocale : DEFAULT_LOCALE;
+}
+
+/**
+ * Catalog for a locale; null for English, whose templates live with the engine
+ */
+export function getLocaleCatalog(locale: SessionLocale): LocaleCatalog | null {
+  return locale === 'en' ? null : LOCALE_CATALOGS[locale];
+}
+
+/**
+ * Prompt line telling the model which language to write in
+ */
+export function getLanguageInstruction(locale: SessionLocale, subject = 'your response'): string {
+  if (locale === 'en') return '';
+  const { languageName, label } = SUPPORTED_LOCALES[locale];
+  return `Write ${subject} in ${languageName} (${label}). Keep product names, acronyms and standards (e.g. SAP, ITAR) as they are.`;
+}
+
+/**
+ * Overlay localized templates onto a pattern set. Areas without a translation
+ * (e.g. methodology-specific areas) keep their English templates.
+ */
+export function localizePatterns(
+  locale: SessionLocale,
+  patterns: Record<string, DepthTemplates>
+): Record<string, DepthTemplates> {
+  const catalog = getLocaleCatalog(locale);
+  if (!catalog) return patterns;
+
+  return Object.fromEntries(Object.entries(patterns).map(([area, templates]) => [
+    area,
+    catalog.elicitationPatterns[area as DiscoveryAreaName] || templates
+  ]));
+}
+
+export function getLocalizedAreaName(locale: SessionLocale, area: string): string {
+  return getLocaleCatalog(locale)?.areaNames[area as DiscoveryAreaName] || area;
+}
+
+export function getLocalizedInitialQuestions(locale: SessionLocale, area: string): string[] | null {
+  return getLocaleCatalog(locale)?.areaPrompts[area as DiscoveryAreaName]?.initialQuestions || null;
+}
+
+export function getLocalizedIcpQuestions(locale: SessionLocale, icp: ClientICP): Record<string, string> | null {
+  return getLocaleCatalog(locale)?.icpQuestions[icp] || null;
+}
+
+/**
+ * Localized counterpart of buildClarificationQuestion; null for English
+ */
+export function buildLocalizedClarification(
+  locale: SessionLocale,
+  unresolved: UnresolvedSlot[],
+  area: string
+): string | null {
+  const catalog = getLocaleCatalog(locale);
+  if (!catalog) return null;
+
+  const needed = Array.from(new Set(unresolved.map(slot => catalog.slotTypeLabels[slot.type || 'context'])));
+  return catalog.clarification(needed, getLocalizedAreaName(locale, area));
+}
+
+export function buildLocalizedWrapUp(locale: SessionLocale, area: string): string | null {
+  const catalog = getLocaleCatalog(locale);
+  return catalog ? catalog.wrapUp(getLocalizedAreaName(locale, area)) : null;
+}
+
+export function getReportHeadings(locale: SessionLocale): ReportHeadings {
+  return getLocaleCatalog(locale)?.reportHeadings || ENGLISH_REPORT_HEADINGS;
+}
+
+export function getNoteLexicon(locale: SessionLocale): NoteLexicon | undefined {
+  return getLocaleCatalog(locale)?.lexicon;
+}
+
+// Undefined for English, whose patterns are the engine's defaults
+export function getSlotPatterns(locale: SessionLocale): SlotPatterns | undefined {
+  return getLocaleCatalog(locale)?.slotPatterns;
+}
+
+export default {
+  SUPPORTED_LOCALES,
+  getSessionLocale,
+  getLocaleCatalog,
+  getLanguageInstruction,
+  localizePatterns
+};
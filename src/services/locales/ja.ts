@@ -0,0 +1,250 @@
+/**
+ * Japanese (日本語) discovery catalog
+ */
+
+import type { LocaleCatalog } from './index';
+
+export const JAPANESE_CATALOG: LocaleCatalog = {
+  areaNames: {
+    'Current State Assessment': '現状把握',
+    'Pain Points & Challenges': '課題・ペインポイント',
+    'Desired Future State': 'あるべき姿',
+    'Constraints & Requirements': '制約・要件',
+    'Decision Process & Timeline': '意思決定プロセス・スケジュール',
+    'Budget & Resources': '予算・リソース',
+    'Success Metrics': '成功指標',
+    'Stakeholders & Politics': 'ステークホルダー・社内力学'
+  },
+
+  areaPrompts: {
+    'Current State Assessment': {
+      description: '現在の業務の進め方（システム、プロセス、ワークフロー）を理解する',
+      initialQuestions: [
+        'この領域は現在どのように運用されていますか？',
+        '現在、どのようなシステム、プロセス、ツールで対応していますか？',
+        '日々のワークフローは実際にどのように回っていますか？'
+      ]
+    },
+    'Pain Points & Challenges': {
+      description: 'うまくいっていない点、非効率な点、問題の原因を特定する',
+      initialQuestions: [
+        'この領域で最も大きなボトルネックや不満は何ですか？',
+        'どこで業務が滞ったり、回避策が必要になったりしていますか？',
+        '繰り返し発生している問題は何ですか？'
+      ]
+    },
+    'Desired Future State': {
+      description: '理想的な将来像とその目標を理解する',
+      initialQuestions: [
+        '12か月後、どのような状態になっていれば成功と言えますか？',
+        '制約がなければ、理想的にはどのように機能させたいですか？',
+        '今はないけれど、あったらよいと思う機能は何ですか？'
+      ]
+    },
+    'Constraints & Requirements': {
+      description: '譲れない要件と制約条件を把握する',
+      initialQuestions: [
+        'どのようなソリューションでも必ず満たすべき要件は何ですか？',
+        'どのような規制、コンプライアンス、社内ポリシー上の制約がありますか？',
+        '技術面やビジネス面で、どのような制約の中で進める必要がありますか？'
+      ]
+    },
+    'Decision Process & Timeline': {
+      description: '意思決定のプロセスとスケジュールを明らかにする',
+      initialQuestions: [
+        'ソリューションや変更の承認には誰が関わりますか？',
+        '選択肢はどのような基準で評価されますか？',
+        '意思決定はどのようなスケジュールで進める予定ですか？'
+      ]
+    },
+    'Budget & Resources': {
+      description: '予算の制約と利用可能なリソースを理解する',
+      initialQuestions: [
+        'この取り組みについて、どの程度の予算規模が話し合われていますか？',
+        'ROIや費用対効果についてはどのようにお考えですか？',
+        '社内で割ける人員やリソースはどの程度ありますか？'
+      ]
+    },
+    'Success Metrics': {
+      description: '成功の定義と測定方法を明確にする',
+      initialQuestions: [
+        'この取り組みの成功をどのように測定しますか？',
+        '具体的にどのような指標や成果を目指していますか？',
+        '現在、この領域のパフォーマンスをどのように追跡していますか？'
+      ]
+    },
+    'Stakeholders & Politics': {
+      description: '意思決定に影響を与える人と組織の力学を理解する',
+      initialQuestions: [
+        'この領域が変わると、ほかに誰が影響を受けますか？',
+        'この業務の進め方に利害関係を持つグループや部署はどこですか？',
+        '変革の成否に影響しうる社内の力学にはどのようなものがありますか？'
+      ]
+    }
+  },
+
+  elicitationPatterns: {
+    'Current State Assessment': {
+      depth0: '[business area from context]は現在どのように運用されていますか？',
+      depth1: '[specific process mentioned]は現在どのようなシステム、プロセス、ツールで対応していますか？',
+      depth2: '[specific scenario from notes]が発生した場合、現在のワークフローを順を追って教えていただけますか？',
+      depth3: '[edge case scenario]の場合はどうなりますか？誰が関わり、どのような回避策を取っていますか？',
+      depth4: 'もし私が1日チームに同行したとしたら、実際の業務の進め方で何に驚くと思いますか？'
+    },
+    'Pain Points & Challenges': {
+      depth0: '[business area from context]で最も大きなボトルネックや不満は何ですか？',
+      depth1: '[specific pain mentioned]によって、毎月どれくらいの時間やコストがかかっていますか？',
+      depth2: 'この問題が最初に表面化したのはいつで、何がきっかけでしたか？',
+      depth3: '6か月以内に解決しなかった場合、[business metric]にはどのような影響がありますか？',
+      depth4: '[specific pain point]が発生したとき、社内で最も影響を受けるのは誰ですか？'
+    },
+    'Desired Future State': {
+      depth0: '12か月後、[business area from context]がどうなっていれば成功と言えますか？',
+      depth1: '制約がなければ、[specific process mentioned]は理想的にどのように機能するべきですか？',
+      depth2: '今はないけれど、あったらよいと思う機能は何ですか？',
+      depth3: '[specific improvement]が実現すると、チームの日々の業務はどう変わりますか？',
+      depth4: '[constraint mentioned]が問題でなくなったら、何が可能になりますか？'
+    },
+    'Constraints & Requirements': {
+      depth0: 'どのようなソリューションでも必ず満たすべき要件は何ですか？',
+      depth1: '[specific requirement mentioned]は[compliance/regulatory concern]とどのように関係していますか？',
+      depth2: '[specific requirement]を仕様どおりに満たせない場合、どうなりますか？',
+      depth3: 'どれか一つを選ぶとしたら、最初に妥協できる要件はどれですか？',
+      depth4: '表には出ていないものの、後からプロジェクトを頓挫させかねない制約は何ですか？'
+    },
+    'Decision Process & Timeline': {
+      depth0: '[solution scope]のソリューションの承認には誰が関わりますか？',
+      depth1: '[specific stakeholder mentioned]はどのような基準で選択肢を評価しますか？',
+      depth2: '前回、同様の意思決定をしたときはどのような経緯でしたか？',
+      depth3: 'この意思決定に影響しうる社内事情や競合する優先事項は何ですか？',
+      depth4: '[key stakeholder]が反対した場合、どのようなエスカレーションの経路がありますか？'
+    },
+    'Budget & Resources': {
+      depth0: '現在の[problem state from context]を維持するのに、どれくらいのコストがかかっていますか？',
+      depth1: '[solution scope]について、どの程度の予算規模が話し合われていますか？',
+      depth2: '[specific budget mentioned]は、ほかの取り組みの予算と比べてどうですか？',
+      depth3: '[specific amount range]の予算承認の権限を持っているのは誰ですか？',
+      depth4: '当初予算を20〜30%超えることが正当化されるとしたら、それはどのような場合ですか？'
+    },
+    'Success Metrics': {
+      depth0: '最初の90日間の成功をどのように測定しますか？',
+      depth1: '[outcome mentioned]を示す具体的な数値や指標は何ですか？',
+      depth2: '[specific metric]は現在どのように追跡していて、基準値はどれくらいですか？',
+      depth3: '目標指標を達成しても、このプロジェクトが失敗とみなされるのはどのような場合ですか？',
+      depth4: '[specific stakeholder]にとって、目標達成と大成功の違いは何ですか？'
+    },
+    'Stakeholders & Politics': {
+      depth0: '[business area from context]が変わると、ほかに誰が影響を受けますか？',
+      depth1: '[specific stakeholder mentioned]の中で、変化に最も抵抗しそうなのは誰で、それはなぜですか？',
+      depth2: 'この領域で利害が対立しているグループや部署はどこですか？',
+      depth3: '過去に同様の取り組みで痛い目を見た人は誰ですか？',
+      depth4: '成否を左右しうる、表に出ていない力学にはどのようなものがありますか？'
+    }
+  },
+
+  icpQuestions: {
+    'Aerospace/Defense': {
+      tech: 'お客様のシステムにはどのような認証要件（DO-178、RTCA）が適用されますか？',
+      process: '現在、構成管理やバージョン管理はどのように行っていますか？',
+      validation: 'セーフティクリティカルなシステムの検証はどのように進めていますか？'
+    },
+    'Healthcare/Medical': {
+      compliance: '現在のシステムに影響するコンプライアンス要件（HIPAA、FDA、SOX）は何ですか？',
+      integration: 'システム間の患者データ連携は現在どのように行っていますか？',
+      workflow: '臨床ワークフローの自動化について、これまでどのような経験がありますか？'
+    },
+    'Automotive': {
+      connectivity: '車両のコネクティビティとデータ管理にはどのように取り組んでいますか？',
+      safety: 'どのような機能安全規格（ISO 26262）に準拠する必要がありますか？',
+      supply: 'サプライチェーンの可視化と管理について、どのような戦略をお持ちですか？'
+    },
+    'IoT/Industrial': {
+      protocols: 'デバイス間の通信には現在どのようなプロトコルを使用していますか？',
+      edge: 'エッジ処理とクラウド処理の使い分けはどのように判断していますか？',
+      lifecycle: 'デバイスのライフサイクル管理について、どのような戦略をお持ちですか？'
+    },
+    'Construction': {
+      tracking: '現在、機材やリソースの稼働状況をどのように把握していますか？',
+      safety: '安全管理や報告に関してどのような要件がありますか？',
+      collaboration: '複数の現場にまたがるプロジェクトの連携はどのように行っていますか？'
+    },
+    'Precision Agriculture': {
+      sensors: '圃場ではどのようなセンサーやデータ収集を活用していますか？',
+      analytics: '収量や最適化に関するデータはどのように分析していますか？',
+      integration: '既存の営農管理システムとの連携について、どのような戦略をお持ちですか？'
+    },
+    'Financial Services': {
+      compliance: 'どのような規制要件（PCI DSS、SOX）に対応する必要がありますか？',
+      processing: 'リアルタイムの取引処理や照合はどのように行っていますか？',
+      security: '不正検知とセキュリティにはどのように取り組んでいますか？'
+    },
+    'Education Technology': {
+      privacy: '学生データのプライバシー要件（FERPA、個人情報保護法）にはどのように対応していますか？',
+      integration: '連携が必要な既存の学習管理システム（LMS）は何ですか？',
+      analytics: '学習分析や学習成果の測定にはどのように取り組んでいますか？'
+    }
+  },
+
+  slotTypeLabels: {
+    system: 'システム',
+    process: 'プロセス',
+    metric: '数値や指標',
+    pain: '課題',
+    person: '人物や役割',
+    constraint: '要件',
+    context: '背景'
+  },
+
+  clarification: (needed, area) => needed.length === 0
+    ? `${area}について、もう少し詳しく教えていただけますか？`
+    : `${area}を深掘りする前に、具体的にどの${needed.join('・')}に焦点を当てるべきか教えていただけますか？`,
+
+  wrapUp: area =>
+    `${area}の話を終える前に、優先順位の付け方を変えるような、まだ話していないことはありますか？`,
+
+  reportHeadings: {
+    title: 'ディスカバリー分析レポート',
+    executiveSummary: 'エグゼクティブサマリー',
+    opportunityQualification: '案件の評価',
+    keyRiskFactors: '主なリスク要因',
+    recommendedApproach: '推奨ソリューションアプローチ',
+    nextSteps: '次のステップへの推奨事項',
+    competitiveDifferentiation: '競合との差別化',
+    appendix: '付録：ディスカバリーのカバー範囲'
+  },
+
+  lexicon: {
+    problemTerms: [
+      '重大', '緊急', 'ブロック', '失敗', '障害', 'リスク', '課題', '問題', 'ボトルネック', '遅延', '遅れ', '停止',
+      '回避策', '滞留', 'バックログ', '解約', 'エスカレーション', '手作業', '手動', 'ミス', 'エラー'
+    ],
+    causalTerms: ['ため', 'ので', 'から', 'により', 'によって', '原因', 'その結果', '結果として', 'つながる', 'につながり', 'そのため'],
+    hardRequirementTerms: [
+      '必須', '必要がある', '必要があります', 'なければならない', 'なければなりません', 'ねばならない', '義務', '要件',
+      '譲れない', 'できない', '不可', 'までに', '準拠'
+    ],
+    softRequirementTerms: ['必要', 'ほしい', '欲しい', 'たい', '希望', '望ましい', '好ましい', '検討中', '探している'],
+    priorityTerms: ['優先', '最優先', '最重要', 'まず', 'あれば良い', 'あればよい', '決め手', '絶対条件'],
+    units: [
+      '万円', '億円', '千円', '円', '万ドル', 'ドル', '万', '億', '時間', '日間?', '週間?', 'か月', 'ヶ月', 'カ月', '年間?',
+      '分', '人', '名', '件', '台', '拠点', '工場', '回', '割'
+    ],
+    baselineTerms: ['現在', '現状', '今', 'から', 'まで', '基準', 'ベースライン', '目標', '削減', '増加', '向上', '比べ'],
+    genericTechTerms: [
+      'システム', 'データベース', 'ワークフロー', '連携', 'プラットフォーム', 'アーキテクチャ', 'インフラ', 'ソフトウェア',
+      'ツール', 'スプレッドシート', 'エクセル', 'サーバー', 'クラウド', 'オンプレ', 'パイプライン', 'ダッシュボード', 'ポータル', '基幹'
+    ],
+    techRelationTerms: [
+      '同期', 'エクスポート', 'インポート', '取り込', '連携', '接続', '統合', 'インターフェース', 'バッチ', 'リアルタイム',
+      '夜間', '手入力', '転記', 'コピー', '二重'
+    ],
+    spaceDelimited: false
+  },
+
+  // No spaces between words, so values run to the nearest particle or punctuation
+  slotPatterns: {
+    process: /[\p{Script=Han}\p{Script=Katakana}ー]{1,8}(?:プロセス|フロー|手続き|照合|引き継ぎ)/gu,
+    pain: /(?:課題|問題|ボトルネック|悩み)は、?([^。\n]+?)(?:です|でした|だ)?(?=[。\n]|$)|([^。、\n]{2,30}?)(?:に苦労|で困って)/gu,
+    constraint: /([^。、\n]{2,30}?)(?:が必須|は必須|が必要不可欠|しなければな(?:らない|りません)|する必要があ(?:る|ります))/gu
+  }
+};
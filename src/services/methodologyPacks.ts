@@ -0,0 +1,595 @@
+/**
+ * Sales Methodology Packs - pluggable discovery frameworks
+ * Each pack defines its own areas, depth-indexed templates, completeness rules and report mapping
+ */
+
+import {
+  ELICITATION_PATTERNS,
+  DEFAULT_COMPLETENESS_RULES,
+  type CompletenessRules,
+  type DepthTemplates
+} from './elicitationEngine';
+import type { QualityDimension } from './noteQualityRubric';
+import { DISCOVERY_AREAS, DISCOVERY_AREA_PROMPTS, type DiscoveryNote } from '@/types/discovery';
+
+export type MethodologyId = 'deep-rabbit' | 'meddicc' | 'bant' | 'spin' | 'challenger';
+
+export interface MethodologyArea {
+  name: string;
+  description: string;
+  initialQuestions: string[];
+  templates: DepthTemplates;
+}
+
+export interface ReportSectionMapping {
+  title: string;
+  areas: string[];
+  guidance: string;
+}
+
+/**
+ * Soft ordering between areas: `area` lands better once `after` has reached
+ * the rubric pass mark on `dimension` (e.g. budget after pain is quantified)
+ */
+export interface AreaDependency {
+  area: string;
+  after: string;
+  dimension: QualityDimension;
+  reason: string;
+}
+
+export interface MethodologyPack {
+  id: MethodologyId;
+  name: string;
+  description: string;
+  areas: MethodologyArea[];
+  completeness: CompletenessRules;
+  reportMapping: ReportSectionMapping[];
+  dependencies: AreaDependency[];
+  // How the summary should qualify the opportunity under this methodology
+  qualificationGuidance: string;
+}
+
+export const DEFAULT_METHODOLOGY_ID: MethodologyId = 'deep-rabbit';
+
+// The original eight-area framework, built from the existing constants
+const DEEP_RABBIT_PACK: MethodologyPack = {
+  id: 'deep-rabbit',
+  name: 'DeepRabbit Universal',
+  description: 'Eight-area CBAP discovery covering current state through stakeholders',
+  areas: DISCOVERY_AREAS.map(area => ({
+    name: area,
+    description: DISCOVERY_AREA_PROMPTS[area].description,
+    initialQuestions: [...DISCOVERY_AREA_PROMPTS[area].initialQuestions],
+    templates: ELICITATION_PATTERNS[area]
+  })),
+  completeness: DEFAULT_COMPLETENESS_RULES,
+  reportMapping: [
+    { title: 'Current State & Pain', areas: ['Current State Assessment', 'Pain Points & Challenges'], guidance: 'Quantified pain points and the systems behind them' },
+    { title: 'Target State & Success Criteria', areas: ['Desired Future State', 'Success Metrics'], guidance: 'Vision, measurable outcomes and baselines' },
+    { title: 'Constraints & Risks', areas: ['Constraints & Requirements'], guidance: 'Non-negotiables, compliance and technical limits' },
+    { title: 'Buying Process', areas: ['Decision Process & Timeline', 'Budget & Resources', 'Stakeholders & Politics'], guidance: 'Who decides, when, with what money and against which politics' }
+  ],
+  dependencies: [
+    { area: 'Budget & Resources', after: 'Pain Points & Challenges', dimension: 'quantification', reason: 'budget questions land better once pain has a number attached' },
+    { area: 'Success Metrics', after: 'Desired Future State', dimension: 'complexity', reason: 'metrics are easier to pin down once the target state is clear' },
+    { area: 'Decision Process & Timeline', after: 'Stakeholders & Politics', dimension: 'complexity', reason: 'the decision path follows from who holds influence' },
+    { area: 'Constraints & Requirements', after: 'Current State Assessment', dimension: 'technicalDetail', reason: 'constraints are concrete once current systems are named' }
+  ],
+  qualificationGuidance: 'Score the opportunity on Need, Budget, Authority, Timeline and Fit'
+};
+
+const MEDDICC_PACK: MethodologyPack = {
+  id: 'meddicc',
+  name: 'MEDDICC',
+  description: 'Metrics, Economic Buyer, Decision Criteria, Decision Process, Paper Process, Identify Pain, Champion, Competition',
+  areas: [
+    {
+      name: 'Metrics',
+      description: 'Quantified business outcomes the customer expects',
+      initialQuestions: [
+        'What measurable outcome would make this initiative a success?',
+        'How do you measure performance in this area today?'
+      ],
+      templates: {
+        depth0: 'What measurable business outcome are you expecting from [business area from context]?',
+        depth1: 'What is the baseline for [specific metric] today, and what target would justify the investment?',
+        depth2: 'How did you arrive at [specific amount mentioned] - who owns that number?',
+        depth3: 'What happens to [business metric] if nothing changes this year?',
+        depth4: 'Which metric would the executive team care about most when reviewing this?'
+      }
+    },
+    {
+      name: 'Economic Buyer',
+      description: 'The person with discretionary authority over the budget',
+      initialQuestions: [
+        'Who ultimately signs off on an investment like this?',
+        'Has that person been involved in discussions so far?'
+      ],
+      templates: {
+        depth0: 'Who has final authority to approve spend for [solution scope]?',
+        depth1: 'What does [specific stakeholder mentioned] care about most right now?',
+        depth2: 'When did [specific stakeholder mentioned] last approve a similar project, and what convinced them?',
+        depth3: 'What would [specific stakeholder mentioned] need to see to prioritise this over other initiatives?',
+        depth4: 'How could we get time with [specific stakeholder mentioned] before a proposal goes out?'
+      }
+    },
+    {
+      name: 'Decision Criteria',
+      description: 'Technical, financial and vendor criteria used to evaluate options',
+      initialQuestions: [
+        'What criteria will you use to compare options?',
+        'Which of those criteria are must-haves versus nice-to-haves?'
+      ],
+      templates: {
+        depth0: 'What criteria will you use to evaluate solutions for [business area from context]?',
+        depth1: 'How is [specific requirement mentioned] weighted against cost and timeline?',
+        depth2: 'Who defined these criteria, and have they changed recently?',
+        depth3: 'What would disqualify a vendor immediately?',
+        depth4: 'If two options met every criterion, what would break the tie?'
+      }
+    },
+    {
+      name: 'Decision Process',
+      description: 'The steps, people and timeline to reach a decision',
+      initialQuestions: [
+        'Walk me through how a decision like this gets made.',
+        'What timeline are you working towards?'
+      ],
+      templates: {
+        depth0: 'Walk me through the steps from today to a signed decision on [solution scope].',
+        depth1: 'Who is involved at each step, and what does [specific stakeholder mentioned] need from us?',
+        depth2: 'What is driving the [specific timeline mentioned] date?',
+        depth3: 'What has stalled similar decisions in the past?',
+        depth4: 'What would have to happen for the decision to slip a quarter?'
+      }
+    },
+    {
+      name: 'Paper Process',
+      description: 'Procurement, legal, security review and contracting steps',
+      initialQuestions: [
+        'Once a decision is made, what does procurement and legal involve?',
+        'Are there security or vendor onboarding reviews we should plan for?'
+      ],
+      templates: {
+        depth0: 'Once you decide, what does the procurement and contracting process look like?',
+        depth1: 'How long does [specific process mentioned] typically take for a vendor like us?',
+        depth2: 'Which security, legal or compliance reviews apply to [solution scope]?',
+        depth3: 'Are there fiscal year or budget cycle deadlines that affect signature timing?',
+        depth4: 'Who should we engage early to avoid surprises in the paper process?'
+      }
+    },
+    {
+      name: 'Identify Pain',
+      description: 'The business pain driving urgency and its cost',
+      initialQuestions: [
+        'What problem is forcing you to look at this now?',
+        'What does that problem cost you today?'
+      ],
+      templates: {
+        depth0: "What's the pain in [business area from context] that made this a priority now?",
+        depth1: 'How much does [specific pain mentioned] cost you per month in time or money?',
+        depth2: 'Who feels [specific pain mentioned] most directly, and how?',
+        depth3: 'What have you already tried to fix it, and why did that fall short?',
+        depth4: 'What is the personal impact on you if this stays unsolved?'
+      }
+    },
+    {
+      name: 'Champion',
+      description: 'An influential insider who sells on our behalf',
+      initialQuestions: [
+        'Who internally is most invested in solving this?',
+        'How much influence do they have with the decision makers?'
+      ],
+      templates: {
+        depth0: 'Who inside the organisation is pushing hardest to solve this?',
+        depth1: 'What does [specific stakeholder mentioned] personally gain if this succeeds?',
+        depth2: 'How has [specific stakeholder mentioned] influenced similar decisions before?',
+        depth3: 'Would [specific stakeholder mentioned] share internal criteria or introduce us to the economic buyer?',
+        depth4: 'What could cause [specific stakeholder mentioned] to lose influence on this?'
+      }
+    },
+    {
+      name: 'Competition',
+      description: 'Alternative vendors, internal builds or doing nothing',
+      initialQuestions: [
+        'What other options are you considering?',
+        'Is building this internally or doing nothing on the table?'
+      ],
+      templates: {
+        depth0: 'What other approaches or vendors are you considering for [business area from context]?',
+        depth1: 'What do you like about [specific system mentioned] so far?',
+        depth2: 'How seriously is an internal build being considered, and who favours it?',
+        depth3: 'What would make doing nothing the safest choice for you?',
+        depth4: 'Where do you see us as weaker than the alternatives?'
+      }
+    }
+  ],
+  completeness: {
+    minQuestionsPerArea: 2,
+    requiredAreas: ['Metrics', 'Economic Buyer', 'Identify Pain', 'Champion'],
+    defaultDimensions: ['requirements'],
+    areaDimensions: {
+      'Metrics': ['quantification'],
+      'Identify Pain': ['quantification', 'complexity'],
+      'Economic Buyer': [],
+      'Champion': [],
+      'Competition': []
+    }
+  },
+  reportMapping: [
+    { title: 'Quantified Value (Metrics & Pain)', areas: ['Metrics', 'Identify Pain'], guidance: 'Baseline, target and cost of inaction in numbers' },
+    { title: 'Power Map (Economic Buyer & Champion)', areas: ['Economic Buyer', 'Champion'], guidance: 'Access to the economic buyer and champion strength' },
+    { title: 'Decision Path (Criteria, Process, Paper)', areas: ['Decision Criteria', 'Decision Process', 'Paper Process'], guidance: 'Criteria fit, steps to signature and procurement risks' },
+    { title: 'Competitive Position', areas: ['Competition'], guidance: 'Alternatives including build and do-nothing' }
+  ],
+  dependencies: [
+    { area: 'Metrics', after: 'Identify Pain', dimension: 'complexity', reason: 'metrics follow from an understood pain' },
+    { area: 'Economic Buyer', after: 'Champion', dimension: 'complexity', reason: 'a champion is the usual route to the economic buyer' },
+    { area: 'Paper Process', after: 'Decision Process', dimension: 'complexity', reason: 'procurement steps sit at the end of the decision process' },
+    { area: 'Decision Criteria', after: 'Identify Pain', dimension: 'requirements', reason: 'criteria should trace back to the pain' }
+  ],
+  qualificationGuidance: 'Score each MEDDICC letter 0-3 with evidence and flag the weakest letters as deal risks'
+};
+
+const BANT_PACK: MethodologyPack = {
+  id: 'bant',
+  name: 'BANT',
+  description: 'Budget, Authority, Need, Timeline',
+  areas: [
+    {
+      name: 'Budget',
+      description: 'Funding availability and range for the initiative',
+      initialQuestions: [
+        'Has a budget been set aside for this?',
+        'What range are you working with?'
+      ],
+      templates: {
+        depth0: 'Is there budget allocated for [solution scope] this year?',
+        depth1: 'What range has been discussed, and where does [specific amount mentioned] come from?',
+        depth2: 'How does this compare with what you spend on the problem today?',
+        depth3: 'What would justify going beyond [specific amount mentioned]?',
+        depth4: 'If the budget were cut, which parts of the scope would you protect?'
+      }
+    },
+    {
+      name: 'Authority',
+      description: 'Who decides and who influences the decision',
+      initialQuestions: [
+        'Who will make the final decision?',
+        'Who else needs to be involved?'
+      ],
+      templates: {
+        depth0: 'Who makes the final call on [solution scope]?',
+        depth1: 'What role does [specific stakeholder mentioned] play in the decision?',
+        depth2: 'Who could block this, and why?',
+        depth3: 'How have decisions like this been escalated in the past?',
+        depth4: 'What would [specific stakeholder mentioned] need to hear to say yes?'
+      }
+    },
+    {
+      name: 'Need',
+      description: 'The business problem and its severity',
+      initialQuestions: [
+        'What problem are you trying to solve?',
+        'How is it affecting the business today?'
+      ],
+      templates: {
+        depth0: 'What problem in [business area from context] are you trying to solve?',
+        depth1: 'How does [specific pain mentioned] affect revenue, cost or risk?',
+        depth2: 'What have you tried so far, and why did it not work?',
+        depth3: 'What are the non-negotiable requirements for any solution?',
+        depth4: 'How would you rank this need against your other priorities?'
+      }
+    },
+    {
+      name: 'Timeline',
+      description: 'When a decision and implementation need to happen',
+      initialQuestions: [
+        'When do you need a solution in place?',
+        'What is driving that date?'
+      ],
+      templates: {
+        depth0: 'When do you need a solution in place, and why then?',
+        depth1: 'What happens if [specific timeline mentioned] slips?',
+        depth2: 'What milestones have to happen before a decision can be made?',
+        depth3: 'Are there budget cycles or events that constrain timing?',
+        depth4: 'What could accelerate the decision?'
+      }
+    }
+  ],
+  completeness: {
+    minQuestionsPerArea: 3,
+    requiredAreas: ['Budget', 'Authority', 'Need', 'Timeline'],
+    defaultDimensions: ['requirements'],
+    areaDimensions: {
+      'Budget': ['quantification'],
+      'Timeline': ['quantification'],
+      'Authority': []
+    }
+  },
+  reportMapping: [
+    { title: 'Need', areas: ['Need'], guidance: 'The business problem and why it matters now' },
+    { title: 'Budget & Timeline', areas: ['Budget', 'Timeline'], guidance: 'Funding range and time pressure' },
+    { title: 'Authority', areas: ['Authority'], guidance: 'Decision maker and influencers' }
+  ],
+  dependencies: [
+    { area: 'Budget', after: 'Need', dimension: 'quantification', reason: 'budget questions land better once the need is quantified' },
+    { area: 'Timeline', after: 'Need', dimension: 'complexity', reason: 'timelines mean more once urgency drivers are known' }
+  ],
+  qualificationGuidance: 'Mark each BANT criterion as Qualified, Partially Qualified or Unknown with evidence'
+};
+
+const SPIN_PACK: MethodologyPack = {
+  id: 'spin',
+  name: 'SPIN Selling',
+  description: 'Situation, Problem, Implication, Need-Payoff',
+  areas: [
+    {
+      name: 'Situation',
+      description: 'Facts about the current environment and operations',
+      initialQuestions: [
+        'How is this handled today?',
+        'What systems and teams are involved?'
+      ],
+      templates: {
+        depth0: 'How does [business area from context] operate today?',
+        depth1: 'Which systems and teams are involved in [specific process mentioned]?',
+        depth2: 'How long has it worked this way, and what has changed recently?',
+        depth3: 'What volume does [specific process mentioned] handle in a typical month?',
+        depth4: 'Which parts of the current setup are you happy with?'
+      }
+    },
+    {
+      name: 'Problem',
+      description: 'Difficulties, dissatisfactions and gaps in the current situation',
+      initialQuestions: [
+        'Where does the current approach fall short?',
+        'What frustrates your team most?'
+      ],
+      templates: {
+        depth0: 'Where does the current approach in [business area from context] fall short?',
+        depth1: 'How often does [specific pain mentioned] happen?',
+        depth2: 'Which teams are most affected by [specific pain mentioned]?',
+        depth3: 'What workarounds have people built to cope?',
+        depth4: 'Which problem would you solve first if you could only solve one?'
+      }
+    },
+    {
+      name: 'Implication',
+      description: 'Consequences and knock-on effects of the problems',
+      initialQuestions: [
+        'What does that problem lead to downstream?',
+        'How does it affect customers or revenue?'
+      ],
+      templates: {
+        depth0: 'What effect does [specific pain mentioned] have on the rest of the business?',
+        depth1: 'How does that show up in [business metric]?',
+        depth2: 'What does it cost when [specific pain mentioned] happens at the worst time?',
+        depth3: 'How does this affect your ability to hit this year\'s goals?',
+        depth4: 'What happens in 12 months if nothing changes?'
+      }
+    },
+    {
+      name: 'Need-Payoff',
+      description: 'Value of solving the problem in the customer\'s own words',
+      initialQuestions: [
+        'What would it be worth to solve this?',
+        'How would things change if this were fixed?'
+      ],
+      templates: {
+        depth0: 'If [specific pain mentioned] were solved, what would that be worth to you?',
+        depth1: 'How would [specific improvement] change day-to-day work for your team?',
+        depth2: 'Who else would benefit if this were fixed?',
+        depth3: 'What would you be able to do that you cannot do today?',
+        depth4: 'How would you explain the value of this to your leadership?'
+      }
+    }
+  ],
+  completeness: {
+    minQuestionsPerArea: 3,
+    requiredAreas: ['Situation', 'Problem', 'Implication', 'Need-Payoff'],
+    defaultDimensions: [],
+    areaDimensions: {
+      'Situation': ['technicalDetail'],
+      'Problem': ['complexity'],
+      'Implication': ['quantification'],
+      'Need-Payoff': ['quantification']
+    }
+  },
+  reportMapping: [
+    { title: 'Situation', areas: ['Situation'], guidance: 'Current environment and systems' },
+    { title: 'Problems & Implications', areas: ['Problem', 'Implication'], guidance: 'Problems and their quantified downstream impact' },
+    { title: 'Value of Solving', areas: ['Need-Payoff'], guidance: 'Payoff expressed in the prospect\'s own words' }
+  ],
+  dependencies: [
+    { area: 'Problem', after: 'Situation', dimension: 'technicalDetail', reason: 'problems are sharper once the situation is mapped' },
+    { area: 'Implication', after: 'Problem', dimension: 'complexity', reason: 'implications build on an acknowledged problem' },
+    { area: 'Need-Payoff', after: 'Implication', dimension: 'quantification', reason: 'payoff questions work once implications are quantified' }
+  ],
+  qualificationGuidance: 'Assess how strongly the prospect has articulated explicit needs and payoff, citing their words'
+};
+
+const CHALLENGER_PACK: MethodologyPack = {
+  id: 'challenger',
+  name: 'Challenger',
+  description: 'Teach, tailor and take control around a commercial insight',
+  areas: [
+    {
+      name: 'Status Quo & Assumptions',
+      description: 'How they think about the problem today and the beliefs behind it',
+      initialQuestions: [
+        'How do you think about this problem today?',
+        'What assumptions is your current approach built on?'
+      ],
+      templates: {
+        depth0: 'How does your team think about [business area from context] today?',
+        depth1: 'What assumption sits behind [specific process mentioned]?',
+        depth2: 'When was that assumption last tested?',
+        depth3: 'What would have to be true for that assumption to be wrong?',
+        depth4: 'Who in the organisation would be most surprised if it were wrong?'
+      }
+    },
+    {
+      name: 'Commercial Insight',
+      description: 'Reactions to a reframing insight that challenges their thinking',
+      initialQuestions: [
+        'How do you react to peers approaching this differently?',
+        'Which part of that challenges how you work today?'
+      ],
+      templates: {
+        depth0: 'Peers in [business area from context] are approaching this differently - how does that land with you?',
+        depth1: 'Which part of that reframing challenges [specific process mentioned] most?',
+        depth2: 'What data would you need to believe the reframe?',
+        depth3: 'Who internally would push back on this perspective?',
+        depth4: 'What would change in your plans if the insight holds?'
+      }
+    },
+    {
+      name: 'Cost of Inaction',
+      description: 'The quantified cost of keeping the status quo',
+      initialQuestions: [
+        'What does staying with the current approach cost you?',
+        'How does that cost grow over time?'
+      ],
+      templates: {
+        depth0: 'What does keeping the current approach cost you each quarter?',
+        depth1: 'How does [specific pain mentioned] compound over the next year?',
+        depth2: 'What opportunities are you missing because of it?',
+        depth3: 'What is the risk if a competitor solves this first?',
+        depth4: 'How would you quantify that for your CFO?'
+      }
+    },
+    {
+      name: 'Stakeholder Mobilizers',
+      description: 'Who can drive change internally and what motivates them',
+      initialQuestions: [
+        'Who internally wants to change how this works?',
+        'Who benefits most from the status quo?'
+      ],
+      templates: {
+        depth0: 'Who internally is pushing to change how [business area from context] works?',
+        depth1: 'What motivates [specific stakeholder mentioned] to drive this?',
+        depth2: 'Who benefits from the status quo, and how much influence do they have?',
+        depth3: 'How has [specific stakeholder mentioned] built consensus before?',
+        depth4: 'What would [specific stakeholder mentioned] need from us to take this to leadership?'
+      }
+    },
+    {
+      name: 'Tailored Value',
+      description: 'How value differs for each stakeholder group',
+      initialQuestions: [
+        'How would each group define value here?',
+        'Where do those definitions conflict?'
+      ],
+      templates: {
+        depth0: 'How would finance, operations and IT each define value here?',
+        depth1: 'Where does [specific stakeholder mentioned]\'s definition of value conflict with others?',
+        depth2: 'What does each group need to see to support a change?',
+        depth3: 'Which group\'s concerns are most likely to derail this?',
+        depth4: 'How should we tailor the proposal for each audience?'
+      }
+    },
+    {
+      name: 'Decision Path',
+      description: 'Taking control of the buying process and next steps',
+      initialQuestions: [
+        'What are the steps from here to a decision?',
+        'Where could this get stuck?'
+      ],
+      templates: {
+        depth0: 'What are the steps from here to a decision on [solution scope]?',
+        depth1: 'Where has [specific process mentioned] stalled in the past?',
+        depth2: 'What do we need to agree on before the next meeting?',
+        depth3: 'What would make you comfortable committing to a timeline?',
+        depth4: 'What would you push back on if we proposed a faster path?'
+      }
+    }
+  ],
+  completeness: {
+    minQuestionsPerArea: 2,
+    requiredAreas: ['Status Quo & Assumptions', 'Cost of Inaction', 'Stakeholder Mobilizers'],
+    defaultDimensions: [],
+    areaDimensions: {
+      'Cost of Inaction': ['quantification'],
+      'Status Quo & Assumptions': ['complexity']
+    }
+  },
+  reportMapping: [
+    { title: 'Reframe', areas: ['Status Quo & Assumptions', 'Commercial Insight'], guidance: 'Their current mental model and the insight that challenges it' },
+    { title: 'Cost of Inaction', areas: ['Cost of Inaction'], guidance: 'Quantified cost of the status quo' },
+    { title: 'Mobilizers & Tailored Value', areas: ['Stakeholder Mobilizers', 'Tailored Value'], guidance: 'Who will drive change and what each group values' },
+    { title: 'Path to Decision', areas: ['Decision Path'], guidance: 'Agreed steps and sticking points' }
+  ],
+  dependencies: [
+    { area: 'Commercial Insight', after: 'Status Quo & Assumptions', dimension: 'complexity', reason: 'the reframe needs their current assumptions first' },
+    { area: 'Cost of Inaction', after: 'Commercial Insight', dimension: 'complexity', reason: 'inaction costs matter once the reframe has landed' },
+    { area: 'Tailored Value', after: 'Stakeholder Mobilizers', dimension: 'complexity', reason: 'value is tailored to the stakeholders already identified' }
+  ],
+  qualificationGuidance: 'Assess whether a mobilizer has accepted the reframe and whether the cost of inaction is quantified'
+};
+
+/**
+ * Methodology registry - add new packs here
+ */
+export const METHODOLOGY_PACKS: Record<MethodologyId, MethodologyPack> = {
+  'deep-rabbit': DEEP_RABBIT_PACK,
+  'meddicc': MEDDICC_PACK,
+  'bant': BANT_PACK,
+  'spin': SPIN_PACK,
+  'challenger': CHALLENGER_PACK
+};
+
+/**
+ * Look up a pack, falling back to the default framework
+ */
+export function getMethodologyPack(id?: string | null): MethodologyPack {
+  return METHODOLOGY_PACKS[id as MethodologyId] || METHODOLOGY_PACKS[DEFAULT_METHODOLOGY_ID];
+}
+
+export function getMethodologyArea(pack: MethodologyPack, areaName: string): MethodologyArea | undefined {
+  return pack.areas.find(area => area.name === areaName);
+}
+
+export function getMethodologyAreaNames(pack: MethodologyPack): string[] {
+  return pack.areas.map(area => area.name);
+}
+
+/**
+ * Depth templates keyed by area name, for getQuestionProgression
+ */
+export function getMethodologyPatterns(pack: MethodologyPack): Record<string, DepthTemplates> {
+  return Object.fromEntries(pack.areas.map(area => [area.name, area.templates]));
+}
+
+/**
+ * Target number of assessments for a full session under this pack
+ */
+export function getAssessmentTarget(pack: MethodologyPack): number {
+  return pack.areas.length * pack.completeness.minQuestionsPerArea;
+}
+
+/**
+ * Group session notes under the pack's report sections.
+ * Notes from areas the mapping doesn't cover are collected under "Additional Findings".
+ */
+export function groupNotesByReportSection(
+  pack: MethodologyPack,
+  notes: DiscoveryNote[]
+): Array<{ section: ReportSectionMapping; notes: DiscoveryNote[] }> {
+  const mapped = new Set(pack.reportMapping.flatMap(section => section.areas));
+  const groups = pack.reportMapping.map(section => ({
+    section,
+    notes: notes.filter(note => section.areas.includes(note.areaName))
+  }));
+
+  const unmapped = notes.filter(note => !mapped.has(note.areaName));
+  if (unmapped.length > 0) {
+    groups.push({
+      section: { title: 'Additional Findings', areas: unmapped.map(note => note.areaName), guidance: 'Areas outside the methodology mapping' },
+      notes: unmapped
+    });
+  }
+
+  return groups.filter(group => group.notes.length > 0);
+}
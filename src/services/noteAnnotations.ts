@@ -0,0 +1,193 @@
+/**
+ * Note Annotations
+ * Inline tags for verbatim quotes, key numbers, risks and commitments, stored on question blocks so reports can cite them
+ */
+
+import type { DiscoveryNote, DiscoverySession, QuestionBlock } from '@/types/discovery';
+
+export type AnnotationKind = 'quote' | 'number' | 'risk' | 'commitment';
+
+export interface NoteAnnotation {
+  id: string;
+  kind: AnnotationKind;
+  text: string;
+  start: number;               // Offsets into the block's notes with the markup removed
+  end: number;
+}
+
+// A tagged passage with everything a report needs to cite it and link back to its question
+export interface NoteCitation {
+  id: string;                  // C1, C2... in the order the notes were taken
+  kind: AnnotationKind;
+  text: string;
+  sessionId: string;
+  contactName: string;         // Who was speaking on that call
+  areaName: string;
+  questionId: string;
+  questionNumber: number;
+  questionText: string;
+}
+
+export const ANNOTATION_KINDS: AnnotationKind[] = ['quote', 'number', 'risk', 'commitment'];
+
+export const ANNOTATION_LABELS: Record<AnnotationKind, string> = {
+  quote: 'Quote',
+  number: 'Key number',
+  risk: 'Risk',
+  commitment: 'Commitment'
+};
+
+// Typed as {{quote: ...}}, or with the one-letter shorthand {{q: ...}}
+const KIND_ALIASES: Record<string, AnnotationKind> = {
+  quote: 'quote', q: 'quote',
+  number: 'number', n: 'number',
+  risk: 'risk', r: 'risk',
+  commitment: 'commitment', c: 'commitment'
+};
+
+const MARKUP_PATTERN = /\{\{\s*(quote|number|risk|commitment|q|n|r|c)\s*:\s*([^{}]*?)\s*\}\}/gi;
+
+export const annotationMarkup = (kind: AnnotationKind, text: string): string => `{{${kind}: ${text.trim()}}}`;
+
+/**
+ * Wrap the selected part of some notes in a tag. Returns the new notes and where the caret should go.
+ */
+export function wrapSelection(
+  notes: string,
+  selectionStart: number,
+  selectionEnd: number,
+  kind: AnnotationKind
+): { notes: string; caret: number } {
+  const selected = notes.slice(selectionStart, selectionEnd);
+  const markup = selected.trim() ? annotationMarkup(kind, selected) : `{{${kind}: `;
+  const closing = selected.trim() ? '' : '}}';
+  return {
+    notes: notes.slice(0, selectionStart) + markup + closing + notes.slice(selectionEnd),
+    caret: selectionStart + markup.length
+  };
+}
+
+/**
+ * The notes as they read without markup, and the tagged passages within them
+ */
+export function parseAnnotations(notes: string): { text: string; annotations: Omit<NoteAnnotation, 'id'>[] } {
+  const annotations: Omit<NoteAnnotation, 'id'>[] = [];
+  let text = '';
+  let last = 0;
+
+  for (const match of notes.matchAll(MARKUP_PATTERN)) {
+    text += notes.slice(last, match.index);
+    const tagged = match[2];
+    if (tagged) {
+      annotations.push({ kind: KIND_ALIASES[match[1].toLowerCase()], text: tagged, start: text.length, end: text.length + tagged.length });
+    }
+    text += tagged;
+    last = match.index + match[0].length;
+  }
+
+  return { text: text + notes.slice(last), annotations };
+}
+
+export const stripAnnotationMarkup = (notes: string): string => parseAnnotations(notes).text;
+
+/**
+ * Refresh a block's annotations from its notes. Tags that survive an edit keep their ids.
+ */
+export function annotateBlock(block: QuestionBlock): QuestionBlock {
+  const { annotations } = parseAnnotations(block.notes);
+  const previous = [...(block.annotations || [])];
+
+  if (annotations.length === 0 && previous.length === 0) return block;
+
+  return {
+    ...block,
+    annotations: annotations.map(annotation => {
+      const index = previous.findIndex(p => p.kind === annotation.kind && p.text === annotation.text);
+      const id = index >= 0 ? previous.splice(index, 1)[0].id : crypto.randomUUID();
+      return { ...annotation, id };
+    })
+  };
+}
+
+export const annotateNote = (note: DiscoveryNote): DiscoveryNote => ({
+  ...note,
+  questions: note.questions.map(annotateBlock)
+});
+
+/**
+ * Every tagged passage across the notes, numbered for citation. Blocks saved before
+ * tagging existed are parsed on the fly.
+ */
+export function collectCitations(
+  notes: DiscoveryNote[],
+  sessionFor: (block: QuestionBlock) => Pick<DiscoverySession, 'id' | 'contact_name'>
+): NoteCitation[] {
+  const citations: NoteCitation[] = [];
+  for (const note of notes) {
+    for (const block of note.questions) {
+      const annotations = block.annotations || annotateBlock(block).annotations || [];
+      const session = sessionFor(block);
+      for (const annotation of annotations) {
+        citations.push({
+          id: `C${citations.length + 1}`,
+          kind: annotation.kind,
+          text: annotation.text,
+          sessionId: session.id,
+          contactName: session.contact_name,
+          areaName: note.areaName,
+          questionId: block.id,
+          questionNumber: block.questionNumber,
+          questionText: block.questionText
+        });
+      }
+    }
+  }
+  return citations;
+}
+
+// Opens the session on the question the passage was tagged in
+export const citationLink = (citation: Pick<NoteCitation, 'sessionId' | 'questionId'>): string =>
+  `/discovery/session/${citation.sessionId}?question=${citation.questionId}`;
+
+export const citationSource = (citation: NoteCitation): string =>
+  `${citation.areaName}, Q${citation.questionNumber}`;
+
+/**
+ * Tagged evidence for a prompt, by citation id, so the model can quote it exactly
+ */
+export function formatCitationsForPrompt(citations: NoteCitation[]): string {
+  if (citations.length === 0) return '';
+  return `TAGGED EVIDENCE (cite as [C#]; quotes are the prospect's exact words and must not be paraphrased):
+${citations.map(c => `[${c.id}] ${ANNOTATION_LABELS[c.kind]} (${citationSource(c)}): "${c.text}"`).join('\n')}`;
+}
+
+/**
+ * A report section with the tagged passages, each linked back to its question
+ */
+export function formatCitationsMarkdown(citations: NoteCitation[]): string {
+  if (citations.length === 0) return '';
+
+  const cite = (c: NoteCitation) => `[${c.id}: ${citationSource(c)}](${citationLink(c)})`;
+  const group = (kind: AnnotationKind, title: string, line: (c: NoteCitation) => string) => {
+    const tagged = citations.filter(c => c.kind === kind);
+    return tagged.length > 0 ? `\n### ${title}\n${tagged.map(line).join('\n')}\n` : '';
+  };
+
+  return `## In Their Words
+${group('quote', 'Verbatim Quotes', c => `> "${c.text}" - ${c.contactName} ${cite(c)}`)}${
+  group('number', 'Key Numbers', c => `- **${c.text}** ${cite(c)}`)}${
+  group('risk', 'Risks Raised', c => `- ${c.text} ${cite(c)}`)}${
+  group('commitment', 'Commitments Made', c => `- ${c.text} ${cite(c)}`)}`;
+}
+
+export default {
+  wrapSelection,
+  parseAnnotations,
+  stripAnnotationMarkup,
+  annotateBlock,
+  annotateNote,
+  collectCitations,
+  citationLink,
+  formatCitationsForPrompt,
+  formatCitationsMarkdown
+};
@@ -0,0 +1,76 @@
+/**
+ * Calibration fixtures for the note quality rubric
+ * Anonymised consultant notes with hand-graded expected scores (0-3 per dimension)
+ */
+
+import type { QualityDimension } from './noteQualityRubric';
+
+export interface NoteQualityFixture {
+  id: string;
+  area: string;
+  notes: string;
+  expected: Record<QualityDimension, number>;
+}
+
+export const NOTE_QUALITY_FIXTURES: NoteQualityFixture[] = [
+  {
+    id: 'vague-need',
+    area: 'Pain Points & Challenges',
+    notes: 'They need a better way to do reporting.',
+    expected: { complexity: 0, requirements: 1, quantification: 0, technicalDetail: 0 }
+  },
+  {
+    id: 'single-problem-no-detail',
+    area: 'Pain Points & Challenges',
+    notes: 'Biggest problem is the approval process. Everyone complains about it but nobody owns it and it just sits there.',
+    expected: { complexity: 1, requirements: 0, quantification: 0, technicalDetail: 0 }
+  },
+  {
+    id: 'quantified-pain',
+    area: 'Pain Points & Challenges',
+    notes: 'Quote turnaround is 5 days today because engineering reviews every quote manually. They lose roughly 30% of RFQs to faster competitors, which means about $2M in missed revenue per year.',
+    expected: { complexity: 2, requirements: 0, quantification: 3, technicalDetail: 1 }
+  },
+  {
+    id: 'named-systems-with-flow',
+    area: 'Current State Assessment',
+    notes: 'Orders come in through Salesforce, then ops exports a CSV every night and manually re-enters it into SAP. Inventory lives in a separate Excel workbook that the warehouse lead updates by hand, so the ERP is always a day behind.',
+    expected: { complexity: 2, requirements: 0, quantification: 0, technicalDetail: 3 }
+  },
+  {
+    id: 'hard-requirements-prioritised',
+    area: 'Constraints & Requirements',
+    notes: 'Any solution must be ITAR compliant and must run on-prem because export-controlled drawings cannot leave their network. SSO with Azure AD is required. Mobile access is nice to have but not a priority for phase one.',
+    expected: { complexity: 1, requirements: 3, quantification: 0, technicalDetail: 2 }
+  },
+  {
+    id: 'budget-figures',
+    area: 'Budget & Resources',
+    notes: 'Budget discussed is $150K for this fiscal year, approved by the CFO. They have 2 engineers who could support part time, maybe 10 hours a week each.',
+    expected: { complexity: 0, requirements: 0, quantification: 3, technicalDetail: 0 }
+  },
+  {
+    id: 'stakeholder-tension',
+    area: 'Stakeholders & Politics',
+    notes: 'VP Ops is the champion. IT director is skeptical because the last vendor project failed and caused a 3 week outage. Finance wants ROI proof before anything moves, so there is a risk this stalls in Q3.',
+    expected: { complexity: 3, requirements: 0, quantification: 2, technicalDetail: 0 }
+  },
+  {
+    id: 'short-but-keywordy',
+    area: 'Constraints & Requirements',
+    notes: 'Critical need, must have integration.',
+    expected: { complexity: 1, requirements: 1, quantification: 0, technicalDetail: 1 }
+  },
+  {
+    id: 'rich-current-state',
+    area: 'Current State Assessment',
+    notes: 'Field techs log work orders in ServiceNow, but parts usage is tracked in a legacy Access database that syncs to NetSuite once a week. Because of the weekly batch, billing is delayed by 7 days on average and about 15% of invoices need manual correction. They must keep ServiceNow as the system of record.',
+    expected: { complexity: 3, requirements: 2, quantification: 3, technicalDetail: 3 }
+  },
+  {
+    id: 'success-metric-baseline',
+    area: 'Success Metrics',
+    notes: 'Success would be getting first-pass yield from 82% to 95% within 12 months and cutting scrap cost, currently around $40K a month, in half.',
+    expected: { complexity: 0, requirements: 0, quantification: 3, technicalDetail: 0 }
+  }
+];
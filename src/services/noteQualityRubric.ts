@@ -0,0 +1,404 @@
+/**
+ * Note Quality Rubric - per-dimension scoring of discovery notes
+ * Shared by the LLM grader and the deterministic local scorer
+ */
+
+export type QualityDimension =
+  | 'complexity'
+  | 'requirements'
+  | 'quantification'
+  | 'technicalDetail';
+
+export interface DimensionScore {
+  score: number;          // 0-3, see NOTE_QUALITY_RUBRIC
+  justification: string;  // One short sentence grounded in the notes
+}
+
+export type DimensionScores = Record<QualityDimension, DimensionScore>;
+
+export const QUALITY_DIMENSIONS: QualityDimension[] = [
+  'complexity',
+  'requirements',
+  'quantification',
+  'technicalDetail'
+];
+
+// A dimension scoring at or above this counts as "covered"
+export const RUBRIC_PASS_SCORE = 2;
+export const RUBRIC_MAX_SCORE = 3;
+
+/**
+ * Rubric anchors for each dimension, used verbatim in the grading prompt
+ */
+export const NOTE_QUALITY_RUBRIC: Record<QualityDimension, { label: string; levels: [string, string, string, string] }> = {
+  complexity: {
+    label: 'Uncovered complexity',
+    levels: [
+      'No problems, risks or tensions mentioned',
+      'A problem is named but not explained',
+      'A problem is explained with its cause or consequence',
+      'Several interacting problems, root causes or second-order effects are described'
+    ]
+  },
+  requirements: {
+    label: 'Specific requirements',
+    levels: [
+      'No requirements or constraints stated',
+      'Vague wants or needs ("we need something better")',
+      'At least one concrete, testable requirement or hard constraint',
+      'Multiple concrete requirements with priority or rationale'
+    ]
+  },
+  quantification: {
+    label: 'Quantification',
+    levels: [
+      'No numbers at all',
+      'Numbers without units or context',
+      'At least one figure with a unit (time, money, volume, percentage)',
+      'Several figures, or a baseline compared against a target'
+    ]
+  },
+  technicalDetail: {
+    label: 'Technical detail',
+    levels: [
+      'No systems, tools or processes mentioned',
+      'Generic references ("our system", "the workflow")',
+      'Named systems, tools or integration points',
+      'Named systems with how they connect, fail or are used'
+    ]
+  }
+};
+
+const clamp = (score: number): number =>
+  Math.max(0, Math.min(RUBRIC_MAX_SCORE, Math.round(score)));
+
+const countMatches = (text: string, pattern: RegExp): number =>
+  (text.match(pattern) || []).length;
+
+const distinctMatches = (text: string, pattern: RegExp): string[] =>
+  Array.from(new Set((text.match(pattern) || []).map(m => m.toLowerCase().trim())));
+
+// Signal vocabularies for the local scorer
+const PROBLEM_TERMS = /\b(critical|urgent|blocked|blocker|failed|failing|risk|challenge|issue|problem|bottleneck|delay(?:ed|s)?|outage|workaround|backlog|churn|escalat\w+|manual(?:ly)?)\b/gi;
+const CAUSAL_TERMS = /\b(because|due to|which means|so that|as a result|caused by|leads? to|results? in|therefore)\b/gi;
+const HARD_REQUIREMENT_TERMS = /\b(must(?: have| be| support| not)?|required|requires|mandatory|non-negotiable|has to|have to|cannot|can't|needs? to (?:support|integrate|comply|handle|run|be)|compliant with|no later than)\b/gi;
+const SOFT_REQUIREMENT_TERMS = /\b(need|needs|want|wants|would like|wish|prefer|looking for|hoping)\b/gi;
+const PRIORITY_TERMS = /\b(priority|top|first|most important|nice to have|deal.?breaker|non-negotiable)\b/gi;
+const QUANTITY_WITH_UNIT = /(?:[$€£]\s?\d[\d,.]*\s*(?:k|m|mm|b|million|billion|thousand)?|\b\d[\d,.]*\s*(?:%|percent|hours?|hrs?|days?|weeks?|months?|years?|minutes?|mins?|dollars?|usd|k\b|m\b|million|billion|thousand|people|users|employees|engineers|fte|tickets?|orders?|units?|sites?|times))/gi;
+const BARE_NUMBER = /\b\d[\d,.]*\b/g;
+const BASELINE_TERMS = /\b(from|baseline|currently|today|down to|up to|target|goal|reduce|increase|vs\.?|versus)\b/gi;
+const GENERIC_TECH_TERMS = /\b(system|api|database|workflow|integration|platform|architecture|infrastructure|software|tool|spreadsheet|excel|erp|crm|mes|plm|lms|scada|cloud|on-prem|server|pipeline|dashboard|portal)\b/gi;
+const NAMED_SYSTEM = /\b(?:[A-Z]{2,}[A-Za-z0-9]*|[A-Z][a-z]+(?:[A-Z][a-z]+)+|SAP|Salesforce|Oracle|Workday|ServiceNow|Jira|SharePoint|Azure|AWS|GCP|Snowflake|Tableau|NetSuite|Dynamics)\b/g;
+// Acronyms that name roles, periods or business terms rather than systems
+const NON_SYSTEM_ACRONYMS = new Set(['ceo', 'cfo', 'cto', 'coo', 'cio', 'ciso', 'vp', 'svp', 'evp', 'it', 'hr', 'ops', 'roi', 'rfq', 'rfp', 'kpi', 'okr', 'q1', 'q2', 'q3', 'q4', 'fy', 'ok', 'us', 'uk', 'eu']);
+const TECH_RELATION_TERMS = /\b(syncs?|exports?|imports?|feeds?|pulls?|pushes?|connects?|integrates?|interfaces?|batch|real-time|nightly|manual(?:ly)? (?:re-?)?enter\w*|copy|copied|duplicate)\b/gi;
+
+/**
+ * Signal vocabulary for notes written in another language. Entries are regex
+ * source fragments (use \p{L} rather than \w so accented letters match) and are
+ * checked alongside the English vocabularies, since notes often mix in English
+ * product and process terms.
+ */
+export interface NoteLexicon {
+  problemTerms: string[];
+  causalTerms: string[];
+  hardRequirementTerms: string[];
+  softRequirementTerms: string[];
+  priorityTerms: string[];
+  units: string[];             // Follow a number: "Stunden", "días", "時間"
+  baselineTerms: string[];
+  genericTechTerms: string[];
+  techRelationTerms: string[];
+  spaceDelimited: boolean;     // false for scripts written without spaces between words
+}
+
+interface SignalPatterns {
+  problem: RegExp[];
+  causal: RegExp[];
+  hardRequirement: RegExp[];
+  softRequirement: RegExp[];
+  priority: RegExp[];
+  quantity: RegExp[];
+  baseline: RegExp[];
+  genericTech: RegExp[];
+  techRelation: RegExp[];
+}
+
+const ENGLISH_SIGNALS: SignalPatterns = {
+  problem: [PROBLEM_TERMS],
+  causal: [CAUSAL_TERMS],
+  hardRequirement: [HARD_REQUIREMENT_TERMS],
+  softRequirement: [SOFT_REQUIREMENT_TERMS],
+  priority: [PRIORITY_TERMS],
+  quantity: [QUANTITY_WITH_UNIT],
+  baseline: [BASELINE_TERMS],
+  genericTech: [GENERIC_TECH_TERMS],
+  techRelation: [TECH_RELATION_TERMS]
+};
+
+// \b only understands ASCII letters, so localized terms use Unicode-aware lookarounds
+const termPattern = (terms: string[], spaceDelimited: boolean): RegExp => {
+  const alternatives = terms.join('|');
+  return spaceDelimited
+    ? new RegExp(`(?<!\\p{L})(?:${alternatives})(?!\\p{L})`, 'giu')
+    : new RegExp(`(?:${alternatives})`, 'giu');
+};
+
+const lexiconCache = new WeakMap<NoteLexicon, SignalPatterns>();
+
+const getSignalPatterns = (lexicon?: NoteLexicon): SignalPatterns => {
+  if (!lexicon) return ENGLISH_SIGNALS;
+
+  const cached = lexiconCache.get(lexicon);
+  if (cached) return cached;
+
+  const terms = (list: string[]) => termPattern(list, lexicon.spaceDelimited);
+  const patterns: SignalPatterns = {
+    problem: [PROBLEM_TERMS, terms(lexicon.problemTerms)],
+    causal: [CAUSAL_TERMS, terms(lexicon.causalTerms)],
+    hardRequirement: [HARD_REQUIREMENT_TERMS, terms(lexicon.hardRequirementTerms)],
+    softRequirement: [SOFT_REQUIREMENT_TERMS, terms(lexicon.softRequirementTerms)],
+    priority: [PRIORITY_TERMS, terms(lexicon.priorityTerms)],
+    quantity: [
+      QUANTITY_WITH_UNIT,
+      new RegExp(`\\d[\\d,.]*\\s*(?:${lexicon.units.join('|')})${lexicon.spaceDelimited ? '(?!\\p{L})' : ''}`, 'giu')
+    ],
+    baseline: [BASELINE_TERMS, terms(lexicon.baselineTerms)],
+    genericTech: [GENERIC_TECH_TERMS, terms(lexicon.genericTechTerms)],
+    techRelation: [TECH_RELATION_TERMS, terms(lexicon.techRelationTerms)]
+  };
+  lexiconCache.set(lexicon, patterns);
+  return patterns;
+};
+
+const countAll = (text: string, patterns: RegExp[]): number =>
+  patterns.reduce((sum, pattern) => sum + countMatches(text, pattern), 0);
+
+const distinctAll = (text: string, patterns: RegExp[]): string[] =>
+  Array.from(new Set(patterns.flatMap(pattern => distinctMatches(text, pattern))));
+
+// Without spaces, roughly two characters make a word
+const CJK_CHARACTERS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+
+const countWords = (text: string, spaceDelimited: boolean): number => {
+  if (spaceDelimited) return text.split(/\s+/).filter(Boolean).length;
+  const cjk = countMatches(text, CJK_CHARACTERS);
+  const latin = text.replace(CJK_CHARACTERS, ' ').split(/\s+/).filter(word => /[A-Za-z0-9]/.test(word)).length;
+  return Math.round(cjk / 2) + latin;
+};
+
+/**
+ * Named systems in the notes (original casing), excluding role and period acronyms
+ */
+export function findNamedSystems(text: string): string[] {
+  const seen = new Set<string>();
+  return (text.match(NAMED_SYSTEM) || []).filter(term => {
+    const key = term.toLowerCase();
+    if (NON_SYSTEM_ACRONYMS.has(key) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Figures with a unit or currency, e.g. "$150K", "30%", "5 days"
+ */
+export function findQuantities(text: string): string[] {
+  return Array.from(new Set((text.match(QUANTITY_WITH_UNIT) || []).map(m => m.trim())));
+}
+
+/**
+ * Deterministic local scorer - used when no model is configured and as the
+ * fallback when grading fails. Mirrors NOTE_QUALITY_RUBRIC as closely as
+ * keyword heuristics allow.
+ */
+export function scoreNotesLocally(notes: string, lexicon?: NoteLexicon): DimensionScores {
+  // Full-width digits and symbols are common in Japanese notes
+  const text = lexicon ? (notes || '').normalize('NFKC') : notes || '';
+  const signals = getSignalPatterns(lexicon);
+  const wordCount = countWords(text, lexicon?.spaceDelimited ?? true);
+  // Very short notes cannot demonstrate depth on any dimension
+  const cap = wordCount < 12 ? 1 : RUBRIC_MAX_SCORE;
+
+  // Complexity
+  const problems = distinctAll(text, signals.problem);
+  const causal = countAll(text, signals.causal);
+  let complexity = problems.length === 0 ? 0 : problems.length === 1 && causal === 0 ? 1 : 2;
+  if (problems.length >= 3 && causal > 0) complexity = 3;
+
+  // Requirements - a bare "need" is only a soft signal
+  const hard = countAll(text, signals.hardRequirement);
+  const soft = countAll(text, signals.softRequirement);
+  let requirements = hard > 0 ? 2 : soft > 0 ? 1 : 0;
+  if (hard >= 2 && countAll(text, signals.priority) + causal > 0) requirements = 3;
+
+  // Quantification
+  const figures = countAll(text, signals.quantity);
+  const bare = countMatches(text, BARE_NUMBER);
+  let quantification = figures > 0 ? 2 : bare > 0 ? 1 : 0;
+  if (figures >= 3 || (figures >= 2 && countAll(text, signals.baseline) > 0)) quantification = 3;
+
+  // Technical detail
+  const generic = distinctAll(text, signals.genericTech);
+  const named = distinctMatches(text, NAMED_SYSTEM).filter(term => !NON_SYSTEM_ACRONYMS.has(term));
+  let technicalDetail = named.length > 0 ? 2 : generic.length > 0 ? 1 : 0;
+  if (named.length > 0 && (named.length + generic.length >= 3) && countAll(text, signals.techRelation) > 0) {
+    technicalDetail = 3;
+  }
+
+  const scores = {
+    complexity: clamp(Math.min(complexity, cap)),
+    requirements: clamp(Math.min(requirements, cap)),
+    quantification: clamp(Math.min(quantification, cap)),
+    technicalDetail: clamp(Math.min(technicalDetail, cap))
+  };
+
+  return {
+    complexity: {
+      score: scores.complexity,
+      justification: problems.length > 0
+        ? `Mentions ${problems.slice(0, 3).join(', ')}${causal > 0 ? ' with cause or consequence' : ' without explaining why'}.`
+        : 'No problems or risks described.'
+    },
+    requirements: {
+      score: scores.requirements,
+      justification: hard > 0
+        ? `${hard} hard requirement statement${hard === 1 ? '' : 's'} captured.`
+        : soft > 0
+          ? 'Only soft wants/needs, nothing testable yet.'
+          : 'No requirements or constraints stated.'
+    },
+    quantification: {
+      score: scores.quantification,
+      justification: figures > 0
+        ? `${figures} figure${figures === 1 ? '' : 's'} with units captured.`
+        : bare > 0
+          ? 'Numbers present but without units or context.'
+          : 'No numbers captured.'
+    },
+    technicalDetail: {
+      score: scores.technicalDetail,
+      justification: named.length > 0
+        ? `Names ${named.slice(0, 3).join(', ')}.`
+        : generic.length > 0
+          ? 'Only generic references to systems or workflows.'
+          : 'No systems or processes mentioned.'
+    }
+  };
+}
+
+/**
+ * Sum of dimension scores mapped to the coarse high/medium/low band
+ */
+export function getOverallQuality(dimensions: DimensionScores): 'high' | 'medium' | 'low' {
+  const total = QUALITY_DIMENSIONS.reduce((sum, d) => sum + dimensions[d].score, 0);
+  const max = QUALITY_DIMENSIONS.length * RUBRIC_MAX_SCORE;
+  const ratio = total / max;
+  return ratio >= 0.67 ? 'high' : ratio >= 0.42 ? 'medium' : 'low';
+}
+
+/**
+ * Build the grading prompt sent to the model
+ */
+export function buildNoteQualityPrompt(notes: string, area?: string, languageName?: string): string {
+  const rubric = QUALITY_DIMENSIONS.map(d => {
+    const { label, levels } = NOTE_QUALITY_RUBRIC[d];
+    return `${d} (${label}):\n${levels.map((level, i) => `  ${i} = ${level}`).join('\n')}`;
+  }).join('\n\n');
+
+  return `
+    Grade these consultant discovery notes${area ? ` from the "${area}" area` : ''} against the rubric.
+    Score only what is written - do not infer facts that are not in the notes.
+    ${languageName && languageName !== 'English' ? `The notes are written in ${languageName}. Apply the rubric to them as written and write the justifications in English.` : ''}
+
+    RUBRIC (score each dimension 0-3):
+    ${rubric}
+
+    NOTES:
+    """
+    ${notes}
+    """
+
+    Return JSON with this exact structure:
+    {
+      "complexity": { "score": 0-3, "justification": "one short sentence citing the notes" },
+      "requirements": { "score": 0-3, "justification": "..." },
+      "quantification": { "score": 0-3, "justification": "..." },
+      "technicalDetail": { "score": 0-3, "justification": "..." }
+    }
+  `;
+}
+
+/**
+ * Validate and normalise a model response into DimensionScores.
+ * Returns null when the payload does not match the rubric shape.
+ */
+export function parseDimensionScores(raw: unknown): DimensionScores | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const result = {} as DimensionScores;
+  for (const dimension of QUALITY_DIMENSIONS) {
+    const entry = (raw as Record<string, { score?: unknown; justification?: unknown }>)[dimension];
+    if (!entry || typeof entry.score !== 'number' || Number.isNaN(entry.score)) return null;
+    result[dimension] = {
+      score: clamp(entry.score),
+      justification: typeof entry.justification === 'string' ? entry.justification.trim() : ''
+    };
+  }
+  return result;
+}
+
+export interface CalibrationFixture {
+  id: string;
+  area: string;
+  notes: string;
+  expected: Record<QualityDimension, number>;
+}
+
+export interface CalibrationReport {
+  fixtures: number;
+  exactAgreement: number;  // 0-1, share of dimension scores matching exactly
+  withinOne: number;       // 0-1, share of dimension scores off by at most 1
+  meanAbsoluteError: Record<QualityDimension, number>;
+  misses: Array<{ id: string; dimension: QualityDimension; expected: number; actual: number }>;
+}
+
+/**
+ * Compare a scorer against hand-graded fixtures
+ */
+export async function calibrateScorer(
+  scorer: (notes: string, area: string) => DimensionScores | Promise<DimensionScores>,
+  fixtures: CalibrationFixture[]
+): Promise<CalibrationReport> {
+  const errorTotals = { complexity: 0, requirements: 0, quantification: 0, technicalDetail: 0 };
+  const misses: CalibrationReport['misses'] = [];
+  let exact = 0;
+  let withinOne = 0;
+
+  for (const fixture of fixtures) {
+    const scores = await scorer(fixture.notes, fixture.area);
+    for (const dimension of QUALITY_DIMENSIONS) {
+      const expected = fixture.expected[dimension];
+      const actual = scores[dimension].score;
+      const error = Math.abs(expected - actual);
+      errorTotals[dimension] += error;
+      if (error === 0) exact++;
+      if (error <= 1) withinOne++;
+      if (error > 1) misses.push({ id: fixture.id, dimension, expected, actual });
+    }
+  }
+
+  const comparisons = Math.max(1, fixtures.length * QUALITY_DIMENSIONS.length);
+  const meanAbsoluteError = {} as Record<QualityDimension, number>;
+  for (const dimension of QUALITY_DIMENSIONS) {
+    meanAbsoluteError[dimension] = fixtures.length ? errorTotals[dimension] / fixtures.length : 0;
+  }
+
+  return {
+    fixtures: fixtures.length,
+    exactAgreement: exact / comparisons,
+    withinOne: withinOne / comparisons,
+    meanAbsoluteError,
+    misses
+  };
+}
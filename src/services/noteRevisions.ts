@@ -0,0 +1,217 @@
+/**
+ * Note Revisions
+ * Revision history for question block notes and each area's working notes, with a side-by-side line diff
+ */
+
+export type RevisionTargetKind = 'question' | 'current';
+
+// 'baseline' is text saved before its history began, recorded the first time it changes
+export type RevisionReason = 'baseline' | 'autosave' | 'edit' | 'assess' | 'import' | 'restore';
+
+export interface RevisionAuthor {
+  id: string | null;
+  name: string;
+}
+
+export interface NoteRevision {
+  id: string;
+  text: string;
+  author: RevisionAuthor;
+  reason: RevisionReason;
+  createdAt: string;           // ISO time, kept as a string so it survives IndexedDB and JSON sync unchanged
+  restoredFrom?: string;       // Revision id this one brought back
+}
+
+// One history per question block (keyed by block id) and per area's working notes (keyed by area id)
+export interface NoteRevisionHistory {
+  areaId: string;
+  kind: RevisionTargetKind;
+  revisions: NoteRevision[];
+}
+
+export type DiffOp = 'same' | 'removed' | 'added';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+export interface DiffRow {
+  kind: 'same' | 'removed' | 'added' | 'changed';
+  left: string | null;
+  right: string | null;
+  // Word-level detail for changed rows
+  leftSegments?: DiffSegment[];
+  rightSegments?: DiffSegment[];
+}
+
+export const REVISION_REASON_LABELS: Record<RevisionReason, string> = {
+  baseline: 'Earlier version',
+  autosave: 'Autosave',
+  edit: 'Edited',
+  assess: 'Assessed',
+  import: 'Transcript import',
+  restore: 'Restored'
+};
+
+// Oldest revisions are dropped past this
+export const MAX_REVISIONS = 200;
+// Autosaves by the same author this close together fold into one revision
+export const AUTOSAVE_COALESCE_MS = 2 * 60 * 1000;
+// Removing more than this many characters always starts a new revision
+const DELETION_THRESHOLD_CHARS = 20;
+
+export const UNKNOWN_AUTHOR: RevisionAuthor = { id: null, name: 'Unknown' };
+
+export const revisionAuthor = (user: { id?: string; full_name?: string; name?: string; email?: string } | null): RevisionAuthor => ({
+  id: user?.id || null,
+  name: user?.full_name || user?.name || user?.email || UNKNOWN_AUTHOR.name
+});
+
+const removesText = (before: string, after: string): boolean =>
+  before.length - after.length > DELETION_THRESHOLD_CHARS || (after.trim() === '' && before.trim() !== '');
+
+/**
+ * Add a revision for `text`, newest last. Unchanged text is skipped, and a burst
+ * of autosaves folds into one revision unless it removes a chunk of text, so a
+ * select-all delete always leaves the earlier text restorable.
+ */
+export function appendRevision(
+  revisions: NoteRevision[],
+  text: string,
+  author: RevisionAuthor,
+  reason: RevisionReason,
+  now: Date = new Date(),
+  restoredFrom?: string
+): NoteRevision[] {
+  const last = revisions[revisions.length - 1];
+  if (last && last.text === text) return revisions;
+
+  const revision: NoteRevision = {
+    id: crypto.randomUUID(),
+    text,
+    author,
+    reason,
+    createdAt: now.toISOString(),
+    ...(restoredFrom ? { restoredFrom } : {})
+  };
+
+  const coalesce =
+    !!last &&
+    reason === 'autosave' &&
+    last.reason === 'autosave' &&
+    last.author.id === author.id &&
+    now.getTime() - new Date(last.createdAt).getTime() < AUTOSAVE_COALESCE_MS &&
+    !removesText(last.text, text);
+
+  const next = coalesce ? [...revisions.slice(0, -1), { ...revision, id: last.id }] : [...revisions, revision];
+  return next.slice(-MAX_REVISIONS);
+}
+
+// Revisions from two devices are unioned by the sync queue, so order by time rather than trusting list order
+export const sortRevisions = (revisions: NoteRevision[]): NoteRevision[] =>
+  [...revisions].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+// Longest-common-subsequence diff; note blocks are short enough for the quadratic table
+function diffSequences(a: string[], b: string[]): Array<{ op: DiffOp; value: string }> {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: Array<{ op: DiffOp; value: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ op: 'same', value: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ op: 'removed', value: a[i++] });
+    } else {
+      ops.push({ op: 'added', value: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ op: 'removed', value: a[i++] });
+  while (j < b.length) ops.push({ op: 'added', value: b[j++] });
+  return ops;
+}
+
+// Words keep their trailing whitespace so segments join back into the original line
+const tokenize = (line: string): string[] => line.match(/\S+\s*|\s+/g) || [];
+
+export function diffWords(before: string, after: string): { left: DiffSegment[]; right: DiffSegment[] } {
+  const left: DiffSegment[] = [];
+  const right: DiffSegment[] = [];
+  const push = (segments: DiffSegment[], op: DiffOp, text: string) => {
+    const previous = segments[segments.length - 1];
+    if (previous && previous.op === op) previous.text += text;
+    else segments.push({ op, text });
+  };
+
+  for (const { op, value } of diffSequences(tokenize(before), tokenize(after))) {
+    if (op !== 'added') push(left, op, value);
+    if (op !== 'removed') push(right, op, value);
+  }
+  return { left, right };
+}
+
+/**
+ * Side-by-side rows: unchanged lines on both sides, and each run of removed
+ * lines paired with the added lines that replaced it.
+ */
+export function diffNotes(before: string, after: string): DiffRow[] {
+  const ops = diffSequences(before.split('\n'), after.split('\n'));
+  const rows: DiffRow[] = [];
+
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].op === 'same') {
+      rows.push({ kind: 'same', left: ops[k].value, right: ops[k].value });
+      k++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].op !== 'same') {
+      (ops[k].op === 'removed' ? removed : added).push(ops[k].value);
+      k++;
+    }
+
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = removed[n] ?? null;
+      const right = added[n] ?? null;
+      if (left !== null && right !== null) {
+        const words = diffWords(left, right);
+        rows.push({ kind: 'changed', left, right, leftSegments: words.left, rightSegments: words.right });
+      } else {
+        rows.push({ kind: left !== null ? 'removed' : 'added', left, right });
+      }
+    }
+  }
+
+  return rows;
+}
+
+export function summarizeDiff(rows: DiffRow[]): { added: number; removed: number } {
+  return rows.reduce(
+    (totals, row) => ({
+      added: totals.added + (row.kind === 'added' || row.kind === 'changed' ? 1 : 0),
+      removed: totals.removed + (row.kind === 'removed' || row.kind === 'changed' ? 1 : 0)
+    }),
+    { added: 0, removed: 0 }
+  );
+}
+
+export default {
+  appendRevision,
+  sortRevisions,
+  diffNotes,
+  diffWords,
+  summarizeDiff,
+  revisionAuthor
+};
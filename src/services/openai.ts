@@ -1,19 +1,52 @@
 import OpenAI from 'openai';
-import type { DiscoverySession, DiscoveryNote, DiscoveryAreaName } from '@/types/discovery';
+import type { DiscoverySession, DiscoveryNote, QuestionBlock } from '@/types/discovery';
 import { ICP_CONFIGS } from '@/types/discovery';
-import { ElicitationDepthManager, getQuestionProgression, ELICITATION_PATTERNS } from './elicitationEngine';
-
-// Environment variables
-const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-const model = import.meta.env.VITE_OPENAI_MODEL || 'gpt-4o';
-const mockResponses = import.meta.env.VITE_MOCK_AI_RESPONSES === 'true';
+import { ElicitationDepthManager, getQuestionProgression, ELICITATION_PATTERNS, ELICITATION_PATTERN_VARIANTS, toNoteQuality, type NoteQuality, type QuestionProgression } from './elicitationEngine';
+import { buildEntityStore } from './templateEngine';
+import { getMethodologyPack, getMethodologyArea, getMethodologyPatterns, type MethodologyArea } from './methodologyPacks';
+import { buildSlotExtractionPrompt, parseSlotExtraction, extractSlotsLocally, type ProspectSlotKey, type SlotProposal } from './prospectExtraction';
+import { buildTurnClassificationPrompt, parseTurnClassification, classifyTurnsLocally, type TranscriptTurn } from './transcriptImport';
+import { buildNoteQualityPrompt, parseDimensionScores, scoreNotesLocally, NOTE_QUALITY_RUBRIC, QUALITY_DIMENSIONS } from './noteQualityRubric';
+import { resolveElicitationPolicy, getAreaDepthRule, type ElicitationPolicy } from './depthPolicy';
+import { selectTemplateVariants, selectFewShotExamples, type QuestionOutcome, type QuestionProvenance } from './questionEffectiveness';
+import {
+  getSessionLocale,
+  getLanguageInstruction,
+  getLocalizedAreaName,
+  getLocalizedInitialQuestions,
+  localizePatterns,
+  buildLocalizedClarification,
+  buildLocalizedWrapUp,
+  getNoteLexicon,
+  getSlotPatterns,
+  SUPPORTED_LOCALES,
+  type SessionLocale
+} from './locales';
+import { formatPriorFindingsForPrompt } from './accountThreads';
+import {
+  REPORT_SECTIONS,
+  buildPositioningPrompt,
+  generatedSections,
+  resolveReportTemplate,
+  sectionTitle,
+  type ReportSectionId,
+  type ReportTemplate
+} from './reportTemplates';
+import { CLAIM_CITATION_RULES } from './claimSources';
+import { buildStakeholderExtractionPrompt, parseStakeholderExtraction, extractStakeholdersLocally, type Stakeholder, type StakeholderExtraction } from './stakeholderMap';
+
+// Environment variables - import.meta.env is undefined outside Vite, e.g. in tsx scripts
+const env: Partial<ImportMetaEnv> = import.meta.env ?? {};
+const apiKey = env.VITE_OPENAI_API_KEY;
+const model = env.VITE_OPENAI_MODEL || 'gpt-4o';
+const mockResponses = env.VITE_MOCK_AI_RESPONSES === 'true';
 
 // OpenAI client setup
 let openai: OpenAI | null = null;
 
 // Check if we're in a browser environment
 const isBrowser = typeof window !== 'undefined';
-const allowBrowserMode = import.meta.env.VITE_ALLOW_BROWSER_AI === 'true';
+const allowBrowserMode = env.VITE_ALLOW_BROWSER_AI === 'true';
 
 if (isBrowser && !allowBrowserMode) {
   // SECURITY: Never initialize OpenAI client in the browser for production
@@ -51,15 +84,8 @@ export interface ReportSection {
 
 export interface GeneratedReport {
   id: string;
-  sections: {
-    executive_summary: ReportSection;
-    current_state: ReportSection;
-    opportunities: ReportSection;
-    recommendations: ReportSection;
-    roadmap: ReportSection;
-    roi_projections: ReportSection;
-    next_steps: ReportSection;
-  };
+  // The report template's generated sections, plus any an engine adds (e.g. benchmarks)
+  sections: Partial<Record<ReportSectionId, ReportSection>> & Record<string, ReportSection>;
   confidence_score: number;
   generation_metadata: {
     tokens_used: number;
@@ -68,9 +94,18 @@ export interface GeneratedReport {
   };
 }
 
+// Stands in for the OpenAI client, e.g. recorded responses in the prospect simulator
+export type CompletionProvider = (prompt: string, systemPrompt: string | undefined, maxTokens: number) => Promise<string>;
+
+let completionProvider: CompletionProvider | null = null;
+
+export const setCompletionProvider = (provider: CompletionProvider | null): void => {
+  completionProvider = provider;
+};
+
 // Utility function to check if OpenAI is available
 export const isOpenAIAvailable = (): boolean => {
-  return openai !== null && !mockResponses;
+  return (openai !== null || completionProvider !== null) && !mockResponses;
 };
 
 // Enhanced error handling
@@ -200,6 +235,11 @@ const callOpenAI = async (
     );
   }
 
+  // Providers are local or replayed, so the browser rate limit doesn't apply
+  if (completionProvider) {
+    return completionProvider(prompt, systemPrompt, maxTokens);
+  }
+
   if (!rateLimiter.canMakeRequest()) {
     const waitTime = rateLimiter.getWaitTime();
     throw new OpenAIServiceError(
@@ -353,12 +393,37 @@ const calculateFallbackConfidence = (data: AssessmentRecord): number => {
 };
 
 // Report generation
+export interface ReportOptions {
+  locale?: SessionLocale;      // Language the report is written in, chosen at summary time
+  template?: ReportTemplate;   // Organization's sections, their order and prompts, and positioning
+  citeSources?: boolean;       // Notes and research are numbered in the input; tag every claim with its source
+}
+
 export const generateReport = async (
-  assessmentData: AssessmentRecord
+  assessmentData: AssessmentRecord,
+  options: ReportOptions = {}
 ): Promise<GeneratedReport> => {
+  const locale = options.locale || 'en';
+  const template = resolveReportTemplate(options.template);
+  const sectionShape = generatedSections(template)
+    .map(section => `          ${JSON.stringify(section.id)}: {
+            "title": ${JSON.stringify(sectionTitle(template, section.id))},
+            "content": ${JSON.stringify(section.prompt || REPORT_SECTIONS[section.id].guidance)}
+          }`)
+    .join(',\n');
+
+  // The mock report has every default section; keep the ones the template asks for, in its order
+  const mockReport = (): GeneratedReport => {
+    const report = generateMockResponse('report', assessmentData) as GeneratedReport;
+    return {
+      ...report,
+      sections: Object.fromEntries(generatedSections(template).filter(section => report.sections[section.id]).map(section => [section.id, report.sections[section.id]]))
+    };
+  };
+
   try {
     if (mockResponses || !isOpenAIAvailable()) {
-      return generateMockResponse('report', assessmentData) as GeneratedReport;
+      return mockReport();
     }
 
     const startTime = Date.now();
@@ -415,38 +480,14 @@ export const generateReport = async (
          - Concrete next steps matching their goal
 
       Generate a report that demonstrates deep understanding of their SPECIFIC situation, not generic recommendations.
+      ${options.citeSources ? CLAIM_CITATION_RULES : ''}
+      ${getLanguageInstruction(locale, 'every section title and content value')}
+      ${locale !== 'en' ? 'The discovery notes may be in a different language; translate any quotes you use.' : ''}
       Return JSON with this exact structure:
       {
         "id": "unique_report_id",
         "sections": {
-          "executive_summary": {
-            "title": "Executive Summary",
-            "content": "3-4 bullet points of the MOST CRITICAL findings: biggest pain point with $ impact, key decision maker dynamics, urgent timeline driver, and primary opportunity. Be specific with names, amounts, and dates from the discovery."
-          },
-          "current_state": {
-            "title": "Critical Pain Points & Quantified Impact", 
-            "content": "Extract and prioritize their specific pain points WITH NUMBERS: $7.7M ITAR costs, 3-5 day review cycles, 8% vs 34% win rates. Include failed solutions they've already tried. Reference specific systems and processes they mentioned."
-          },
-          "opportunities": {
-            "title": "Market Intelligence & Competitive Analysis",
-            "content": "Connect their specific challenges to market research findings. Include relevant case studies, competitor moves, regulatory changes, and industry benchmarks that directly relate to their situation. Surface vendor options that fit their constraints."
-          },
-          "recommendations": {
-            "title": "Strategic Recommendations & Political Navigation",
-            "content": "Specific solutions that account for their political dynamics (Martha's veto, Sarah's influence), timeline pressures (38 days left), and failed vendors. Include HOW to navigate their specific decision process."
-          },
-          "roadmap": {
-            "title": "Implementation Roadmap & Risk Mitigation",
-            "content": "Phased plan that addresses their urgent needs first, accounts for their constraints, and includes specific risk mitigations for issues they raised. Reference their actual timeline pressures and decision points."
-          },
-          "roi_projections": {
-            "title": "Business Case & Investment Analysis",
-            "content": "Tie ROI directly to their stated pain points: reducing $7.7M ITAR costs, improving 8% international win rate, preventing Sarah's departure. Use their actual numbers to build the case."
-          },
-          "next_steps": {
-            "title": "Immediate Actions & Deal Strategy",
-            "content": "Specific next steps that match their stated goal, navigate their political landscape, and address their urgency. Include WHO to engage, WHAT to demonstrate, and HOW to position against their evaluation criteria."
-          }
+${sectionShape}
         },
         "confidence_score": 0.0-1.0,
         "generation_metadata": {
@@ -466,7 +507,8 @@ export const generateReport = async (
 5. GENERATE hyper-specific recommendations - no generic advice, everything tied to their exact context
 
 Your analysis should demonstrate that you deeply understand their specific situation, political dynamics, urgency drivers, and unique constraints.
-Focus on actionable intelligence that will help close the deal and deliver value. Always return valid JSON.`;
+Focus on actionable intelligence that will help close the deal and deliver value. Always return valid JSON.${
+  options.template ? `\n\n${buildPositioningPrompt(template)}` : ''}`;
 
     const response = await callOpenAI(prompt, systemPrompt, 8000);
     const result = JSON.parse(response);
@@ -475,7 +517,7 @@ Focus on actionable intelligence that will help close the deal and deliver value
     result.generation_metadata.generation_time_ms = Date.now() - startTime;
     
     // Validate response structure
-    if (!result.sections || !result.sections.executive_summary) {
+    if (!result.sections || Object.keys(result.sections).length === 0) {
       throw new Error('Invalid report structure from OpenAI');
     }
 
@@ -484,7 +526,7 @@ Focus on actionable intelligence that will help close the deal and deliver value
     console.error('Report generation failed:', error);
     
     // Return fallback report
-    return generateMockResponse('report', assessmentData) as GeneratedReport;
+    return mockReport();
   }
 };
 
@@ -561,19 +603,146 @@ export const batchAnalyze = async (
   return results;
 };
 
+// Rubric-based note quality grading
+export const gradeNoteQuality = async (
+  notes: string,
+  area?: string,
+  locale: SessionLocale = 'en'
+): Promise<NoteQuality> => {
+  if (mockResponses || !isOpenAIAvailable() || !notes.trim()) {
+    return toNoteQuality(scoreNotesLocally(notes, getNoteLexicon(locale)), 'local');
+  }
+
+  try {
+    const systemPrompt = `You are a strict discovery quality reviewer. Grade consultant notes against the rubric exactly as written and never reward keywords alone. Always return valid JSON.`;
+
+    const response = await callOpenAI(
+      buildNoteQualityPrompt(notes, area, SUPPORTED_LOCALES[locale].languageName),
+      systemPrompt,
+      600
+    );
+    const dimensions = parseDimensionScores(JSON.parse(response));
+
+    if (!dimensions) {
+      throw new Error('Invalid note quality response from OpenAI');
+    }
+
+    return toNoteQuality(dimensions, 'model');
+  } catch (error) {
+    console.error('Note quality grading failed:', error);
+
+    // Fallback to deterministic local scorer
+    return toNoteQuality(scoreNotesLocally(notes, getNoteLexicon(locale)), 'local');
+  }
+};
+
+// Prospect slot extraction - maps a saved question block into ProspectDiscovery slots
+export const extractProspectSlots = async (
+  areaName: string,
+  block: QuestionBlock,
+  filledSlots: ProspectSlotKey[] = []
+): Promise<SlotProposal[]> => {
+  if (mockResponses || !isOpenAIAvailable() || !block.notes.trim()) {
+    return extractSlotsLocally(areaName, block);
+  }
+
+  try {
+    const systemPrompt = `You are a precise sales operations analyst. Extract only facts that are explicitly stated in the notes. Always return valid JSON.`;
+
+    const response = await callOpenAI(buildSlotExtractionPrompt(areaName, block, filledSlots), systemPrompt, 800);
+    const proposals = parseSlotExtraction(JSON.parse(response), areaName, block);
+
+    if (!proposals) {
+      throw new Error('Invalid slot extraction response from OpenAI');
+    }
+
+    return proposals;
+  } catch (error) {
+    console.error('Prospect slot extraction failed:', error);
+
+    // Fallback to keyword-based extraction
+    return extractSlotsLocally(areaName, block);
+  }
+};
+
+// Stakeholder extraction - people, influence, attitude and relationships mentioned in a saved question block
+export const extractStakeholders = async (
+  areaName: string,
+  block: QuestionBlock,
+  known: Stakeholder[] = []
+): Promise<StakeholderExtraction & { extractedBy: 'model' | 'local' }> => {
+  if (mockResponses || !isOpenAIAvailable() || !block.notes.trim()) {
+    return { ...extractStakeholdersLocally(areaName, block), extractedBy: 'local' };
+  }
+
+  try {
+    const systemPrompt = `You are a precise sales operations analyst mapping the buying committee. Extract only people and facts that are explicitly stated in the notes. Always return valid JSON.`;
+
+    const response = await callOpenAI(buildStakeholderExtractionPrompt(areaName, block, known), systemPrompt, 800);
+    const extraction = parseStakeholderExtraction(JSON.parse(response), areaName, block);
+
+    if (!extraction) {
+      throw new Error('Invalid stakeholder extraction response from OpenAI');
+    }
+
+    return { ...extraction, extractedBy: 'model' };
+  } catch (error) {
+    console.error('Stakeholder extraction failed:', error);
+
+    // Fallback to pattern-based extraction
+    return { ...extractStakeholdersLocally(areaName, block), extractedBy: 'local' };
+  }
+};
+
+// Transcript turn classification - proposes a discovery area for each imported question/answer turn
+export const classifyTranscriptTurns = async (
+  turns: TranscriptTurn[],
+  areas: MethodologyArea[]
+): Promise<TranscriptTurn[]> => {
+  if (mockResponses || !isOpenAIAvailable() || turns.length === 0) {
+    return classifyTurnsLocally(turns, areas);
+  }
+
+  try {
+    const systemPrompt = `You are a precise business analyst sorting a recorded discovery call into discovery areas. Always return valid JSON.`;
+
+    const response = await callOpenAI(buildTurnClassificationPrompt(turns, areas), systemPrompt, 2000);
+    const classified = parseTurnClassification(JSON.parse(response), turns, areas);
+
+    if (!classified) {
+      throw new Error('Invalid transcript classification response from OpenAI');
+    }
+
+    return classified;
+  } catch (error) {
+    console.error('Transcript classification failed:', error);
+
+    // Fallback to keyword-based classification
+    return classifyTurnsLocally(turns, areas);
+  }
+};
+
 // Discovery question generation
 export interface DiscoveryQuestionRequest {
   session: DiscoverySession;
-  currentArea: DiscoveryAreaName;
+  currentArea: string;
   discoveryNotes: DiscoveryNote[];
   currentNotes: string;
+  policy?: ElicitationPolicy;       // Organization policy; defaults to the methodology's own rules
+  history?: QuestionOutcome[];      // Past outcomes used to rank template variants and few-shot examples
+  priorNotes?: DiscoveryNote[];     // Earlier calls with the same account, merged per area
 }
 
 export interface DiscoveryQuestionResult {
   question: string;
   reasoning: string;
+  areaComplete?: boolean;           // Policy says to move on - the question is a wrap-up
+  provenance?: QuestionProvenance;
 }
 
+// Bump when the discovery question prompt changes so outcomes can be compared per version
+export const DISCOVERY_QUESTION_PROMPT_VERSION = 'discovery-question-v2';
+
 export const generateDiscoveryQuestion = async (
   request: DiscoveryQuestionRequest
 ): Promise<DiscoveryQuestionResult> => {
@@ -585,19 +754,34 @@ export const generateDiscoveryQuestion = async (
     const { session, currentArea, discoveryNotes, currentNotes } = request;
     const icpConfig = ICP_CONFIGS[session.client_icp as keyof typeof ICP_CONFIGS];
     const currentAreaNote = discoveryNotes.find(note => note.areaName === currentArea);
+    const locale = getSessionLocale(session);
 
     // Enhanced CBAP-grade elicitation prompt
-    const depthManager = new ElicitationDepthManager();
+    const methodology = getMethodologyPack(session.methodology_id);
+    const depthManager = new ElicitationDepthManager(
+      request.policy ?? resolveElicitationPolicy(methodology),
+      getNoteLexicon(locale)
+    );
     const currentDepth = currentAreaNote?.questions.length || 0;
     const previousNotes = currentAreaNote?.questions.map(q => q.notes) || [];
     
     // Assess note quality if we have previous responses
     const noteQuality = previousNotes.length > 0 ? 
-      depthManager.assessNoteQuality(previousNotes.join(' ')) :
-      { hasUncoveredComplexity: false, hasSpecificRequirements: false, hasQuantification: false, hasTechnicalDetail: false, overallQuality: 'low' as const };
+      await gradeNoteQuality(previousNotes.join('\n'), currentArea, locale) :
+      depthManager.assessNoteQuality('');
+
+    const wrapUp = getPolicyWrapUp(depthManager, currentArea, currentDepth, noteQuality, locale);
+    if (wrapUp) return wrapUp;
     
     const depthGuidance = depthManager.getDepthGuidance(currentDepth, noteQuality);
-    const questionProgression = getQuestionProgression(currentArea, currentDepth, previousNotes);
+    const methodologyArea = getMethodologyArea(methodology, currentArea);
+    const questionProgression = getProgressionForRequest(request, currentDepth);
+    const unresolvedSlots = questionProgression.unresolved
+      .map(slot => `[${slot.placeholder}] (${slot.type || 'undeclared'})`)
+      .join(', ');
+    const fewShotExamples = selectFewShotExamples(request.history || [], currentArea, session.client_icp, 3, locale);
+    const priorFindings = formatPriorFindingsForPrompt(request.priorNotes || [], currentArea);
+    const coveredEarlier = priorQuestionCount(request) > 0;
 
     const prompt = `
       You are a Certified Business Analysis Professional conducting discovery.
@@ -610,11 +794,17 @@ export const generateDiscoveryQuestion = async (
       - Expected Solution Scope: ${session.solution_scope}
       - Expected Next Step: ${session.next_step_goal}
 
-      CURRENT ELICITATION AREA: ${currentArea}
+      ${priorFindings}
+
+      SALES METHODOLOGY: ${methodology.name} - ${methodology.description}
+      CURRENT ELICITATION AREA: ${currentArea}${locale !== 'en' ? ` / ${getLocalizedAreaName(locale, currentArea)}` : ''}${methodologyArea ? ` (${methodologyArea.description})` : ''}
       QUESTION DEPTH: ${currentDepth} (${currentDepth < 2 ? 'Foundation' : currentDepth < 4 ? 'Deep Dive' : 'Synthesis'})
       
       DEPTH GUIDANCE: ${depthGuidance}
-      PROGRESSION TEMPLATE: ${questionProgression}
+      PROGRESSION TEMPLATE: ${questionProgression.question}
+      ${unresolvedSlots ? `UNRESOLVED TEMPLATE SLOTS: ${unresolvedSlots} - these details haven't come up yet. Do not invent them; ask the prospect to name them.` : ''}
+      ${fewShotExamples.length > 0 ? `QUESTIONS THAT PRODUCED STRONG NOTES IN THIS AREA BEFORE (match their specificity, don't copy them):
+      ${fewShotExamples.map(example => `- "${example.questionText}"`).join('\n      ')}` : ''}
 
       ${currentDepth === 0 ? 
         `Generate an initial question that:
@@ -622,18 +812,16 @@ export const generateDiscoveryQuestion = async (
          2. Connects directly to their discovery catalyst: "${session.discovery_context}"
          3. Is specific enough to avoid generic answers
          4. Uses industry terminology relevant to ${session.client_icp}
+         ${coveredEarlier ? `5. Picks up where earlier calls left off in ${currentArea} rather than re-opening it` : ''}
          
          Format: "Given your [specific context], how does [specific area focus] currently handle [specific challenge/process]?"
          ` 
         : 
         `PREVIOUS RESPONSES IN THIS AREA:
-         ${currentAreaNote?.questions.map((q, i) => `Q${i+1}: ${q.questionText}\nResponse: ${q.notes}`).join('\n\n')}
+         ${currentAreaNote?.questions.map((q, i) => `Q${i+1}: ${q.questionText}\nResponse${q.prospectSubmitted ? ' (written by the prospect before the call)' : ''}: ${q.notes}`).join('\n\n')}
          
-         NOTE QUALITY ANALYSIS:
-         - Complexity uncovered: ${noteQuality.hasUncoveredComplexity ? 'Yes' : 'No'}
-         - Specific requirements: ${noteQuality.hasSpecificRequirements ? 'Yes' : 'No'}  
-         - Quantification present: ${noteQuality.hasQuantification ? 'Yes' : 'No'}
-         - Technical details: ${noteQuality.hasTechnicalDetail ? 'Yes' : 'No'}
+         NOTE QUALITY ANALYSIS (rubric 0-3, ${noteQuality.scoredBy}-graded):
+         ${QUALITY_DIMENSIONS.map(d => `- ${NOTE_QUALITY_RUBRIC[d].label}: ${noteQuality.dimensions[d].score}/3 - ${noteQuality.dimensions[d].justification}`).join('\n         ')}
          - Overall quality: ${noteQuality.overallQuality}
 
          Generate a DEEPER follow-up question that:
@@ -655,6 +843,7 @@ export const generateDiscoveryQuestion = async (
 
       The question should feel like it comes from an expert who deeply understands ${session.client_icp} industry challenges.
       It must sound natural and conversational, not like a template.
+      ${locale !== 'en' ? `${getLanguageInstruction(locale, 'the question')} Use the register a consultant would use with a prospect (${locale === 'ja' ? 'polite です/ます form' : locale === 'de' ? 'formal "Sie"' : 'formal "usted"'}). The template and previous responses may be in either language. Write the reasoning in English.` : ''}
 
       Return JSON with this exact structure:
       {
@@ -663,7 +852,7 @@ export const generateDiscoveryQuestion = async (
       }
     `;
 
-    const systemPrompt = `You are an expert B2B software consultant specializing in ${session.client_icp} industry. Ask probing, strategic questions that uncover business pain, quantify impact, and identify specific opportunities. Focus on gathering actionable intelligence for solution design.`;
+    const systemPrompt = `You are an expert B2B software consultant specializing in ${session.client_icp} industry. Ask probing, strategic questions that uncover business pain, quantify impact, and identify specific opportunities. Focus on gathering actionable intelligence for solution design.${locale !== 'en' ? ` You are running this call in ${SUPPORTED_LOCALES[locale].languageName}.` : ''}`;
 
     const response = await callOpenAI(prompt, systemPrompt, 2000);
     const result = JSON.parse(response);
@@ -673,7 +862,16 @@ export const generateDiscoveryQuestion = async (
       throw new Error('Invalid question generation response from OpenAI');
     }
 
-    return result;
+    return {
+      question: result.question,
+      reasoning: result.reasoning,
+      provenance: {
+        source: 'model',
+        depth: questionProgression.depth,
+        template: questionProgression.rendered.template,
+        promptVersion: DISCOVERY_QUESTION_PROMPT_VERSION
+      }
+    };
   } catch (error: any) {
     console.error('Discovery question generation failed:', error);
     
@@ -682,50 +880,114 @@ export const generateDiscoveryQuestion = async (
   }
 };
 
+// Wrap-up prompt once the organization's depth policy says the area is done, otherwise null
+const getPolicyWrapUp = (
+  depthManager: ElicitationDepthManager,
+  area: string,
+  depth: number,
+  noteQuality: NoteQuality,
+  locale: SessionLocale
+): DiscoveryQuestionResult | null => {
+  if (depthManager.shouldContinueQuestioning(depth, noteQuality, area)) return null;
+
+  const { maxDepth } = getAreaDepthRule(depthManager.getPolicy(), area);
+  return {
+    question: buildLocalizedWrapUp(locale, area) ||
+      `Before we move on from ${area.toLowerCase()}, is there anything we haven't covered that would change how you'd prioritize it?`,
+    reasoning: depth >= maxDepth
+      ? `${area} has reached the ${maxDepth}-question limit set by your organization's policy. Move to another area.`
+      : `${area} meets your organization's stop conditions. Move to another area.`,
+    areaComplete: true,
+    provenance: { source: 'wrap-up', depth, template: null, promptVersion: null }
+  };
+};
+
+// Questions earlier calls with the account already asked in the current area
+const priorQuestionCount = (request: DiscoveryQuestionRequest): number =>
+  request.priorNotes?.find(note => note.areaName === request.currentArea)?.questions.length || 0;
+
+/**
+ * Resolve the area's best-ranked progression template against entities gathered across
+ * the session and earlier calls. Follow-up calls continue from the depth earlier calls reached.
+ */
+const getProgressionForRequest = (request: DiscoveryQuestionRequest, depth: number): QuestionProgression => {
+  const { session, currentArea, discoveryNotes } = request;
+  const icpConfig = ICP_CONFIGS[session.client_icp as keyof typeof ICP_CONFIGS];
+  const methodology = getMethodologyPack(session.methodology_id);
+  const locale = getSessionLocale(session);
+  // Variants are English phrasings; localized sessions rank only the catalog templates
+  const patterns = selectTemplateVariants(
+    localizePatterns(locale, getMethodologyPatterns(methodology)),
+    locale === 'en' ? ELICITATION_PATTERN_VARIANTS : {},
+    request.history || [],
+    session.client_icp
+  );
+
+  return getQuestionProgression(
+    currentArea,
+    depth + priorQuestionCount(request),
+    buildEntityStore([...(request.priorNotes || []), ...discoveryNotes], getSlotPatterns(locale)),
+    patterns,
+    {
+      businessArea: session.business_area,
+      solutionScope: session.solution_scope,
+      compliance: icpConfig?.keywords[0]
+    }
+  );
+};
+
 // Enhanced mock discovery question generator using elicitation intelligence
 const generateMockDiscoveryQuestion = (request: DiscoveryQuestionRequest): DiscoveryQuestionResult => {
   const { session, currentArea, discoveryNotes, currentNotes } = request;
   const currentAreaNote = discoveryNotes.find(note => note.areaName === currentArea);
   const currentDepth = currentAreaNote?.questions.length || 0;
-  const previousNotes = currentAreaNote?.questions.map(q => q.notes) || [];
+  // Answers from earlier calls with the account count as known, so the area isn't re-opened
+  const priorAreaNote = request.priorNotes?.find(note => note.areaName === currentArea);
+  const previousNotes = [...(priorAreaNote?.questions || []), ...(currentAreaNote?.questions || [])].map(q => q.notes);
   
   // Use elicitation engine for intelligent mock responses
-  const depthManager = new ElicitationDepthManager();
-  const questionProgression = getQuestionProgression(currentArea, currentDepth, previousNotes);
+  const locale = getSessionLocale(session);
+  const methodology = getMethodologyPack(session.methodology_id);
+  const depthManager = new ElicitationDepthManager(
+    request.policy ?? resolveElicitationPolicy(methodology),
+    getNoteLexicon(locale)
+  );
+  const questionProgression = getProgressionForRequest(request, currentDepth);
   
   // If we have previous notes, assess quality and generate contextual follow-up
   if (previousNotes.length > 0) {
     const noteQuality = depthManager.assessNoteQuality(previousNotes.join(' '));
-    const lastNote = previousNotes[previousNotes.length - 1];
-    
-    // Extract key terms for contextual references
-    const systemMatch = lastNote.match(/\b([A-Z][a-zA-Z]+(?:\s+[A-Z][a-zA-Z]+)*)\b/);
-    const numberMatch = lastNote.match(/\d+\s*(?:hours?|days?|weeks?|months?|dollars?|\$|%)/);
-    const challengeMatch = lastNote.match(/(?:challenge|issue|problem|bottleneck):\s*([^.]+)/i);
-    
-    // Generate contextual follow-up based on note quality
-    let contextualQuestion = questionProgression;
-    
-    if (systemMatch && contextualQuestion.includes('[specific system mentioned]')) {
-      contextualQuestion = contextualQuestion.replace('[specific system mentioned]', systemMatch[0]);
-    }
-    
-    if (challengeMatch && contextualQuestion.includes('[specific pain mentioned]')) {
-      contextualQuestion = contextualQuestion.replace('[specific pain mentioned]', challengeMatch[1]);
-    }
-    
-    // Add industry-specific context
-    const icpConfig = ICP_CONFIGS[session.client_icp as keyof typeof ICP_CONFIGS];
-    if (icpConfig && contextualQuestion.includes('[compliance/security concern]')) {
-      contextualQuestion = contextualQuestion.replace('[compliance/security concern]', icpConfig.keywords[0]);
+
+    const wrapUp = getPolicyWrapUp(depthManager, currentArea, currentDepth, noteQuality, locale);
+    if (wrapUp) return wrapUp;
+
+    // Unfillable templates are never shown verbatim - ask for the missing detail instead
+    if (questionProgression.clarification) {
+      return {
+        question: buildLocalizedClarification(locale, questionProgression.unresolved, currentArea) ||
+          questionProgression.clarification,
+        reasoning: `No depth-${currentDepth} template could be filled; missing ${questionProgression.unresolved.map(slot => slot.type || slot.placeholder).join(', ')} from the notes so far.`,
+        provenance: { source: 'clarification', depth: currentDepth, template: questionProgression.rendered.template, promptVersion: null }
+      };
     }
     
     return {
-      question: contextualQuestion,
-      reasoning: `Generated depth-${currentDepth} question based on ${noteQuality.overallQuality} quality notes, targeting ${!noteQuality.hasQuantification ? 'quantification' : !noteQuality.hasTechnicalDetail ? 'technical details' : 'requirements'}.`
+      question: questionProgression.question,
+      reasoning: `Generated depth-${questionProgression.depth} question based on ${noteQuality.overallQuality} quality notes, targeting ${!noteQuality.hasQuantification ? 'quantification' : !noteQuality.hasTechnicalDetail ? 'technical details' : 'requirements'}.`,
+      provenance: { source: 'template', depth: questionProgression.depth, template: questionProgression.rendered.template, promptVersion: null }
     };
   }
   
+  // Localized sessions open with the catalog's first question for the area
+  const localizedOpener = getLocalizedInitialQuestions(locale, currentArea)?.[0];
+  if (localizedOpener) {
+    return {
+      question: localizedOpener,
+      reasoning: `Opening question for ${getLocalizedAreaName(locale, currentArea)} (${currentArea}) from the ${SUPPORTED_LOCALES[locale].languageName} catalog.`,
+      provenance: { source: 'template', depth: 0, template: null, promptVersion: null }
+    };
+  }
+
   // For initial questions, use context-aware templates
   const contextualQuestions = {
     'Current State Assessment': `Given your ${session.business_area} operations and ${session.discovery_context}, walk me through how things currently work in this area?`,
@@ -738,11 +1000,14 @@ const generateMockDiscoveryQuestion = (request: DiscoveryQuestionRequest): Disco
     'Stakeholders & Politics': `Who else in your organization would be impacted by changes to ${session.discovery_context} in ${session.business_area}?`
   };
   
-  const question = contextualQuestions[currentArea] || `Tell me about how ${session.discovery_context} affects your ${session.business_area} operations.`;
+  const question = contextualQuestions[currentArea] ||
+    getMethodologyArea(methodology, currentArea)?.initialQuestions[0] ||
+    `Tell me about how ${session.discovery_context} affects your ${session.business_area} operations.`;
   
   return {
     question,
-    reasoning: `Generated contextual initial question for ${currentArea}, incorporating discovery catalyst "${session.discovery_context}" and ${session.client_icp} industry context.`
+    reasoning: `Generated contextual initial question for ${currentArea}, incorporating discovery catalyst "${session.discovery_context}" and ${session.client_icp} industry context.`,
+    provenance: { source: 'template', depth: 0, template: null, promptVersion: null }
   };
 };
 
@@ -788,6 +1053,11 @@ export default {
   validateProcessDescription,
   batchAnalyze,
   generateDiscoveryQuestion,
+  gradeNoteQuality,
+  extractProspectSlots,
+  extractStakeholders,
+  classifyTranscriptTurns,
   isOpenAIAvailable,
+  setCompletionProvider,
   generateCompletion
 };
\ No newline at end of file
@@ -1,25 +1,13 @@
-// Perplexity-based Research Engine for GABI Assessment Reports
-// Implementation of real search-based deep research with structured report synthesis
+// Perplexity-based Research Engine for Assessment Reports
+// Search-based research reports as a report pipeline: research, HTML formatting and saving
 
 import { compileResearchTargets, inferBusinessContext, type AssessmentData, type BusinessInferences } from '@/lib/assessment/input-compiler';
 import { executeResearch } from '@/lib/assessment/research-engine';
 import { synthesizeReport } from '@/lib/assessment/report-synthesizer';
-import { formatHTMLReport } from '@/lib/assessment/report-formatter';
 import { saveReport, type ReportRecord } from '@/lib/supabase';
-
-// Progress tracking interface
-export interface PerplexityReportProgress {
-  type: 'status' | 'complete' | 'error';
-  message?: string;
-  step?: string;
-  progress?: number;
-  reportHtml?: string;
-  metrics?: {
-    duration: number;
-    researchLength: number;
-    reportLength: number;
-  };
-}
+import { runReportPipeline, type ReportEngineOptions, type ReportPipeline, type ReportPipelineProgress, type RunPipelineOptions } from './reportPipeline';
+import { renderReportHtml } from './reportExport';
+import { applySectionLayout, resolveReportTemplate, templateExportOptions, type ReportTemplate, type TemplatedInput } from './reportTemplates';
 
 // Report generation result
 export interface PerplexityReportResult {
@@ -35,195 +23,166 @@ export interface PerplexityReportResult {
   };
 }
 
-// Main Perplexity Report Generation Engine
-export class PerplexityReportGenerationEngine {
-  private progressCallback?: (progress: PerplexityReportProgress) => void;
-  private startTime: number = 0;
-
-  constructor(progressCallback?: (progress: PerplexityReportProgress) => void) {
-    this.progressCallback = progressCallback;
-  }
-
-  private sendProgress(progress: PerplexityReportProgress) {
-    if (this.progressCallback) {
-      this.progressCallback(progress);
-    }
-  }
-
-  async generateReport(assessmentData: AssessmentData): Promise<PerplexityReportResult> {
-    this.startTime = Date.now();
-    const phasesCompleted: string[] = [];
-    let researchLength = 0;
-    let reportLength = 0;
-
-    try {
-      // Step 1: Analyze business context
-      this.sendProgress({
-        type: 'status',
-        message: 'Analyzing your business context...',
-        progress: 10
-      });
-
-      // SIMPLIFIED: Skip old context analysis - all context passed directly to research
-      phasesCompleted.push('context_analysis');
-
-      // Step 2: Execute SIMPLIFIED research with full context
-      this.sendProgress({
-        type: 'status',
-        message: 'Researching with full context (no RAG interruptions)...',
-        progress: 30
-      });
+// What each stage of a Perplexity report produces. There's no separate context stage:
+// all context goes to research directly, and research comes back already written up by GPT.
+export interface PerplexityReportOutputs {
+  research: string;
+  formatting: string;                      // Report HTML
+  persistence: ReportRecord | null;
+}
 
-      const researchFindings = await executeResearch(
+export const perplexityReportPipeline: ReportPipeline<AssessmentData & TemplatedInput, PerplexityReportOutputs> = {
+  engine: 'perplexity',
+  version: 1,
+  runId: (assessmentData) => `perplexity_${assessmentData.sessionId || assessmentData.company || 'draft'}`,
+  stages: {
+    research: {
+      message: 'Researching with full context...',
+      weight: 70,
+      run: async ({ input }) => executeResearch(
         null, // No targets needed
-        assessmentData,
+        input,
         null // No inferences needed
-      );
-      researchLength = researchFindings.length;
-      phasesCompleted.push('research_execution');
-
-      // Step 3: SIMPLIFIED: Research already includes GPT enhancement - use as final report
-      this.sendProgress({
-        type: 'status',
-        message: 'Formatting final report...',
-        progress: 60
-      });
-
-      // SIMPLIFIED: Use research findings directly as they're already formatted by GPT
-      const reportContent = researchFindings;
-      phasesCompleted.push('report_synthesis');
-
-      // Step 4: Format as HTML
-      this.sendProgress({
-        type: 'status',
-        message: 'Formatting your personalized report...',
-        progress: 80
-      });
-
-      const businessName = assessmentData.businessName || assessmentData.company || 'Your Company';
-      const htmlReport = formatHTMLReport(reportContent, businessName);
-      reportLength = htmlReport.length;
-      phasesCompleted.push('html_formatting');
-
-      // Step 5: Save to database (optional)
-      try {
+      )
+    },
+    formatting: {
+      message: 'Formatting your personalized report...',
+      weight: 20,
+      run: async ({ input, outputs }) => {
+        const businessName = input.businessName || input.company || 'Your Company';
+        const template = resolveReportTemplate(input.report_template);
+        // Research comes back written up in Perplexity's own section order
+        return renderReportHtml({
+          title: template.cover.title,
+          subtitle: template.cover.subtitle,
+          meta: [{ label: 'Company', value: businessName }, { label: 'Date', value: new Date().toLocaleDateString() }],
+          markdown: applySectionLayout(outputs.research, template),
+          ...templateExportOptions(template)
+        });
+      }
+    },
+    persistence: {
+      message: 'Saving report...',
+      weight: 10,
+      run: async ({ input, outputs, startedAt }) => {
+        const reportContent = outputs.research;
         const reportRecord: Omit<ReportRecord, 'id'> = {
-          assessment_id: assessmentData.sessionId || '',
+          assessment_id: input.sessionId || '',
           report_data: {
-            researchFindings,
+            researchFindings: outputs.research,
             reportContent,
             researchTargets: {}, // Simplified - no targets
             businessInferences: {}, // Simplified - no inferences
-            assessmentData
+            assessmentData: input
           },
-          executive_summary: this.extractExecutiveSummary(reportContent),
-          confidence_score: this.calculateConfidence(researchFindings, reportContent),
-          generation_time_ms: Date.now() - this.startTime,
+          executive_summary: extractExecutiveSummary(reportContent),
+          confidence_score: calculateConfidence(outputs.research, reportContent),
+          generation_time_ms: Date.now() - startedAt,
           tokens_used: Math.floor(reportContent.length / 4), // Estimate tokens
           model_version: 'perplexity-sonar-gpt4o',
           status: 'generated'
         };
 
-        await saveReport(reportRecord);
-        phasesCompleted.push('database_save');
-      } catch (saveError) {
-        console.warn('Could not save report to database:', saveError);
-        // Continue without database save
-      }
-
-      const duration = (Date.now() - this.startTime) / 1000;
-
-      // Log metrics
-      console.log(`[PERPLEXITY REPORT] Generated in ${duration}s for ${businessName}`);
-      console.log(`Research length: ${researchLength} chars, Report length: ${reportLength} chars`);
-
-      // Send completion
-      this.sendProgress({
-        type: 'complete',
-        reportHtml: htmlReport,
-        metrics: {
-          duration,
-          researchLength,
-          reportLength
-        }
-      });
-
-      return {
-        success: true,
-        reportHtml,
-        metadata: {
-          duration,
-          researchLength,
-          reportLength,
-          confidence: this.calculateConfidence(researchFindings, reportContent),
-          phases: phasesCompleted
-        }
-      };
+        return saveReport(reportRecord);
+      },
+      // Continue without database save
+      fallback: () => null
+    }
+  }
+};
 
-    } catch (error: any) {
-      console.error('Perplexity report generation failed:', error);
-      
-      this.sendProgress({
-        type: 'error',
-        message: `Failed to generate report: ${error.message}`
-      });
+// Main Perplexity Report Generation Engine
+export class PerplexityReportGenerationEngine {
+  private progressCallback?: (progress: ReportPipelineProgress) => void;
+  private options: Omit<RunPipelineOptions, 'onProgress'>;
+  private template: ReportTemplate;
+
+  constructor(
+    progressCallback?: (progress: ReportPipelineProgress) => void,
+    { template, ...options }: ReportEngineOptions = {}
+  ) {
+    this.progressCallback = progressCallback;
+    this.options = options;
+    this.template = resolveReportTemplate(template);
+  }
 
+  // Resumes a failed run for the same session from its last good stage
+  async generateReport(assessmentData: AssessmentData): Promise<PerplexityReportResult> {
+    const run = await runReportPipeline(perplexityReportPipeline, { ...assessmentData, report_template: this.template }, {
+      ...this.options,
+      onProgress: this.progressCallback
+    });
+    const researchFindings = run.outputs.research || '';
+    const reportHtml = run.outputs.formatting;
+    const metadata = {
+      duration: run.duration_ms / 1000,
+      researchLength: researchFindings.length,
+      reportLength: reportHtml?.length || 0,
+      confidence: run.status === 'completed' ? calculateConfidence(researchFindings, researchFindings) : 0,
+      phases: run.completedStages
+    };
+
+    if (run.status !== 'completed') {
       return {
         success: false,
-        error: error.message || 'Unknown error occurred',
-        metadata: {
-          duration: (Date.now() - this.startTime) / 1000,
-          researchLength,
-          reportLength,
-          confidence: 0,
-          phases: phasesCompleted
-        }
+        error: run.error || 'Unknown error occurred',
+        metadata
       };
     }
-  }
 
-  private extractExecutiveSummary(reportContent: string): string {
-    // Extract executive summary from the report content
-    const summaryMatch = reportContent.match(/## Executive Summary\n\n([\s\S]*?)(?=\n##|$)/);
-    if (summaryMatch && summaryMatch[1]) {
-      return summaryMatch[1].trim().substring(0, 500);
-    }
+    console.log(`[PERPLEXITY REPORT] Generated in ${metadata.duration}s for ${assessmentData.businessName || assessmentData.company}`);
+    console.log(`Research length: ${metadata.researchLength} chars, Report length: ${metadata.reportLength} chars`);
 
-    // Fallback to first few sentences
-    const sentences = reportContent.split(/[.!?]+/).filter(s => s.trim().length > 20);
-    return sentences.slice(0, 3).join('. ').substring(0, 500);
+    return {
+      success: true,
+      reportHtml,
+      metadata
+    };
+  }
+}
+
+function extractExecutiveSummary(reportContent: string): string {
+  // Extract executive summary from the report content
+  const summaryMatch = reportContent.match(/## Executive Summary\n\n([\s\S]*?)(?=\n##|$)/);
+  if (summaryMatch && summaryMatch[1]) {
+    return summaryMatch[1].trim().substring(0, 500);
   }
 
-  private calculateConfidence(researchFindings: string, reportContent: string): number {
-    let confidence = 0.5; // Base confidence
+  // Fallback to first few sentences
+  const sentences = reportContent.split(/[.!?]+/).filter(s => s.trim().length > 20);
+  return sentences.slice(0, 3).join('. ').substring(0, 500);
+}
 
-    // Increase confidence based on research quality
-    if (researchFindings.length > 1000) confidence += 0.1;
-    if (researchFindings.includes('$') && researchFindings.match(/\d+/g)?.length > 5) confidence += 0.1;
-    if (researchFindings.toLowerCase().includes('benchmark') || researchFindings.toLowerCase().includes('industry')) confidence += 0.1;
+function calculateConfidence(researchFindings: string, reportContent: string): number {
+  let confidence = 0.5; // Base confidence
 
-    // Increase confidence based on report structure
-    if (reportContent.includes('## Executive Summary')) confidence += 0.05;
-    if (reportContent.includes('## ROI on Investment')) confidence += 0.05;
-    if (reportContent.includes('## Current State')) confidence += 0.05;
-    if (reportContent.includes('## Future State')) confidence += 0.05;
+  // Increase confidence based on research quality
+  if (researchFindings.length > 1000) confidence += 0.1;
+  if (researchFindings.includes('$') && researchFindings.match(/\d+/g)?.length > 5) confidence += 0.1;
+  if (researchFindings.toLowerCase().includes('benchmark') || researchFindings.toLowerCase().includes('industry')) confidence += 0.1;
 
-    // Increase confidence based on specificity
-    const dollarAmounts = reportContent.match(/\$[\d,]+/g)?.length || 0;
-    if (dollarAmounts > 3) confidence += 0.1;
+  // Increase confidence based on report structure
+  if (reportContent.includes('## Executive Summary')) confidence += 0.05;
+  if (reportContent.includes('## ROI on Investment')) confidence += 0.05;
+  if (reportContent.includes('## Current State')) confidence += 0.05;
+  if (reportContent.includes('## Future State')) confidence += 0.05;
 
-    const percentages = reportContent.match(/\d+%/g)?.length || 0;
-    if (percentages > 3) confidence += 0.05;
+  // Increase confidence based on specificity
+  const dollarAmounts = reportContent.match(/\$[\d,]+/g)?.length || 0;
+  if (dollarAmounts > 3) confidence += 0.1;
 
-    return Math.min(confidence, 0.95);
-  }
+  const percentages = reportContent.match(/\d+%/g)?.length || 0;
+  if (percentages > 3) confidence += 0.05;
+
+  return Math.min(confidence, 0.95);
 }
 
 // Factory function to create the Perplexity report generator
 export const createPerplexityReportGenerator = (
-  progressCallback?: (progress: PerplexityReportProgress) => void
+  progressCallback?: (progress: ReportPipelineProgress) => void,
+  options?: ReportEngineOptions
 ): PerplexityReportGenerationEngine => {
-  return new PerplexityReportGenerationEngine(progressCallback);
+  return new PerplexityReportGenerationEngine(progressCallback, options);
 };
 
 // Compatibility function to convert from existing data structure
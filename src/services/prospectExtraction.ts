@@ -0,0 +1,333 @@
+/**
+ * Prospect Discovery Slot Extraction
+ * Maps consultant notes into the structured ProspectDiscovery slots with provenance and confidence
+ */
+
+import type { ProspectDiscovery, QuestionBlock } from '@/types/discovery';
+import { stripAnnotationMarkup } from './noteAnnotations';
+
+export type ProspectSlotGroup =
+  | 'contact'
+  | 'decision'
+  | 'pain'
+  | 'assumption'
+  | 'opportunity'
+  | 'timeline'
+  | 'budget'
+  | 'process';
+
+export type ProspectSlotKey = `${ProspectSlotGroup}_string_${1 | 2 | 3}`;
+
+export interface ProspectSlotDefinition {
+  key: ProspectSlotKey;
+  group: ProspectSlotGroup;
+  label: string;
+  // Note fragments that suggest a sentence belongs in this slot
+  cues: RegExp;
+  // Areas where this slot is usually answered; used to lift confidence
+  areas: string[];
+}
+
+export interface SlotSource {
+  areaName: string;
+  questionBlockId: string;
+  questionNumber: number;
+  excerpt: string;
+}
+
+export type SlotProposalStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface SlotProposal {
+  id: string;
+  slot: ProspectSlotKey;
+  value: string;
+  confidence: number;          // 0-1
+  source: SlotSource;
+  status: SlotProposalStatus;
+  extractedBy: 'model' | 'local';
+  createdAt: Date;
+}
+
+// Shape stored in ProspectDiscovery.raw_conversation_data
+export interface ProspectExtractionData {
+  slot_proposals: SlotProposal[];
+}
+
+export const PROSPECT_SLOT_GROUPS: Record<ProspectSlotGroup, string> = {
+  contact: 'Contact Details',
+  decision: 'Decision Makers',
+  pain: 'Pain Statements',
+  assumption: 'Assumptions',
+  opportunity: 'Opportunities',
+  timeline: 'Timeline & Urgency',
+  budget: 'Budget',
+  process: 'Process'
+};
+
+// Labels mirror the column comments in 005_sep_discovery_schema.sql
+export const PROSPECT_SLOTS: ProspectSlotDefinition[] = [
+  { key: 'contact_string_1', group: 'contact', label: 'Name, title, role', cues: /\b(title|role|reports to|head of|director|manager)\b/i, areas: ['Stakeholders & Politics'] },
+  { key: 'contact_string_2', group: 'contact', label: 'Email, phone, assistant', cues: /(@\w+\.\w+|\bphone\b|\bassistant\b|\bEA\b|\+?\d[\d\s().-]{7,}\d)/, areas: ['Stakeholders & Politics'] },
+  { key: 'contact_string_3', group: 'contact', label: 'Additional stakeholders', cues: /\b(also involved|stakeholder|team lead|champion|influencer|sponsor)\b/i, areas: ['Stakeholders & Politics'] },
+
+  { key: 'decision_string_1', group: 'decision', label: 'Primary decision maker', cues: /\b(final (say|decision)|decision maker|decides|signs off|economic buyer)\b/i, areas: ['Decision Process & Timeline', 'Stakeholders & Politics'] },
+  { key: 'decision_string_2', group: 'decision', label: 'Technical decision maker', cues: /\b(CTO|CIO|IT (director|lead)|architect|technical (sign[- ]off|approval|lead))\b/i, areas: ['Decision Process & Timeline', 'Stakeholders & Politics'] },
+  { key: 'decision_string_3', group: 'decision', label: 'Budget approval process', cues: /\b(approv\w+|board|finance committee|procurement|PO)\b/i, areas: ['Decision Process & Timeline', 'Budget & Resources'] },
+
+  { key: 'pain_string_1', group: 'pain', label: 'Primary technical pain', cues: /\b(system|integration|legacy|outage|downtime|data|crash|slow|manual(ly)? re-?enter)\w*/i, areas: ['Pain Points & Challenges', 'Current State Assessment'] },
+  { key: 'pain_string_2', group: 'pain', label: 'Business impact pain', cues: /\b(revenue|cost|lose|losing|lost|margin|customers?|churn|penalt)\w*/i, areas: ['Pain Points & Challenges'] },
+  { key: 'pain_string_3', group: 'pain', label: 'Process/workflow pain', cues: /\b(process|workflow|handoff|approval|bottleneck|spreadsheet|by hand|manual)\w*/i, areas: ['Pain Points & Challenges', 'Current State Assessment'] },
+
+  { key: 'assumption_string_1', group: 'assumption', label: 'Technical assumptions', cues: /\b(assum\w+|probably|likely|should be able|expect)\b.*\b(system|api|integration|data|cloud|on-prem)\w*/i, areas: ['Constraints & Requirements', 'Current State Assessment'] },
+  { key: 'assumption_string_2', group: 'assumption', label: 'Business assumptions', cues: /\b(assum\w+|believe|think|probably|likely)\b/i, areas: ['Desired Future State', 'Success Metrics'] },
+  { key: 'assumption_string_3', group: 'assumption', label: 'Timeline assumptions', cues: /\b(assum\w+|hope|expect|should)\b.*\b(by|before|within|Q[1-4]|month|quarter|year)\b/i, areas: ['Decision Process & Timeline'] },
+
+  { key: 'opportunity_string_1', group: 'opportunity', label: 'Primary opportunity', cues: /\b(want|goal|would like|looking to|opportunity|aim)\w*/i, areas: ['Desired Future State', 'Success Metrics'] },
+  { key: 'opportunity_string_2', group: 'opportunity', label: 'Secondary opportunities', cues: /\b(also|additionally|nice to have|phase two|later)\b/i, areas: ['Desired Future State', 'Constraints & Requirements'] },
+  { key: 'opportunity_string_3', group: 'opportunity', label: 'Strategic opportunities', cues: /\b(strateg\w+|expan\w+|scale|new market|transformation|roadmap)\b/i, areas: ['Desired Future State'] },
+
+  { key: 'timeline_string_1', group: 'timeline', label: 'Decision timeline', cues: /\b(decid\w+|decision|select\w*|choose)\b.*\b(by|before|end of|Q[1-4]|month|week)\b/i, areas: ['Decision Process & Timeline'] },
+  { key: 'timeline_string_2', group: 'timeline', label: 'Implementation timeline', cues: /\b(go[- ]live|launch|roll ?out|implement\w*|live by|deploy\w*)\b/i, areas: ['Decision Process & Timeline', 'Desired Future State'] },
+  { key: 'timeline_string_3', group: 'timeline', label: 'Urgency drivers', cues: /\b(urgent|deadline|asap|because of|renewal|audit|expir\w+|compelling event)\b/i, areas: ['Decision Process & Timeline', 'Pain Points & Challenges'] },
+
+  { key: 'budget_string_1', group: 'budget', label: 'Budget range', cues: /(\$\s?\d[\d,.]*\s?(k|m|million|thousand)?|\bbudget\b)/i, areas: ['Budget & Resources'] },
+  { key: 'budget_string_2', group: 'budget', label: 'Budget approval process', cues: /\bbudget\b.*\b(approv\w+|sign\w*|CFO|finance|committee)\b/i, areas: ['Budget & Resources'] },
+  { key: 'budget_string_3', group: 'budget', label: 'Funding source', cues: /\b(fund\w*|capex|opex|cost cent\w+|allocated from|grant|fiscal)\b/i, areas: ['Budget & Resources'] },
+
+  { key: 'process_string_1', group: 'process', label: 'Technical evaluation process', cues: /\b(pilot|poc|proof of concept|evaluat\w+|security review|trial|sandbox)\b/i, areas: ['Decision Process & Timeline', 'Constraints & Requirements'] },
+  { key: 'process_string_2', group: 'process', label: 'Vendor selection process', cues: /\b(rfp|rfq|vendor|shortlist|competitor|bids?|tender)\b/i, areas: ['Decision Process & Timeline'] },
+  { key: 'process_string_3', group: 'process', label: 'Implementation process', cues: /\b(onboard\w*|training|change management|phased|migration|cutover)\b/i, areas: ['Decision Process & Timeline', 'Desired Future State'] }
+];
+
+export const PROSPECT_SLOT_KEYS: ProspectSlotKey[] = PROSPECT_SLOTS.map(slot => slot.key);
+
+// Proposals below this confidence are dropped instead of shown for review
+export const MIN_PROPOSAL_CONFIDENCE = 0.35;
+
+export const getSlotDefinition = (key: ProspectSlotKey): ProspectSlotDefinition | undefined =>
+  PROSPECT_SLOTS.find(slot => slot.key === key);
+
+const isSlotKey = (value: unknown): value is ProspectSlotKey =>
+  typeof value === 'string' && PROSPECT_SLOT_KEYS.includes(value as ProspectSlotKey);
+
+const splitSentences = (notes: string): string[] =>
+  notes
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim().replace(/^[-*•]\s*/, ''))
+    .filter(sentence => sentence.length > 8);
+
+const toSource = (areaName: string, block: QuestionBlock, excerpt: string): SlotSource => ({
+  areaName,
+  questionBlockId: block.id,
+  questionNumber: block.questionNumber,
+  excerpt
+});
+
+/**
+ * Deterministic extractor used when the model is unavailable.
+ * Each sentence is offered to the single best-matching slot.
+ */
+export function extractSlotsLocally(areaName: string, block: QuestionBlock): SlotProposal[] {
+  const proposals: SlotProposal[] = [];
+  const usedSlots = new Set<ProspectSlotKey>();
+
+  for (const sentence of splitSentences(stripAnnotationMarkup(block.notes))) {
+    let best: { slot: ProspectSlotDefinition; confidence: number } | null = null;
+
+    for (const slot of PROSPECT_SLOTS) {
+      if (usedSlots.has(slot.key) || !slot.cues.test(sentence)) continue;
+
+      // Several distinct cue hits are a stronger signal than one
+      const hits = sentence.match(new RegExp(slot.cues.source, `${slot.cues.flags}g`))?.length || 1;
+
+      let confidence = 0.3 + Math.min(hits - 1, 2) * 0.1;
+      if (slot.areas.includes(areaName)) confidence += 0.25;
+      if (/\d/.test(sentence)) confidence += 0.1;
+      if (sentence.length > 40) confidence += 0.05;
+
+      if (!best || confidence > best.confidence) {
+        best = { slot, confidence };
+      }
+    }
+
+    if (best && best.confidence >= MIN_PROPOSAL_CONFIDENCE) {
+      usedSlots.add(best.slot.key);
+      proposals.push({
+        id: crypto.randomUUID(),
+        slot: best.slot.key,
+        value: sentence,
+        confidence: Math.round(best.confidence * 100) / 100,
+        source: toSource(areaName, block, sentence),
+        status: 'pending',
+        extractedBy: 'local',
+        createdAt: new Date()
+      });
+    }
+  }
+
+  return proposals;
+}
+
+export function buildSlotExtractionPrompt(
+  areaName: string,
+  block: QuestionBlock,
+  filledSlots: ProspectSlotKey[]
+): string {
+  const slotList = PROSPECT_SLOTS
+    .map(slot => `- ${slot.key} (${PROSPECT_SLOT_GROUPS[slot.group]}): ${slot.label}${filledSlots.includes(slot.key) ? ' [already filled]' : ''}`)
+    .join('\n');
+
+  return `Extract structured prospect facts from a consultant's discovery notes.
+
+DISCOVERY AREA: ${areaName}
+QUESTION: ${block.questionText || 'N/A'}
+NOTES:
+${stripAnnotationMarkup(block.notes)}
+
+AVAILABLE SLOTS:
+${slotList}
+
+RULES:
+- Only extract facts stated in the notes; never infer or embellish
+- "value" is a concise restatement (max 25 words); "excerpt" is the exact note text it came from
+- Skip slots marked [already filled] unless the notes clearly supersede them
+- "confidence" is 0-1: how certain you are the fact belongs in that slot
+- Return an empty list if nothing fits
+
+Return JSON:
+{
+  "slots": [
+    { "slot": "pain_string_1", "value": "...", "excerpt": "...", "confidence": 0.8 }
+  ]
+}`;
+}
+
+/**
+ * Validate a model response into proposals; malformed entries are dropped
+ */
+export function parseSlotExtraction(
+  raw: unknown,
+  areaName: string,
+  block: QuestionBlock
+): SlotProposal[] | null {
+  const slots = (raw as { slots?: unknown })?.slots;
+  if (!Array.isArray(slots)) return null;
+
+  return slots.flatMap((entry: Record<string, unknown>) => {
+    const value = typeof entry?.value === 'string' ? entry.value.trim() : '';
+    const confidence = Number(entry?.confidence);
+    if (!isSlotKey(entry?.slot) || !value || isNaN(confidence) || confidence < MIN_PROPOSAL_CONFIDENCE) {
+      return [];
+    }
+
+    const excerpt = typeof entry.excerpt === 'string' && entry.excerpt.trim() ? entry.excerpt.trim() : value;
+    return [{
+      id: crypto.randomUUID(),
+      slot: entry.slot,
+      value,
+      confidence: Math.min(1, Math.round(confidence * 100) / 100),
+      source: toSource(areaName, block, excerpt),
+      status: 'pending' as const,
+      extractedBy: 'model' as const,
+      createdAt: new Date()
+    }];
+  });
+}
+
+/**
+ * Fold new proposals into the existing set.
+ * Accepted values and rejected values are never re-proposed; a pending proposal
+ * is only replaced by a more confident one.
+ */
+export function mergeSlotProposals(existing: SlotProposal[], incoming: SlotProposal[]): SlotProposal[] {
+  const merged = [...existing];
+
+  for (const proposal of incoming) {
+    if (merged.some(p => p.slot === proposal.slot && p.status === 'accepted')) continue;
+
+    const normalized = proposal.value.toLowerCase();
+    if (merged.some(p => p.slot === proposal.slot && p.status === 'rejected' && p.value.toLowerCase() === normalized)) {
+      continue;
+    }
+
+    const pendingIndex = merged.findIndex(p => p.slot === proposal.slot && p.status === 'pending');
+    if (pendingIndex === -1) {
+      merged.push(proposal);
+    } else if (proposal.confidence > merged[pendingIndex].confidence) {
+      merged[pendingIndex] = proposal;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Apply a consultant's review decision. Accepting a value supersedes any other
+ * proposal for the same slot so each slot has a single accepted value.
+ */
+export function reviewSlotProposal(
+  proposals: SlotProposal[],
+  proposalId: string,
+  status: SlotProposalStatus,
+  editedValue?: string
+): SlotProposal[] {
+  const target = proposals.find(p => p.id === proposalId);
+  if (!target) return proposals;
+
+  return proposals.map(p => {
+    if (p.id === proposalId) {
+      return { ...p, status, value: editedValue?.trim() || p.value };
+    }
+    if (status === 'accepted' && p.slot === target.slot && p.status !== 'rejected') {
+      return { ...p, status: 'rejected' as const };
+    }
+    return p;
+  });
+}
+
+/**
+ * Write accepted proposals into their slots and recompute completion
+ */
+export function applySlotProposals(
+  prospect: ProspectDiscovery,
+  proposals: SlotProposal[]
+): ProspectDiscovery {
+  const updated: ProspectDiscovery = { ...prospect };
+
+  for (const key of PROSPECT_SLOT_KEYS) {
+    const accepted = proposals.find(p => p.slot === key && p.status === 'accepted');
+    updated[key] = accepted?.value;
+  }
+
+  const extraction: ProspectExtractionData = { slot_proposals: proposals };
+  return {
+    ...updated,
+    raw_conversation_data: { ...(prospect.raw_conversation_data || {}), ...extraction },
+    completion_percentage: calculateProspectCompletion(updated),
+    updated_at: new Date()
+  };
+}
+
+export function calculateProspectCompletion(prospect: ProspectDiscovery): number {
+  const filled = PROSPECT_SLOT_KEYS.filter(key => prospect[key]?.trim()).length;
+  return Math.round((filled / PROSPECT_SLOT_KEYS.length) * 100);
+}
+
+export function getSlotProposals(prospect: ProspectDiscovery | null): SlotProposal[] {
+  const proposals = (prospect?.raw_conversation_data as ProspectExtractionData | undefined)?.slot_proposals;
+  if (!Array.isArray(proposals)) return [];
+
+  return proposals.map(p => ({ ...p, createdAt: new Date(p.createdAt) }));
+}
+
+export default {
+  PROSPECT_SLOTS,
+  extractSlotsLocally,
+  buildSlotExtractionPrompt,
+  parseSlotExtraction,
+  mergeSlotProposals,
+  reviewSlotProposal,
+  applySlotProposals,
+  calculateProspectCompletion,
+  getSlotProposals
+};
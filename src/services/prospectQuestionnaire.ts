@@ -0,0 +1,168 @@
+/**
+ * Prospect Questionnaire
+ * Short pre-call forms, shared through a tokenized public link, whose answers become prospect-submitted question blocks
+ */
+
+import type { DiscoveryNote, DiscoverySession, QuestionBlock } from '@/types/discovery';
+import { getMethodologyPack, getMethodologyArea } from './methodologyPacks';
+import { getLocalizedInitialQuestions, getSessionLocale } from './locales';
+
+export type QuestionnaireStatus = 'open' | 'submitted' | 'revoked' | 'expired';
+
+export interface QuestionnaireQuestion {
+  id: string;
+  areaName: string;
+  questionText: string;
+}
+
+export interface ProspectQuestionnaire {
+  id: string;
+  token: string;                   // Only secret in the public link
+  session_id: string;
+  created_by: string;
+  account_name: string;
+  contact_name: string;
+  consultant_name: string;
+  questions: QuestionnaireQuestion[];
+  answers: Record<string, string>; // By question id
+  status: Exclude<QuestionnaireStatus, 'expired'>;
+  created_at: string;              // ISO time
+  expires_at: string;
+  submitted_at?: string;
+  applied_at?: string;             // When the answers were added to the session's notes
+}
+
+// What the public form sees: no ids, session or other answers
+export type PublicQuestionnaire = Pick<
+  ProspectQuestionnaire,
+  'account_name' | 'contact_name' | 'consultant_name' | 'questions' | 'status' | 'expires_at'
+>;
+
+// "Current state and who is involved" makes a good short default
+export const DEFAULT_QUESTIONNAIRE_AREAS = ['Current State Assessment', 'Stakeholders & Politics'];
+export const QUESTIONNAIRE_TTL_DAYS = 14;
+export const MAX_ANSWER_LENGTH = 4000;     // submit_prospect_questionnaire (migration 014) enforces the same cap
+
+export const QUESTIONNAIRE_STATUS_LABELS: Record<QuestionnaireStatus, string> = {
+  open: 'Waiting for answers',
+  submitted: 'Answered',
+  revoked: 'Link turned off',
+  expired: 'Link expired'
+};
+
+// 24 random bytes, URL-safe
+export function generateQuestionnaireToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export const questionnaireUrl = (origin: string, token: string): string => `${origin}/q/${token}`;
+
+/**
+ * The initial questions a consultant can pick from, per area, in the call's language
+ */
+export function questionnaireOptions(
+  session: Pick<DiscoverySession, 'methodology_id' | 'locale' | 'contact_name'>,
+  areaNames: string[]
+): QuestionnaireQuestion[] {
+  const methodology = getMethodologyPack(session.methodology_id);
+  const locale = getSessionLocale(session);
+
+  return areaNames.flatMap(areaName => {
+    const questions = getLocalizedInitialQuestions(locale, areaName) ||
+      getMethodologyArea(methodology, areaName)?.initialQuestions || [];
+    return questions.map((question, index) => ({
+      id: `${areaName}#${index}`,
+      areaName,
+      questionText: session.contact_name ? question.replace('[Contact Name]', session.contact_name) : question
+    }));
+  });
+}
+
+// The first question of each default area that the session covers
+export function defaultQuestionnaireSelection(options: Pick<QuestionnaireQuestion, 'id' | 'areaName'>[]): string[] {
+  return DEFAULT_QUESTIONNAIRE_AREAS
+    .map(area => options.find(option => option.areaName === area)?.id)
+    .filter((id): id is string => !!id);
+}
+
+export function createQuestionnaire(
+  session: DiscoverySession,
+  questions: QuestionnaireQuestion[],
+  consultant: { id: string; full_name?: string; email?: string }
+): ProspectQuestionnaire {
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    token: generateQuestionnaireToken(),
+    session_id: session.id,
+    created_by: consultant.id,
+    account_name: session.account_name,
+    contact_name: session.contact_name,
+    consultant_name: consultant.full_name || consultant.email || 'Your consultant',
+    questions,
+    answers: {},
+    status: 'open',
+    created_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + QUESTIONNAIRE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  };
+}
+
+export function questionnaireStatus(questionnaire: Pick<ProspectQuestionnaire, 'status' | 'expires_at'>, now: Date = new Date()): QuestionnaireStatus {
+  if (questionnaire.status === 'open' && new Date(questionnaire.expires_at) <= now) return 'expired';
+  return questionnaire.status;
+}
+
+// Trimmed answers to questions the questionnaire actually asked; blank ones are dropped
+export function cleanAnswers(questionnaire: Pick<ProspectQuestionnaire, 'questions'>, answers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    questionnaire.questions
+      .map(question => [question.id, (answers[question.id] || '').trim().slice(0, MAX_ANSWER_LENGTH)] as const)
+      .filter(([, answer]) => answer)
+  );
+}
+
+/**
+ * Add submitted answers to an area's note as prospect-submitted question blocks,
+ * ahead of anything asked on the call
+ */
+export function mergeQuestionnaireAnswers(
+  note: DiscoveryNote,
+  questionnaire: ProspectQuestionnaire
+): DiscoveryNote {
+  const submittedAt = new Date(questionnaire.submitted_at || Date.now());
+  const blocks: QuestionBlock[] = questionnaire.questions
+    .filter(question => question.areaName === note.areaName && questionnaire.answers[question.id])
+    .map(question => ({
+      id: crypto.randomUUID(),
+      questionText: question.questionText,
+      questionNumber: 0,
+      notes: questionnaire.answers[question.id],
+      isCollapsed: true,
+      timestamp: submittedAt,
+      prospectSubmitted: true
+    }));
+  if (blocks.length === 0) return note;
+
+  return {
+    ...note,
+    questions: [...blocks, ...note.questions].map((block, index) => ({ ...block, questionNumber: index + 1 })),
+    lastUpdated: new Date()
+  };
+}
+
+// Areas where the prospect has answered everything asked so far, so the call should open with a follow-up
+export const onlyProspectAnswers = (note: DiscoveryNote | undefined): boolean =>
+  !!note && note.questions.length > 0 && note.questions.every(block => block.prospectSubmitted);
+
+export default {
+  generateQuestionnaireToken,
+  questionnaireUrl,
+  questionnaireOptions,
+  defaultQuestionnaireSelection,
+  createQuestionnaire,
+  questionnaireStatus,
+  cleanAnswers,
+  mergeQuestionnaireAnswers,
+  onlyProspectAnswers
+};
@@ -0,0 +1,379 @@
+/**
+ * Prospect Simulator
+ * Runs full discovery sessions against synthetic prospects and scores how many hidden facts were uncovered
+ */
+
+import type {
+  ClientICP,
+  DiscoveryNote,
+  DiscoverySession,
+  NextStepGoal,
+  SolutionScope
+} from '@/types/discovery';
+import {
+  generateDiscoveryQuestion,
+  type CompletionProvider,
+  type DiscoveryQuestionRequest,
+  type DiscoveryQuestionResult
+} from './openai';
+import { ElicitationDepthManager } from './elicitationEngine';
+import { ABSOLUTE_MAX_DEPTH, resolveElicitationPolicy, type ElicitationPolicy } from './depthPolicy';
+import { getMethodologyAreaNames, getMethodologyPack, type MethodologyId } from './methodologyPacks';
+import { getNoteLexicon, type SessionLocale } from './locales';
+import type { QuestionSource } from './questionEffectiveness';
+
+export type HiddenFactKind = 'pain' | 'budget' | 'stakeholder' | 'constraint' | 'metric' | 'system' | 'process' | 'timeline';
+
+/**
+ * Something the prospect knows but only says when asked the right way
+ */
+export interface HiddenFact {
+  id: string;
+  kind: HiddenFactKind;
+  area: string;
+  triggers: string[];   // Question wording (case-insensitive substrings) that draws the fact out
+  answer: string;       // What the prospect says when it comes up
+  evidence: string[];   // Terms that must all appear in the notes for the fact to count as uncovered
+  minDepth?: number;    // Only revealed on a follow-up, never to the opening question
+}
+
+export interface ProspectPersona {
+  id: string;
+  contactName: string;
+  contactRole: string;
+  accountName: string;
+  icp: ClientICP;
+  businessArea: string;
+  discoveryContext: string;
+  solutionScope: SolutionScope;
+  nextStepGoal: NextStepGoal;
+  locale?: SessionLocale;
+  facts: HiddenFact[];
+  deflections?: Record<string, string>;  // Per-area non-answer when no fact is triggered
+}
+
+export interface ProspectTurn {
+  persona: ProspectPersona;
+  area: string;
+  depth: number;
+  question: string;
+}
+
+export type ProspectResponder = (turn: ProspectTurn) => Promise<string>;
+
+export type QuestionGenerator = (request: DiscoveryQuestionRequest) => Promise<DiscoveryQuestionResult>;
+
+export interface SimulatedExchange {
+  area: string;
+  depth: number;
+  question: string;
+  answer: string;
+  source: QuestionSource | null;
+}
+
+export interface SimulationResult {
+  personaId: string;
+  methodologyId: string;
+  questionsAsked: number;
+  questionsByArea: Record<string, number>;
+  uncovered: HiddenFact[];
+  missed: HiddenFact[];
+  coverage: number;            // 0-1, share of hidden facts found in the notes
+  transcript: SimulatedExchange[];
+  notes: DiscoveryNote[];
+}
+
+export interface SimulationOptions {
+  methodologyId?: MethodologyId;
+  policy?: ElicitationPolicy;
+  responder?: ProspectResponder;
+  generateQuestion?: QuestionGenerator;
+}
+
+const MAX_FACTS_PER_ANSWER = 2;
+
+const DEFAULT_DEFLECTION = "It's about what you'd expect, honestly. Nothing stands out.";
+
+const matchesTrigger = (question: string, fact: HiddenFact): boolean => {
+  const lowered = question.toLowerCase();
+  return fact.triggers.some(trigger => lowered.includes(trigger.toLowerCase()));
+};
+
+/**
+ * Rule-based prospect: answers with the area's hidden facts whose triggers appear in the question,
+ * at most two per answer and each only once, otherwise deflects
+ */
+export function createScriptedResponder(persona: ProspectPersona): ProspectResponder {
+  const revealed = new Set<string>();
+
+  return async ({ area, depth, question }) => {
+    const facts = persona.facts
+      .filter(fact => fact.area === area && !revealed.has(fact.id))
+      .filter(fact => depth >= (fact.minDepth ?? 0) && matchesTrigger(question, fact))
+      .slice(0, MAX_FACTS_PER_ANSWER);
+
+    if (facts.length === 0) {
+      return persona.deflections?.[area] ?? DEFAULT_DEFLECTION;
+    }
+
+    facts.forEach(fact => revealed.add(fact.id));
+    return facts.map(fact => fact.answer).join(' ');
+  };
+}
+
+/**
+ * Prompt for a model role-playing the persona. Hidden facts are listed with the rule that
+ * they are only shared when the question asks for them directly.
+ */
+export function buildProspectPrompt(turn: ProspectTurn, previousAnswers: string[]): string {
+  const { persona, area, question } = turn;
+  const facts = persona.facts.filter(fact => fact.area === area);
+
+  return `
+You are ${persona.contactName}, ${persona.contactRole} at ${persona.accountName} (${persona.icp}).
+A consultant is running a discovery call about your ${persona.businessArea}. The reason for the call: ${persona.discoveryContext}.
+
+Things you know about "${area}" (do not volunteer them):
+${facts.map(fact => `- ${fact.answer}`).join('\n') || '- Nothing specific'}
+
+Rules:
+- Only share a fact if the question asks about it directly. Never share more than two facts in one answer.
+- Use the exact names and numbers above when you share a fact. Do not invent new ones.
+- If the question is vague or doesn't touch any fact, give a short, polite non-answer.
+- Answer in 1-3 sentences, in the first person, as you would on a call.
+
+What you have already said in this area:
+${previousAnswers.join('\n') || 'Nothing yet'}
+
+Question: ${question}
+
+Return JSON with this exact structure:
+{ "answer": "Your spoken answer" }
+`;
+}
+
+/**
+ * Model-backed prospect. Pair it with a recording or replay provider so runs are reproducible.
+ */
+export function createModelResponder(persona: ProspectPersona, complete: CompletionProvider): ProspectResponder {
+  const answersByArea: Record<string, string[]> = {};
+
+  return async (turn) => {
+    const previousAnswers = answersByArea[turn.area] ?? [];
+    const response = await complete(
+      buildProspectPrompt(turn, previousAnswers),
+      `You are role-playing ${persona.contactName}, a prospect on a sales discovery call. Always return valid JSON.`,
+      400
+    );
+    const parsed = JSON.parse(response);
+    const answer = typeof parsed.answer === 'string' ? parsed.answer : '';
+    answersByArea[turn.area] = [...previousAnswers, answer];
+    return answer;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Recorded completions
+// ---------------------------------------------------------------------------
+
+export interface CompletionCassette {
+  version: 1;
+  entries: Record<string, string>;   // cassetteKey -> raw completion text
+}
+
+export interface ReplayProvider {
+  complete: CompletionProvider;
+  misses: string[];                  // Keys requested but not recorded - the prompts changed
+}
+
+export const createCassette = (): CompletionCassette => ({ version: 1, entries: {} });
+
+/**
+ * Stable key for a prompt pair. Indentation and line breaks are collapsed so
+ * reformatting a template literal doesn't invalidate a recording.
+ */
+export function cassetteKey(prompt: string, systemPrompt?: string): string {
+  const text = `${systemPrompt ?? ''}\u0000${prompt}`.replace(/\s+/g, ' ').trim();
+  // FNV-1a, 32-bit, twice with different seeds to keep collisions negligible
+  let a = 0x811c9dc5;
+  let b = 0x01000193 ^ text.length;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    a = Math.imul(a ^ code, 0x01000193);
+    b = Math.imul(b ^ code, 0x5bd1e995);
+  }
+  return (a >>> 0).toString(16).padStart(8, '0') + (b >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Pass completions through to a live provider and store them in the cassette
+ */
+export function createRecordingProvider(live: CompletionProvider, cassette: CompletionCassette): CompletionProvider {
+  return async (prompt, systemPrompt, maxTokens) => {
+    const completion = await live(prompt, systemPrompt, maxTokens);
+    cassette.entries[cassetteKey(prompt, systemPrompt)] = completion;
+    return completion;
+  };
+}
+
+/**
+ * Serve completions from a cassette. Misses throw, which the generators treat as a model failure,
+ * and are collected so a run can fail instead of silently falling back to mock output.
+ */
+export function createReplayProvider(cassette: CompletionCassette): ReplayProvider {
+  const misses: string[] = [];
+
+  const complete: CompletionProvider = async (prompt, systemPrompt) => {
+    const key = cassetteKey(prompt, systemPrompt);
+    const completion = cassette.entries[key];
+    if (completion === undefined) {
+      misses.push(key);
+      throw new Error(`No recorded completion for prompt ${key}`);
+    }
+    return completion;
+  };
+
+  return { complete, misses };
+}
+
+export function parseCassette(raw: unknown): CompletionCassette {
+  const cassette = raw as CompletionCassette;
+  if (!cassette || cassette.version !== 1 || typeof cassette.entries !== 'object' || cassette.entries === null) {
+    throw new Error('Invalid cassette: expected { version: 1, entries: {...} }');
+  }
+  return cassette;
+}
+
+// ---------------------------------------------------------------------------
+// Session driver
+// ---------------------------------------------------------------------------
+
+export function createSimulatedSession(persona: ProspectPersona, methodologyId?: MethodologyId): DiscoverySession {
+  const createdAt = new Date(0);
+  return {
+    id: `sim-${persona.id}`,
+    account_name: persona.accountName,
+    contact_name: persona.contactName,
+    contact_role: persona.contactRole,
+    consultant_id: 'simulator',
+    client_icp: persona.icp,
+    business_area: persona.businessArea,
+    discovery_context: persona.discoveryContext,
+    solution_scope: persona.solutionScope,
+    next_step_goal: persona.nextStepGoal,
+    methodology_id: methodologyId,
+    locale: persona.locale,
+    status: 'in_progress',
+    created_at: createdAt,
+    updated_at: createdAt
+  };
+}
+
+/**
+ * A fact counts as uncovered when every evidence term appears in the notes
+ */
+export function isFactUncovered(fact: HiddenFact, notes: string): boolean {
+  const lowered = notes.toLowerCase();
+  return fact.evidence.every(term => lowered.includes(term.toLowerCase()));
+}
+
+/**
+ * Run every area of the methodology in order, asking questions until the depth policy
+ * (or the generator's wrap-up) ends the area. The prospect's answers become the notes.
+ */
+export async function runSimulatedSession(
+  persona: ProspectPersona,
+  options: SimulationOptions = {}
+): Promise<SimulationResult> {
+  const session = createSimulatedSession(persona, options.methodologyId);
+  const methodology = getMethodologyPack(session.methodology_id);
+  const policy = options.policy ?? resolveElicitationPolicy(methodology);
+  const depthManager = new ElicitationDepthManager(policy, getNoteLexicon(persona.locale ?? 'en'));
+  const responder = options.responder ?? createScriptedResponder(persona);
+  const generateQuestion = options.generateQuestion ?? generateDiscoveryQuestion;
+
+  const notes: DiscoveryNote[] = [];
+  const transcript: SimulatedExchange[] = [];
+
+  for (const area of getMethodologyAreaNames(methodology)) {
+    const note: DiscoveryNote = {
+      areaId: `${session.id}-${notes.length + 1}`,
+      areaName: area,
+      questions: [],
+      currentNotes: '',
+      lastUpdated: session.created_at
+    };
+    notes.push(note);
+
+    while (note.questions.length < ABSOLUTE_MAX_DEPTH) {
+      const depth = note.questions.length;
+      const quality = depthManager.assessNoteQuality(note.questions.map(q => q.notes).join('\n'));
+      if (!depthManager.shouldContinueQuestioning(depth, quality, area)) break;
+
+      const result = await generateQuestion({ session, currentArea: area, discoveryNotes: notes, currentNotes: '', policy });
+      if (result.areaComplete) break;
+
+      const answer = await responder({ persona, area, depth, question: result.question });
+      note.questions.push({
+        id: `${note.areaId}-q${depth + 1}`,
+        questionText: result.question,
+        questionNumber: depth + 1,
+        notes: answer,
+        isCollapsed: true,
+        timestamp: session.created_at,
+        provenance: result.provenance
+      });
+      transcript.push({ area, depth, question: result.question, answer, source: result.provenance?.source ?? null });
+    }
+  }
+
+  const allNotes = notes.flatMap(note => note.questions.map(q => q.notes)).join('\n');
+  const uncovered = persona.facts.filter(fact => isFactUncovered(fact, allNotes));
+
+  return {
+    personaId: persona.id,
+    methodologyId: methodology.id,
+    questionsAsked: transcript.length,
+    questionsByArea: Object.fromEntries(notes.map(note => [note.areaName, note.questions.length])),
+    uncovered,
+    missed: persona.facts.filter(fact => !uncovered.includes(fact)),
+    coverage: persona.facts.length > 0 ? uncovered.length / persona.facts.length : 1,
+    transcript,
+    notes
+  };
+}
+
+/**
+ * Markdown summary of one or more simulation runs, for CI logs and PR comments
+ */
+export function formatSimulationReportMarkdown(results: SimulationResult[]): string {
+  const lines = [
+    '# Discovery Simulation Report',
+    '',
+    '| Persona | Methodology | Questions | Facts uncovered | Coverage |',
+    '| --- | --- | --- | --- | --- |',
+    ...results.map(result =>
+      `| ${result.personaId} | ${result.methodologyId} | ${result.questionsAsked} | ${result.uncovered.length}/${result.uncovered.length + result.missed.length} | ${(result.coverage * 100).toFixed(0)}% |`
+    )
+  ];
+
+  for (const result of results) {
+    lines.push('', `## ${result.personaId}`, '');
+    lines.push(...Object.entries(result.questionsByArea).map(([area, count]) => `- ${area}: ${count} question${count === 1 ? '' : 's'}`));
+    if (result.missed.length > 0) {
+      lines.push('', '**Missed facts**', '');
+      lines.push(...result.missed.map(fact => `- \`${fact.id}\` (${fact.kind}, ${fact.area}): ${fact.answer}`));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export default {
+  createScriptedResponder,
+  createModelResponder,
+  createRecordingProvider,
+  createReplayProvider,
+  runSimulatedSession,
+  formatSimulationReportMarkdown
+};
@@ -0,0 +1,290 @@
+/**
+ * Question Effectiveness
+ * Records which questions produced useful notes and ranks template variants and few-shot examples
+ */
+
+import type { DiscoverySession, QuestionBlock } from '@/types/discovery';
+import type { DepthTemplates } from './elicitationEngine';
+import { getNoteLexicon, getSessionLocale, type SessionLocale } from './locales';
+import {
+  scoreNotesLocally,
+  QUALITY_DIMENSIONS,
+  RUBRIC_MAX_SCORE,
+  type DimensionScores
+} from './noteQualityRubric';
+
+export type QuestionSource =
+  | 'model'          // LLM-generated, guided by a template
+  | 'template'       // Rendered template, no LLM
+  | 'clarification'  // Template couldn't be filled; asked for the missing detail
+  | 'wrap-up'        // Depth policy ended the area
+  | 'contradiction'  // Clarifying question from the contradiction detector
+  | 'fallback';      // Static question after a generation failure
+
+export interface QuestionProvenance {
+  source: QuestionSource;
+  depth: number;
+  template: string | null;         // Unrendered template text the question came from
+  promptVersion: string | null;    // Generator prompt version, null when no prompt was used
+}
+
+export interface QuestionOutcome extends QuestionProvenance {
+  id: string;
+  sessionId: string;
+  questionBlockId: string;
+  area: string;
+  icp: string;
+  methodologyId: string;
+  locale?: SessionLocale;          // Missing on outcomes recorded before sessions had a language
+  questionText: string;
+  dimensions: DimensionScores;     // Local rubric scores of the notes the question produced
+  score: number;                   // 0-1, mean of the dimension scores
+  recordedAt: Date;
+}
+
+export interface TemplateStats {
+  template: string;
+  area: string;
+  depth: number;
+  uses: number;
+  meanScore: number;
+  smoothedScore: number;           // Pulled toward the prior until there's enough history
+}
+
+export interface EffectivenessGroup {
+  area: string;
+  icp: string;
+  asked: number;
+  meanScore: number;
+  best: QuestionOutcome[];
+  worst: QuestionOutcome[];
+}
+
+export interface EffectivenessReport {
+  totalQuestions: number;
+  groups: EffectivenessGroup[];
+  templates: TemplateStats[];
+}
+
+// Pseudo-observations at the prior mean; keeps one lucky answer from crowning a template
+const PRIOR_WEIGHT = 2;
+const DEFAULT_PRIOR = 0.5;
+// Weight of the exploration bonus that gives little-used variants a turn
+const EXPLORATION_WEIGHT = 0.15;
+// ICP-specific history is used once it has this many outcomes for the area and depth
+const MIN_ICP_OUTCOMES = 5;
+// Few-shot examples must have produced at least passable notes
+export const FEW_SHOT_MIN_SCORE = 0.6;
+
+// Sources where the question text reflects what the generator would produce again
+const RANKABLE_SOURCES: QuestionSource[] = ['model', 'template'];
+
+const DEPTH_KEYS: Array<keyof DepthTemplates> = ['depth0', 'depth1', 'depth2', 'depth3', 'depth4'];
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export function scoreDimensions(dimensions: DimensionScores): number {
+  return mean(QUALITY_DIMENSIONS.map(d => dimensions[d].score)) / RUBRIC_MAX_SCORE;
+}
+
+/**
+ * Build the outcome for a question once its notes have been assessed
+ */
+export function createQuestionOutcome(
+  session: DiscoverySession,
+  area: string,
+  block: QuestionBlock,
+  provenance: QuestionProvenance
+): QuestionOutcome {
+  const locale = getSessionLocale(session);
+  const dimensions = scoreNotesLocally(block.notes, getNoteLexicon(locale));
+  return {
+    ...provenance,
+    id: crypto.randomUUID(),
+    sessionId: session.id,
+    questionBlockId: block.id,
+    area,
+    icp: session.client_icp,
+    methodologyId: session.methodology_id || 'deep-rabbit',
+    locale,
+    questionText: block.questionText,
+    dimensions,
+    score: Math.round(scoreDimensions(dimensions) * 100) / 100,
+    recordedAt: new Date()
+  };
+}
+
+/**
+ * Outcomes for one area and depth, narrowed to the ICP when it has enough history
+ */
+function relevantOutcomes(outcomes: QuestionOutcome[], area: string, depth: number, icp?: string): QuestionOutcome[] {
+  const forSlot = outcomes.filter(o =>
+    o.area === area && o.depth === depth && o.template && RANKABLE_SOURCES.includes(o.source)
+  );
+  const forIcp = icp ? forSlot.filter(o => o.icp === icp) : [];
+  return forIcp.length >= MIN_ICP_OUTCOMES ? forIcp : forSlot;
+}
+
+export function summarizeTemplate(
+  template: string,
+  area: string,
+  depth: number,
+  outcomes: QuestionOutcome[],
+  prior = DEFAULT_PRIOR
+): TemplateStats {
+  const scores = outcomes.filter(o => o.template === template).map(o => o.score);
+  const total = scores.reduce((sum, score) => sum + score, 0);
+  return {
+    template,
+    area,
+    depth,
+    uses: scores.length,
+    meanScore: mean(scores),
+    smoothedScore: (total + prior * PRIOR_WEIGHT) / (scores.length + PRIOR_WEIGHT)
+  };
+}
+
+/**
+ * Choose between a base template and its variants. Ranks by smoothed score plus
+ * a UCB-style exploration bonus, so untried variants still get asked; ties keep
+ * the base template.
+ */
+export function rankTemplateCandidates(
+  candidates: string[],
+  area: string,
+  depth: number,
+  outcomes: QuestionOutcome[],
+  icp?: string
+): TemplateStats[] {
+  const relevant = relevantOutcomes(outcomes, area, depth, icp);
+  const prior = relevant.length > 0 ? mean(relevant.map(o => o.score)) : DEFAULT_PRIOR;
+  const totalUses = relevant.filter(o => candidates.includes(o.template!)).length;
+
+  const priority = (stats: TemplateStats) =>
+    stats.smoothedScore + EXPLORATION_WEIGHT * Math.sqrt(Math.log(totalUses + 1) / (stats.uses + 1));
+
+  return candidates
+    .map(template => summarizeTemplate(template, area, depth, relevant, prior))
+    .map((stats, index) => ({ stats, index, priority: priority(stats) }))
+    .sort((a, b) => b.priority - a.priority || a.index - b.index)
+    .map(({ stats }) => stats);
+}
+
+/**
+ * Pattern set with each area/depth replaced by its best-performing variant
+ */
+export function selectTemplateVariants(
+  patternSet: Record<string, DepthTemplates>,
+  variants: Record<string, Partial<Record<keyof DepthTemplates, string[]>>>,
+  outcomes: QuestionOutcome[],
+  icp?: string
+): Record<string, DepthTemplates> {
+  return Object.fromEntries(Object.entries(patternSet).map(([area, templates]) => {
+    const selected = { ...templates };
+    DEPTH_KEYS.forEach((key, depth) => {
+      const alternatives = variants[area]?.[key];
+      if (!alternatives?.length) return;
+      selected[key] = rankTemplateCandidates([templates[key], ...alternatives], area, depth, outcomes, icp)[0].template;
+    });
+    return [area, selected];
+  }));
+}
+
+/**
+ * Highest-scoring past questions for an area in the session language, same-ICP examples first
+ */
+export function selectFewShotExamples(
+  outcomes: QuestionOutcome[],
+  area: string,
+  icp?: string,
+  limit = 3,
+  locale: SessionLocale = 'en'
+): QuestionOutcome[] {
+  const seen = new Set<string>();
+  return outcomes
+    .filter(o => o.area === area && (o.locale || 'en') === locale)
+    .filter(o => RANKABLE_SOURCES.includes(o.source) && o.score >= FEW_SHOT_MIN_SCORE)
+    .sort((a, b) => Number(b.icp === icp) - Number(a.icp === icp) || b.score - a.score)
+    .filter(o => {
+      const key = o.questionText.trim().toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+}
+
+/**
+ * Best and worst questions per area and ICP, plus per-template stats
+ */
+export function buildEffectivenessReport(outcomes: QuestionOutcome[], limit = 3): EffectivenessReport {
+  const groups = new Map<string, QuestionOutcome[]>();
+  outcomes.forEach(outcome => {
+    const key = `${outcome.area}\u0000${outcome.icp}`;
+    groups.set(key, [...(groups.get(key) || []), outcome]);
+  });
+
+  const templateKeys = new Map<string, { template: string; area: string; depth: number }>();
+  outcomes.forEach(o => {
+    if (o.template && RANKABLE_SOURCES.includes(o.source)) {
+      templateKeys.set(`${o.area}\u0000${o.depth}\u0000${o.template}`, { template: o.template, area: o.area, depth: o.depth });
+    }
+  });
+
+  return {
+    totalQuestions: outcomes.length,
+    groups: Array.from(groups.values())
+      .map(group => {
+        const sorted = [...group].sort((a, b) => b.score - a.score);
+        return {
+          area: group[0].area,
+          icp: group[0].icp,
+          asked: group.length,
+          meanScore: mean(group.map(o => o.score)),
+          best: sorted.slice(0, limit),
+          // Never repeat a best question when the group is small
+          worst: sorted.slice(Math.max(limit, sorted.length - limit)).reverse()
+        };
+      })
+      .sort((a, b) => a.area.localeCompare(b.area) || a.icp.localeCompare(b.icp)),
+    templates: Array.from(templateKeys.values())
+      .map(({ template, area, depth }) =>
+        summarizeTemplate(template, area, depth, outcomes.filter(o => o.area === area && o.depth === depth)))
+      .sort((a, b) => a.area.localeCompare(b.area) || a.depth - b.depth || b.smoothedScore - a.smoothedScore)
+  };
+}
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+export function formatEffectivenessReportMarkdown(report: EffectivenessReport): string {
+  const lines = [`# Question Effectiveness Report`, '', `${report.totalQuestions} questions recorded.`];
+
+  report.groups.forEach(group => {
+    lines.push('', `## ${group.area} - ${group.icp}`, `${group.asked} asked, mean note quality ${percent(group.meanScore)}`);
+    lines.push('', '**Best**');
+    group.best.forEach(o => lines.push(`- ${percent(o.score)} (depth ${o.depth}, ${o.source}) ${o.questionText}`));
+    if (group.worst.length > 0) {
+      lines.push('', '**Worst**');
+      group.worst.forEach(o => lines.push(`- ${percent(o.score)} (depth ${o.depth}, ${o.source}) ${o.questionText}`));
+    }
+  });
+
+  if (report.templates.length > 0) {
+    lines.push('', '## Templates', '', '| Area | Depth | Uses | Mean | Smoothed | Template |', '|---|---|---|---|---|---|');
+    report.templates.forEach(t => {
+      lines.push(`| ${t.area} | ${t.depth} | ${t.uses} | ${percent(t.meanScore)} | ${percent(t.smoothedScore)} | ${t.template} |`);
+    });
+  }
+
+  return lines.join('\n');
+}
+
+export default {
+  createQuestionOutcome,
+  rankTemplateCandidates,
+  selectTemplateVariants,
+  selectFewShotExamples,
+  buildEffectivenessReport,
+  formatEffectivenessReportMarkdown
+};
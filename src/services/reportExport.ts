@@ -0,0 +1,348 @@
+/**
+ * Report Export
+ * Document model shared by the local PDF/DOCX export service and the pages that request exports
+ */
+
+export type ExportFormat = 'pdf' | 'docx';
+
+// Inline run of text; links are kept so citations stay clickable in the exported file
+export interface InlineSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  link?: string;
+  footnote?: number;             // Reference to a claim's source footnote ([^1] in markdown)
+}
+
+export type ReportBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; spans: InlineSpan[] }
+  | { type: 'list'; ordered: boolean; items: InlineSpan[][] }
+  | { type: 'quote'; spans: InlineSpan[] }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'footnote'; number: number; spans: InlineSpan[] }
+  | { type: 'rule' };
+
+export interface TocEntry {
+  level: 1 | 2 | 3;
+  text: string;
+  blockIndex: number;
+}
+
+export interface ExportBranding {
+  name: string;                  // Shown in the header of every page
+  primaryColor: string;          // Hex, used for the title and headings
+  accentColor: string;           // Hex, used for rules and table headers
+  headingFont?: string;          // DOCX and HTML; the PDF keeps its built-in fonts
+  bodyFont?: string;
+}
+
+export interface ReportExportRequest {
+  title: string;
+  subtitle?: string;
+  meta: Array<{ label: string; value: string }>;   // Cover page facts: company, contact, date...
+  markdown?: string;             // Report body; html is used when there's no markdown
+  html?: string;
+  locale?: string;
+  linkBase?: string;             // Origin that relative links (e.g. citations) resolve against
+  branding?: Partial<ExportBranding>;
+  logo?: string;                 // PNG/JPEG data URL for the cover
+  disclaimer?: string;           // Closes the report
+  cover?: boolean;               // Defaults to a cover page
+}
+
+export const DEFAULT_BRANDING: ExportBranding = {
+  name: 'DeepRabbit',
+  primaryColor: '#6366F1',
+  accentColor: '#14B8A6'
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+export const EXPORT_SERVICE_URL: string =
+  import.meta.env?.VITE_REPORT_EXPORT_URL || 'http://127.0.0.1:8788';
+
+// Largest request body the export service accepts
+export const MAX_EXPORT_BYTES = 5 * 1024 * 1024;
+
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\[\^(\d+)\]|\[([^\]]+)\]\(([^)\s]+)\)|(?<![*\w])\*(?!\s)(.+?)\*(?!\w)|_(?!\s)(.+?)_(?!\w)/g;
+
+// Report text comes from the model, so only web, mail, in-app and in-page links stay clickable
+const SAFE_LINK = /^(?:https?:|mailto:|\/(?!\/)|#)/i;
+const isSafeLink = (link: string): boolean => SAFE_LINK.test(link);
+
+/**
+ * Split a line of markdown into bold, italic and linked runs. Links with any other
+ * scheme (e.g. javascript:) become plain text.
+ */
+export function parseInline(text: string, linkBase = ''): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (match.index > last) spans.push({ text: text.slice(last, match.index) });
+    if (match[1] !== undefined) {
+      spans.push({ text: match[1], bold: true });
+    } else if (match[2] !== undefined) {
+      spans.push({ text: match[2], footnote: Number(match[2]) });
+    } else if (match[3] !== undefined) {
+      const link = isSafeLink(match[4]) ? match[4] : undefined;
+      spans.push({ text: match[3], link: link?.startsWith('/') ? `${linkBase}${link}` : link });
+    } else {
+      spans.push({ text: match[5] ?? match[6], italic: true });
+    }
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) spans.push({ text: text.slice(last) });
+  return spans;
+}
+
+export const spansToText = (spans: InlineSpan[]): string => spans.map(span => span.text).join('');
+
+const splitRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+/**
+ * Markdown as the report pages write it: headings, paragraphs, lists, quotes, tables and rules
+ */
+export function parseReportMarkdown(markdown: string, linkBase = ''): ReportBlock[] {
+  const blocks: ReportBlock[] = [];
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', spans: parseInline(paragraph.join(' '), linkBase) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const footnote = line.match(/^\[\^(\d+)\]:\s*(.*)$/);
+    const listItem = line.match(/^([-*•]|\d+[.)])\s+(.*)$/);
+
+    if (!line) {
+      flushParagraph();
+    } else if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: Math.min(3, heading[1].length) as 1 | 2 | 3, text: heading[2].replace(/\*\*/g, '').trim() });
+    } else if (footnote) {
+      flushParagraph();
+      blocks.push({ type: 'footnote', number: Number(footnote[1]), spans: parseInline(footnote[2], linkBase) });
+    } else if (/^(-{3,}|\*{3,}|_{3,})$/.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+    } else if (line.startsWith('>')) {
+      flushParagraph();
+      const quoted = [line.replace(/^>\s?/, '')];
+      while (lines[i + 1]?.trim().startsWith('>')) quoted.push(lines[++i].trim().replace(/^>\s?/, ''));
+      blocks.push({ type: 'quote', spans: parseInline(quoted.join(' '), linkBase) });
+    } else if (line.startsWith('|') && /^\|?\s*:?-{3,}/.test(lines[i + 1]?.trim() || '')) {
+      flushParagraph();
+      const header = splitRow(line);
+      const rows: string[][] = [];
+      i++;
+      while (lines[i + 1]?.trim().startsWith('|')) rows.push(splitRow(lines[++i]));
+      blocks.push({ type: 'table', header, rows });
+    } else if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[1]);
+      const items = [parseInline(listItem[2], linkBase)];
+      // Consecutive items of the same kind, including indented ones, make one list
+      let next: RegExpMatchArray | null;
+      while ((next = lines[i + 1]?.trim().match(/^([-*•]|\d+[.)])\s+(.*)$/)) && /\d/.test(next[1]) === ordered) {
+        items.push(parseInline(next[2], linkBase));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/**
+ * Reduce report HTML (as formatHTMLReport writes it) to the markdown the exporters read
+ */
+export function htmlToMarkdown(html: string): string {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  const markdown = body
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => `\n\n${'#'.repeat(Number(level))} ${text}\n\n`)
+    .replace(/<(strong|b)[^>]*>([\s\S]*?)<\/\1>/gi, '**$2**')
+    .replace(/<(em|i)[^>]*>([\s\S]*?)<\/\1>/gi, '*$2*')
+    .replace(/<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '[$2]($1)')
+    .replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, '\n- $1')
+    .replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, (_, text) => `\n\n> ${text.replace(/<[^>]+>/g, ' ').trim()}\n\n`)
+    .replace(/<tr[^>]*>([\s\S]*?)<\/tr>/gi, (_, row) =>
+      `\n| ${[...row.matchAll(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/gi)].map(cell => cell[1].replace(/<[^>]+>/g, '').trim()).join(' | ')} |${
+        /<th/i.test(row) ? `\n|${row.match(/<th/gi).map(() => '---').join('|')}|` : ''}`)
+    .replace(/<hr[^>]*>/gi, '\n\n---\n\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|section|ul|ol|table)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(markdown).replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+export const reportBlocks = (request: Pick<ReportExportRequest, 'markdown' | 'html' | 'linkBase'>): ReportBlock[] =>
+  parseReportMarkdown(request.markdown || htmlToMarkdown(request.html || ''), request.linkBase);
+
+// Headings for the table of contents; the report's own title heading is left out
+export function buildTableOfContents(blocks: ReportBlock[], maxLevel: 1 | 2 | 3 = 2): TocEntry[] {
+  return blocks.flatMap((block, blockIndex) =>
+    block.type === 'heading' && block.level <= maxLevel && !(block.level === 1 && blockIndex === 0)
+      ? [{ level: block.level, text: block.text, blockIndex }]
+      : []
+  );
+}
+
+export const resolveBranding = (branding?: Partial<ExportBranding>): ExportBranding => ({
+  ...DEFAULT_BRANDING,
+  ...Object.fromEntries(Object.entries(branding || {}).filter(([, value]) => !!value))
+});
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const spansToHtml = (spans: InlineSpan[]): string =>
+  spans.map(span => {
+    if (span.footnote) return `<sup class="footnote-ref" id="fnref-${span.footnote}"><a href="#fn-${span.footnote}">${span.footnote}</a></sup>`;
+    let html = escapeHtml(span.text);
+    if (span.bold) html = `<strong>${html}</strong>`;
+    if (span.italic) html = `<em>${html}</em>`;
+    return span.link && isSafeLink(span.link) ? `<a href="${escapeHtml(span.link)}">${html}</a>` : html;
+  }).join('');
+
+function blockToHtml(block: ReportBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`;
+    case 'paragraph':
+      return `<p>${spansToHtml(block.spans)}</p>`;
+    case 'quote':
+      return `<blockquote>${spansToHtml(block.spans)}</blockquote>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>${block.items.map(item => `<li>${spansToHtml(item)}</li>`).join('')}</${tag}>`;
+    }
+    case 'table':
+      return `<table><thead><tr>${block.header.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr></thead><tbody>${
+        block.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+    case 'footnote':
+      return `<p class="footnote" id="fn-${block.number}"><sup>${block.number}</sup> ${spansToHtml(block.spans)} <a href="#fnref-${block.number}" aria-label="Back to text">&#8617;</a></p>`;
+    case 'rule':
+      return '<hr>';
+  }
+}
+
+/**
+ * Standalone HTML of a report with the same branding, cover and disclaimer as the PDF/DOCX
+ * exports; used for the HTML download and by the report engines' formatting stages
+ */
+export function renderReportHtml(request: ReportExportRequest): string {
+  const branding = resolveBranding(request.branding);
+  const blocks = reportBlocks(request);
+  const showCover = request.cover !== false;
+  const headingFont = branding.headingFont || 'Inter';
+  const bodyFont = branding.bodyFont || 'Inter';
+  // The cover carries the title, so the report's own title heading is dropped under it
+  const body = blocks.filter((block, index) => !(showCover && index === 0 && block.type === 'heading' && block.level === 1));
+
+  const cover = showCover
+    ? `<header class="cover">
+    ${request.logo ? `<img class="logo" src="${escapeHtml(request.logo)}" alt="${escapeHtml(branding.name)}">` : ''}
+    <div class="brand">${escapeHtml(branding.name)}</div>
+    <h1>${escapeHtml(request.title)}</h1>
+    ${request.subtitle ? `<p class="subtitle">${escapeHtml(request.subtitle)}</p>` : ''}
+    ${request.meta.filter(item => item.value).map(item => `<p><strong>${escapeHtml(item.label)}:</strong> ${escapeHtml(item.value)}</p>`).join('\n    ')}
+  </header>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(request.locale || 'en')}">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(request.title)}</title>
+  <style>
+    body { font-family: '${bodyFont}', sans-serif; max-width: 900px; margin: 0 auto; padding: 40px; line-height: 1.6; color: #1F2937; }
+    h1, h2, h3 { font-family: '${headingFont}', sans-serif; color: ${branding.primaryColor}; }
+    h2 { border-bottom: 2px solid ${branding.accentColor}; padding-bottom: 8px; margin-top: 32px; }
+    h3 { color: #1F2937; }
+    a { color: #2563EB; }
+    blockquote { border-left: 3px solid ${branding.accentColor}; margin: 16px 0; padding-left: 14px; font-style: italic; }
+    table { border-collapse: collapse; width: 100%; margin: 16px 0; }
+    th { background: ${branding.accentColor}; color: #FFFFFF; text-align: left; }
+    th, td { padding: 6px 8px; border-bottom: 1px solid #D1D5DB; }
+    hr { border: 0; border-top: 1px solid ${branding.accentColor}; }
+    .cover { border-top: 8px solid ${branding.primaryColor}; padding: 48px 0 32px; margin-bottom: 32px; border-bottom: 1px solid #D1D5DB; }
+    .cover .logo { max-height: 64px; max-width: 240px; margin-bottom: 24px; }
+    .cover .brand { color: ${branding.accentColor}; font-weight: bold; letter-spacing: 0.1em; text-transform: uppercase; }
+    .cover .subtitle { color: #6B7280; font-size: 1.2em; }
+    .footnote-ref a { text-decoration: none; font-size: 0.75em; }
+    .footnote { font-size: 0.85em; color: #4B5563; margin: 4px 0; }
+    .disclaimer { margin-top: 48px; padding-top: 16px; border-top: 1px solid #D1D5DB; color: #6B7280; font-size: 0.85em; }
+  </style>
+</head>
+<body>
+  ${cover}
+  ${body.map(blockToHtml).join('\n  ')}
+  ${request.disclaimer ? `<footer class="disclaimer">${escapeHtml(request.disclaimer)}</footer>` : ''}
+</body>
+</html>`;
+}
+
+export const exportFileName = (baseName: string, extension: string): string =>
+  `${baseName.replace(/[^\w.-]+/g, '-').replace(/-+/g, '-')}.${extension}`;
+
+// POST to the local export service (npm run report:export) and return the rendered file
+export async function requestExport(path: string, body: object): Promise<Blob> {
+  let response: Response;
+  try {
+    response = await fetch(`${EXPORT_SERVICE_URL}/export/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  } catch {
+    throw new Error(`The report export service isn't running at ${EXPORT_SERVICE_URL}. Start it with npm run report:export.`);
+  }
+
+  if (!response.ok) {
+    const message = await response.text().catch(() => '');
+    throw new Error(`Export failed (${response.status}): ${message || response.statusText}`);
+  }
+  return response.blob();
+}
+
+export const exportReport = (format: ExportFormat, request: ReportExportRequest): Promise<Blob> =>
+  requestExport(format, request);
+
+export default {
+  parseInline,
+  parseReportMarkdown,
+  htmlToMarkdown,
+  reportBlocks,
+  buildTableOfContents,
+  resolveBranding,
+  renderReportHtml,
+  exportFileName,
+  requestExport,
+  exportReport
+};
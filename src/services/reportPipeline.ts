@@ -0,0 +1,287 @@
+// Report Pipeline
+// Named, checkpointed stages shared by every report engine, so a failed run resumes from the last good stage
+
+import type { OrganizationReportTemplate } from './reportTemplates';
+
+export type PipelineStageName = 'context_inference' | 'research' | 'synthesis' | 'formatting' | 'persistence';
+
+// Stages always run in this order; an engine leaves out the ones it doesn't need
+export const PIPELINE_STAGES: PipelineStageName[] = ['context_inference', 'research', 'synthesis', 'formatting', 'persistence'];
+
+export const STAGE_LABELS: Record<PipelineStageName, string> = {
+  context_inference: 'Context inference',
+  research: 'Research',
+  synthesis: 'Synthesis',
+  formatting: 'Formatting',
+  persistence: 'Saving'
+};
+
+export type StageOutputs = Partial<Record<PipelineStageName, unknown>>;
+
+export type PipelineStatus = 'running' | 'completed' | 'halted' | 'failed';
+
+// The one progress type every engine reports with
+export interface ReportPipelineProgress {
+  engine: string;
+  status: PipelineStatus;
+  stage: PipelineStageName | null;
+  progress: number;                        // 0-100
+  message: string;
+  completedStages: PipelineStageName[];
+  resumedStages: PipelineStageName[];      // Taken from the last run's checkpoint
+  estimated_remaining_ms?: number;
+}
+
+export interface StageContext<TInput, TOutputs extends StageOutputs> {
+  input: TInput;
+  outputs: Partial<TOutputs>;              // Everything earlier stages produced, this run or a checkpointed one
+  startedAt: number;                       // When this run started, in ms
+  report: (message: string, fraction?: number) => void;
+  // Stop the run without failing it, e.g. when there isn't enough to report on
+  halt: (message: string, details?: Record<string, unknown>) => never;
+}
+
+export interface StageDefinition<TInput, TOutputs extends StageOutputs, TResult> {
+  message: string;                         // Shown while the stage runs
+  weight: number;                          // Share of the progress bar
+  run: (context: StageContext<TInput, TOutputs>) => Promise<TResult>;
+  // Output to carry on with when run throws. Fallback output is never checkpointed,
+  // so the next run tries the stage properly again.
+  fallback?: (error: Error, context: StageContext<TInput, TOutputs>) => TResult | Promise<TResult>;
+}
+
+export interface ReportPipeline<TInput, TOutputs extends StageOutputs> {
+  engine: string;
+  // Bump when a stage's output shape changes so older checkpoints aren't resumed
+  version: number;
+  runId: (input: TInput) => string;
+  stages: { [K in keyof TOutputs]-?: StageDefinition<TInput, TOutputs, TOutputs[K]> };
+}
+
+export interface PipelineCheckpoint {
+  runId: string;
+  engine: string;
+  version: number;
+  inputHash: string;
+  outputs: StageOutputs;
+  completedStages: PipelineStageName[];
+  updatedAt: string;                       // ISO time
+}
+
+export interface CheckpointStore {
+  load: (runId: string) => Promise<PipelineCheckpoint | null>;
+  save: (checkpoint: PipelineCheckpoint) => Promise<void>;
+  clear: (runId: string) => Promise<void>;
+}
+
+export interface PipelineRun<TOutputs extends StageOutputs> {
+  status: Exclude<PipelineStatus, 'running'>;
+  outputs: Partial<TOutputs>;
+  completedStages: PipelineStageName[];
+  resumedStages: PipelineStageName[];
+  degradedStages: PipelineStageName[];     // Finished on their fallback
+  failedStage?: PipelineStageName;
+  error?: string;
+  halt?: { message: string; details: Record<string, unknown> };
+  duration_ms: number;
+}
+
+export interface RunPipelineOptions {
+  onProgress?: (progress: ReportPipelineProgress) => void;
+  store?: CheckpointStore;
+  restart?: boolean;                       // Ignore any checkpoint and run every stage
+}
+
+// What the engines are created with: run options plus the organization's report template.
+// The template travels in the pipeline input, so changing it starts the run over.
+export interface ReportEngineOptions extends Omit<RunPipelineOptions, 'onProgress'> {
+  template?: OrganizationReportTemplate | null;
+}
+
+// Research is paid for, but not worth resuming once it's this old
+const CHECKPOINT_TTL_MS = 24 * 60 * 60 * 1000;
+const CHECKPOINT_KEY_PREFIX = 'report_checkpoint_';
+
+class PipelineHalt extends Error {
+  constructor(message: string, public details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'PipelineHalt';
+  }
+}
+
+// Checkpoints in localStorage, alongside the local fallback for saved reports
+export const localCheckpointStore: CheckpointStore = {
+  load: async (runId) => {
+    const stored = localStorage.getItem(`${CHECKPOINT_KEY_PREFIX}${runId}`);
+    if (!stored) return null;
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return null;
+    }
+  },
+  save: async (checkpoint) => {
+    try {
+      localStorage.setItem(`${CHECKPOINT_KEY_PREFIX}${checkpoint.runId}`, JSON.stringify(checkpoint));
+    } catch (error) {
+      // A full quota only costs the ability to resume
+      console.warn('Could not save report checkpoint:', error);
+    }
+  },
+  clear: async (runId) => {
+    localStorage.removeItem(`${CHECKPOINT_KEY_PREFIX}${runId}`);
+  }
+};
+
+// Cheap, stable fingerprint of a run's input; a changed input starts the run over
+export const hashInput = (input: unknown): string => {
+  const text = JSON.stringify(input) ?? '';
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const isResumable = (checkpoint: PipelineCheckpoint | null, pipeline: ReportPipeline<unknown, StageOutputs>, inputHash: string) =>
+  !!checkpoint &&
+  checkpoint.engine === pipeline.engine &&
+  checkpoint.version === pipeline.version &&
+  checkpoint.inputHash === inputHash &&
+  Date.now() - new Date(checkpoint.updatedAt).getTime() < CHECKPOINT_TTL_MS;
+
+/**
+ * Run a pipeline's stages in order. Each stage's output is checkpointed as it finishes;
+ * stages already in a matching checkpoint are skipped. The checkpoint is cleared once
+ * the run completes or halts.
+ */
+export async function runReportPipeline<TInput, TOutputs extends StageOutputs>(
+  pipeline: ReportPipeline<TInput, TOutputs>,
+  input: TInput,
+  options: RunPipelineOptions = {}
+): Promise<PipelineRun<TOutputs>> {
+  const { onProgress, store = localCheckpointStore, restart = false } = options;
+  const startTime = Date.now();
+  const runId = pipeline.runId(input);
+  const inputHash = hashInput(input);
+  const stages = PIPELINE_STAGES.filter(stage => stage in pipeline.stages);
+  const totalWeight = stages.reduce((sum, stage) => sum + pipeline.stages[stage].weight, 0) || 1;
+
+  const saved = restart ? null : await store.load(runId);
+  const checkpoint: PipelineCheckpoint = isResumable(saved, pipeline, inputHash)
+    ? saved
+    : { runId, engine: pipeline.engine, version: pipeline.version, inputHash, outputs: {}, completedStages: [], updatedAt: new Date().toISOString() };
+
+  const outputs = { ...checkpoint.outputs } as Partial<TOutputs>;
+  const completedStages: PipelineStageName[] = [];
+  const resumedStages: PipelineStageName[] = [];
+  const degradedStages: PipelineStageName[] = [];
+  let doneWeight = 0;
+  let currentStage: PipelineStageName | null = null;
+  // The checkpoint only ever holds a run of good stages from the start; after a fallback,
+  // later stages built on degraded output aren't saved either
+  let checkpointing = true;
+
+  const emit = (status: PipelineStatus, message: string, fraction = 0) => {
+    const progress = status === 'completed'
+      ? 100
+      : Math.round(((doneWeight + (currentStage ? pipeline.stages[currentStage].weight * fraction : 0)) / totalWeight) * 100);
+    const elapsed = Date.now() - startTime;
+    onProgress?.({
+      engine: pipeline.engine,
+      status,
+      stage: currentStage,
+      progress,
+      message,
+      completedStages: [...completedStages],
+      resumedStages: [...resumedStages],
+      estimated_remaining_ms: progress > 0 && progress < 100 ? Math.round(elapsed / (progress / 100) - elapsed) : undefined
+    });
+  };
+
+  const context: StageContext<TInput, TOutputs> = {
+    input,
+    outputs,
+    startedAt: startTime,
+    report: (message, fraction = 0.5) => emit('running', message, fraction),
+    halt: (message, details) => {
+      throw new PipelineHalt(message, details);
+    }
+  };
+
+  const finish = (status: PipelineRun<TOutputs>['status'], extra: Partial<PipelineRun<TOutputs>> = {}): PipelineRun<TOutputs> => ({
+    status,
+    outputs,
+    completedStages,
+    resumedStages,
+    degradedStages,
+    duration_ms: Date.now() - startTime,
+    ...extra
+  });
+
+  const halted = async (halt: PipelineHalt): Promise<PipelineRun<TOutputs>> => {
+    await store.clear(runId);
+    emit('halted', halt.message, 1);
+    return finish('halted', { halt: { message: halt.message, details: halt.details } });
+  };
+
+  for (const stage of stages) {
+    const definition = pipeline.stages[stage];
+    currentStage = stage;
+
+    if (checkpoint.completedStages.includes(stage)) {
+      resumedStages.push(stage);
+      completedStages.push(stage);
+      doneWeight += definition.weight;
+      emit('running', `${STAGE_LABELS[stage]} reused from the last run`, 0);
+      continue;
+    }
+
+    emit('running', definition.message, 0);
+    try {
+      outputs[stage] = await definition.run(context);
+      if (checkpointing) {
+        checkpoint.outputs[stage] = outputs[stage];
+        checkpoint.completedStages.push(stage);
+        checkpoint.updatedAt = new Date().toISOString();
+        await store.save(checkpoint);
+      }
+    } catch (error) {
+      if (error instanceof PipelineHalt) return halted(error);
+      if (!definition.fallback) {
+        console.error(`Report pipeline (${pipeline.engine}) failed at ${stage}:`, error);
+        emit('failed', `${STAGE_LABELS[stage]} failed: ${error.message}`, 0);
+        return finish('failed', { failedStage: stage, error: error.message });
+      }
+
+      console.warn(`Report pipeline (${pipeline.engine}) ${stage} fell back:`, error);
+      try {
+        outputs[stage] = await definition.fallback(error, context);
+        degradedStages.push(stage);
+        checkpointing = false;
+      } catch (fallbackError) {
+        // A fallback can still find the run shouldn't go on
+        if (fallbackError instanceof PipelineHalt) return halted(fallbackError);
+        console.error(`Report pipeline (${pipeline.engine}) fallback failed at ${stage}:`, fallbackError);
+        emit('failed', `${STAGE_LABELS[stage]} failed: ${fallbackError.message}`, 0);
+        return finish('failed', { failedStage: stage, error: fallbackError.message });
+      }
+    }
+
+    completedStages.push(stage);
+    doneWeight += definition.weight;
+  }
+
+  await store.clear(runId);
+  currentStage = null;
+  emit('completed', 'Report generation completed successfully!');
+  return finish('completed');
+}
+
+export default {
+  runReportPipeline,
+  localCheckpointStore,
+  hashInput,
+  PIPELINE_STAGES
+};
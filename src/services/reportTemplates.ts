@@ -0,0 +1,366 @@
+/**
+ * Report Templates
+ * Organization-level report branding, cover, disclaimer and section layout, followed by every report engine
+ */
+
+import type { ExportBranding, ReportExportRequest } from './reportExport';
+import type { DeckMasterTemplate } from './slideDeck';
+
+export type ReportSectionId =
+  | 'executive_summary'
+  | 'qualification'
+  | 'current_state'
+  | 'opportunities'
+  | 'risks'
+  | 'contradictions'
+  | 'recommendations'
+  | 'roadmap'
+  | 'roi_projections'
+  | 'next_steps'
+  | 'competitive_differentiation'
+  | 'evidence'
+  | 'power_map'
+  | 'appendix';
+
+export interface ReportSectionDefinition {
+  title: string;
+  guidance: string;              // What the model is asked to write unless the template says otherwise
+  generated: boolean;            // Written by the model; the others are assembled from session data
+  matches: RegExp;               // Recognises the section by its heading in free-form markdown
+}
+
+// One entry in a template's layout; order in the layout is order in the report
+export interface ReportSectionLayout {
+  id: ReportSectionId;
+  title?: string;
+  prompt?: string;               // Replaces the section's default guidance
+}
+
+export interface ReportTemplate {
+  companyName: string;           // Whose report it is: cover, header, positioning
+  logo?: string;                 // PNG/JPEG data URL
+  primaryColor: string;          // Hex
+  accentColor: string;
+  headingFont: string;
+  bodyFont: string;
+  cover: { enabled: boolean; title: string; subtitle?: string };
+  disclaimer?: string;
+  persona: string;               // Who the model writes as
+  pitch: string;                 // Closing positioning; {company} is replaced with the prospect's name
+  sections: ReportSectionLayout[];
+}
+
+// What an organization stores; anything left out falls back to the default template
+export type OrganizationReportTemplate = Partial<Omit<ReportTemplate, 'cover'>> & {
+  cover?: Partial<ReportTemplate['cover']>;
+};
+
+// Engine input that carries the template, so a changed template never resumes an old checkpoint
+export interface TemplatedInput {
+  report_template?: ReportTemplate;
+}
+
+// Checked in this order, so "Implementation Roadmap & Risk Mitigation" is a roadmap, not a risk section
+export const REPORT_SECTIONS: Record<ReportSectionId, ReportSectionDefinition> = {
+  executive_summary: {
+    title: 'Executive Summary',
+    guidance: '3-4 bullet points of the MOST CRITICAL findings: biggest pain point with $ impact, key decision maker dynamics, urgent timeline driver, and primary opportunity. Be specific with names, amounts, and dates from the discovery.',
+    generated: true,
+    matches: /executive summary|^summary/i
+  },
+  qualification: {
+    title: 'Opportunity Qualification',
+    guidance: 'Score the opportunity 1-100 with the reasoning behind each part of the score.',
+    generated: true,
+    matches: /qualification/i
+  },
+  roadmap: {
+    title: 'Implementation Roadmap & Risk Mitigation',
+    guidance: 'Phased plan that addresses their urgent needs first, accounts for their constraints, and includes specific risk mitigations for issues they raised. Reference their actual timeline pressures and decision points.',
+    generated: true,
+    matches: /roadmap|implementation plan|solution approach|estimated project scope/i
+  },
+  roi_projections: {
+    title: 'Business Case & Investment Analysis',
+    guidance: 'Tie ROI directly to their stated pain points and use their actual numbers to build the case.',
+    generated: true,
+    matches: /\broi\b|business case|investment analysis|expected impact/i
+  },
+  next_steps: {
+    title: 'Immediate Actions & Deal Strategy',
+    guidance: 'Specific next steps that match their stated goal, navigate their political landscape, and address their urgency. Include WHO to engage, WHAT to demonstrate, and HOW to position against their evaluation criteria.',
+    generated: true,
+    matches: /next step|immediate action/i
+  },
+  opportunities: {
+    title: 'Market Intelligence & Competitive Analysis',
+    guidance: 'Connect their specific challenges to market research findings. Include relevant case studies, competitor moves, regulatory changes, and industry benchmarks that directly relate to their situation. Surface vendor options that fit their constraints.',
+    generated: true,
+    matches: /opportunit|market intelligence/i
+  },
+  recommendations: {
+    title: 'Strategic Recommendations & Political Navigation',
+    guidance: 'Specific solutions that account for their political dynamics, timeline pressures and failed vendors. Include HOW to navigate their specific decision process.',
+    generated: true,
+    matches: /recommend/i
+  },
+  current_state: {
+    title: 'Critical Pain Points & Quantified Impact',
+    guidance: 'Extract and prioritize their specific pain points WITH NUMBERS. Include failed solutions they have already tried. Reference specific systems and processes they mentioned.',
+    generated: true,
+    matches: /current state|pain point/i
+  },
+  risks: {
+    title: 'Key Risk Factors',
+    guidance: 'Technical, business and competitive risks specific to this deal.',
+    generated: true,
+    matches: /risk/i
+  },
+  competitive_differentiation: {
+    title: 'Competitive Differentiation',
+    guidance: 'Why we win this deal, drawing on the positioning below and their stated evaluation criteria.',
+    generated: true,
+    matches: /competitive|differentiation|advantage/i
+  },
+  contradictions: {
+    title: 'Unresolved Inconsistencies',
+    guidance: '',
+    generated: false,
+    matches: /inconsistenc|contradiction/i
+  },
+  evidence: {
+    title: 'Evidence',
+    guidance: '',
+    generated: false,
+    matches: /evidence|citation|sources/i
+  },
+  power_map: {
+    title: 'Power Map',
+    guidance: '',
+    generated: false,
+    matches: /power map|stakeholder/i
+  },
+  appendix: {
+    title: 'Appendix',
+    guidance: '',
+    generated: false,
+    matches: /appendix/i
+  }
+};
+
+export const REPORT_SECTION_IDS = Object.keys(REPORT_SECTIONS) as ReportSectionId[];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const IMAGE_DATA_URL = /^data:image\/(png|jpe?g);base64,/i;
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  companyName: 'DeepRabbit',
+  primaryColor: '#6366F1',
+  accentColor: '#14B8A6',
+  headingFont: 'Inter',
+  bodyFont: 'Inter',
+  cover: { enabled: true, title: 'Discovery Analysis Report' },
+  persona: 'You are GABI (Generative AI Business Intelligence), an expert AI transformation consultant with deep experience helping service businesses implement AI solutions.',
+  pitch: 'Deploy GABI for {company} to run assessments like this for your own clients and prospects.',
+  sections: [
+    { id: 'executive_summary' },
+    { id: 'qualification' },
+    { id: 'current_state' },
+    { id: 'opportunities' },
+    { id: 'risks' },
+    { id: 'contradictions' },
+    { id: 'recommendations' },
+    { id: 'roadmap' },
+    { id: 'roi_projections' },
+    { id: 'next_steps' },
+    { id: 'competitive_differentiation' },
+    { id: 'evidence' },
+    { id: 'power_map' },
+    { id: 'appendix' }
+  ]
+};
+
+// Example shown to principals when no template has been saved yet
+export const EXAMPLE_REPORT_TEMPLATE: OrganizationReportTemplate = {
+  companyName: 'Northwind Consulting',
+  primaryColor: '#0F766E',
+  accentColor: '#F59E0B',
+  headingFont: 'Georgia',
+  bodyFont: 'Arial',
+  cover: { enabled: true, title: 'Discovery Findings', subtitle: 'Prepared for the account team' },
+  disclaimer: 'Confidential. Prepared from discovery conversations and public research; figures are estimates.',
+  persona: 'You are a senior Northwind Consulting partner writing for a client executive.',
+  pitch: 'Northwind can run a two-week scoping sprint with {company} to confirm the business case.',
+  sections: [
+    { id: 'executive_summary' },
+    { id: 'current_state', title: 'What We Heard' },
+    { id: 'recommendations', prompt: 'Three recommendations at most, each with the owner on their side.' },
+    { id: 'next_steps' },
+    { id: 'power_map' }
+  ]
+};
+
+export const resolveReportTemplate = (template?: OrganizationReportTemplate | null): ReportTemplate => {
+  const { cover, sections, ...rest } = template || {};
+  return {
+    ...DEFAULT_REPORT_TEMPLATE,
+    ...Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined && value !== '')),
+    cover: { ...DEFAULT_REPORT_TEMPLATE.cover, ...cover },
+    sections: sections?.length ? sections : DEFAULT_REPORT_TEMPLATE.sections
+  };
+};
+
+/**
+ * Check an organization's template before it's saved; returns one message per problem
+ */
+export function validateReportTemplate(raw: unknown): string[] {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return ['Template must be an object'];
+  const template = raw as OrganizationReportTemplate;
+  const errors: string[] = [];
+
+  (['primaryColor', 'accentColor'] as const).forEach(key => {
+    if (template[key] !== undefined && !HEX_COLOR.test(template[key])) errors.push(`${key} must be a hex colour like #6366F1`);
+  });
+  if (template.logo !== undefined && !IMAGE_DATA_URL.test(template.logo)) errors.push('logo must be a PNG or JPEG data URL');
+  (['companyName', 'headingFont', 'bodyFont', 'disclaimer', 'persona', 'pitch'] as const).forEach(key => {
+    if (template[key] !== undefined && typeof template[key] !== 'string') errors.push(`${key} must be text`);
+  });
+  if (template.cover !== undefined && (typeof template.cover !== 'object' || Array.isArray(template.cover))) {
+    errors.push('cover must be an object with enabled, title and subtitle');
+  }
+
+  if (template.sections !== undefined) {
+    if (!Array.isArray(template.sections)) {
+      errors.push('sections must be a list');
+    } else {
+      const seen = new Set<string>();
+      template.sections.forEach((section, index) => {
+        if (!REPORT_SECTION_IDS.includes(section?.id)) {
+          errors.push(`sections[${index}].id must be one of ${REPORT_SECTION_IDS.join(', ')}`);
+        } else if (seen.has(section.id)) {
+          errors.push(`sections[${index}]: ${section.id} is listed twice`);
+        }
+        seen.add(section?.id);
+      });
+    }
+  }
+  return errors;
+}
+
+export const includesSection = (template: ReportTemplate, id: ReportSectionId): boolean =>
+  template.sections.some(section => section.id === id);
+
+export const sectionTitle = (template: ReportTemplate, id: ReportSectionId, fallback?: string): string =>
+  template.sections.find(section => section.id === id)?.title || fallback || REPORT_SECTIONS[id].title;
+
+// The model-written sections, in the template's order
+export const generatedSections = (template: ReportTemplate): ReportSectionLayout[] =>
+  template.sections.filter(section => REPORT_SECTIONS[section.id].generated);
+
+export const templatePitch = (template: ReportTemplate, company: string): string =>
+  template.pitch.replace(/\{company\}/g, company);
+
+/**
+ * Numbered deliverables for a prompt: each generated section with its custom prompt or
+ * default guidance. extraGuidance adds engine-specific detail to the default guidance.
+ */
+export function buildSectionInstructions(
+  template: ReportTemplate,
+  extraGuidance: Partial<Record<ReportSectionId, string>> = {}
+): string {
+  return generatedSections(template)
+    .map((section, index) => {
+      const guidance = section.prompt || [REPORT_SECTIONS[section.id].guidance, extraGuidance[section.id]].filter(Boolean).join(' ');
+      return `${index + 1}. ${sectionTitle(template, section.id)}: ${guidance}`;
+    })
+    .join('\n');
+}
+
+// The positioning every engine's system prompt carries
+export const buildPositioningPrompt = (template: ReportTemplate): string =>
+  `${template.persona}\nYou are writing on behalf of ${template.companyName}.${
+    includesSection(template, 'competitive_differentiation') ? `\nPositioning to draw on: ${template.pitch.replace(/\{company\}/g, 'the client')}` : ''
+  }`;
+
+const replaceHeading = (markdown: string, title: string): string =>
+  markdown.replace(/^(#{1,3})\s+.*$/m, (_, hashes) => `${hashes} ${title}`);
+
+/**
+ * Put sections an engine has already written into the template's order, dropping the ones
+ * the template leaves out. Each part is markdown starting with its own heading.
+ */
+export function assembleReportMarkdown(
+  title: string,
+  parts: Partial<Record<ReportSectionId, string>>,
+  template: ReportTemplate,
+  preamble = ''
+): string {
+  const body = template.sections
+    .filter(section => parts[section.id]?.trim())
+    .map(section => (section.title ? replaceHeading(parts[section.id].trim(), section.title) : parts[section.id].trim()));
+  return [`# ${title}`, preamble.trim(), ...body].filter(Boolean).join('\n\n');
+}
+
+const classifySection = (heading: string): ReportSectionId | null =>
+  REPORT_SECTION_IDS.find(id => REPORT_SECTIONS[id].matches.test(heading)) ?? null;
+
+/**
+ * Reorder free-form report markdown (e.g. research written up by another model) to the template.
+ * Sections are recognised by heading; ones that can't be recognised are kept, after the rest.
+ */
+export function applySectionLayout(markdown: string, template: ReportTemplate): string {
+  // Reports use ## for sections, except the ones written with a # per section
+  const level = /^##\s/m.test(markdown) ? 2 : 1;
+  const headingPattern = new RegExp(`^#{${level}}\\s+(.+)$`, 'gm');
+  const starts = [...markdown.matchAll(headingPattern)];
+  if (starts.length === 0) return markdown;
+
+  const preamble = markdown.slice(0, starts[0].index).trim();
+  const sections = starts.map((match, index) => ({
+    id: classifySection(match[1]),
+    text: markdown.slice(match.index, starts[index + 1]?.index ?? markdown.length).trim()
+  }));
+
+  const ordered = template.sections.flatMap(layout =>
+    sections
+      .filter(section => section.id === layout.id)
+      .map(section => (layout.title ? replaceHeading(section.text, layout.title) : section.text))
+  );
+  const unrecognised = sections.filter(section => !section.id).map(section => section.text);
+  return [preamble, ...ordered, ...unrecognised].filter(Boolean).join('\n\n');
+}
+
+// Branding, cover and disclaimer for the PDF, DOCX and HTML exports
+export const templateExportOptions = (template: ReportTemplate): Pick<ReportExportRequest, 'branding' | 'logo' | 'disclaimer' | 'cover'> => ({
+  branding: {
+    name: template.companyName,
+    primaryColor: template.primaryColor,
+    accentColor: template.accentColor,
+    headingFont: template.headingFont,
+    bodyFont: template.bodyFont
+  } satisfies ExportBranding,
+  logo: template.logo,
+  disclaimer: template.disclaimer,
+  cover: template.cover.enabled
+});
+
+// Starting point for the deck's slide master; the organization's own master still wins
+export const templateDeckMaster = (template: ReportTemplate): Partial<DeckMasterTemplate> => ({
+  name: template.companyName,
+  accentColor: template.accentColor,
+  titleFont: template.headingFont,
+  bodyFont: template.bodyFont,
+  logo: template.logo,
+  footerText: template.disclaimer ? template.disclaimer.split(/(?<=\.)\s/)[0] : undefined
+});
+
+export default {
+  resolveReportTemplate,
+  validateReportTemplate,
+  buildSectionInstructions,
+  buildPositioningPrompt,
+  assembleReportMarkdown,
+  applySectionLayout,
+  templateExportOptions,
+  templateDeckMaster
+};
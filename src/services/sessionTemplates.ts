@@ -0,0 +1,202 @@
+/**
+ * Session Templates
+ * Named session setups that can be reused or shared across an organization, and cloning a session for another contact
+ */
+
+import type { DiscoverySession } from '@/types/discovery';
+
+export type TemplateVisibility = 'private' | 'organization';
+
+// Everything a consultant configures before the call, minus who the call is with
+export type SessionSetup = Pick<
+  DiscoverySession,
+  | 'client_icp'
+  | 'custom_icp_id'
+  | 'business_area'
+  | 'discovery_context'
+  | 'solution_scope'
+  | 'next_step_goal'
+  | 'methodology_id'
+  | 'locale'
+  | 'area_names'
+  | 'seeded_questions'
+  | 'planned_call_minutes'
+>;
+
+export interface SessionTemplate extends SessionSetup {
+  id: string;
+  name: string;
+  description: string;
+  visibility: TemplateVisibility;
+  organization_id: string | null;
+  created_by: string;
+  created_by_name: string;
+  created_at: string;          // ISO time
+  updated_at: string;
+  deleted_at?: string | null;  // Set instead of removing the row, so the delete syncs like any other edit
+}
+
+export interface TemplateOwner {
+  id: string;
+  organization_id?: string | null;
+  full_name?: string;
+  email?: string;
+}
+
+export interface NewSessionContact {
+  contact_name: string;
+  contact_role: string;
+}
+
+// Copies so later edits to the session can't reach into the template, or the other way round
+export function sessionSetup(source: SessionSetup): SessionSetup {
+  return {
+    client_icp: source.client_icp,
+    custom_icp_id: source.custom_icp_id,
+    business_area: source.business_area || '',
+    discovery_context: source.discovery_context || '',
+    solution_scope: source.solution_scope,
+    next_step_goal: source.next_step_goal,
+    methodology_id: source.methodology_id,
+    locale: source.locale,
+    area_names: source.area_names ? [...source.area_names] : undefined,
+    seeded_questions: source.seeded_questions ? cleanSeededQuestions(source.seeded_questions) : undefined,
+    planned_call_minutes: source.planned_call_minutes
+  };
+}
+
+export function createTemplate(
+  session: SessionSetup,
+  owner: TemplateOwner,
+  details: { name: string; description?: string; visibility: TemplateVisibility; seededQuestions?: Record<string, string[]> }
+): SessionTemplate {
+  const now = new Date().toISOString();
+  const setup = sessionSetup(session);
+  const seeded = cleanSeededQuestions(details.seededQuestions || setup.seeded_questions || {});
+
+  return {
+    ...setup,
+    // Seeded questions only make sense for the areas the template keeps
+    seeded_questions: setup.area_names
+      ? Object.fromEntries(Object.entries(seeded).filter(([area]) => setup.area_names.includes(area)))
+      : seeded,
+    id: crypto.randomUUID(),
+    name: details.name.trim(),
+    description: details.description?.trim() || '',
+    // Without an organization there is no one to share with
+    visibility: owner.organization_id ? details.visibility : 'private',
+    organization_id: owner.organization_id || null,
+    created_by: owner.id,
+    created_by_name: owner.full_name || owner.email || 'Unknown',
+    created_at: now,
+    updated_at: now
+  };
+}
+
+// Session fields for a new call set up from a template
+export function templateSessionFields(template: SessionTemplate): SessionSetup & Pick<DiscoverySession, 'template_id'> {
+  return { ...sessionSetup(template), template_id: template.id };
+}
+
+/**
+ * Session fields for the same account with a different contact. Setup carries over,
+ * notes and progress don't.
+ */
+export function cloneSessionFields(
+  source: DiscoverySession,
+  contact: NewSessionContact
+): Omit<DiscoverySession, 'id' | 'created_at' | 'updated_at'> {
+  return {
+    ...sessionSetup(source),
+    account_id: source.account_id,
+    account_name: source.account_name,
+    contact_name: contact.contact_name.trim(),
+    contact_role: contact.contact_role.trim(),
+    consultant_id: source.consultant_id,
+    organization_id: source.organization_id,
+    template_id: source.template_id,
+    cloned_from_session_id: source.id,
+    status: 'in_progress'
+  };
+}
+
+export const canEditTemplate = (template: SessionTemplate, userId: string | undefined): boolean =>
+  !!userId && template.created_by === userId;
+
+// A user's own templates plus the ones their organization shares, by name
+export function visibleTemplates(templates: SessionTemplate[], user: TemplateOwner): SessionTemplate[] {
+  return templates
+    .filter(template => !template.deleted_at)
+    .filter(template =>
+      template.created_by === user.id ||
+      (template.visibility === 'organization' && !!user.organization_id && template.organization_id === user.organization_id)
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * The areas a session runs, in methodology order. A subset that no longer matches
+ * the methodology (e.g. the methodology changed) falls back to every area.
+ */
+export function sessionAreaNames(session: Pick<DiscoverySession, 'area_names'> | null, methodologyAreaNames: string[]): string[] {
+  const selected = session?.area_names;
+  if (!selected || selected.length === 0) return methodologyAreaNames;
+  const kept = methodologyAreaNames.filter(name => selected.includes(name));
+  return kept.length > 0 ? kept : methodologyAreaNames;
+}
+
+// One question per line; list markers from pasted text are dropped
+export function parseSeededQuestions(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+    .filter(line => {
+      const key = line.toLowerCase();
+      if (!line || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+export const formatSeededQuestions = (questions: string[] | undefined): string => (questions || []).join('\n');
+
+function cleanSeededQuestions(seeded: Record<string, string[]>): Record<string, string[]> {
+  return Object.fromEntries(
+    Object.entries(seeded)
+      .map(([area, questions]) => [area, parseSeededQuestions(questions.join('\n'))] as const)
+      .filter(([, questions]) => questions.length > 0)
+  );
+}
+
+/**
+ * The first seeded question for an area that hasn't been asked yet. Seeded questions
+ * go before generated ones, in the order the template lists them.
+ */
+export function nextSeededQuestion(
+  session: Pick<DiscoverySession, 'seeded_questions' | 'contact_name'> | null,
+  areaName: string,
+  askedQuestions: string[]
+): string | null {
+  const seeded = session?.seeded_questions?.[areaName] || [];
+  const asked = new Set(askedQuestions.map(question => question.trim().toLowerCase()));
+  const template = seeded.find(question => !asked.has(fillContactName(question, session).toLowerCase()));
+  return template ?? null;
+}
+
+export const fillContactName = (question: string, session: Pick<DiscoverySession, 'contact_name'> | null): string =>
+  session?.contact_name ? question.replace('[Contact Name]', session.contact_name) : question;
+
+export default {
+  sessionSetup,
+  createTemplate,
+  templateSessionFields,
+  cloneSessionFields,
+  canEditTemplate,
+  visibleTemplates,
+  sessionAreaNames,
+  parseSeededQuestions,
+  formatSeededQuestions,
+  nextSeededQuestion,
+  fillContactName
+};
@@ -0,0 +1,227 @@
+/**
+ * Synthetic prospect personas for the discovery simulator
+ * Each hides facts a good session should uncover; triggers are the question wording that draws them out
+ */
+
+import type { ProspectPersona } from './prospectSimulator';
+
+export const SIMULATOR_PERSONAS: ProspectPersona[] = [
+  {
+    id: 'aerospace-export-compliance',
+    contactName: 'Dana Whitfield',
+    contactRole: 'Director of Export Compliance',
+    accountName: 'Orbital Dynamics',
+    icp: 'Aerospace/Defense',
+    businessArea: 'export compliance review',
+    discoveryContext: 'international RFQ responses losing to faster competitors',
+    solutionScope: 'Custom development project ($50K-$200K)',
+    nextStepGoal: 'Technical deep-dive meeting',
+    deflections: {
+      'Budget & Resources': "I'd rather not get into numbers yet - finance owns that.",
+      'Stakeholders & Politics': "Most people are supportive, I think. It's hard to say."
+    },
+    facts: [
+      {
+        id: 'review-systems',
+        kind: 'system',
+        area: 'Current State Assessment',
+        triggers: ['walk me through', 'systems', 'tools', 'operates today', 'currently work'],
+        answer: 'Every RFQ goes through a manual ITAR screening checklist in SharePoint, then engineers re-key part data from Teamcenter into SAP.',
+        evidence: ['SharePoint', 'Teamcenter']
+      },
+      {
+        id: 'reviewer-queue',
+        kind: 'process',
+        area: 'Current State Assessment',
+        minDepth: 1,
+        triggers: ['workflow', 'step', 'what happens', 'workaround', 'shadowed'],
+        answer: 'When a drawing includes a controlled component the whole package waits for one of our two licensed reviewers, so packages sit 3 to 5 days.',
+        evidence: ['3 to 5 days']
+      },
+      {
+        id: 'lost-bids',
+        kind: 'pain',
+        area: 'Pain Points & Challenges',
+        triggers: ['challenge', 'bottleneck', 'frustration', 'problem'],
+        answer: 'The review cycle is the bottleneck. Competitors answer international RFQs in 48 hours and we need a week, so we lose the bid before pricing even matters.',
+        evidence: ['48 hours']
+      },
+      {
+        id: 'cost-of-delay',
+        kind: 'metric',
+        area: 'Pain Points & Challenges',
+        minDepth: 1,
+        triggers: ['cost', 'how much', 'money', 'hours', 'metric', 'if this wasn'],
+        answer: 'Outside counsel and rework cost us about $1.2M a year, and our international win rate is 9% against 31% domestic.',
+        evidence: ['$1.2M', '9%']
+      },
+      {
+        id: 'same-day-target',
+        kind: 'metric',
+        area: 'Desired Future State',
+        triggers: ['success', 'ideal', 'magic wand', 'wish', 'capabilities'],
+        answer: 'Success is a same-day export classification with an audit trail the DDTC auditors will accept without follow-up.',
+        evidence: ['same-day']
+      },
+      {
+        id: 'us-person-hosting',
+        kind: 'constraint',
+        area: 'Constraints & Requirements',
+        triggers: ['non-negotiable', 'requirement', 'constraint', 'compliance'],
+        answer: 'Everything must stay on US-person-only infrastructure - no multi-tenant cloud. That rules out most SaaS tools we have looked at.',
+        evidence: ['US-person']
+      },
+      {
+        id: 'cfo-signoff',
+        kind: 'stakeholder',
+        area: 'Decision Process & Timeline',
+        triggers: ['approve', 'decision', 'criteria', 'involved', 'who needs'],
+        answer: 'Our CFO, Raj Patel, signs anything over $250K, and Legal has a veto on anything that touches export data.',
+        evidence: ['Raj Patel']
+      },
+      {
+        id: 'audit-deadline',
+        kind: 'timeline',
+        area: 'Decision Process & Timeline',
+        minDepth: 1,
+        triggers: ['timeline', 'last time', 'escalation', 'politics', 'priorities', 'evaluate'],
+        answer: 'We have to have something in place before the Q3 DDTC audit, otherwise this becomes a finding.',
+        evidence: ['Q3']
+      },
+      {
+        id: 'earmarked-budget',
+        kind: 'budget',
+        area: 'Budget & Resources',
+        triggers: ['budget', 'business case', 'investment', 'funding', 'amount'],
+        answer: "There's $400K earmarked in this year's compliance budget, but it lapses if it isn't committed by September.",
+        evidence: ['$400K']
+      },
+      {
+        id: 'turnaround-baseline',
+        kind: 'metric',
+        area: 'Success Metrics',
+        triggers: ['measure', 'metric', 'number', 'baseline', 'track'],
+        answer: "We'd track review turnaround - today it averages 4.2 days - and the international win rate.",
+        evidence: ['4.2 days']
+      },
+      {
+        id: 'chief-engineer',
+        kind: 'stakeholder',
+        area: 'Stakeholders & Politics',
+        triggers: ['impacted', 'resistant', 'who else', 'burned'],
+        answer: 'Sales ops is all in, but our chief engineer, Tom Becker, was burned by the last PLM integration and will push back hard.',
+        evidence: ['Tom Becker']
+      },
+      {
+        id: 'it-build',
+        kind: 'stakeholder',
+        area: 'Stakeholders & Politics',
+        minDepth: 1,
+        triggers: ['competing', 'departments', 'unspoken', 'dynamics', 'groups'],
+        answer: 'IT wants to build this in-house on ServiceNow and sees an outside vendor as a threat to their roadmap.',
+        evidence: ['ServiceNow']
+      }
+    ]
+  },
+  {
+    id: 'healthcare-referral-intake',
+    contactName: 'Priya Raman',
+    contactRole: 'Director of Clinical Applications',
+    accountName: 'Lakeside Health Network',
+    icp: 'Healthcare/Medical',
+    businessArea: 'referral intake',
+    discoveryContext: 'referral backlog since the Epic migration',
+    solutionScope: 'Enterprise system integration ($200K-$1M+)',
+    nextStepGoal: 'Proof of concept discussion',
+    deflections: {
+      'Current State Assessment': "It's the usual mix of systems - nothing unusual for a network our size."
+    },
+    facts: [
+      {
+        id: 'fax-intake',
+        kind: 'system',
+        area: 'Current State Assessment',
+        triggers: ['walk me through', 'systems', 'tools', 'operates today', 'currently work'],
+        answer: 'About 60% of referrals still arrive by fax into RightFax, and intake coordinators re-enter them into Epic by hand.',
+        evidence: ['RightFax', '60%']
+      },
+      {
+        id: 'missing-documents',
+        kind: 'process',
+        area: 'Current State Assessment',
+        minDepth: 1,
+        triggers: ['workflow', 'step', 'what happens', 'workaround', 'shadowed'],
+        answer: 'If a referral is missing insurance or imaging, the coordinator calls the referring office, and the referral sits in a work queue until someone calls back.',
+        evidence: ['work queue']
+      },
+      {
+        id: 'backlog-size',
+        kind: 'pain',
+        area: 'Pain Points & Challenges',
+        triggers: ['challenge', 'bottleneck', 'frustration', 'problem'],
+        answer: 'We have a backlog of roughly 2,300 unprocessed referrals and patients are going to competitors because we call them back too late.',
+        evidence: ['2,300']
+      },
+      {
+        id: 'leakage-cost',
+        kind: 'metric',
+        area: 'Pain Points & Challenges',
+        minDepth: 1,
+        triggers: ['cost', 'how much', 'money', 'hours', 'metric', 'if this wasn'],
+        answer: 'Finance estimates referral leakage costs us $3.4M a year in lost procedures.',
+        evidence: ['$3.4M']
+      },
+      {
+        id: 'scheduling-target',
+        kind: 'metric',
+        area: 'Desired Future State',
+        triggers: ['success', 'ideal', 'magic wand', 'wish', 'capabilities'],
+        answer: 'Ideally every referral is scheduled within 72 hours and the referring physician gets a status update automatically.',
+        evidence: ['72 hours']
+      },
+      {
+        id: 'hipaa-baa',
+        kind: 'constraint',
+        area: 'Constraints & Requirements',
+        triggers: ['non-negotiable', 'requirement', 'constraint', 'compliance'],
+        answer: 'Any vendor must sign our BAA and integrate through Epic Bridges using HL7 - no direct database access.',
+        evidence: ['BAA', 'HL7']
+      },
+      {
+        id: 'cmio-committee',
+        kind: 'stakeholder',
+        area: 'Decision Process & Timeline',
+        triggers: ['approve', 'decision', 'criteria', 'involved', 'who needs'],
+        answer: 'It goes to the IT governance committee, chaired by our CMIO, Dr. Alan Okafor, which meets monthly.',
+        evidence: ['Okafor']
+      },
+      {
+        id: 'capital-cycle',
+        kind: 'budget',
+        area: 'Budget & Resources',
+        triggers: ['budget', 'business case', 'investment', 'funding', 'amount'],
+        answer: 'Capital requests close in October; we would need to ask for around $600K including the interface work.',
+        evidence: ['$600K']
+      },
+      {
+        id: 'days-to-schedule',
+        kind: 'metric',
+        area: 'Success Metrics',
+        triggers: ['measure', 'metric', 'number', 'baseline', 'track'],
+        answer: 'Our baseline is 11 days from referral received to appointment scheduled, tracked in a Clarity report.',
+        evidence: ['11 days']
+      },
+      {
+        id: 'nursing-union',
+        kind: 'stakeholder',
+        area: 'Stakeholders & Politics',
+        triggers: ['impacted', 'resistant', 'who else', 'burned', 'competing', 'departments'],
+        answer: 'The intake coordinators are in the union, and any change to their workflow has to go through labour relations first.',
+        evidence: ['union']
+      }
+    ]
+  }
+];
+
+export const getSimulatorPersona = (id: string): ProspectPersona | undefined =>
+  SIMULATOR_PERSONAS.find(persona => persona.id === id);
@@ -0,0 +1,216 @@
+/**
+ * Slide Deck
+ * Readout deck built from a processed report, the stakeholder map and the scoping review,
+ * laid out on an organization-supplied slide master
+ */
+
+import type { ProcessedReportData } from './reportGenerator';
+import type { ScopingReview } from '@/components/ScopingReview';
+import {
+  ATTITUDES,
+  ATTITUDE_LABELS,
+  INFLUENCE_LABELS,
+  INFLUENCE_LEVELS,
+  type StakeholderAttitude,
+  type StakeholderMap
+} from './stakeholderMap';
+import { requestExport } from './reportExport';
+import { stripClaimMarkers } from './claimSources';
+
+// What an organization supplies for its decks; every slide is laid out on it
+export interface DeckMasterTemplate {
+  name: string;                  // Footer of every content slide
+  backgroundColor: string;       // Hex
+  titleColor: string;
+  textColor: string;
+  accentColor: string;           // Title bar, stat figures, phase headers
+  titleFont: string;
+  bodyFont: string;
+  logo?: string;                 // PNG/JPEG data URL, top right of every slide
+  titleBackground?: string;      // PNG/JPEG data URL, full bleed behind the title slide
+  footerText?: string;           // e.g. a confidentiality line
+}
+
+export type DeckSlide =
+  | { kind: 'title'; title: string; subtitle: string; meta: string[] }
+  | { kind: 'summary'; title: string; stats: Array<{ label: string; value: string }>; text: string }
+  | { kind: 'bullets'; title: string; intro?: string; bullets: string[] }
+  | { kind: 'opportunities'; title: string; items: Array<{ title: string; description: string; impact: 'High' | 'Medium' | 'Low' }> }
+  | { kind: 'phases'; title: string; phases: Array<{ name: string; duration: string; items: string[] }> }
+  | { kind: 'stakeholders'; title: string; columns: Array<{ attitude: StakeholderAttitude; label: string; people: string[] }> }
+  | { kind: 'recommendation'; title: string; headline: string; facts: Array<{ label: string; value: string }>; text: string };
+
+export interface SlideDeckRequest {
+  title: string;
+  account: string;
+  date: string;
+  report: ProcessedReportData;
+  stakeholderMap?: StakeholderMap | null;
+  scoping?: ScopingReview | null;
+  master?: Partial<DeckMasterTemplate>;
+}
+
+export const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+export const DEFAULT_DECK_MASTER: DeckMasterTemplate = {
+  name: 'DeepRabbit',
+  backgroundColor: '#FFFFFF',
+  titleColor: '#1F2937',
+  textColor: '#374151',
+  accentColor: '#6366F1',
+  titleFont: 'Calibri',
+  bodyFont: 'Calibri'
+};
+
+// Slides hold far less than a page; longer text is cut at a sentence where possible
+const MAX_TEXT_CHARS = 700;
+const MAX_BULLETS = 7;
+const MAX_PEOPLE_PER_COLUMN = 6;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const IMAGE_DATA_URL = /^data:image\/(png|jpe?g);base64,/i;
+
+const plainText = (text: string): string =>
+  stripClaimMarkers(text)
+    .replace(/^#+\s+/gm, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    .replace(/^\s*[-*•]\s+/gm, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+function clip(text: string, max = MAX_TEXT_CHARS): string {
+  const plain = plainText(text);
+  if (plain.length <= max) return plain;
+  const cut = plain.slice(0, max);
+  const sentenceEnd = cut.lastIndexOf('. ');
+  return sentenceEnd > max / 2 ? cut.slice(0, sentenceEnd + 1) : `${cut.replace(/\s+\S*$/, '')}…`;
+}
+
+export const resolveDeckMaster = (master?: Partial<DeckMasterTemplate>): DeckMasterTemplate => ({
+  ...DEFAULT_DECK_MASTER,
+  ...Object.fromEntries(Object.entries(master || {}).filter(([, value]) => !!value))
+});
+
+/**
+ * Check an organization's master before it's saved; returns one message per problem
+ */
+export function validateDeckMaster(raw: unknown): string[] {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return ['Slide master must be an object'];
+  const master = raw as Partial<DeckMasterTemplate>;
+  const errors: string[] = [];
+
+  (['backgroundColor', 'titleColor', 'textColor', 'accentColor'] as const).forEach(key => {
+    if (master[key] !== undefined && !HEX_COLOR.test(master[key])) errors.push(`${key} must be a hex colour like #6366F1`);
+  });
+  (['logo', 'titleBackground'] as const).forEach(key => {
+    if (master[key] !== undefined && !IMAGE_DATA_URL.test(master[key])) errors.push(`${key} must be a PNG or JPEG data URL`);
+  });
+  (['name', 'titleFont', 'bodyFont', 'footerText'] as const).forEach(key => {
+    if (master[key] !== undefined && typeof master[key] !== 'string') errors.push(`${key} must be text`);
+  });
+  return errors;
+}
+
+function stakeholderColumns(map: StakeholderMap): Extract<DeckSlide, { kind: 'stakeholders' }>['columns'] {
+  return ATTITUDES.map(attitude => ({
+    attitude,
+    label: ATTITUDE_LABELS[attitude],
+    people: map.stakeholders
+      .filter(stakeholder => stakeholder.attitude === attitude)
+      .sort((a, b) => INFLUENCE_LEVELS.indexOf(b.influence) - INFLUENCE_LEVELS.indexOf(a.influence))
+      .slice(0, MAX_PEOPLE_PER_COLUMN)
+      .map(stakeholder => `${stakeholder.name}${stakeholder.role ? `, ${stakeholder.role}` : ''} (${INFLUENCE_LABELS[stakeholder.influence]})`)
+  }));
+}
+
+/**
+ * The deck's slides in order. Sections with nothing to show are left out rather
+ * than rendered as empty slides.
+ */
+export function buildDeckOutline(request: SlideDeckRequest): DeckSlide[] {
+  const { report, stakeholderMap, scoping } = request;
+  const slides: DeckSlide[] = [
+    { kind: 'title', title: request.title, subtitle: request.account, meta: [request.date, report.business_focus].filter(Boolean) },
+    {
+      kind: 'summary',
+      title: 'Executive Summary',
+      stats: [
+        { label: 'Readiness', value: report.readiness_score },
+        { label: 'Potential savings', value: report.potential_savings },
+        { label: 'Timeline', value: report.implementation_timeline }
+      ].filter(stat => stat.value),
+      text: clip(report.summary_text)
+    }
+  ];
+
+  if (report.key_challenges.length > 0) {
+    slides.push({
+      kind: 'bullets',
+      title: 'Key Challenges',
+      intro: report.primary_opportunity ? `Primary opportunity: ${report.primary_opportunity}` : undefined,
+      bullets: report.key_challenges.slice(0, MAX_BULLETS).map(challenge => clip(challenge, 160))
+    });
+  }
+
+  if (report.transformation_opportunities.length > 0) {
+    slides.push({
+      kind: 'opportunities',
+      title: 'Transformation Opportunities',
+      items: report.transformation_opportunities.slice(0, 4).map(opportunity => ({
+        title: opportunity.title,
+        description: clip(opportunity.description, 220),
+        impact: opportunity.impact_level
+      }))
+    });
+  }
+
+  if (report.implementation_phases.length > 0) {
+    slides.push({
+      kind: 'phases',
+      title: 'Implementation Phases',
+      phases: report.implementation_phases.slice(0, 4).map(phase => ({
+        name: phase.phase,
+        duration: phase.duration,
+        items: [...phase.objectives, ...phase.deliverables].slice(0, 5)
+      }))
+    });
+  }
+
+  if (stakeholderMap?.stakeholders.length) {
+    slides.push({ kind: 'stakeholders', title: 'Stakeholder Map', columns: stakeholderColumns(stakeholderMap) });
+  }
+
+  slides.push(scoping
+    ? {
+      kind: 'recommendation',
+      title: 'Recommendation',
+      headline: scoping.recommendedNextStep,
+      facts: [
+        { label: 'Budget scope', value: scoping.budgetScope },
+        { label: 'Discovery confidence', value: scoping.confidenceLevel }
+      ],
+      text: clip(scoping.additionalContext || report.cta_customization.primary_message, 400)
+    }
+    : {
+      kind: 'recommendation',
+      title: 'Recommendation',
+      headline: report.cta_customization.consultation_focus,
+      facts: [],
+      text: clip(report.cta_customization.primary_message, 400)
+    });
+
+  return slides;
+}
+
+/**
+ * Render the deck through the local export service (npm run report:export)
+ */
+export const exportSlideDeck = (request: SlideDeckRequest): Promise<Blob> => requestExport('pptx', request);
+
+export default {
+  buildDeckOutline,
+  resolveDeckMaster,
+  validateDeckMaster,
+  exportSlideDeck
+};
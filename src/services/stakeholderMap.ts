@@ -0,0 +1,476 @@
+/**
+ * Stakeholder Map
+ * People on the prospect's side with their influence, attitude and relationships, extracted from notes and shown as a power map
+ */
+
+import type { DiscoverySession, QuestionBlock } from '@/types/discovery';
+import { stripAnnotationMarkup } from './noteAnnotations';
+
+export type StakeholderInfluence = 'high' | 'medium' | 'low';
+export type StakeholderAttitude = 'blocker' | 'skeptic' | 'neutral' | 'supporter' | 'champion';
+export type RelationshipKind = 'reports_to' | 'influences' | 'blocks';
+
+export interface StakeholderSource {
+  areaName: string;
+  questionBlockId: string;
+  questionNumber: number;
+  excerpt: string;
+}
+
+export interface Stakeholder {
+  id: string;
+  name: string;
+  role: string;
+  department: string;
+  influence: StakeholderInfluence;
+  attitude: StakeholderAttitude;
+  notes: string;
+  source?: StakeholderSource;      // Where extraction first found them
+  addedBy: 'model' | 'local' | 'consultant';
+  confirmed: boolean;              // Edited or checked by the consultant; extraction no longer changes it
+}
+
+export interface StakeholderRelationship {
+  id: string;
+  from: string;                    // Stakeholder ids: from reports to / influences / blocks to
+  to: string;
+  kind: RelationshipKind;
+  source?: StakeholderSource;
+}
+
+export interface StakeholderMap {
+  id: string;                      // The account's id, or the session's for calls without an account
+  account_id?: string;
+  session_id: string;              // Call the map was started on
+  stakeholders: Stakeholder[];
+  relationships: StakeholderRelationship[];
+  updated_at: string;              // ISO time
+}
+
+// What an extraction run found; people are matched to the map by name
+export interface StakeholderExtraction {
+  stakeholders: Array<Pick<Stakeholder, 'name'> & Partial<Pick<Stakeholder, 'role' | 'department' | 'influence' | 'attitude'>> & { source: StakeholderSource }>;
+  relationships: Array<{ from: string; to: string; kind: RelationshipKind; source: StakeholderSource }>;
+}
+
+// Low to high, the order of the power map's axes
+export const INFLUENCE_LEVELS: StakeholderInfluence[] = ['low', 'medium', 'high'];
+export const ATTITUDES: StakeholderAttitude[] = ['blocker', 'skeptic', 'neutral', 'supporter', 'champion'];
+
+export const INFLUENCE_LABELS: Record<StakeholderInfluence, string> = {
+  high: 'High influence',
+  medium: 'Medium influence',
+  low: 'Low influence'
+};
+
+export const ATTITUDE_LABELS: Record<StakeholderAttitude, string> = {
+  blocker: 'Blocker',
+  skeptic: 'Skeptic',
+  neutral: 'Neutral',
+  supporter: 'Supporter',
+  champion: 'Champion'
+};
+
+export const RELATIONSHIP_LABELS: Record<RelationshipKind, string> = {
+  reports_to: 'reports to',
+  influences: 'influences',
+  blocks: 'blocks'
+};
+
+export const stakeholderMapKey = (session: Pick<DiscoverySession, 'id' | 'account_id'>): string =>
+  session.account_id || session.id;
+
+export function emptyStakeholderMap(session: Pick<DiscoverySession, 'id' | 'account_id'>): StakeholderMap {
+  return {
+    id: stakeholderMapKey(session),
+    account_id: session.account_id,
+    session_id: session.id,
+    stakeholders: [],
+    relationships: [],
+    updated_at: new Date().toISOString()
+  };
+}
+
+export function createStakeholder(fields: Partial<Stakeholder> & Pick<Stakeholder, 'name'>): Stakeholder {
+  return {
+    id: crypto.randomUUID(),
+    role: '',
+    department: '',
+    influence: 'medium',
+    attitude: 'neutral',
+    notes: '',
+    addedBy: 'consultant',
+    confirmed: true,
+    ...fields
+  };
+}
+
+// Local extraction ---------------------------------------------------------
+
+// Departments and functions: part of a role ("VP Engineering"), never a person
+const FUNCTION_WORDS = [
+  'Engineering', 'Operations', 'Sales', 'Marketing', 'Finance', 'Procurement', 'Purchasing', 'Product', 'Security', 'Legal',
+  'Compliance', 'Risk', 'Audit', 'Accounting', 'Treasury', 'Support', 'Customer', 'Success', 'Service', 'Services', 'Technology',
+  'Infrastructure', 'Data', 'Analytics', 'Strategy', 'Growth', 'Revenue', 'People', 'Talent', 'Design', 'Quality', 'Research',
+  'Development', 'Manufacturing', 'Logistics', 'Supply', 'Facilities', 'Partnerships', 'Business'
+];
+
+// "of X Y" takes a second word only if it's a function or no name follows it, so
+// "Head of Operations Tom Hardy" leaves the name whole
+const ROLE_SCOPE = `of [A-Z][\\w&]*(?: (?:${FUNCTION_WORDS.join('|')})\\b| [A-Z][\\w&]*\\b(?! [A-Z][a-z]))?`;
+const ROLE_PATTERN = `(?:C[EFTIO]O|COO|CISO|CRO|CMO|VP(?: ${ROLE_SCOPE}| (?:${FUNCTION_WORDS.join('|')}))?|SVP|EVP|President|Founder|Owner|(?:Head|Director|Manager|Lead) ${ROLE_SCOPE}|(?:IT|Finance|Engineering|Operations|Procurement|Sales|Product|Security|HR) (?:Director|Manager|Lead|Head)|Director|Manager|Architect|Controller|Procurement|Buyer|Team Lead)`;
+const NAME_PATTERN = '([A-Z][a-z]+(?: [A-Z][a-z]+)?)';
+
+// "Sarah Chen, the CFO" / "Sarah Chen (CFO)" / "Sarah is our VP of Sales" / "CFO Sarah Chen"
+const PERSON_PATTERNS: Array<{ pattern: RegExp; name: number; role: number }> = [
+  { pattern: new RegExp(`${NAME_PATTERN},? \\(?(?:the |our |their |a )?(${ROLE_PATTERN})\\b`, 'g'), name: 1, role: 2 },
+  { pattern: new RegExp(`${NAME_PATTERN} (?:is|as) (?:the |our |their |a )?(${ROLE_PATTERN})\\b`, 'g'), name: 1, role: 2 },
+  // The role is matched whole (lookahead + backreference) so a shorter role can't leave a name behind
+  { pattern: new RegExp(`\\b(?=(${ROLE_PATTERN}))\\1,? ${NAME_PATTERN}`, 'g'), name: 2, role: 1 }
+];
+
+// A role in parentheses may sit between the name and the verb: "Mike Ross (IT Director) reports to Sarah"
+const ROLE_ASIDE = '(?: \\([^)]+\\))?';
+
+const RELATIONSHIP_PATTERNS: Array<{ pattern: RegExp; kind: RelationshipKind; reversed?: boolean }> = [
+  { pattern: new RegExp(`${NAME_PATTERN}${ROLE_ASIDE} reports (?:in)?to ${NAME_PATTERN}`, 'g'), kind: 'reports_to' },
+  { pattern: new RegExp(`${NAME_PATTERN}${ROLE_ASIDE} (?:blocks|is blocking|could block|opposes|can veto|vetoed) ${NAME_PATTERN}`, 'g'), kind: 'blocks' },
+  { pattern: new RegExp(`${NAME_PATTERN}${ROLE_ASIDE} (?:influences|has the ear of|advises|sways) ${NAME_PATTERN}`, 'g'), kind: 'influences' },
+  { pattern: new RegExp(`${NAME_PATTERN}${ROLE_ASIDE} (?:listens to|defers to|trusts) ${NAME_PATTERN}`, 'g'), kind: 'influences', reversed: true }
+];
+
+const ATTITUDE_CUES: Array<[StakeholderAttitude, RegExp]> = [
+  ['blocker', /\b(block\w*|oppos\w+|against|veto\w*|kill\w*|resist\w*)\b/i],
+  ['skeptic', /\b(skeptic\w*|sceptic\w*|not convinced|concern\w*|worried|doubt\w*|hesitant|push(ed|es)? back)\b/i],
+  ['champion', /\b(champion\w*|sponsor\w*|pushing for|driving this|excited|advocat\w+)\b/i],
+  ['supporter', /\b(support\w*|on board|in favou?r|likes|keen|positive)\b/i]
+];
+
+const DEPARTMENT_BY_ROLE: Array<[RegExp, string]> = [
+  [/\bCFO\b|Controller|Finance/i, 'Finance'],
+  [/\bCTO\b|Engineering|Architect/i, 'Engineering'],
+  [/\bCIO\b|\bIT\b|CISO|Security/i, 'IT'],
+  [/\bCOO\b|Operations/i, 'Operations'],
+  [/\bCRO\b|Sales/i, 'Sales'],
+  [/\bCMO\b|Marketing/i, 'Marketing'],
+  [/Procurement|Buyer/i, 'Procurement'],
+  [/\bHR\b|People/i, 'HR'],
+  [/Product/i, 'Product'],
+  [/\bCEO\b|President|Founder|Owner/i, 'Executive']
+];
+
+// Capitalized words that start sentences, or name a function, but aren't people
+const NOT_NAMES = new Set([
+  'The', 'They', 'Their', 'Our', 'We', 'She', 'He', 'It', 'This', 'That', 'Also', 'And', 'But', 'Budget', 'Team', 'Board',
+  ...FUNCTION_WORDS
+]);
+
+export function influenceForRole(role: string, sentence = ''): StakeholderInfluence {
+  if (/\b(C[EFTIO]O|COO|CISO|CRO|CMO|SVP|EVP|President|Founder|Owner)\b/.test(role) || /\b(final (say|decision)|signs? off|economic buyer|budget holder)\b/i.test(sentence)) {
+    return 'high';
+  }
+  if (/\b(VP|Head|Director)\b/.test(role)) return 'high';
+  if (/\b(Manager|Lead|Architect|Controller)\b/.test(role)) return 'medium';
+  return 'low';
+}
+
+export const departmentForRole = (role: string): string =>
+  DEPARTMENT_BY_ROLE.find(([pattern]) => pattern.test(role))?.[1] || role.match(/\bof ([A-Z][\w&]*(?: [A-Z][\w&]*)?)/)?.[1] || '';
+
+const attitudeIn = (sentence: string): StakeholderAttitude | undefined =>
+  ATTITUDE_CUES.find(([, pattern]) => pattern.test(sentence))?.[0];
+
+const sentencesOf = (notes: string): string[] =>
+  stripAnnotationMarkup(notes)
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim().replace(/^[-*•]\s*/, ''))
+    .filter(Boolean);
+
+const sameName = (a: string, b: string) => {
+  const [x, y] = [a.toLowerCase().trim(), b.toLowerCase().trim()];
+  // "Sarah" and "Sarah Chen" are the same person
+  return x === y || x.split(' ')[0] === y || y.split(' ')[0] === x;
+};
+
+const isName = (value: string) => !NOT_NAMES.has(value.split(' ')[0]);
+
+/**
+ * Deterministic extractor used when the model is unavailable: named people with a role,
+ * their attitude from the same sentence, and stated reporting lines
+ */
+export function extractStakeholdersLocally(areaName: string, block: QuestionBlock): StakeholderExtraction {
+  const found = new Map<string, StakeholderExtraction['stakeholders'][number]>();
+  const relationships: StakeholderExtraction['relationships'] = [];
+  const source = (excerpt: string): StakeholderSource => ({
+    areaName,
+    questionBlockId: block.id,
+    questionNumber: block.questionNumber,
+    excerpt
+  });
+
+  for (const sentence of sentencesOf(block.notes)) {
+    for (const { pattern, name: nameGroup, role: roleGroup } of PERSON_PATTERNS) {
+      for (const match of sentence.matchAll(pattern)) {
+        const name = match[nameGroup];
+        const role = match[roleGroup].trim();
+        if (!isName(name) || [...found.values()].some(f => sameName(f.name, name) && f.role)) continue;
+        found.set(name.toLowerCase(), {
+          name,
+          role,
+          department: departmentForRole(role),
+          influence: influenceForRole(role, sentence),
+          attitude: attitudeIn(sentence),
+          source: source(sentence)
+        });
+      }
+    }
+
+    for (const { pattern, kind, reversed } of RELATIONSHIP_PATTERNS) {
+      for (const match of sentence.matchAll(pattern)) {
+        const [from, to] = reversed ? [match[2], match[1]] : [match[1], match[2]];
+        if (!isName(from) || !isName(to)) continue;
+        relationships.push({ from, to, kind, source: source(sentence) });
+        // People only named in a relationship still belong on the map
+        for (const name of [from, to]) {
+          if (![...found.values()].some(f => sameName(f.name, name))) {
+            found.set(name.toLowerCase(), { name, source: source(sentence) });
+          }
+        }
+      }
+    }
+  }
+
+  return { stakeholders: [...found.values()], relationships };
+}
+
+// Model extraction ---------------------------------------------------------
+
+export function buildStakeholderExtractionPrompt(areaName: string, block: QuestionBlock, known: Stakeholder[]): string {
+  return `Identify the people on the prospect's side mentioned in a consultant's discovery notes.
+
+DISCOVERY AREA: ${areaName}
+QUESTION: ${block.questionText || 'N/A'}
+NOTES:
+${stripAnnotationMarkup(block.notes)}
+
+ALREADY ON THE MAP: ${known.length > 0 ? known.map(s => `${s.name}${s.role ? ` (${s.role})` : ''}`).join(', ') : 'nobody yet'}
+
+RULES:
+- Only include people the notes name or clearly identify by role; never invent anyone
+- Use the same name as the map for people already on it
+- "influence": ${INFLUENCE_LEVELS.join(' | ')} - their sway over this purchase
+- "attitude": ${ATTITUDES.join(' | ')} - toward the initiative, only if the notes say so
+- "kind" for relationships: ${Object.keys(RELATIONSHIP_LABELS).join(' | ')} ("from" reports to / influences / blocks "to")
+- "excerpt" is the exact note text the fact came from
+
+Return JSON:
+{
+  "stakeholders": [
+    { "name": "...", "role": "...", "department": "...", "influence": "high", "attitude": "skeptic", "excerpt": "..." }
+  ],
+  "relationships": [
+    { "from": "...", "to": "...", "kind": "reports_to", "excerpt": "..." }
+  ]
+}`;
+}
+
+const oneOf = <T extends string>(values: readonly T[], value: unknown): T | undefined =>
+  values.includes(value as T) ? value as T : undefined;
+
+/**
+ * Validate a model response; malformed entries are dropped
+ */
+export function parseStakeholderExtraction(raw: unknown, areaName: string, block: QuestionBlock): StakeholderExtraction | null {
+  const data = raw as { stakeholders?: unknown; relationships?: unknown };
+  if (!Array.isArray(data?.stakeholders)) return null;
+
+  const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+  const source = (excerpt: unknown): StakeholderSource => ({
+    areaName,
+    questionBlockId: block.id,
+    questionNumber: block.questionNumber,
+    excerpt: text(excerpt)
+  });
+
+  return {
+    stakeholders: data.stakeholders.flatMap((entry: Record<string, unknown>) => {
+      const name = text(entry?.name);
+      return name ? [{
+        name,
+        role: text(entry.role) || undefined,
+        department: text(entry.department) || undefined,
+        influence: oneOf(INFLUENCE_LEVELS, entry.influence),
+        attitude: oneOf(ATTITUDES, entry.attitude),
+        source: source(entry.excerpt)
+      }] : [];
+    }),
+    relationships: (Array.isArray(data.relationships) ? data.relationships : []).flatMap((entry: Record<string, unknown>) => {
+      const kind = oneOf(Object.keys(RELATIONSHIP_LABELS) as RelationshipKind[], entry?.kind);
+      const from = text(entry?.from);
+      const to = text(entry?.to);
+      return kind && from && to && from !== to ? [{ from, to, kind, source: source(entry.excerpt) }] : [];
+    })
+  };
+}
+
+// Merging and editing ------------------------------------------------------
+
+export const findStakeholder = (map: StakeholderMap, name: string): Stakeholder | undefined =>
+  map.stakeholders.find(s => sameName(s.name, name));
+
+/**
+ * Fold an extraction into the map. New people are added; for people already on it only
+ * blank fields are filled, and anyone the consultant has confirmed is left alone.
+ */
+export function mergeStakeholderExtraction(
+  map: StakeholderMap,
+  extraction: StakeholderExtraction,
+  addedBy: Stakeholder['addedBy']
+): StakeholderMap {
+  const stakeholders = [...map.stakeholders];
+
+  for (const found of extraction.stakeholders) {
+    const index = stakeholders.findIndex(s => sameName(s.name, found.name));
+    if (index === -1) {
+      stakeholders.push(createStakeholder({
+        name: found.name,
+        role: found.role || '',
+        department: found.department || departmentForRole(found.role || ''),
+        influence: found.influence || (found.role ? influenceForRole(found.role) : 'medium'),
+        attitude: found.attitude || 'neutral',
+        source: found.source,
+        addedBy,
+        confirmed: false
+      }));
+      continue;
+    }
+
+    const existing = stakeholders[index];
+    if (existing.confirmed) continue;
+    stakeholders[index] = {
+      ...existing,
+      // The longer name wins, so "Sarah" becomes "Sarah Chen"
+      name: found.name.length > existing.name.length ? found.name : existing.name,
+      role: existing.role || found.role || '',
+      department: existing.department || found.department || '',
+      influence: found.influence && existing.influence === 'medium' ? found.influence : existing.influence,
+      attitude: found.attitude && existing.attitude === 'neutral' ? found.attitude : existing.attitude
+    };
+  }
+
+  const next = { ...map, stakeholders };
+  const relationships = [...map.relationships];
+  for (const found of extraction.relationships) {
+    const from = findStakeholder(next, found.from);
+    const to = findStakeholder(next, found.to);
+    if (!from || !to || from.id === to.id) continue;
+    if (relationships.some(r => r.from === from.id && r.to === to.id && r.kind === found.kind)) continue;
+    relationships.push({ id: crypto.randomUUID(), from: from.id, to: to.id, kind: found.kind, source: found.source });
+  }
+
+  return { ...next, relationships, updated_at: new Date().toISOString() };
+}
+
+// Any edit by the consultant confirms the person, so later extraction leaves them alone
+export function updateStakeholder(map: StakeholderMap, id: string, changes: Partial<Omit<Stakeholder, 'id'>>): StakeholderMap {
+  return {
+    ...map,
+    stakeholders: map.stakeholders.map(s => s.id === id ? { ...s, ...changes, confirmed: true } : s),
+    updated_at: new Date().toISOString()
+  };
+}
+
+export function removeStakeholder(map: StakeholderMap, id: string): StakeholderMap {
+  return {
+    ...map,
+    stakeholders: map.stakeholders.filter(s => s.id !== id),
+    relationships: map.relationships.filter(r => r.from !== id && r.to !== id),
+    updated_at: new Date().toISOString()
+  };
+}
+
+export function addRelationship(map: StakeholderMap, from: string, to: string, kind: RelationshipKind): StakeholderMap {
+  if (from === to || map.relationships.some(r => r.from === from && r.to === to && r.kind === kind)) return map;
+  return {
+    ...map,
+    relationships: [...map.relationships, { id: crypto.randomUUID(), from, to, kind }],
+    updated_at: new Date().toISOString()
+  };
+}
+
+export function removeRelationship(map: StakeholderMap, id: string): StakeholderMap {
+  return {
+    ...map,
+    relationships: map.relationships.filter(r => r.id !== id),
+    updated_at: new Date().toISOString()
+  };
+}
+
+// Report -------------------------------------------------------------------
+
+const describe = (s: Stakeholder) => `${s.name}${s.role ? ` (${s.role})` : ''}`;
+
+/**
+ * The map as a report section: who matters, where they stand, and how they connect
+ */
+export function formatPowerMapMarkdown(map: StakeholderMap | null): string {
+  if (!map || map.stakeholders.length === 0) return '';
+
+  const byId = new Map(map.stakeholders.map(s => [s.id, s]));
+  const sorted = [...map.stakeholders].sort((a, b) =>
+    INFLUENCE_LEVELS.indexOf(b.influence) - INFLUENCE_LEVELS.indexOf(a.influence) ||
+    ATTITUDES.indexOf(b.attitude) - ATTITUDES.indexOf(a.attitude)
+  );
+  const highInfluence = (attitudes: StakeholderAttitude[]) =>
+    sorted.filter(s => s.influence === 'high' && attitudes.includes(s.attitude));
+  const risks = highInfluence(['blocker', 'skeptic']);
+  const allies = highInfluence(['champion', 'supporter']);
+
+  return `## Power Map
+
+| Name | Role | Department | Influence | Attitude |
+|------|------|------------|-----------|----------|
+${sorted.map(s => `| ${s.name} | ${s.role || '-'} | ${s.department || '-'} | ${s.influence} | ${ATTITUDE_LABELS[s.attitude]} |`).join('\n')}
+${map.relationships.length > 0 ? `
+### Relationships
+${map.relationships
+  .filter(r => byId.has(r.from) && byId.has(r.to))
+  .map(r => `- ${byId.get(r.from).name} ${RELATIONSHIP_LABELS[r.kind]} ${byId.get(r.to).name}`)
+  .join('\n')}
+` : ''}
+### What It Means
+- **Allies with sway**: ${allies.length > 0 ? allies.map(describe).join(', ') : 'None identified yet - find a champion with influence'}
+- **Resistance to plan for**: ${risks.length > 0 ? risks.map(describe).join(', ') : 'None identified'}
+${sorted.some(s => s.attitude === 'neutral' && s.influence === 'high')
+  ? `- **Still to win over**: ${sorted.filter(s => s.attitude === 'neutral' && s.influence === 'high').map(describe).join(', ')}\n`
+  : ''}`;
+}
+
+// The map as prompt context for analysis
+export function formatStakeholdersForPrompt(map: StakeholderMap | null): string {
+  if (!map || map.stakeholders.length === 0) return '';
+  const byId = new Map(map.stakeholders.map(s => [s.id, s]));
+  return `STAKEHOLDER MAP:
+${map.stakeholders.map(s => `- ${describe(s)}${s.department ? `, ${s.department}` : ''}: ${s.influence} influence, ${ATTITUDE_LABELS[s.attitude].toLowerCase()}`).join('\n')}${
+  map.relationships.length > 0
+    ? `\n${map.relationships
+      .filter(r => byId.has(r.from) && byId.has(r.to))
+      .map(r => `- ${byId.get(r.from).name} ${RELATIONSHIP_LABELS[r.kind]} ${byId.get(r.to).name}`)
+      .join('\n')}`
+    : ''}`;
+}
+
+export default {
+  emptyStakeholderMap,
+  createStakeholder,
+  extractStakeholdersLocally,
+  buildStakeholderExtractionPrompt,
+  parseStakeholderExtraction,
+  mergeStakeholderExtraction,
+  updateStakeholder,
+  removeStakeholder,
+  addRelationship,
+  removeRelationship,
+  formatPowerMapMarkdown,
+  formatStakeholdersForPrompt
+};
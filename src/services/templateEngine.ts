@@ -0,0 +1,323 @@
+/**
+ * Elicitation Template Engine
+ * Resolves typed [placeholders] in question templates from an entity store built up over the session
+ */
+
+import type { DiscoveryNote } from '@/types/discovery';
+import { findNamedSystems, findQuantities } from './noteQualityRubric';
+
+export type SlotType = 'system' | 'process' | 'metric' | 'pain' | 'person' | 'constraint' | 'context';
+
+// Session-level values that can fill a placeholder when the notes don't
+export interface TemplateContext {
+  businessArea?: string;
+  solutionScope?: string;
+  compliance?: string;
+}
+
+export interface PlaceholderDeclaration {
+  type: SlotType;
+  // Used for 'context' slots, and as a fallback for typed slots
+  contextKey?: keyof TemplateContext;
+  // Entities matching this are tried first, and these placeholders are filled first
+  prefer?: RegExp;
+}
+
+export interface Entity {
+  type: Exclude<SlotType, 'context'>;
+  value: string;
+  areaName: string;
+  // Order of the note the entity was last seen in; higher is more recent
+  sequence: number;
+  mentions: number;
+}
+
+// Language-specific extractors for slots found by wording rather than shape
+export interface SlotPatterns {
+  process: RegExp;                 // Whole match is the process
+  pain: RegExp;                    // First group that matched is the problem
+  constraint: RegExp;              // First group that matched is the requirement
+}
+
+export interface EntityStore {
+  entities: Entity[];
+  sequence: number;
+}
+
+export interface ResolvedSlot {
+  placeholder: string;
+  type: SlotType;
+  value: string;
+  source: 'area' | 'session' | 'context';
+}
+
+export interface UnresolvedSlot {
+  placeholder: string;
+  type: SlotType | null;   // null when the placeholder was never declared
+}
+
+export interface RenderedTemplate {
+  template: string;
+  text: string;
+  resolved: ResolvedSlot[];
+  unresolved: UnresolvedSlot[];
+}
+
+const COMPLIANCE_TERMS = /\b(ITAR|HIPAA|GDPR|SOX|SOC ?2|FDA|FAA|ISO \d+|PCI(?:-DSS)?|CMMC|FedRAMP|DO-178)\b/;
+
+/**
+ * Every placeholder used by ELICITATION_PATTERNS, their variants and the methodology packs.
+ * New templates must declare their placeholders here; undeclared ones are
+ * always reported as unresolved.
+ */
+export const PLACEHOLDER_DECLARATIONS: Record<string, PlaceholderDeclaration> = {
+  'business area from context': { type: 'context', contextKey: 'businessArea' },
+  'solution scope': { type: 'context', contextKey: 'solutionScope' },
+
+  'specific system mentioned': { type: 'system' },
+  'system A': { type: 'system' },
+
+  'specific process mentioned': { type: 'process' },
+  'specific scenario from notes': { type: 'process' },
+  'edge case scenario': { type: 'process' },
+
+  'specific amount mentioned': { type: 'metric' },
+  'specific amount range': { type: 'metric' },
+  'specific budget mentioned': { type: 'metric' },
+  'specific timeline mentioned': { type: 'metric' },
+  'specific metric': { type: 'metric' },
+  'business metric': { type: 'metric' },
+  'specific improvement': { type: 'metric' },
+  'outcome mentioned': { type: 'metric' },
+
+  'specific pain mentioned': { type: 'pain' },
+  'specific pain point': { type: 'pain' },
+  'problem state from context': { type: 'pain' },
+
+  'specific stakeholder mentioned': { type: 'person' },
+  'specific stakeholder': { type: 'person' },
+  'key stakeholder': { type: 'person' },
+
+  'specific requirement mentioned': { type: 'constraint' },
+  'specific requirement': { type: 'constraint' },
+  'constraint mentioned': { type: 'constraint' },
+  'compliance/regulatory concern': { type: 'constraint', contextKey: 'compliance', prefer: COMPLIANCE_TERMS },
+  'compliance/security concern': { type: 'constraint', contextKey: 'compliance', prefer: COMPLIANCE_TERMS }
+};
+
+export const SLOT_TYPE_LABELS: Record<SlotType, string> = {
+  system: 'system',
+  process: 'process',
+  metric: 'number or metric',
+  pain: 'problem',
+  person: 'person or role',
+  constraint: 'requirement',
+  context: 'context'
+};
+
+const PLACEHOLDER_PATTERN = /\[([^\]]+)\]/g;
+
+// Typed extractors - each returns candidate values in order of appearance
+const PROCESS_PATTERN = /\b(?:[a-z][a-z-]+\s+){1,3}?(?:process|workflow|handoff|hand-off|procedure|reconciliation)\b/gi;
+const PAIN_PATTERN = /\b(?:challenge|issue|problem|bottleneck|pain|frustration)(?:\s+is|:)\s+([^.;\n]+)|\b(?:struggl\w+|frustrated)\s+(?:with|by)\s+([^.;\n]+)/gi;
+const PERSON_PATTERN = /\b(CEO|CFO|CTO|COO|CIO|CISO|(?:S?VP|Head|Director)(?:\s+of)?\s+[A-Z][A-Za-z]+|(?!(?:The|A|An|Our|Their)\b)(?:[A-Z]{2,}|[A-Z][a-z]+)\s+(?:director|manager|lead|owner|champion|sponsor))\b/g;
+const CONSTRAINT_PATTERN = /\b(?:must|has to|have to|required to|needs to|cannot|can't)\s+(?:be\s+)?([^.,;\n]+?)(?=\s+(?:and|but|because|so)\b|[.,;\n]|$)/gi;
+export const ENGLISH_SLOT_PATTERNS: SlotPatterns = {
+  process: PROCESS_PATTERN,
+  pain: PAIN_PATTERN,
+  constraint: CONSTRAINT_PATTERN
+};
+const COMPLIANCE_PATTERN = new RegExp(`(${COMPLIANCE_TERMS.source})`, 'g');
+const QUANTITY_CONTEXT = /^\s+(?:of|in|per|on)\s+[A-Za-z]+/;
+// File formats and plural business acronyms that the named-system finder picks up
+const NON_SYSTEM_TERMS = /^(csv|pdf|xml|json|xlsx?|rfqs|rfps|kpis|okrs)$/i;
+const LEADING_FILLER = /^(?:(?:is|are|was|the|a|an|our|their|this|that|its|his|her)\s+)+/i;
+
+const MAX_VALUE_WORDS = 8;
+
+const trimValue = (value: string): string => {
+  const words = value.trim().replace(LEADING_FILLER, '').split(/\s+/);
+  return words.slice(0, MAX_VALUE_WORDS).join(' ').replace(/[,:]$/, '');
+};
+
+const allMatches = (text: string, pattern: RegExp): RegExpExecArray[] => {
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  return Array.from(text.matchAll(regex));
+};
+
+const captured = (match: RegExpExecArray): string => match.slice(1).find(Boolean) || '';
+
+/**
+ * Typed entities in a note. Localized sessions pass their catalog's slot patterns;
+ * systems, metrics and compliance regimes are found the same way in every language.
+ */
+export function extractEntities(
+  text: string,
+  slotPatterns: SlotPatterns = ENGLISH_SLOT_PATTERNS
+): Array<Pick<Entity, 'type' | 'value'>> {
+  if (!text.trim()) return [];
+  const found: Array<Pick<Entity, 'type' | 'value'>> = [];
+
+  const compliance = allMatches(text, COMPLIANCE_PATTERN).map(m => m[1]);
+  const isCompliance = (value: string) => compliance.some(term => value.toLowerCase().includes(term.toLowerCase()));
+
+  findNamedSystems(text)
+    .filter(value => !NON_SYSTEM_TERMS.test(value) && !isCompliance(value))
+    .forEach(value => found.push({ type: 'system', value }));
+
+  allMatches(text, slotPatterns.process).forEach(m => found.push({ type: 'process', value: trimValue(m[0]) }));
+
+  findQuantities(text).forEach(quantity => {
+    const index = text.indexOf(quantity);
+    const context = text.slice(index + quantity.length).match(QUANTITY_CONTEXT)?.[0] || '';
+    found.push({ type: 'metric', value: trimValue(quantity + context) });
+  });
+
+  allMatches(text, slotPatterns.pain).forEach(m => found.push({ type: 'pain', value: trimValue(captured(m)) }));
+
+  allMatches(text, PERSON_PATTERN).forEach(m => found.push({ type: 'person', value: trimValue(m[1]) }));
+
+  // Compliance regimes are captured on their own so a phrase like "must be ITAR compliant" isn't duplicated
+  compliance.forEach(value => found.push({ type: 'constraint', value }));
+  allMatches(text, slotPatterns.constraint)
+    .map(captured)
+    .filter(value => !isCompliance(value))
+    .forEach(value => found.push({ type: 'constraint', value: trimValue(value) }));
+
+  return found.filter(entity => entity.value.length > 1);
+}
+
+export const createEntityStore = (): EntityStore => ({ entities: [], sequence: 0 });
+
+/**
+ * Fold a note into the store. Returns a new store; repeated entities are
+ * bumped rather than duplicated.
+ */
+export function addToEntityStore(
+  store: EntityStore,
+  text: string,
+  areaName: string,
+  slotPatterns?: SlotPatterns
+): EntityStore {
+  const sequence = store.sequence + 1;
+  const entities = [...store.entities];
+
+  for (const { type, value } of extractEntities(text, slotPatterns)) {
+    const index = entities.findIndex(e => e.type === type && e.value.toLowerCase() === value.toLowerCase());
+    if (index === -1) {
+      entities.push({ type, value, areaName, sequence, mentions: 1 });
+    } else {
+      entities[index] = { ...entities[index], areaName, sequence, mentions: entities[index].mentions + 1 };
+    }
+  }
+
+  return { entities, sequence };
+}
+
+/**
+ * Build the store from every answered question in the session, oldest first
+ */
+export function buildEntityStore(notes: DiscoveryNote[], slotPatterns?: SlotPatterns): EntityStore {
+  const blocks = notes
+    .flatMap(note => note.questions.map(q => ({ areaName: note.areaName, text: q.notes, timestamp: new Date(q.timestamp).getTime() })))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  return blocks.reduce((store, block) => addToEntityStore(store, block.text, block.areaName, slotPatterns), createEntityStore());
+}
+
+/**
+ * Best entity of a type: the current area's most recent mention wins, then the rest of the session
+ */
+export function findEntity(
+  store: EntityStore,
+  type: Entity['type'],
+  area?: string,
+  options: { exclude?: string[]; prefer?: RegExp } = {}
+): Entity | undefined {
+  const { exclude = [], prefer } = options;
+  const candidates = store.entities
+    .filter(e => e.type === type && !exclude.includes(e.value))
+    .sort((a, b) => b.sequence - a.sequence || b.mentions - a.mentions);
+
+  const preferred = prefer ? candidates.filter(e => prefer.test(e.value)) : [];
+  return preferred.find(e => e.areaName === area) || preferred[0] ||
+    candidates.find(e => e.areaName === area) || candidates[0];
+}
+
+export function getPlaceholders(template: string): string[] {
+  return Array.from(template.matchAll(PLACEHOLDER_PATTERN), m => m[1]);
+}
+
+/**
+ * Fill every placeholder in the template, reporting the ones that can't be filled
+ */
+export function renderTemplate(
+  template: string,
+  store: EntityStore,
+  options: { area?: string; context?: TemplateContext } = {}
+): RenderedTemplate {
+  const { area, context = {} } = options;
+  const resolved: ResolvedSlot[] = [];
+  const unresolved: UnresolvedSlot[] = [];
+
+  // Placeholders with a preference claim their entities first; the rest take
+  // distinct values so one template never repeats the same entity twice
+  const placeholders = Array.from(new Set(getPlaceholders(template)))
+    .sort((a, b) => Number(!PLACEHOLDER_DECLARATIONS[a]?.prefer) - Number(!PLACEHOLDER_DECLARATIONS[b]?.prefer));
+  const used = new Map<SlotType, string[]>();
+  const values = new Map<string, string>();
+
+  for (const placeholder of placeholders) {
+    const declaration = PLACEHOLDER_DECLARATIONS[placeholder];
+    if (!declaration) {
+      unresolved.push({ placeholder, type: null });
+      continue;
+    }
+
+    const { type, contextKey, prefer } = declaration;
+    const exclude = used.get(type) || [];
+    const entity = type === 'context' ? undefined : findEntity(store, type, area, { exclude, prefer });
+    if (entity) {
+      used.set(type, [...exclude, entity.value]);
+      values.set(placeholder, entity.value);
+      resolved.push({ placeholder, type, value: entity.value, source: entity.areaName === area ? 'area' : 'session' });
+      continue;
+    }
+
+    const contextValue = contextKey ? context[contextKey]?.trim() : undefined;
+    if (contextValue) {
+      values.set(placeholder, contextValue);
+      resolved.push({ placeholder, type, value: contextValue, source: 'context' });
+      continue;
+    }
+
+    unresolved.push({ placeholder, type });
+  }
+
+  const text = template.replace(PLACEHOLDER_PATTERN, (match, placeholder: string) => values.get(placeholder) ?? match);
+
+  return { template, text, resolved, unresolved };
+}
+
+/**
+ * A direct question asking the consultant's contact to name what the template needed
+ */
+export function buildClarificationQuestion(unresolved: UnresolvedSlot[], area: string): string {
+  const labels = Array.from(new Set(unresolved.map(slot => SLOT_TYPE_LABELS[slot.type || 'context'])));
+  if (labels.length === 0) return `Can you tell me more about ${area.toLowerCase()}?`;
+
+  const needed = labels.length === 1 ? labels[0] : `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+  return `Before we go deeper on ${area.toLowerCase()}, which specific ${needed} should we focus on?`;
+}
+
+export default {
+  PLACEHOLDER_DECLARATIONS,
+  extractEntities,
+  createEntityStore,
+  addToEntityStore,
+  buildEntityStore,
+  findEntity,
+  getPlaceholders,
+  renderTemplate,
+  buildClarificationQuestion
+};
@@ -0,0 +1,494 @@
+/**
+ * Call Transcript Import
+ * Parses recorded-call transcripts, splits them into question/answer turns and classifies each turn into a discovery area
+ */
+
+import type { DiscoveryArea, DiscoveryAreaName, DiscoveryNote, QuestionBlock } from '@/types/discovery';
+import type { MethodologyArea } from './methodologyPacks';
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'text' | 'json';
+
+export interface TranscriptUtterance {
+  speaker: string | null;      // Null when the transcript has no speaker labels
+  text: string;
+  start: number | null;        // Seconds from the start of the call
+}
+
+export interface TranscriptTurn {
+  id: string;
+  question: string;            // What the consultant asked; empty for prospect remarks before the first question
+  answer: string;              // Everything the prospect said until the next question
+  start: number | null;
+  area: string | null;         // Proposed discovery area, null when nothing matched
+  confidence: number;          // 0-1
+  classifiedBy: 'model' | 'local';
+  included: boolean;           // Consultant can drop small talk before merging
+}
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  utterances: TranscriptUtterance[];
+  speakers: string[];          // In order of first appearance
+}
+
+// Turns below this confidence are flagged for the consultant to check
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+// Answers shorter than this are usually "yes", "right", "mm-hm" and start unchecked
+const MIN_ANSWER_LENGTH = 20;
+
+// Keyword cues for the default framework's areas; other methodologies fall back to their area descriptions
+export const AREA_CUES: Record<DiscoveryAreaName, RegExp> = {
+  'Current State Assessment': /\b(today|currently|right now|day[- ]to[- ]day|workflow|process|system|tool|spreadsheet|manual(ly)?|walk me through|how (does|do) (it|you))\w*/gi,
+  'Pain Points & Challenges': /\b(problem|challenge|pain|frustrat|bottleneck|struggl|issue|broken|slow|delay|error|complain|headache|worst)\w*/gi,
+  'Desired Future State': /\b(ideal|future|vision|success look|would like|want to|wish|magic wand|goal|imagine|in a perfect)\w*/gi,
+  'Constraints & Requirements': /\b(requirement|must|non-negotiable|constraint|compliance|regulat|security|integrat|certif|policy|can't|cannot|have to)\w*/gi,
+  'Decision Process & Timeline': /\b(decision|decide|approv|sign[- ]off|timeline|deadline|by (Q[1-4]|the end)|procurement|evaluat|rfp|shortlist|when (do|would) you)\w*/gi,
+  'Budget & Resources': /\b(budget|cost|spend|invest|fund|price|pricing|afford|resourc|headcount|capex|opex)\w*|\$\s?\d/gi,
+  'Success Metrics': /\b(measur|metric|kpi|track|baseline|target|percent|roi|benchmark|report on)\w*/gi,
+  'Stakeholders & Politics': /\b(stakeholder|who else|team|department|champion|resist|buy[- ]in|politic|leadership|executive|boss|board)\w*/gi
+};
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'been', 'before', 'being', 'could', 'does', 'from', 'have', 'into', 'just',
+  'like', 'make', 'more', 'most', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this',
+  'those', 'what', 'when', 'where', 'which', 'while', 'with', 'would', 'your', 'you\'re', 'will'
+]);
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Detect the transcript format from the file extension, then the content
+ */
+export function detectTranscriptFormat(fileName: string, content: string): TranscriptFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'vtt' || extension === 'srt' || extension === 'json') return extension;
+  if (extension === 'txt') return 'text';
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('WEBVTT')) return 'vtt';
+  // "[00:01] Dana: ..." text transcripts also start with a bracket
+  if (/^(\{|\[\s*[{\]])/.test(trimmed)) return 'json';
+  if (/^\d+\s*\r?\n\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/m.test(trimmed)) return 'srt';
+  return 'text';
+}
+
+// "01:02:03.500", "02:03.500" or "01:02:03,500" -> seconds
+const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(`0.${fraction || 0}`);
+};
+
+// "Dana Whitfield: We use SharePoint" -> speaker and text. Long prefixes are probably sentences, not names.
+const SPEAKER_PREFIX = /^([A-Z][\w.'-]*(?: [\w.'-]+){0,3}|Speaker \d+|Interviewer|Prospect|Consultant)\s*(?:\([^)]*\))?:\s+(.*)$/;
+
+const splitSpeaker = (line: string): { speaker: string | null; text: string } => {
+  const match = line.match(SPEAKER_PREFIX);
+  return match ? { speaker: match[1].trim(), text: match[2].trim() } : { speaker: null, text: line.trim() };
+};
+
+const stripTags = (text: string): string => text.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+
+// Cue blocks shared by VTT and SRT: a timing line followed by text lines
+function parseCueBlocks(content: string, format: 'vtt' | 'srt'): TranscriptUtterance[] {
+  const utterances: TranscriptUtterance[] = [];
+
+  for (const block of content.replace(/\r\n/g, '\n').split(/\n{2,}/)) {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const start = parseTimestamp(lines[timingIndex].split('-->')[0]);
+    const raw = lines.slice(timingIndex + 1).join(' ');
+    if (!raw) continue;
+
+    // VTT voice spans carry the speaker: <v Dana Whitfield>text</v>
+    const voice = format === 'vtt' ? raw.match(/<v(?:\.[\w.]+)?\s+([^>]+)>/) : null;
+    const { speaker, text } = voice
+      ? { speaker: voice[1].trim(), text: stripTags(raw) }
+      : splitSpeaker(stripTags(raw));
+
+    if (text) utterances.push({ speaker, text, start });
+  }
+
+  return utterances;
+}
+
+// "[00:01:02] Dana: text", "Dana (00:01:02): text" or "Dana: text"; unlabelled lines continue the previous speaker
+function parsePlainText(content: string): TranscriptUtterance[] {
+  const utterances: TranscriptUtterance[] = [];
+
+  for (const rawLine of content.replace(/\r\n/g, '\n').split('\n')) {
+    let line = rawLine.trim();
+    if (!line) continue;
+
+    let start: number | null = null;
+    const leadingTime = line.match(/^\[?(\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d+)?)\]?\s+/);
+    if (leadingTime) {
+      start = parseTimestamp(leadingTime[1]);
+      line = line.slice(leadingTime[0].length);
+    }
+
+    const inlineTime = line.match(/^([^:()]{1,40}?)\s*\((\d{1,2}:\d{2}(?::\d{2})?)\)\s*:\s*(.*)$/);
+    const { speaker, text } = inlineTime
+      ? { speaker: inlineTime[1].trim(), text: inlineTime[3].trim() }
+      : splitSpeaker(line);
+    if (inlineTime) start = parseTimestamp(inlineTime[2]);
+
+    // Without any labels each line stands alone, so question lines can still be told apart
+    const previous = utterances[utterances.length - 1];
+    if (!speaker && previous?.speaker) {
+      previous.text = `${previous.text} ${text}`;
+    } else if (text) {
+      utterances.push({ speaker, text, start });
+    }
+  }
+
+  return utterances;
+}
+
+const firstString = (entry: Record<string, unknown>, keys: string[]): string | null => {
+  for (const key of keys) {
+    const value = entry[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number') return String(value);
+  }
+  return null;
+};
+
+const firstTime = (entry: Record<string, unknown>, keys: string[]): number | null => {
+  for (const key of keys) {
+    const value = entry[key];
+    if (typeof value === 'string') {
+      const parsed = parseTimestamp(value);
+      if (parsed !== null) return parsed;
+    }
+    // Millisecond exports (AssemblyAI, Fireflies) are told apart by the key name
+    if (typeof value === 'number') return /ms$|_ms|Ms$/.test(key) ? value / 1000 : value;
+  }
+  return null;
+};
+
+/**
+ * Meeting-tool JSON exports: an array of segments, or an object holding one under
+ * segments / utterances / sentences / transcript / entries / results. Speaker and text
+ * keys vary by tool, so the common spellings are all accepted.
+ */
+function parseJsonTranscript(content: string): TranscriptUtterance[] {
+  const raw: unknown = JSON.parse(content);
+  const container = raw as Record<string, unknown>;
+  const segments = Array.isArray(raw)
+    ? raw
+    : ['segments', 'utterances', 'sentences', 'transcript', 'entries', 'results']
+      .map(key => container?.[key])
+      .find(Array.isArray);
+
+  if (!Array.isArray(segments)) {
+    throw new Error('Unrecognized transcript JSON: expected an array of segments');
+  }
+
+  return segments.flatMap((segment: Record<string, unknown>) => {
+    if (!segment || typeof segment !== 'object') return [];
+    const speakerField = segment.speaker;
+    const speaker = speakerField && typeof speakerField === 'object'
+      ? firstString(speakerField as Record<string, unknown>, ['name', 'displayName', 'id'])
+      : firstString(segment, ['speaker_name', 'speakerName', 'speaker', 'participant', 'name', 'user']);
+    const text = firstString(segment, ['text', 'transcript', 'content', 'sentence', 'words']);
+    if (!text) return [];
+    return [{
+      speaker,
+      text: stripTags(text),
+      start: firstTime(segment, ['start_time', 'startTime', 'start', 'start_ms', 'startMs', 'offset', 'timestamp'])
+    }];
+  });
+}
+
+// Consecutive cues from the same speaker are one utterance; captions split sentences mid-way
+const mergeConsecutive = (utterances: TranscriptUtterance[]): TranscriptUtterance[] =>
+  utterances.reduce<TranscriptUtterance[]>((merged, utterance) => {
+    const previous = merged[merged.length - 1];
+    if (previous?.speaker && previous.speaker === utterance.speaker) {
+      previous.text = `${previous.text} ${utterance.text}`;
+    } else {
+      merged.push({ ...utterance });
+    }
+    return merged;
+  }, []);
+
+export function parseTranscript(fileName: string, content: string): ParsedTranscript {
+  const format = detectTranscriptFormat(fileName, content);
+  const parsed = format === 'json'
+    ? parseJsonTranscript(content)
+    : format === 'text'
+      ? parsePlainText(content)
+      : parseCueBlocks(content, format);
+
+  const utterances = mergeConsecutive(parsed);
+  if (utterances.length === 0) {
+    throw new Error(`No speech found in the ${format.toUpperCase()} transcript`);
+  }
+
+  const speakers = [...new Set(utterances.map(u => u.speaker).filter((s): s is string => !!s))];
+  return { format, utterances, speakers };
+}
+
+// ---------------------------------------------------------------------------
+// Segmentation
+// ---------------------------------------------------------------------------
+
+const countQuestions = (text: string): number => (text.match(/\?/g) || []).length;
+
+/**
+ * Best guess at who the consultant is: not the session contact, and the speaker asking the most questions
+ */
+export function guessConsultantSpeaker(transcript: ParsedTranscript, contactName?: string): string | null {
+  // Meeting tools often label people by first name only
+  const contactFirstName = contactName?.toLowerCase().trim().split(/\s+/)[0];
+  const candidates = transcript.speakers.filter(speaker =>
+    !contactFirstName || speaker.toLowerCase().trim().split(/\s+/)[0] !== contactFirstName
+  );
+
+  let best: { speaker: string; questions: number } | null = null;
+  for (const speaker of candidates) {
+    const questions = transcript.utterances
+      .filter(u => u.speaker === speaker)
+      .reduce((sum, u) => sum + countQuestions(u.text), 0);
+    if (!best || questions > best.questions) best = { speaker, questions };
+  }
+  return best?.speaker ?? null;
+}
+
+// Keep the asking part of a consultant utterance: the sentences around the last question mark
+const extractQuestion = (text: string): string => {
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  const lastQuestion = sentences.map(s => s.trim()).filter(s => s.endsWith('?'));
+  return lastQuestion.length > 0 ? lastQuestion.slice(-2).join(' ') : text.trim();
+};
+
+/**
+ * Split the call into question/answer turns. A consultant utterance with a question
+ * opens a turn; prospect speech until the next question is the answer. Consultant
+ * remarks without a question (acknowledgements, summaries) are not notes and are skipped.
+ * Transcripts without speaker labels treat every line ending in "?" as the consultant.
+ */
+export function segmentTranscript(transcript: ParsedTranscript, consultantSpeaker: string | null): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  let current: TranscriptTurn | null = null;
+
+  const isConsultant = (utterance: TranscriptUtterance): boolean =>
+    consultantSpeaker ? utterance.speaker === consultantSpeaker : utterance.text.trim().endsWith('?');
+
+  for (const utterance of transcript.utterances) {
+    if (isConsultant(utterance)) {
+      if (countQuestions(utterance.text) === 0) continue;
+      current = {
+        id: crypto.randomUUID(),
+        question: extractQuestion(utterance.text),
+        answer: '',
+        start: utterance.start,
+        area: null,
+        confidence: 0,
+        classifiedBy: 'local',
+        included: true
+      };
+      turns.push(current);
+      continue;
+    }
+
+    if (!current) {
+      // Prospect talked before the first question
+      current = {
+        id: crypto.randomUUID(),
+        question: '',
+        answer: '',
+        start: utterance.start,
+        area: null,
+        confidence: 0,
+        classifiedBy: 'local',
+        included: true
+      };
+      turns.push(current);
+    }
+    current.answer = current.answer ? `${current.answer}\n${utterance.text}` : utterance.text;
+  }
+
+  return turns
+    .filter(turn => turn.answer.trim())
+    .map(turn => ({ ...turn, included: turn.answer.length >= MIN_ANSWER_LENGTH }));
+}
+
+// ---------------------------------------------------------------------------
+// Classification
+// ---------------------------------------------------------------------------
+
+const contentWords = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z][a-z'-]{3,}/g) || [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(word => word.slice(0, 6));   // Crude stem so "integrate" meets "integration"
+
+const countCues = (cues: RegExp, text: string): number => (text.match(new RegExp(cues.source, cues.flags)) || []).length;
+
+/**
+ * Deterministic classifier used when the model is unavailable. Keyword cues score
+ * the default areas; every area also scores on overlap with its description and
+ * opening questions. The question counts for more than the answer.
+ */
+export function classifyTurnLocally(
+  turn: Pick<TranscriptTurn, 'question' | 'answer'>,
+  areas: MethodologyArea[]
+): { area: string | null; confidence: number } {
+  const questionWords = new Set(contentWords(turn.question));
+  const answerWords = new Set(contentWords(turn.answer));
+
+  const scores = areas.map(area => {
+    const cues = AREA_CUES[area.name as DiscoveryAreaName];
+    const vocabulary = new Set(contentWords(`${area.name} ${area.description} ${area.initialQuestions.join(' ')}`));
+
+    let score = 0;
+    if (cues) {
+      score += countCues(cues, turn.question) * 2 + countCues(cues, turn.answer);
+    }
+    vocabulary.forEach(word => {
+      if (questionWords.has(word)) score += 1;
+      if (answerWords.has(word)) score += 0.5;
+    });
+    return { area: area.name, score };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (!best || best.score === 0) return { area: null, confidence: 0 };
+
+  // Confidence is the margin over the runner-up, so near-ties go to review
+  const margin = (best.score - (runnerUp?.score || 0)) / best.score;
+  const confidence = Math.min(0.95, 0.3 + margin * 0.5 + Math.min(best.score, 6) * 0.03);
+  return { area: best.area, confidence: Math.round(confidence * 100) / 100 };
+}
+
+export function classifyTurnsLocally(turns: TranscriptTurn[], areas: MethodologyArea[]): TranscriptTurn[] {
+  return turns.map(turn => ({ ...turn, ...classifyTurnLocally(turn, areas), classifiedBy: 'local' as const }));
+}
+
+export function buildTurnClassificationPrompt(turns: TranscriptTurn[], areas: MethodologyArea[]): string {
+  const areaList = areas.map(area => `- ${area.name}: ${area.description}`).join('\n');
+  const turnList = turns
+    .map(turn => `[${turn.id}]\nQ: ${turn.question || '(no question)'}\nA: ${turn.answer}`)
+    .join('\n\n');
+
+  return `Classify each question/answer turn from a recorded discovery call into one discovery area.
+
+DISCOVERY AREAS:
+${areaList}
+
+TURNS:
+${turnList}
+
+RULES:
+- Use the area the prospect's answer is mostly about; the question is a hint, not the rule
+- "area" must be one of the area names above exactly, or null for small talk and logistics
+- "confidence" is 0-1: how certain you are of the area
+- Return one entry per turn id
+
+Return JSON:
+{
+  "turns": [
+    { "id": "...", "area": "Pain Points & Challenges", "confidence": 0.8 }
+  ]
+}`;
+}
+
+/**
+ * Apply a model response to the turns; turns the model skipped or got wrong keep the local classification
+ */
+export function parseTurnClassification(
+  raw: unknown,
+  turns: TranscriptTurn[],
+  areas: MethodologyArea[]
+): TranscriptTurn[] | null {
+  const entries = (raw as { turns?: unknown })?.turns;
+  if (!Array.isArray(entries)) return null;
+
+  const areaNames = areas.map(area => area.name);
+  const byId = new Map<string, { area: string | null; confidence: number }>();
+  for (const entry of entries as Record<string, unknown>[]) {
+    const confidence = Number(entry?.confidence);
+    const area = entry?.area === null ? null : typeof entry?.area === 'string' && areaNames.includes(entry.area) ? entry.area : undefined;
+    if (typeof entry?.id !== 'string' || area === undefined || isNaN(confidence)) continue;
+    byId.set(entry.id, { area, confidence: Math.min(1, Math.max(0, Math.round(confidence * 100) / 100)) });
+  }
+
+  const local = classifyTurnsLocally(turns, areas);
+  return local.map(turn => {
+    const classified = byId.get(turn.id);
+    return classified
+      ? { ...turn, ...classified, included: turn.included && classified.area !== null, classifiedBy: 'model' as const }
+      : turn;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Merge
+// ---------------------------------------------------------------------------
+
+/**
+ * Append included, classified turns to the session notes as question blocks.
+ * Returns only the notes that changed, keyed by area id.
+ */
+export function mergeTranscriptTurns(
+  turns: TranscriptTurn[],
+  areas: DiscoveryArea[],
+  notes: Map<string, DiscoveryNote>
+): Map<string, DiscoveryNote> {
+  const updated = new Map<string, DiscoveryNote>();
+
+  for (const turn of turns) {
+    if (!turn.included || !turn.area) continue;
+    const area = areas.find(a => a.area_name === turn.area);
+    if (!area) continue;
+
+    const note = updated.get(area.id) || notes.get(area.id) || {
+      areaId: area.id,
+      areaName: area.area_name,
+      questions: [],
+      currentNotes: '',
+      lastUpdated: new Date()
+    };
+
+    const block: QuestionBlock = {
+      id: crypto.randomUUID(),
+      questionText: turn.question || 'Unprompted remarks from the call',
+      questionNumber: note.questions.length + 1,
+      notes: turn.answer,
+      isCollapsed: true,
+      timestamp: new Date()
+    };
+
+    updated.set(area.id, {
+      ...note,
+      questions: [...note.questions, block],
+      lastUpdated: new Date()
+    });
+  }
+
+  return updated;
+}
+
+export const formatTranscriptTime = (seconds: number | null): string => {
+  if (seconds === null) return '';
+  const whole = Math.floor(seconds);
+  const minutes = Math.floor(whole / 60);
+  return `${minutes}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+export default {
+  parseTranscript,
+  guessConsultantSpeaker,
+  segmentTranscript,
+  classifyTurnsLocally,
+  buildTurnClassificationPrompt,
+  parseTurnClassification,
+  mergeTranscriptTurns
+};
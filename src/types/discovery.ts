@@ -1,9 +1,15 @@
 // Discovery Wizard Type Definitions
 
+import type { OrganizationElicitationPolicy } from '@/services/depthPolicy';
+import type { QuestionProvenance } from '@/services/questionEffectiveness';
+import type { NoteAnnotation } from '@/services/noteAnnotations';
+import type { SessionLocale } from '@/services/locales';
+
 export interface Organization {
   id: string;
   name: string;
   domain: string;
+  elicitation_policy?: OrganizationElicitationPolicy | null;  // Set by Principals/Managers
   created_at: Date;
   updated_at: Date;
 }
@@ -19,18 +25,40 @@ export interface User {
   updated_at: Date;
 }
 
+// Groups the discovery calls held with one company
+export interface Account {
+  id: string;
+  name: string;
+  organization_id?: string;
+  consultant_id: string;         // Who opened it; anyone in the organization can add calls
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface DiscoverySession {
   id: string;
+  account_id?: string;           // Missing on sessions created before accounts
   account_name: string;
   contact_name: string;
   contact_role: string;
   consultant_id: string;
   consultant?: User;
+  organization_id?: string;      // Whose elicitation policy applies
   client_icp: ClientICP;
   business_area: string;
   discovery_context: string;
   solution_scope: SolutionScope;
   next_step_goal: NextStepGoal;
+  methodology_id?: string;       // Sales methodology pack, defaults to 'deep-rabbit'
+  locale?: SessionLocale;        // Language the call is run in, defaults to 'en'
+  custom_icp_id?: string;        // Set instead of client_icp when the consultant has custom ICPs
+  area_names?: string[];         // Subset of the methodology's areas, all of them when missing
+  seeded_questions?: Record<string, string[]>;  // Questions to ask first, by area name
+  template_id?: string;          // Session template this one was set up from
+  cloned_from_session_id?: string;
+  planned_call_minutes?: number; // Call length the area time budgets are planned from, 60 when missing
+  area_time_seconds?: Record<string, number>;  // Time actually spent, by area name
+  total_elicitation_time?: number;  // Seconds, the sum of area_time_seconds
   status: 'in_progress' | 'completed' | 'archived';
   created_at: Date;
   updated_at: Date;
@@ -121,7 +149,7 @@ export type DiscoveryAreaName =
 export interface DiscoveryArea {
   id: string;
   session_id: string;
-  area_name: DiscoveryAreaName;
+  area_name: string;             // DiscoveryAreaName or an area from the session's methodology pack
   completion_percentage: number;
   conversation_data: ConversationMessage[];
   is_active: boolean;
@@ -145,6 +173,9 @@ export interface QuestionBlock {
   notes: string;
   isCollapsed: boolean;
   timestamp: Date;
+  provenance?: QuestionProvenance;  // How the question was generated, for effectiveness tracking
+  prospectSubmitted?: boolean;      // Answered by the prospect in a pre-call questionnaire
+  annotations?: NoteAnnotation[];   // Tagged quotes, numbers, risks and commitments, refreshed from the notes on save
 }
 
 export interface DiscoveryNote {
@@ -156,16 +187,16 @@ export interface DiscoveryNote {
 }
 
 export interface ProgressTracking {
-  totalAssessments: number;      // Target: 16
+  totalAssessments: number;      // Target: organization policy, else areas x min questions per area
   completedAssessments: number;  // Current count
   areaBreakdown: {
     [areaName: string]: {
-      questionsAsked: number;    // Target: 2 per area
+      questionsAsked: number;    // Target: policy min depth for the area (2 by default)
       hasNotes: boolean;
       lastUpdated: Date;
     }
   };
-  isComplete: boolean;           // completedAssessments >= 16
+  isComplete: boolean;           // Target met and every required area at its min depth
 }
 
 // ICP Configurations with industry-specific context
@@ -0,0 +1,11 @@
+-- Sales methodology packs
+-- Sessions record which pack structures their discovery areas and report
+
+ALTER TABLE discovery_sessions
+  ADD COLUMN IF NOT EXISTS methodology_id VARCHAR(50) NOT NULL DEFAULT 'deep-rabbit'
+  CHECK (methodology_id IN ('deep-rabbit', 'meddicc', 'bant', 'spin', 'challenger'));
+
+-- Area names now come from the selected pack rather than a fixed list
+ALTER TABLE discovery_areas DROP CONSTRAINT IF EXISTS discovery_areas_area_name_check;
+
+CREATE INDEX IF NOT EXISTS idx_discovery_sessions_methodology ON discovery_sessions(methodology_id);
@@ -0,0 +1,24 @@
+-- Organization elicitation depth policies
+-- Principals and Managers declare min/max depth, required areas, stop conditions
+-- and the assessment target, per organization and per methodology
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS elicitation_policy JSONB;
+
+COMMENT ON COLUMN organizations.elicitation_policy IS
+  'OrganizationElicitationPolicy: { "default": {...}, "methodologies": { "<methodology_id>": {...} } }';
+
+-- Sessions record whose policy applies
+ALTER TABLE discovery_sessions
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_discovery_sessions_organization ON discovery_sessions(organization_id);
+
+-- Only Principals and Managers may change their organization's policy
+CREATE POLICY "Principals can update their organization" ON organizations
+    FOR UPDATE USING (
+        id IN (
+            SELECT organization_id FROM users
+            WHERE id = auth.uid() AND role IN ('Principal', 'Manager')
+        )
+    );
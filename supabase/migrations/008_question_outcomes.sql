@@ -0,0 +1,37 @@
+-- Question effectiveness history
+-- Every asked question with its provenance and the quality of the notes it produced
+
+CREATE TABLE IF NOT EXISTS question_outcomes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES discovery_sessions(id) ON DELETE CASCADE,
+  question_block_id VARCHAR(100) NOT NULL,
+  area VARCHAR(255) NOT NULL,
+  icp VARCHAR(100),
+  methodology_id VARCHAR(50) NOT NULL DEFAULT 'deep-rabbit',
+  source VARCHAR(50) NOT NULL
+    CHECK (source IN ('model', 'template', 'clarification', 'wrap-up', 'contradiction', 'fallback')),
+  depth INTEGER NOT NULL,
+  template TEXT,
+  prompt_version VARCHAR(100),
+  question_text TEXT NOT NULL,
+  dimensions JSONB NOT NULL,
+  score NUMERIC(3, 2) NOT NULL CHECK (score >= 0 AND score <= 1),
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_outcomes_area_depth ON question_outcomes(area, depth);
+CREATE INDEX IF NOT EXISTS idx_question_outcomes_icp ON question_outcomes(icp);
+
+ALTER TABLE question_outcomes ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility as the sessions the questions were asked in
+CREATE POLICY "Users can view team question outcomes" ON question_outcomes
+    FOR ALL USING (
+        session_id IN (
+            SELECT id FROM discovery_sessions WHERE consultant_id IN (
+                SELECT id FROM users WHERE organization_id IN (
+                    SELECT organization_id FROM users WHERE id = auth.uid()
+                )
+            )
+        )
+    );
@@ -0,0 +1,12 @@
+-- Multilingual discovery sessions
+-- The language a call is run in, and the language each recorded question was asked in
+
+ALTER TABLE discovery_sessions
+  ADD COLUMN IF NOT EXISTS locale VARCHAR(10) NOT NULL DEFAULT 'en'
+    CHECK (locale IN ('en', 'de', 'es', 'ja'));
+
+-- Few-shot examples are only drawn from questions asked in the session's language
+ALTER TABLE question_outcomes
+  ADD COLUMN IF NOT EXISTS locale VARCHAR(10) NOT NULL DEFAULT 'en';
+
+CREATE INDEX IF NOT EXISTS idx_question_outcomes_locale ON question_outcomes(locale);
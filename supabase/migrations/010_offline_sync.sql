@@ -0,0 +1,45 @@
+-- Offline-first session storage
+-- Notes get their own table, and synced rows record when each field was last edited
+-- so the client sync queue can resolve conflicts per field
+
+CREATE TABLE IF NOT EXISTS discovery_notes (
+  id UUID PRIMARY KEY REFERENCES discovery_areas(id) ON DELETE CASCADE,  -- One note per area
+  session_id UUID REFERENCES discovery_sessions(id) ON DELETE CASCADE,
+  area_id UUID,
+  area_name VARCHAR(255),
+  questions JSONB NOT NULL DEFAULT '[]',
+  current_notes TEXT NOT NULL DEFAULT '',
+  last_updated TIMESTAMP WITH TIME ZONE,
+  field_versions JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_discovery_notes_session ON discovery_notes(session_id);
+
+CREATE TRIGGER update_discovery_notes_updated_at BEFORE UPDATE ON discovery_notes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE discovery_notes ENABLE ROW LEVEL SECURITY;
+
+-- Discovery notes: Same as discovery sessions
+CREATE POLICY "Users can manage team discovery notes" ON discovery_notes
+    FOR ALL USING (
+        session_id IN (
+            SELECT id FROM discovery_sessions WHERE consultant_id IN (
+                SELECT id FROM users WHERE organization_id IN (
+                    SELECT organization_id FROM users WHERE id = auth.uid()
+                )
+            )
+        )
+    );
+
+-- Per-field edit times (epoch ms, keyed by client field name)
+ALTER TABLE discovery_sessions ADD COLUMN IF NOT EXISTS field_versions JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE discovery_areas ADD COLUMN IF NOT EXISTS field_versions JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE prospect_discovery ADD COLUMN IF NOT EXISTS field_versions JSONB NOT NULL DEFAULT '{}';
+
+-- The session page marks sessions left mid-call as abandoned
+ALTER TABLE discovery_sessions DROP CONSTRAINT IF EXISTS discovery_sessions_status_check;
+ALTER TABLE discovery_sessions ADD CONSTRAINT discovery_sessions_status_check
+  CHECK (status IN ('in_progress', 'completed', 'archived', 'abandoned'));
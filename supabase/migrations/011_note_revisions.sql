@@ -0,0 +1,33 @@
+-- Note revision history
+-- One row per question block or per area's working notes, holding every saved version
+-- so accidental overwrites can be diffed and restored
+
+CREATE TABLE IF NOT EXISTS note_revisions (
+  id UUID PRIMARY KEY,  -- Question block id, or area id for the area's working notes
+  session_id UUID REFERENCES discovery_sessions(id) ON DELETE CASCADE,
+  area_id UUID REFERENCES discovery_areas(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL DEFAULT 'question' CHECK (kind IN ('question', 'current')),
+  revisions JSONB NOT NULL DEFAULT '[]',  -- [{id, text, author, reason, createdAt, restoredFrom?}]
+  field_versions JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_revisions_session ON note_revisions(session_id);
+
+CREATE TRIGGER update_note_revisions_updated_at BEFORE UPDATE ON note_revisions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE note_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Note revisions: Same as discovery sessions
+CREATE POLICY "Users can manage team note revisions" ON note_revisions
+    FOR ALL USING (
+        session_id IN (
+            SELECT id FROM discovery_sessions WHERE consultant_id IN (
+                SELECT id FROM users WHERE organization_id IN (
+                    SELECT organization_id FROM users WHERE id = auth.uid()
+                )
+            )
+        )
+    );
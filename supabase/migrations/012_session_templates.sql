@@ -0,0 +1,56 @@
+-- Session templates and cloning
+-- Named, reusable session setups (ICP, context, scope, goal, area subset and seeded questions)
+-- that can be kept private or shared across an organization
+
+CREATE TABLE IF NOT EXISTS session_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  name VARCHAR(200) NOT NULL,
+  description TEXT,
+  visibility VARCHAR(20) NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'organization')),
+  client_icp VARCHAR(100),
+  custom_icp_id UUID,
+  business_area TEXT,
+  discovery_context TEXT,
+  solution_scope VARCHAR(100),
+  next_step_goal VARCHAR(100),
+  methodology_id VARCHAR(50),
+  locale VARCHAR(10),
+  area_names JSONB NOT NULL DEFAULT '[]',        -- Ordered subset of the methodology's areas
+  seeded_questions JSONB NOT NULL DEFAULT '{}',  -- { "<area name>": ["question", ...] }
+  field_versions JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  deleted_at TIMESTAMP WITH TIME ZONE            -- Deletes sync as an edit; clients hide these rows
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_templates_organization ON session_templates(organization_id);
+CREATE INDEX IF NOT EXISTS idx_session_templates_created_by ON session_templates(created_by);
+
+CREATE TRIGGER update_session_templates_updated_at BEFORE UPDATE ON session_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Sessions keep their own copy of the area subset and seeded questions,
+-- so editing a template never changes a call already set up from it
+ALTER TABLE discovery_sessions
+  ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES session_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS cloned_from_session_id UUID REFERENCES discovery_sessions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS area_names JSONB,
+  ADD COLUMN IF NOT EXISTS seeded_questions JSONB;
+
+ALTER TABLE session_templates ENABLE ROW LEVEL SECURITY;
+
+-- Everyone sees their own templates and the ones shared with their organization
+CREATE POLICY "Users can view own and shared session templates" ON session_templates
+    FOR SELECT USING (
+        created_by = auth.uid()
+        OR (
+            visibility = 'organization'
+            AND organization_id IN (SELECT organization_id FROM users WHERE id = auth.uid())
+        )
+    );
+
+-- Only the author changes a template
+CREATE POLICY "Users can manage own session templates" ON session_templates
+    FOR ALL USING (created_by = auth.uid());
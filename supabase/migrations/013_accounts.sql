@@ -0,0 +1,48 @@
+-- Accounts
+-- Groups the discovery calls held with one company, so follow-up calls start from
+-- what earlier calls found and reports can cover the whole account
+
+CREATE TABLE IF NOT EXISTS accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  consultant_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  name VARCHAR(200) NOT NULL,
+  field_versions JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounts_organization ON accounts(organization_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_organization_name ON accounts(organization_id, lower(name));
+
+CREATE TRIGGER update_accounts_updated_at BEFORE UPDATE ON accounts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE discovery_sessions
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_discovery_sessions_account ON discovery_sessions(account_id);
+
+-- Existing sessions are grouped by organization and account name
+INSERT INTO accounts (organization_id, consultant_id, name)
+SELECT DISTINCT ON (s.organization_id, lower(s.account_name)) s.organization_id, s.consultant_id, s.account_name
+FROM discovery_sessions s
+WHERE s.account_id IS NULL AND s.organization_id IS NOT NULL
+ORDER BY s.organization_id, lower(s.account_name), s.created_at
+ON CONFLICT DO NOTHING;
+
+UPDATE discovery_sessions s
+SET account_id = a.id
+FROM accounts a
+WHERE s.account_id IS NULL
+  AND a.organization_id = s.organization_id
+  AND lower(a.name) = lower(s.account_name);
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+-- Accounts: Shared across the organization, like its sessions
+CREATE POLICY "Users can manage organization accounts" ON accounts
+    FOR ALL USING (
+        organization_id IN (SELECT organization_id FROM users WHERE id = auth.uid())
+        OR consultant_id = auth.uid()
+    );
@@ -0,0 +1,106 @@
+-- Prospect pre-discovery questionnaires
+-- A short form the prospect answers before the call through a tokenized public link.
+-- Answers are added to the session as prospect-submitted question blocks.
+
+CREATE TABLE IF NOT EXISTS prospect_questionnaires (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token VARCHAR(64) NOT NULL UNIQUE,
+  session_id UUID REFERENCES discovery_sessions(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  account_name VARCHAR(200),
+  contact_name VARCHAR(200),
+  consultant_name VARCHAR(200),
+  questions JSONB NOT NULL DEFAULT '[]',  -- [{id, areaName, questionText}]
+  answers JSONB NOT NULL DEFAULT '{}',    -- { "<question id>": "answer" }
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'submitted', 'revoked')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  applied_at TIMESTAMP WITH TIME ZONE,
+  field_versions JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_prospect_questionnaires_session ON prospect_questionnaires(session_id);
+
+CREATE TRIGGER update_prospect_questionnaires_updated_at BEFORE UPDATE ON prospect_questionnaires
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE prospect_questionnaires ENABLE ROW LEVEL SECURITY;
+
+-- Prospect questionnaires: Same as discovery sessions
+CREATE POLICY "Users can manage team prospect questionnaires" ON prospect_questionnaires
+    FOR ALL USING (
+        session_id IN (
+            SELECT id FROM discovery_sessions WHERE consultant_id IN (
+                SELECT id FROM users WHERE organization_id IN (
+                    SELECT organization_id FROM users WHERE id = auth.uid()
+                )
+            )
+        )
+    );
+
+-- Prospects aren't signed in, so the public form goes through these two functions.
+-- They only ever expose or change the one questionnaire the token names.
+CREATE OR REPLACE FUNCTION get_prospect_questionnaire(questionnaire_token TEXT)
+RETURNS TABLE (
+  account_name VARCHAR,
+  contact_name VARCHAR,
+  consultant_name VARCHAR,
+  questions JSONB,
+  status VARCHAR,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.account_name, q.contact_name, q.consultant_name, q.questions, q.status, q.expires_at
+  FROM prospect_questionnaires q
+  WHERE q.token = questionnaire_token;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_prospect_questionnaire(questionnaire_token TEXT, questionnaire_answers JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  edited_at BIGINT := floor(extract(epoch FROM now()) * 1000);
+  asked JSONB;
+  cleaned JSONB;
+BEGIN
+  SELECT questions INTO asked
+  FROM prospect_questionnaires
+  WHERE token = questionnaire_token
+    AND status = 'open'
+    AND expires_at > now()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Same rules as cleanAnswers: only the questions that were asked, non-empty text, at most MAX_ANSWER_LENGTH (4000) characters
+  SELECT jsonb_object_agg(answer.key, left(btrim(answer.value #>> '{}'), 4000)) INTO cleaned
+  FROM jsonb_each(questionnaire_answers) AS answer
+  WHERE jsonb_typeof(answer.value) = 'string'
+    AND btrim(answer.value #>> '{}') <> ''
+    AND answer.key IN (SELECT question->>'id' FROM jsonb_array_elements(asked) AS question);
+  IF cleaned IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Field versions move too, so the consultant's stale local copy can't sync over the answers
+  UPDATE prospect_questionnaires
+  SET answers = cleaned,
+      status = 'submitted',
+      submitted_at = now(),
+      field_versions = field_versions || jsonb_build_object('answers', edited_at, 'status', edited_at, 'submitted_at', edited_at)
+  WHERE token = questionnaire_token;
+  RETURN TRUE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_prospect_questionnaire(TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION submit_prospect_questionnaire(TEXT, JSONB) TO anon;
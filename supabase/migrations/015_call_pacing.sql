@@ -0,0 +1,13 @@
+-- Call pacing and time-boxing
+-- The planned call length area budgets are derived from, and the time actually spent per area
+
+ALTER TABLE discovery_sessions
+  ADD COLUMN IF NOT EXISTS planned_call_minutes INTEGER
+    CHECK (planned_call_minutes BETWEEN 15 AND 180),
+  ADD COLUMN IF NOT EXISTS area_time_seconds JSONB NOT NULL DEFAULT '{}',  -- { "<area name>": seconds }
+  ADD COLUMN IF NOT EXISTS total_elicitation_time INTEGER;                 -- seconds, sum of area_time_seconds
+
+-- Templates carry the call length along with the rest of the setup
+ALTER TABLE session_templates
+  ADD COLUMN IF NOT EXISTS planned_call_minutes INTEGER
+    CHECK (planned_call_minutes BETWEEN 15 AND 180);
@@ -0,0 +1,34 @@
+-- Stakeholder power maps
+-- The prospect's people with their influence, attitude and relationships.
+-- One map per account, or per session for calls made without an account.
+
+CREATE TABLE IF NOT EXISTS stakeholder_maps (
+  id UUID PRIMARY KEY,                              -- The account's id, or the session's
+  account_id UUID REFERENCES accounts(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES discovery_sessions(id) ON DELETE CASCADE,
+  stakeholders JSONB NOT NULL DEFAULT '[]',         -- [{id, name, role, department, influence, attitude, notes, source, addedBy, confirmed}]
+  relationships JSONB NOT NULL DEFAULT '[]',        -- [{id, from, to, kind, source}]
+  field_versions JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_stakeholder_maps_account ON stakeholder_maps(account_id);
+CREATE INDEX IF NOT EXISTS idx_stakeholder_maps_session ON stakeholder_maps(session_id);
+
+CREATE TRIGGER update_stakeholder_maps_updated_at BEFORE UPDATE ON stakeholder_maps
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE stakeholder_maps ENABLE ROW LEVEL SECURITY;
+
+-- Stakeholder maps: Same as discovery sessions
+CREATE POLICY "Users can manage team stakeholder maps" ON stakeholder_maps
+    FOR ALL USING (
+        session_id IN (
+            SELECT id FROM discovery_sessions WHERE consultant_id IN (
+                SELECT id FROM users WHERE organization_id IN (
+                    SELECT organization_id FROM users WHERE id = auth.uid()
+                )
+            )
+        )
+    );